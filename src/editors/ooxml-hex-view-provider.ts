@@ -0,0 +1,109 @@
+import { basename } from 'path';
+import { CustomDocument, CustomReadonlyEditorProvider, Uri, WebviewPanel } from 'vscode';
+import { CompoundFile, CompoundFileEntry } from '../utilities/compound-file';
+import { ExtensionUtilities } from '../utilities/extension-utilities';
+import { FileSystemUtilities } from '../utilities/file-system-utilities';
+import { HexFormatter } from '../utilities/hex-formatter';
+import logger from '../utilities/logger';
+
+export const HEX_VIEW_VIEW_TYPE = 'ooxmlViewer.hexView';
+
+// Larger files are cut off so that the webview stays responsive
+const MAXIMUM_HEX_VIEW_BYTES = 1024 * 1024;
+
+/**
+ * Read-only hex view of the binary parts of an ooxml package, e.g. printerSettings1.bin,
+ * which also lists the storages and streams of parts that are compound files, e.g. vbaProject.bin and oleObject1.bin.
+ */
+export class OOXMLHexViewProvider implements CustomReadonlyEditorProvider {
+  /**
+   * Opens the file, which is read when the view is resolved.
+   *
+   * @param {Uri} uri The uri of the file.
+   * @returns {CustomDocument} The document of the file.
+   */
+  openCustomDocument(uri: Uri): CustomDocument {
+    return { uri: uri, dispose: () => undefined };
+  }
+
+  /**
+   * Fills the webview with the hex dump of the file.
+   *
+   * @param {CustomDocument} document The document of the file.
+   * @param {WebviewPanel} webviewPanel The webview panel of the view.
+   */
+  async resolveCustomEditor(document: CustomDocument, webviewPanel: WebviewPanel): Promise<void> {
+    try {
+      logger.debug(`Viewing '${document.uri.toString()}' as hex`);
+      webviewPanel.webview.options = { enableScripts: false, localResourceRoots: [] };
+
+      const data = await FileSystemUtilities.readFile(document.uri);
+      webviewPanel.webview.html = OOXMLHexViewProvider.getHtml(basename(document.uri.path), data);
+    } catch (err) {
+      await ExtensionUtilities.showError(err);
+    }
+  }
+
+  private static getHtml(name: string, data: Uint8Array): string {
+    const escape = OOXMLHexViewProvider.escapeHtml;
+    const rows = HexFormatter.format(data.subarray(0, MAXIMUM_HEX_VIEW_BYTES));
+    const hexWidth = 16 * 3 - 1;
+    const dump = rows.map(r => `${r.offset}  ${r.hex.padEnd(hexWidth)}  ${escape(r.ascii)}`).join('\n');
+    const truncatedNote =
+      data.length > MAXIMUM_HEX_VIEW_BYTES
+        ? `<p class="note">Showing the first ${MAXIMUM_HEX_VIEW_BYTES.toLocaleString('en-US')} of ${data.length.toLocaleString('en-US')} bytes.</p>`
+        : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+  <style>
+    pre { font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+    th, td { text-align: left; padding-right: 1em; }
+    .note { font-style: italic; }
+  </style>
+  <title>${escape(name)}</title>
+</head>
+<body>
+  <p>${data.length.toLocaleString('en-US')} bytes</p>
+  ${OOXMLHexViewProvider.getCompoundFileHtml(data)}
+  ${truncatedNote}
+  <pre>${dump}</pre>
+</body>
+</html>`;
+  }
+
+  private static getCompoundFileHtml(data: Uint8Array): string {
+    if (!CompoundFile.isCompoundFile(data)) {
+      return '';
+    }
+
+    let compoundFile: CompoundFile;
+    try {
+      compoundFile = new CompoundFile(data);
+    } catch (err) {
+      return `<p class="note">The compound file could not be read: ${OOXMLHexViewProvider.escapeHtml((err as Error)?.message ?? '')}</p>`;
+    }
+
+    const rows: string[] = [];
+    const addRows = (entry: CompoundFileEntry) => {
+      for (const child of entry.children) {
+        const size = child.isStorage ? '' : `${child.size.toLocaleString('en-US')} bytes`;
+        rows.push(
+          `<tr><td>${OOXMLHexViewProvider.escapeHtml(CompoundFile.getPrintableName(child.path))}</td><td>${child.isStorage ? 'Storage' : 'Stream'}</td><td>${size}</td></tr>`,
+        );
+        addRows(child);
+      }
+    };
+    addRows(compoundFile.root);
+
+    return `<h3>Compound file storages and streams</h3>
+  <table><tr><th>Path</th><th>Type</th><th>Size</th></tr>${rows.join('')}</table>`;
+  }
+
+  private static escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,135 @@
+import { lookup } from 'mime-types';
+import { basename } from 'path';
+import { CustomDocument, CustomReadonlyEditorProvider, Uri, WebviewPanel } from 'vscode';
+import { PartReferences } from '../ooxml-package/ooxml-package-facade';
+import { OOXMLViewer } from '../ooxml-viewer';
+import { ExtensionUtilities } from '../utilities/extension-utilities';
+import { FileSystemUtilities } from '../utilities/file-system-utilities';
+import { ImageHeader, ImageHeaderReader } from '../utilities/image-header-reader';
+import logger from '../utilities/logger';
+
+export const IMAGE_PREVIEW_VIEW_TYPE = 'ooxmlViewer.imagePreview';
+
+// The image types a webview can show, the others are described from their headers only
+const RENDERABLE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/bmp', 'image/svg+xml', 'image/webp', 'image/x-icon'];
+const CENTIMETERS_PER_INCH = 2.54;
+
+/**
+ * Read-only preview of the image parts of an ooxml package, showing the picture, its pixel size, resolution and file size,
+ * and the parts that reference it through relationships.
+ */
+export class OOXMLImagePreviewProvider implements CustomReadonlyEditorProvider {
+  /**
+   * Creates the image preview provider.
+   *
+   * @constructor
+   * @param {OOXMLViewer} ooxmlViewer The viewer of the opened ooxml packages the previewed images are in.
+   */
+  constructor(private ooxmlViewer: OOXMLViewer) {}
+
+  /**
+   * Opens the image, which is read when the preview is resolved.
+   *
+   * @param {Uri} uri The uri of the image.
+   * @returns {CustomDocument} The document of the image.
+   */
+  openCustomDocument(uri: Uri): CustomDocument {
+    return { uri: uri, dispose: () => undefined };
+  }
+
+  /**
+   * Fills the webview with the image and its details.
+   *
+   * @param {CustomDocument} document The document of the image.
+   * @param {WebviewPanel} webviewPanel The webview panel of the preview.
+   */
+  async resolveCustomEditor(document: CustomDocument, webviewPanel: WebviewPanel): Promise<void> {
+    try {
+      logger.debug(`Previewing '${document.uri.toString()}'`);
+      // the image is embedded in the html, since the webview can't load the parts served by the ooxml file system provider
+      webviewPanel.webview.options = { enableScripts: false, localResourceRoots: [] };
+
+      const data = await FileSystemUtilities.readFile(document.uri);
+      const partReferences = await this.ooxmlViewer.getPartReferences(document.uri);
+      webviewPanel.webview.html = OOXMLImagePreviewProvider.getHtml(document.uri, data, partReferences);
+    } catch (err) {
+      await ExtensionUtilities.showError(err);
+    }
+  }
+
+  private static getHtml(uri: Uri, data: Uint8Array, partReferences: PartReferences | undefined): string {
+    const escape = OOXMLImagePreviewProvider.escapeHtml;
+    const name = basename(uri.path);
+    const mimeType = lookup(name) || undefined;
+    const header = ImageHeaderReader.read(data);
+    const picture =
+      mimeType && RENDERABLE_MIME_TYPES.includes(mimeType)
+        ? `<img src="data:${mimeType};base64,${Buffer.from(data).toString('base64')}" alt="${escape(name)}">`
+        : `<p class="note">${escape(header?.format ?? mimeType ?? name)} images can't be shown here${header ? ', the details are read from the header' : ''}.</p>`;
+
+    const details = [
+      ['Format', header?.format ?? mimeType ?? 'Unknown'],
+      ...OOXMLImagePreviewProvider.getHeaderDetails(header),
+      ['File size', `${data.length.toLocaleString('en-US')} bytes`],
+    ];
+
+    const references = partReferences?.references.length
+      ? `<ul>${partReferences.references
+          .map(
+            r =>
+              `<li>${escape(r.sourcePartPath || '/')} <code>${escape(r.relationship.id)}</code> ${escape(basename(r.relationship.type))}</li>`,
+          )
+          .join('')}</ul>`
+      : `<p>${partReferences ? 'No relationships target this part.' : "The image isn't a part of an opened OOXML package."}</p>`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src 'unsafe-inline';">
+  <style>
+    img { max-width: 100%; background: repeating-conic-gradient(#8882 0% 25%, transparent 0% 50%) 0 0 / 16px 16px; }
+    th { text-align: left; padding-right: 1em; }
+    .note { font-style: italic; }
+  </style>
+  <title>${escape(name)}</title>
+</head>
+<body>
+  ${picture}
+  <table>${details.map(([label, value]) => `<tr><th>${label}</th><td>${escape(value)}</td></tr>`).join('')}</table>
+  <h3>Referenced by</h3>
+  ${references}
+</body>
+</html>`;
+  }
+
+  private static getHeaderDetails(header: ImageHeader | undefined): string[][] {
+    if (!header) {
+      return [];
+    }
+
+    const round = OOXMLImagePreviewProvider.round;
+    const details = [['Dimensions', `${header.width} × ${header.height} ${header.format === 'WMF' ? 'logical units' : 'pixels'}`]];
+    if (header.horizontalDpi && header.verticalDpi) {
+      const widthInInches = header.width / header.horizontalDpi;
+      const heightInInches = header.height / header.verticalDpi;
+      details.push(
+        ['Resolution', `${round(header.horizontalDpi)} × ${round(header.verticalDpi)} DPI`],
+        [
+          'Print size',
+          `${round(widthInInches * CENTIMETERS_PER_INCH)} × ${round(heightInInches * CENTIMETERS_PER_INCH)} cm (${round(widthInInches)} × ${round(heightInInches)} in)`,
+        ],
+      );
+    }
+
+    return details;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private static escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
@@ -1,5 +1,10 @@
-import { commands, ExtensionContext, Uri, window } from 'vscode';
+import { commands, ExtensionContext, Uri, window, workspace } from 'vscode';
+import { HEX_VIEW_VIEW_TYPE, OOXMLHexViewProvider } from './editors/ooxml-hex-view-provider';
+import { IMAGE_PREVIEW_VIEW_TYPE, OOXMLImagePreviewProvider } from './editors/ooxml-image-preview-provider';
+import { OOXML_SCHEME, OOXMLFileSystemProvider } from './file-system/ooxml-file-system-provider';
 import { OOXMLViewer } from './ooxml-viewer';
+import { OOXMLRelationshipTreeDataProvider } from './tree-view/ooxml-relationship-tree-view-provider';
+import { OOXMLTreeDragAndDropController } from './tree-view/ooxml-tree-drag-and-drop-controller';
 import { FileNode, OOXMLTreeDataProvider } from './tree-view/ooxml-tree-view-provider';
 
 import packageJson from '../package.json';
@@ -12,19 +17,30 @@ let ooxmlViewer: OOXMLViewer;
 
 export async function activate(context: ExtensionContext): Promise<void> {
   const treeDataProvider = new OOXMLTreeDataProvider();
-  const treeView = window.createTreeView('ooxmlViewer', { treeDataProvider: treeDataProvider });
+  const treeView = window.createTreeView('ooxmlViewer', {
+    treeDataProvider: treeDataProvider,
+    dragAndDropController: new OOXMLTreeDragAndDropController(),
+  });
   treeView.title = extensionName;
+  const relationshipTreeDataProvider = new OOXMLRelationshipTreeDataProvider();
+  const relationshipTreeView = window.createTreeView('ooxmlRelationships', { treeDataProvider: relationshipTreeDataProvider });
 
   const settings = getExtensionSettings();
   logger.info(`Starting '${extensionName}': ${JSON.stringify(settings, null, 4)}`);
 
-  ooxmlViewer = new OOXMLViewer(treeDataProvider, settings, context);
+  const fileSystemProvider = new OOXMLFileSystemProvider();
+  ooxmlViewer = new OOXMLViewer(treeDataProvider, settings, context, relationshipTreeDataProvider, fileSystemProvider);
   await ooxmlViewer.reset();
 
   context.subscriptions.push(
     treeView,
+    relationshipTreeView,
+
+    workspace.registerFileSystemProvider(OOXML_SCHEME, fileSystemProvider, { isCaseSensitive: true }),
 
     window.registerTreeDataProvider('ooxmlViewer', treeDataProvider),
+    window.registerCustomEditorProvider(IMAGE_PREVIEW_VIEW_TYPE, new OOXMLImagePreviewProvider(ooxmlViewer)),
+    window.registerCustomEditorProvider(HEX_VIEW_VIEW_TYPE, new OOXMLHexViewProvider()),
     commands.registerCommand('ooxmlViewer.openOoxmlPackage', (file: Uri) => ooxmlViewer.openOOXMLPackage(file.fsPath)),
     commands.registerCommand('ooxmlViewer.removeOoxmlPackage', (fileNode: FileNode) =>
       ooxmlViewer.removeOOXMLPackage(fileNode.ooxmlPackagePath),
@@ -32,11 +48,52 @@ export async function activate(context: ExtensionContext): Promise<void> {
     commands.registerCommand('ooxmlViewer.viewFile', (fileNode: FileNode) =>
       ooxmlViewer.viewFile(fileNode.ooxmlPackagePath, fileNode.nodePath),
     ),
+    commands.registerCommand('ooxmlViewer.viewStream', (fileNode: FileNode) =>
+      ooxmlViewer.viewStream(fileNode.ooxmlPackagePath, fileNode.partPath, fileNode.streamPath),
+    ),
+    commands.registerCommand('ooxmlViewer.viewVbaModule', (fileNode: FileNode) =>
+      ooxmlViewer.viewVbaModule(fileNode.ooxmlPackagePath, fileNode.partPath, fileNode.vbaModuleName),
+    ),
     commands.registerCommand('ooxmlViewer.clear', () => ooxmlViewer.reset()),
     commands.registerCommand('ooxmlViewer.showDiff', (fileNode: FileNode) =>
       ooxmlViewer.getDiff(fileNode.ooxmlPackagePath, fileNode.nodePath),
     ),
     commands.registerCommand('ooxmlViewer.searchParts', (fileNode: FileNode) => ooxmlViewer.searchOOXMLParts(fileNode.ooxmlPackagePath)),
+    commands.registerCommand('ooxmlViewer.showPartHistory', (fileNode: FileNode) =>
+      ooxmlViewer.showPartHistory(fileNode.ooxmlPackagePath, fileNode.nodePath),
+    ),
+    commands.registerCommand('ooxmlViewer.createPart', (fileNode: FileNode) =>
+      ooxmlViewer.createPart(fileNode.ooxmlPackagePath, fileNode.isOOXMLPackage ? '' : fileNode.nodePath),
+    ),
+    commands.registerCommand('ooxmlViewer.deletePart', (fileNode: FileNode) =>
+      ooxmlViewer.deletePart(fileNode.ooxmlPackagePath, fileNode.nodePath),
+    ),
+    commands.registerCommand('ooxmlViewer.renamePart', (fileNode: FileNode) =>
+      ooxmlViewer.renamePart(fileNode.ooxmlPackagePath, fileNode.nodePath),
+    ),
+    commands.registerCommand('ooxmlViewer.importFiles', (fileNode: FileNode, filePaths?: string[]) =>
+      ooxmlViewer.importFiles(fileNode.ooxmlPackagePath, fileNode.isOOXMLPackage ? '' : fileNode.nodePath, filePaths),
+    ),
+    commands.registerCommand('ooxmlViewer.extractPackage', (fileNode: FileNode) => ooxmlViewer.extractPackage(fileNode.ooxmlPackagePath)),
+    commands.registerCommand('ooxmlViewer.validatePackage', (fileNode: FileNode) => ooxmlViewer.validatePackage(fileNode.ooxmlPackagePath)),
+    commands.registerCommand('ooxmlViewer.restorePreviousVersion', (fileNode: FileNode) =>
+      ooxmlViewer.restorePreviousVersion(fileNode.ooxmlPackagePath),
+    ),
+    commands.registerCommand('ooxmlViewer.packFolder', (folder: Uri) => ooxmlViewer.packFolder(folder.fsPath)),
+    commands.registerCommand('ooxmlViewer.comparePackages', (resource: Uri | FileNode, selectedResources?: Uri[]) =>
+      resource instanceof FileNode
+        ? ooxmlViewer.comparePackages(undefined, resource.ooxmlPackagePath)
+        : selectedResources && selectedResources.length > 1
+          ? ooxmlViewer.comparePackages(selectedResources[0].fsPath, selectedResources[1].fsPath)
+          : ooxmlViewer.comparePackages(undefined, resource.fsPath),
+    ),
+    commands.registerCommand('ooxmlViewer.compareWithHead', (fileNode: FileNode) => ooxmlViewer.compareWithHead(fileNode.ooxmlPackagePath)),
+    commands.registerCommand('ooxmlViewer.showComparisonDiff', (fileNode: FileNode) =>
+      ooxmlViewer.getComparisonDiff(fileNode.comparedPackagePath, fileNode.ooxmlPackagePath, fileNode.nodePath),
+    ),
+    commands.registerCommand('ooxmlViewer.removeComparison', (fileNode: FileNode) =>
+      ooxmlViewer.removeComparison(fileNode.comparedPackagePath, fileNode.ooxmlPackagePath),
+    ),
   );
 }
 
@@ -0,0 +1,113 @@
+import { Disposable, Event, EventEmitter, FileChangeEvent, FileStat, FileSystemError, FileSystemProvider, FileType, Uri } from 'vscode';
+
+export const OOXML_SCHEME = 'ooxml';
+
+/**
+ * Serves the files of the opened ooxml packages under the ooxml scheme, e.g. ooxml:/path/report.docx/word/document.xml,
+ * so the parts are read from and written to the loaded packages instead of copies on disk.
+ * Each package registers its files under its own path, embedded packages under the path of their part in the container package.
+ */
+export class OOXMLFileSystemProvider implements FileSystemProvider {
+  private fileSystems = new Map<string, PackageFileSystem>();
+  private didChangeFileEmitter = new EventEmitter<FileChangeEvent[]>();
+
+  readonly onDidChangeFile: Event<FileChangeEvent[]> = this.didChangeFileEmitter.event;
+
+  /**
+   * Registers the files of an ooxml package.
+   *
+   * @param {Uri} rootUri The ooxml uri of the package, the uris of its files are below it.
+   * @param {PackageFileSystem} fileSystem The files of the package.
+   * @returns {Disposable} The registration, disposing it unregisters the files.
+   */
+  register(rootUri: Uri, fileSystem: PackageFileSystem): Disposable {
+    this.fileSystems.set(rootUri.path, fileSystem);
+    return new Disposable(() => {
+      if (this.fileSystems.get(rootUri.path) === fileSystem) {
+        this.fileSystems.delete(rootUri.path);
+      }
+    });
+  }
+
+  /**
+   * Finds the files of the ooxml package a file belongs to.
+   *
+   * @param {Uri} uri The uri of the file.
+   * @returns {PackageFileSystem | undefined} The files of the package or undefined if the file isn't in an opened package.
+   */
+  findFileSystem(uri: Uri): PackageFileSystem | undefined {
+    // the files of an embedded package are below the uri of its part, so the deepest package that contains the file wins
+    let path = uri.path;
+    while ((path = path.substring(0, path.lastIndexOf('/')))) {
+      const fileSystem = this.fileSystems.get(path);
+      if (fileSystem) {
+        return fileSystem;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Tells the editors showing the files that they changed, so they are reloaded.
+   *
+   * @param {FileChangeEvent[]} events The changes.
+   */
+  fireDidChangeFile(events: FileChangeEvent[]): void {
+    if (events.length) {
+      this.didChangeFileEmitter.fire(events);
+    }
+  }
+
+  watch(): Disposable {
+    // the packages report the changes of all their files
+    return new Disposable(() => undefined);
+  }
+
+  async stat(uri: Uri): Promise<FileStat> {
+    return await this.getFileSystem(uri).stat(uri);
+  }
+
+  readDirectory(): [string, FileType][] {
+    return [];
+  }
+
+  createDirectory(uri: Uri): void {
+    throw FileSystemError.NoPermissions(uri);
+  }
+
+  async readFile(uri: Uri): Promise<Uint8Array> {
+    return await this.getFileSystem(uri).readFile(uri);
+  }
+
+  async writeFile(uri: Uri, content: Uint8Array): Promise<void> {
+    await this.getFileSystem(uri).writeFile(uri, content);
+  }
+
+  delete(uri: Uri): void {
+    // parts are created, deleted and renamed with the commands of the tree view, which update the relationships too
+    throw FileSystemError.NoPermissions(uri);
+  }
+
+  rename(oldUri: Uri): void {
+    throw FileSystemError.NoPermissions(oldUri);
+  }
+
+  private getFileSystem(uri: Uri): PackageFileSystem {
+    const fileSystem = this.findFileSystem(uri);
+    if (!fileSystem) {
+      throw FileSystemError.FileNotFound(uri);
+    }
+
+    return fileSystem;
+  }
+}
+
+/**
+ * The files of an ooxml package served by the ooxml file system provider.
+ */
+export interface PackageFileSystem {
+  stat(uri: Uri): Promise<FileStat>;
+  readFile(uri: Uri): Promise<Uint8Array>;
+  writeFile(uri: Uri, content: Uint8Array): Promise<void>;
+}
@@ -12,6 +12,8 @@ export function getExtensionSettings(): OOXMLExtensionSettings {
     maximumOOXMLFileSizeBytes: ooxmlViewerConfigurationSection.get('maximumOoxmlFileSizeBytes') ?? 50000000,
     maximumNumberOfOOXMLParts: ooxmlViewerConfigurationSection.get('maximumNumberOfOoxmlParts') ?? 1000,
     maximumXmlPartsFileSizeBytes: ooxmlViewerConfigurationSection.get('maximumXmlPartsFileSizeBytes') ?? 1000000,
+    backupLocation: ooxmlViewerConfigurationSection.get('backupLocation') ?? 'extensionStorage',
+    maximumNumberOfBackups: ooxmlViewerConfigurationSection.get('maximumNumberOfBackups') ?? 3,
   };
 }
 
@@ -23,4 +25,11 @@ export interface OOXMLExtensionSettings {
   maximumXmlPartsFileSizeBytes: number;
   maximumNumberOfOOXMLParts: number;
   maximumOOXMLFileSizeBytes: number;
+  backupLocation: BackupLocation;
+  maximumNumberOfBackups: number;
 }
+
+/**
+ * Where backups of an ooxml package are kept before it is written to.
+ */
+export type BackupLocation = 'extensionStorage' | 'besidePackage' | 'none';
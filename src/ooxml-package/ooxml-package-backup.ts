@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import { basename, dirname, join } from 'path';
+import { OOXMLExtensionSettings } from '../ooxml-extension-settings';
+import { FileSystemUtilities } from '../utilities/file-system-utilities';
+import logger from '../utilities/logger';
+
+const BACKUP_FOLDER_NAME = 'backups';
+const BACKUP_EXTENSION = '.bak';
+
+/**
+ * The rotating backups of an ooxml package.
+ *
+ * The newest backup is named after the package with a '.bak' extension, e.g. 'Document.docx.bak',
+ * and older backups are numbered, e.g. 'Document.docx.bak.1', 'Document.docx.bak.2'.
+ */
+export class OOXMLPackageBackup {
+  /**
+   * The folder the backups are kept in.
+   *
+   * @returns {string} The path of the backup folder.
+   */
+  private get backupFolderPath(): string {
+    if (this.settings.backupLocation === 'besidePackage') {
+      return dirname(this.ooxmlPackagePath);
+    }
+
+    return join(this.storagePath, BACKUP_FOLDER_NAME, crypto.createHash('sha256').update(this.ooxmlPackagePath).digest('hex'));
+  }
+
+  private get isEnabled(): boolean {
+    return this.settings.backupLocation !== 'none' && this.settings.maximumNumberOfBackups > 0;
+  }
+
+  /**
+   * Creates an instance of the ooxml package backup.
+   *
+   * @constructor
+   * @param {string} ooxmlPackagePath The path to the ooxml package.
+   * @param {string} storagePath The path to workspace storage directory.
+   * @param {OOXMLExtensionSettings} settings The extension settings.
+   */
+  constructor(
+    private ooxmlPackagePath: string,
+    private storagePath: string,
+    private settings: OOXMLExtensionSettings,
+  ) {}
+
+  /**
+   * Copies the ooxml package to the newest backup, moving the existing backups back and dropping the oldest one.
+   */
+  async createBackup(): Promise<void> {
+    if (!this.isEnabled || !(await FileSystemUtilities.fileExists(this.ooxmlPackagePath))) {
+      return;
+    }
+
+    logger.debug(`Backing up '${this.ooxmlPackagePath}'`);
+    for (let i = this.settings.maximumNumberOfBackups - 1; i > 0; i--) {
+      const olderBackupFilePath = this.getBackupFilePath(i - 1);
+      if (await FileSystemUtilities.fileExists(olderBackupFilePath)) {
+        await FileSystemUtilities.renameFile(olderBackupFilePath, this.getBackupFilePath(i));
+      }
+    }
+
+    await FileSystemUtilities.createDirectory(this.backupFolderPath);
+    await FileSystemUtilities.copyFile(this.ooxmlPackagePath, this.getBackupFilePath(0));
+  }
+
+  /**
+   * Gets the existing backups of the ooxml package.
+   *
+   * @returns {Promise<PackageBackup[]>} A promise resolving to the backups from newest to oldest.
+   */
+  async getBackups(): Promise<PackageBackup[]> {
+    if (!this.isEnabled) {
+      return [];
+    }
+
+    const backups: PackageBackup[] = [];
+    for (let i = 0; i < this.settings.maximumNumberOfBackups; i++) {
+      const backupFilePath = this.getBackupFilePath(i);
+      if (await FileSystemUtilities.fileExists(backupFilePath)) {
+        backups.push({ filePath: backupFilePath, modifiedTime: await FileSystemUtilities.getModifiedTime(backupFilePath) });
+      }
+    }
+
+    return backups;
+  }
+
+  private getBackupFilePath(index: number): string {
+    const backupFileName = `${basename(this.ooxmlPackagePath)}${BACKUP_EXTENSION}`;
+    return join(this.backupFolderPath, index === 0 ? backupFileName : `${backupFileName}.${index}`);
+  }
+}
+
+/**
+ * Represents a backup of an ooxml package.
+ */
+export interface PackageBackup {
+  filePath: string;
+  modifiedTime: number;
+}
@@ -0,0 +1,137 @@
+import { basename } from 'path';
+import { OOXMLFileSystemProvider } from '../file-system/ooxml-file-system-provider';
+import { OOXMLExtensionSettings } from '../ooxml-extension-settings';
+import { FileNode, OOXMLTreeDataProvider } from '../tree-view/ooxml-tree-view-provider';
+import { ExtensionUtilities } from '../utilities/extension-utilities';
+import logger from '../utilities/logger';
+import { XmlFormatter } from '../utilities/xml-formatter';
+import { OOXMLPackageFileAccessor } from './ooxml-package-file-accessor';
+import { OOXMLPackageFileSystem } from './ooxml-package-file-system';
+
+/**
+ * A part by part comparison of two ooxml packages.
+ * Represents the part of the tree view that lists the parts of the modified package marked as created, deleted, modified
+ * or unchanged relative to the original package.
+ */
+export class OOXMLPackageComparison {
+  private rootFileNode: FileNode | undefined;
+  private fileSystem: OOXMLPackageFileSystem;
+  private originalParts = new Map<string, Uint8Array>();
+  private modifiedParts = new Map<string, Uint8Array>();
+
+  /**
+   * Creates an instance of an ooxml package comparison.
+   *
+   * @constructor
+   * @param {string} originalPackagePath The path to the ooxml package that is compared against.
+   * @param {string} modifiedPackagePath The path to the ooxml package that is compared.
+   * @param {OOXMLTreeDataProvider} treeDataProvider The tree data provider.
+   * @param {OOXMLFileSystemProvider} fileSystemProvider The file system provider that serves the diffed parts.
+   * @param {OOXMLExtensionSettings} extensionSettings The extension settings.
+   * @param {Uint8Array} originalPackageData The contents of the original package if it isn't on the file system,
+   *  e.g. the committed version of the modified package. The original package path then only identifies the comparison.
+   */
+  constructor(
+    public originalPackagePath: string,
+    public modifiedPackagePath: string,
+    private treeDataProvider: OOXMLTreeDataProvider,
+    fileSystemProvider: OOXMLFileSystemProvider,
+    private extensionSettings: OOXMLExtensionSettings,
+    private originalPackageData?: Uint8Array,
+  ) {
+    // the diffed parts are served under both package paths so they don't collide with the parts of the opened packages
+    this.fileSystem = new OOXMLPackageFileSystem(
+      `${modifiedPackagePath} ↔ ${originalPackagePath}`,
+      fileSystemProvider,
+      extensionSettings,
+      async filePath => this.modifiedParts.get(filePath),
+    );
+  }
+
+  /**
+   * Loads both packages and adds the parts of the comparison to the tree view.
+   */
+  async compare(): Promise<void> {
+    this.originalParts = await OOXMLPackageComparison.getParts(this.originalPackagePath, this.originalPackageData);
+    this.modifiedParts = await OOXMLPackageComparison.getParts(this.modifiedPackagePath);
+
+    const filePaths = [...new Set([...this.originalParts.keys(), ...this.modifiedParts.keys()])].sort();
+    if (filePaths.length > this.extensionSettings.maximumNumberOfOOXMLParts) {
+      throw new Error(
+        `'${basename(this.modifiedPackagePath)}' ↔ '${basename(this.originalPackagePath)}' number of parts of '${filePaths.length}' exceeds the maximum of '${this.extensionSettings.maximumNumberOfOOXMLParts}'`,
+      );
+    }
+
+    this.removeRootFileNode();
+    const rootFileNode = FileNode.create(this.modifiedPackagePath, this.treeDataProvider.rootFileNode, this.modifiedPackagePath);
+    rootFileNode.isOOXMLPackage = true;
+    rootFileNode.comparedPackagePath = this.originalPackagePath;
+    this.rootFileNode = rootFileNode;
+
+    for (const filePath of filePaths) {
+      const fileNode = this.createFileNode(filePath, rootFileNode);
+      const originalPart = this.originalParts.get(filePath);
+      const modifiedPart = this.modifiedParts.get(filePath);
+      this.fileSystem.setCompareFile(filePath, originalPart ?? new Uint8Array());
+      if (!originalPart) {
+        fileNode.setCreated();
+      } else if (!modifiedPart) {
+        fileNode.setDeleted();
+      } else if (!XmlFormatter.areEqual(originalPart, modifiedPart)) {
+        fileNode.setModified();
+      }
+    }
+
+    this.treeDataProvider.refresh();
+  }
+
+  /**
+   * Opens a window showing the difference between the formatted part in the original package and in the modified package.
+   * A part that only exists in one of the packages is compared with an empty file.
+   *
+   * @param {string} filePath The path of the part in the ooxml packages.
+   */
+  async getDiff(filePath: string): Promise<void> {
+    logger.debug(`Comparing '${filePath}'`);
+    const title = `${basename(filePath)} (${basename(this.originalPackagePath)} ↔ ${basename(this.modifiedPackagePath)})`;
+    await ExtensionUtilities.openDiff(this.fileSystem.getCompareUri(filePath), this.fileSystem.getPartUri(filePath), title);
+  }
+
+  /**
+   * Removes the comparison from the tree view and stops serving its parts.
+   */
+  async dispose(): Promise<void> {
+    this.removeRootFileNode();
+    this.treeDataProvider.refresh();
+    this.fileSystem.dispose();
+  }
+
+  private static async getParts(ooxmlPackagePath: string, packageData?: Uint8Array): Promise<Map<string, Uint8Array>> {
+    const ooxmlFileAccessor = new OOXMLPackageFileAccessor(ooxmlPackagePath);
+    await ooxmlFileAccessor.load(packageData);
+    const packageContents = await ooxmlFileAccessor.getPackageContents();
+
+    return new Map(packageContents.filter(file => !file.isDirectory).map(file => [file.filePath, file.data]));
+  }
+
+  private createFileNode(filePath: string, rootFileNode: FileNode): FileNode {
+    let currentFileNode = rootFileNode;
+    const names = filePath.split('/');
+    for (let i = 0; i < names.length; i++) {
+      const fileOrFolderPath = names.slice(0, i + 1).join('/');
+      currentFileNode =
+        currentFileNode.children.find(c => c.nodePath === fileOrFolderPath) ??
+        FileNode.create(fileOrFolderPath, currentFileNode, this.modifiedPackagePath);
+      currentFileNode.comparedPackagePath = this.originalPackagePath;
+    }
+
+    return currentFileNode;
+  }
+
+  private removeRootFileNode(): void {
+    const nodeIndex = this.rootFileNode ? this.treeDataProvider.rootFileNode.children.indexOf(this.rootFileNode) : -1;
+    if (nodeIndex !== -1) {
+      this.treeDataProvider.rootFileNode.children.splice(nodeIndex, 1);
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import {
+  CompletionItem,
+  CompletionItemKind,
+  CompletionItemProvider,
+  Disposable,
+  languages,
+  Position,
+  Range,
+  RelativePattern,
+  SnippetString,
+  TextDocument,
+} from 'vscode';
+import { OOXML_SCHEME } from '../file-system/ooxml-file-system-provider';
+import { XmlSchemaSet } from '../utilities/xml-schema-validator';
+import { XmlTagScanner } from '../utilities/xml-tag-scanner';
+import { OOXMLPackageFileSystem } from './ooxml-package-file-system';
+import { OOXMLPackageSchemaValidator } from './ooxml-package-schema-validator';
+
+/**
+ * Completion of element names, attribute names and enumerated attribute values in the parts of an ooxml package.
+ * The suggestions come from the schema of the part's content type and use the namespace prefixes declared in the part.
+ */
+export class OOXMLPackageCompletionProvider implements CompletionItemProvider {
+  private registrations: Disposable[] = [];
+
+  /**
+   * Creates the completion provider and registers it for the parts of an ooxml package.
+   *
+   * @constructor
+   * @param {OOXMLPackageFileSystem} fileSystem The files of the ooxml package.
+   */
+  constructor(private fileSystem: OOXMLPackageFileSystem) {
+    const selector = { scheme: OOXML_SCHEME, pattern: new RelativePattern(fileSystem.rootUri, '**/*') };
+    this.registrations.push(languages.registerCompletionItemProvider(selector, this, '<', ' ', ':', '"', "'"));
+  }
+
+  /**
+   * Disposes the provider registrations.
+   */
+  dispose(): void {
+    this.registrations.forEach(r => r.dispose());
+    this.registrations = [];
+  }
+
+  /**
+   * Provides the child elements of the parent element, the attributes of the element
+   * or the enumerated values of the attribute at the position.
+   *
+   * @param {TextDocument} document The document in which the command was invoked.
+   * @param {Position} position The position at which the command was invoked.
+   * @returns {Promise<CompletionItem[] | undefined>} The completion items or undefined if the part has no schema or the position isn't in a tag.
+   */
+  async provideCompletionItems(document: TextDocument, position: Position): Promise<CompletionItem[] | undefined> {
+    const context = OOXMLPackageCompletionProvider.findCompletionContext(document.getText().substring(0, document.offsetAt(position)));
+    if (!context) {
+      return undefined;
+    }
+
+    const filePath = this.fileSystem.getPartFilePath(document.uri);
+    const schemaSet = filePath !== undefined ? await OOXMLPackageSchemaValidator.getPartSchemaSet(this.fileSystem, filePath) : undefined;
+    if (!schemaSet) {
+      return undefined;
+    }
+
+    const range = new Range(new Position(position.line, position.character - context.typedText.length), position);
+    switch (context.kind) {
+      case 'element':
+        return OOXMLPackageCompletionProvider.getElementItems(schemaSet, context, range);
+      case 'attribute':
+        return OOXMLPackageCompletionProvider.getAttributeItems(schemaSet, context, range);
+      case 'attributeValue':
+        return schemaSet.getAttributeValues(context.elementPath, context.attributeName).map(value => {
+          const item = new CompletionItem(value, CompletionItemKind.EnumMember);
+          item.range = range;
+          return item;
+        });
+    }
+  }
+
+  private static getElementItems(schemaSet: XmlSchemaSet, context: CompletionContext, range: Range): CompletionItem[] {
+    const items: CompletionItem[] = [];
+    for (const element of schemaSet.getChildElements(context.elementPath)) {
+      const qualifiedName = XmlTagScanner.getQualifiedName(element.namespace, element.localName, context.namespaces, true);
+      if (qualifiedName) {
+        const item = new CompletionItem(qualifiedName, CompletionItemKind.Class);
+        item.range = range;
+        items.push(item);
+      }
+    }
+
+    return items;
+  }
+
+  private static getAttributeItems(schemaSet: XmlSchemaSet, context: CompletionContext, range: Range): CompletionItem[] {
+    const items: CompletionItem[] = [];
+    for (const attribute of schemaSet.getAttributes(context.elementPath)) {
+      const qualifiedName = XmlTagScanner.getQualifiedName(attribute.namespace, attribute.localName, context.namespaces, false);
+      if (qualifiedName && !context.attributeNames.includes(qualifiedName)) {
+        const item = new CompletionItem(qualifiedName, CompletionItemKind.Property);
+        item.insertText = new SnippetString(`${qualifiedName}="$1"`);
+        item.detail = attribute.isRequired ? 'required' : undefined;
+        // required attributes are listed first
+        item.sortText = `${attribute.isRequired ? 0 : 1}${qualifiedName}`;
+        item.range = range;
+        items.push(item);
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Finds what is being completed from the text before the position: the name of a child element,
+   * the name of an attribute or the value of an attribute.
+   *
+   * @param {string} text The text of the part before the position.
+   * @returns {CompletionContext | undefined} The completion context or undefined if the position isn't in a start tag.
+   */
+  private static findCompletionContext(text: string): CompletionContext | undefined {
+    const tag = XmlTagScanner.findUnfinishedTag(text);
+    if (!tag) {
+      return undefined;
+    }
+
+    const { ancestorPath, namespaces, qualifiedName, attributesText } = tag;
+    const context = { namespaces: namespaces, attributeNames: [], attributeName: '' };
+    if (!attributesText) {
+      return { ...context, kind: 'element', elementPath: ancestorPath, typedText: qualifiedName };
+    }
+
+    const elementPath = [...ancestorPath, XmlTagScanner.resolveName(qualifiedName, namespaces, true)];
+    const attributeValue = /([\w.:-]+)\s*=\s*(["'])([^"']*)$/.exec(attributesText);
+    if (attributeValue) {
+      return {
+        ...context,
+        kind: 'attributeValue',
+        elementPath: elementPath,
+        typedText: attributeValue[3],
+        attributeName: XmlTagScanner.resolveName(attributeValue[1], namespaces, false),
+      };
+    }
+
+    const attributeName = /\s([\w.:-]*)$/.exec(attributesText);
+    if (attributeName) {
+      return {
+        ...context,
+        kind: 'attribute',
+        elementPath: elementPath,
+        typedText: attributeName[1],
+        attributeNames: Array.from(attributesText.matchAll(/([\w.:-]+)\s*=/g), match => match[1]),
+      };
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * What is being completed at a position in a part.
+ */
+interface CompletionContext {
+  kind: 'element' | 'attribute' | 'attributeValue';
+  /**
+   * The '{namespace}localName' names of the element being completed in and its ancestors,
+   * i.e. the parent element when completing an element name.
+   */
+  elementPath: string[];
+  /**
+   * The namespaces in scope keyed by prefix, the default namespace has an empty prefix.
+   */
+  namespaces: Map<string, string>;
+  /**
+   * The part of the name or value typed before the position.
+   */
+  typedText: string;
+  /**
+   * The qualified names of the attributes already on the element.
+   */
+  attributeNames: string[];
+  /**
+   * The '{namespace}localName' name of the attribute whose value is being completed.
+   */
+  attributeName: string;
+}
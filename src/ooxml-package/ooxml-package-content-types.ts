@@ -0,0 +1,197 @@
+import { Document, Element, XMLSerializer } from '@xmldom/xmldom';
+import { basename, extname } from 'path';
+import { XmlFormatter } from '../utilities/xml-formatter';
+
+const textEncoder = new TextEncoder();
+
+export const CONTENT_TYPES_PATH = '[Content_Types].xml';
+
+/**
+ * The content types of an ooxml package, i.e. the contents of the [Content_Types].xml part.
+ */
+export class OOXMLPackageContentTypes {
+  private document: Document;
+
+  private get typesElement(): Element {
+    const typesElement = this.document.documentElement;
+    if (!typesElement) {
+      throw new Error(`'${CONTENT_TYPES_PATH}' does not contain a Types element`);
+    }
+
+    return typesElement;
+  }
+
+  /**
+   * Creates an instance of the ooxml package content types.
+   *
+   * @constructor
+   * @param {Uint8Array} data The contents of the [Content_Types].xml part.
+   * @throws {Error} If the [Content_Types].xml part isn't well-formed.
+   */
+  constructor(data: Uint8Array) {
+    this.document = XmlFormatter.parse(data, CONTENT_TYPES_PATH);
+  }
+
+  /**
+   * Gets the content type of a part, using its override if there is one and the default for its extension if there isn't.
+   *
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @returns {string | undefined} The content type of the part or undefined if it doesn't have one.
+   */
+  getContentType(filePath: string): string | undefined {
+    const override = this.findOverride(filePath);
+    if (override) {
+      return override.getAttribute('ContentType') ?? undefined;
+    }
+
+    return this.getDefaultContentType(OOXMLPackageContentTypes.getExtension(filePath));
+  }
+
+  /**
+   * Gets the default content type of an extension.
+   *
+   * @param {string} extension The extension without the leading period.
+   * @returns {string | undefined} The default content type or undefined if there is no default for the extension.
+   */
+  getDefaultContentType(extension: string): string | undefined {
+    return this.findDefault(extension)?.getAttribute('ContentType') ?? undefined;
+  }
+
+  /**
+   * Registers the content type of a new part.
+   * Parts with an extension that doesn't have a default get a new default,
+   * otherwise an override is added if the content type differs from the default.
+   *
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @param {string} contentType The content type of the part.
+   * @returns {boolean} Whether or not the content types were changed.
+   */
+  registerPart(filePath: string, contentType: string): boolean {
+    const extension = OOXMLPackageContentTypes.getExtension(filePath);
+    const defaultContentType = this.getDefaultContentType(extension);
+
+    if (defaultContentType === undefined && extension && extension !== 'xml') {
+      this.addDefault(extension, contentType);
+      return true;
+    }
+
+    if (defaultContentType === contentType && !this.findOverride(filePath)) {
+      return false;
+    }
+
+    this.addOverride(filePath, contentType);
+    return true;
+  }
+
+  /**
+   * Adds or replaces the override for a part.
+   *
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @param {string} contentType The content type of the part.
+   */
+  addOverride(filePath: string, contentType: string): void {
+    const existingOverride = this.findOverride(filePath);
+    if (existingOverride) {
+      existingOverride.setAttribute('ContentType', contentType);
+      return;
+    }
+
+    const override = this.document.createElementNS(this.typesElement.namespaceURI, 'Override');
+    override.setAttribute('PartName', OOXMLPackageContentTypes.getPartName(filePath));
+    override.setAttribute('ContentType', contentType);
+    this.typesElement.appendChild(override);
+  }
+
+  /**
+   * Removes the override for a part.
+   *
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @returns {boolean} Whether or not the part had an override.
+   */
+  removeOverride(filePath: string): boolean {
+    const override = this.findOverride(filePath);
+    override?.parentNode?.removeChild(override);
+    return !!override;
+  }
+
+  /**
+   * Moves the content type of a part to its new path.
+   *
+   * @param {string} filePath The current path of the part in the ooxml package.
+   * @param {string} newFilePath The new path of the part in the ooxml package.
+   * @returns {boolean} Whether or not the content types were changed.
+   */
+  renamePart(filePath: string, newFilePath: string): boolean {
+    const contentType = this.getContentType(filePath);
+    const overrideRemoved = this.removeOverride(filePath);
+    const partRegistered = contentType !== undefined && this.registerPart(newFilePath, contentType);
+    return overrideRemoved || partRegistered;
+  }
+
+  /**
+   * Adds or replaces the default content type of an extension.
+   * Defaults are kept before the overrides.
+   *
+   * @param {string} extension The extension without the leading period.
+   * @param {string} contentType The content type of the extension.
+   */
+  addDefault(extension: string, contentType: string): void {
+    const existingDefault = this.findDefault(extension);
+    if (existingDefault) {
+      existingDefault.setAttribute('ContentType', contentType);
+      return;
+    }
+
+    const defaultElement = this.document.createElementNS(this.typesElement.namespaceURI, 'Default');
+    defaultElement.setAttribute('Extension', extension);
+    defaultElement.setAttribute('ContentType', contentType);
+    const firstOverride = this.getElements('Override')[0];
+    this.typesElement.insertBefore(defaultElement, firstOverride ?? null);
+  }
+
+  /**
+   * Serializes the content types.
+   *
+   * @returns {Uint8Array} The contents of the [Content_Types].xml part.
+   */
+  toData(): Uint8Array {
+    return textEncoder.encode(new XMLSerializer().serializeToString(this.document));
+  }
+
+  /**
+   * Gets the part name of a file in the ooxml package, e.g. 'word/document.xml' becomes '/word/document.xml'.
+   *
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @returns {string} The part name.
+   */
+  static getPartName(filePath: string): string {
+    return filePath.startsWith('/') ? filePath : `/${filePath}`;
+  }
+
+  /**
+   * Gets the lower case extension of a file without the leading period.
+   *
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @returns {string} The extension.
+   */
+  static getExtension(filePath: string): string {
+    // extname doesn't treat the whole name of dot files, e.g. '_rels/.rels', as an extension
+    const fileName = basename(filePath);
+    return fileName.startsWith('.') ? fileName.substring(1).toLowerCase() : extname(fileName).substring(1).toLowerCase();
+  }
+
+  private findOverride(filePath: string): Element | undefined {
+    const partName = OOXMLPackageContentTypes.getPartName(filePath).toLowerCase();
+    return this.getElements('Override').find(o => o.getAttribute('PartName')?.toLowerCase() === partName);
+  }
+
+  private findDefault(extension: string): Element | undefined {
+    return this.getElements('Default').find(d => d.getAttribute('Extension')?.toLowerCase() === extension.toLowerCase());
+  }
+
+  private getElements(localName: string): Element[] {
+    return Array.from(this.typesElement.childNodes).filter(
+      (node): node is Element => node.nodeType === node.ELEMENT_NODE && (node as Element).localName === localName,
+    );
+  }
+}
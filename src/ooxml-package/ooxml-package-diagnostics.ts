@@ -0,0 +1,148 @@
+import { Diagnostic, DiagnosticCollection, DiagnosticSeverity, languages, Position, Range, workspace } from 'vscode';
+import { XmlSyntaxError } from '../utilities/xml-formatter';
+import { XmlSchemaError } from '../utilities/xml-schema-validator';
+import { OOXMLPackageFileSystem } from './ooxml-package-file-system';
+import { PackageProblem } from './ooxml-package-validator';
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Publishes the problems of an ooxml package, the syntax errors of its saved parts and the schema errors of its parts
+ * as diagnostics on its parts.
+ */
+export class OOXMLPackageDiagnostics {
+  private diagnosticCollection: DiagnosticCollection;
+  private problems: PackageProblem[] = [];
+  private syntaxErrors = new Map<string, XmlSyntaxError>();
+  private schemaErrors = new Map<string, XmlSchemaError[]>();
+
+  /**
+   * Creates the diagnostics of an ooxml package.
+   *
+   * @constructor
+   * @param {OOXMLPackageFileSystem} fileSystem The files of the ooxml package.
+   */
+  constructor(private fileSystem: OOXMLPackageFileSystem) {
+    this.diagnosticCollection = languages.createDiagnosticCollection('ooxml');
+  }
+
+  /**
+   * Replaces the problems of the ooxml package.
+   *
+   * @param {PackageProblem[]} problems The problems found in the package.
+   */
+  async setProblems(problems: PackageProblem[]): Promise<void> {
+    const previousFilePaths = this.problems.map(p => p.filePath);
+    this.problems = problems;
+    for (const filePath of new Set([...previousFilePaths, ...problems.map(p => p.filePath)])) {
+      await this.refresh(filePath);
+    }
+  }
+
+  /**
+   * Replaces the syntax error of a saved part that couldn't be written to the package because it isn't well-formed.
+   *
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @param {XmlSyntaxError | undefined} syntaxError The syntax error or undefined if the part is well-formed.
+   */
+  async setSyntaxError(filePath: string, syntaxError: XmlSyntaxError | undefined): Promise<void> {
+    if (syntaxError) {
+      this.syntaxErrors.set(filePath, syntaxError);
+    } else {
+      this.syntaxErrors.delete(filePath);
+    }
+
+    await this.refresh(filePath);
+  }
+
+  /**
+   * Replaces the schema errors of a part.
+   *
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @param {XmlSchemaError[]} schemaErrors The schema errors found in the formatted part.
+   */
+  async setSchemaErrors(filePath: string, schemaErrors: XmlSchemaError[]): Promise<void> {
+    if (schemaErrors.length) {
+      this.schemaErrors.set(filePath, schemaErrors);
+    } else {
+      this.schemaErrors.delete(filePath);
+    }
+
+    await this.refresh(filePath);
+  }
+
+  /**
+   * Publishes the problems of a part again, so they point at the right place in the part as it is shown.
+   *
+   * @param {string} filePath The path of the part in the ooxml package.
+   */
+  async refresh(filePath: string): Promise<void> {
+    const problems = this.problems.filter(p => p.filePath === filePath);
+    const syntaxError = this.syntaxErrors.get(filePath);
+    const schemaErrors = this.schemaErrors.get(filePath) ?? [];
+    const partUri = this.fileSystem.getPartUri(filePath);
+    if (!problems.length && !syntaxError && !schemaErrors.length) {
+      this.diagnosticCollection.delete(partUri);
+      return;
+    }
+
+    const text =
+      workspace.textDocuments.find(d => d.uri.toString() === partUri.toString())?.getText() ??
+      textDecoder.decode((await this.fileSystem.readPart(filePath)) ?? new Uint8Array());
+    const diagnostics = problems.map(
+      problem => new Diagnostic(OOXMLPackageDiagnostics.findRange(text, problem.value), problem.message, DiagnosticSeverity.Warning),
+    );
+    for (const schemaError of schemaErrors) {
+      const position = new Position(schemaError.lineNumber - 1, schemaError.columnNumber - 1);
+      diagnostics.push(new Diagnostic(new Range(position, position), schemaError.message, DiagnosticSeverity.Warning));
+    }
+
+    if (syntaxError) {
+      const position = new Position(syntaxError.lineNumber - 1, syntaxError.columnNumber - 1);
+      diagnostics.unshift(
+        new Diagnostic(
+          new Range(position, position),
+          `Not saved, the xml is not well-formed: ${syntaxError.message}`,
+          DiagnosticSeverity.Error,
+        ),
+      );
+    }
+
+    diagnostics.forEach(diagnostic => (diagnostic.source = 'OOXML Viewer'));
+    this.diagnosticCollection.set(partUri, diagnostics);
+  }
+
+  /**
+   * Removes the diagnostics.
+   */
+  dispose(): void {
+    this.diagnosticCollection.dispose();
+  }
+
+  /**
+   * Finds the first attribute with the value, or the start of the part if there is no value or it can't be found.
+   *
+   * @param {string} text The text of the part.
+   * @param {string} value The attribute value the problem is about.
+   * @returns {Range} The range of the attribute value.
+   */
+  private static findRange(text: string, value: string | undefined): Range {
+    if (!value) {
+      return new Range(0, 0, 0, 0);
+    }
+
+    const doubleQuotedIndex = text.indexOf(`"${value}"`);
+    const index = doubleQuotedIndex !== -1 ? doubleQuotedIndex : text.indexOf(`'${value}'`);
+    if (index === -1) {
+      return new Range(0, 0, 0, 0);
+    }
+
+    const start = OOXMLPackageDiagnostics.getPosition(text, index + 1);
+    return new Range(start, new Position(start.line, start.character + value.length));
+  }
+
+  private static getPosition(text: string, offset: number): Position {
+    const lines = text.substring(0, offset).split('\n');
+    return new Position(lines.length - 1, lines[lines.length - 1].length);
+  }
+}
@@ -0,0 +1,51 @@
+import { OOXMLPackage } from './ooxml-package';
+import { OOXMLPackageFileAccessor } from './ooxml-package-file-accessor';
+
+/**
+ * Exposes read and write operations for an ooxml package that is a part of another ooxml package,
+ * e.g. the workbook of a chart in word/embeddings/Microsoft_Excel_Worksheet.xlsx.
+ */
+export class OOXMLPackageEmbeddedFileAccessor extends OOXMLPackageFileAccessor {
+  /**
+   * Creates the embedded ooxml package file accessor.
+   *
+   * @constructor
+   * @param {string} ooxmlPackagePath The path the embedded ooxml package is opened with, the container path followed by the part path.
+   * @param {OOXMLPackage} containerPackage The ooxml package the embedded ooxml package is a part of.
+   * @param {string} partPath The path of the embedded ooxml package in the container package.
+   */
+  constructor(
+    ooxmlPackagePath: string,
+    private containerPackage: OOXMLPackage,
+    private partPath: string,
+  ) {
+    super(ooxmlPackagePath);
+  }
+
+  /**
+   * Reads the embedded ooxml package from the container package.
+   *
+   * @returns {Promise<Uint8Array>} A promise resolving to the contents of the embedded ooxml package.
+   * @throws {Error} If the container package doesn't have the part.
+   */
+  protected async readPackage(): Promise<Uint8Array> {
+    const data = await this.containerPackage.getPart(this.partPath);
+    if (!data) {
+      throw new Error(`'${this.partPath}' is not a part of the container package of '${this.ooxmlPackagePath}'`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Replaces the part of the embedded ooxml package in the container package, which writes the container package.
+   *
+   * @param {Uint8Array} data The new contents of the embedded ooxml package.
+   * @returns {Promise<boolean>} True once the container package is written.
+   * @throws {Error} If the container package isn't written, e.g. because the user doesn't invalidate its digital signature.
+   */
+  protected async writePackage(data: Uint8Array): Promise<boolean> {
+    await this.containerPackage.updateEmbeddedPackage(this.partPath, data);
+    return true;
+  }
+}
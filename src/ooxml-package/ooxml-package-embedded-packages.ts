@@ -0,0 +1,135 @@
+import { extname } from 'path';
+import { FileNode } from '../tree-view/ooxml-tree-view-provider';
+import logger from '../utilities/logger';
+import { OOXMLPackage } from './ooxml-package';
+import { OOXMLPackageFacade } from './ooxml-package-facade';
+
+// The local file header signature that zip files start with
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const EMBEDDED_PACKAGE_EXTENSIONS = [
+  '.docx',
+  '.docm',
+  '.dotx',
+  '.dotm',
+  '.xlsx',
+  '.xlsm',
+  '.xltx',
+  '.xltm',
+  '.xlam',
+  '.pptx',
+  '.pptm',
+  '.potx',
+  '.potm',
+  '.ppsx',
+  '.ppsm',
+  '.sldx',
+];
+
+/**
+ * Creates the facade of an embedded ooxml package.
+ *
+ * @param {string} ooxmlPackagePath The path the embedded ooxml package is opened with.
+ * @param {OOXMLPackage} containerPackage The ooxml package the embedded ooxml package is a part of.
+ * @param {string} partPath The path of the embedded ooxml package in the container package.
+ * @param {FileNode} partFileNode The file node of the part, which the embedded ooxml package is shown under.
+ * @returns {OOXMLPackageFacade} The facade of the embedded ooxml package.
+ */
+export type EmbeddedPackageFactory = (
+  ooxmlPackagePath: string,
+  containerPackage: OOXMLPackage,
+  partPath: string,
+  partFileNode: FileNode,
+) => OOXMLPackageFacade;
+
+/**
+ * The ooxml packages that are parts of an ooxml package, e.g. the workbooks of charts and embedded documents,
+ * which are opened as child packages under their parts.
+ */
+export class OOXMLPackageEmbeddedPackages {
+  private embeddedPackages = new Map<string, OOXMLPackageFacade>();
+
+  /**
+   * Creates the embedded ooxml packages of an ooxml package.
+   *
+   * @constructor
+   * @param {string} ooxmlPackagePath The path of the container package.
+   * @param {EmbeddedPackageFactory} createEmbeddedPackage Creates the facade of an embedded ooxml package.
+   */
+  constructor(
+    private ooxmlPackagePath: string,
+    private createEmbeddedPackage: EmbeddedPackageFactory,
+  ) {}
+
+  /**
+   * Determines whether or not a part is an ooxml package from its extension and its zip signature.
+   *
+   * @param {string} filePath The path of the part.
+   * @param {Uint8Array} data The contents of the part.
+   * @returns {boolean} Whether or not the part is an embedded ooxml package.
+   */
+  static isEmbeddedPackage(filePath: string, data: Uint8Array): boolean {
+    return EMBEDDED_PACKAGE_EXTENSIONS.includes(extname(filePath).toLowerCase()) && ZIP_SIGNATURE.every((b, i) => data[i] === b);
+  }
+
+  /**
+   * Opens the embedded ooxml packages of the parts that were added, reloads the ones that are already open
+   * and disposes the ones whose parts were removed.
+   *
+   * @param {OOXMLPackage} containerPackage The ooxml package the embedded ooxml packages are parts of.
+   * @param {FileNode[]} partFileNodes The file nodes of the parts that are ooxml packages.
+   */
+  async update(containerPackage: OOXMLPackage, partFileNodes: FileNode[]): Promise<void> {
+    const partPaths = new Set(partFileNodes.map(n => n.nodePath));
+    for (const [partPath, embeddedPackage] of [...this.embeddedPackages]) {
+      if (!partPaths.has(partPath)) {
+        this.embeddedPackages.delete(partPath);
+        await embeddedPackage.dispose();
+      }
+    }
+
+    for (const partFileNode of partFileNodes) {
+      let embeddedPackage = this.embeddedPackages.get(partFileNode.nodePath);
+      if (!embeddedPackage) {
+        const embeddedPackagePath = `${this.ooxmlPackagePath}/${partFileNode.nodePath}`;
+        logger.debug(`Opening embedded package '${embeddedPackagePath}'`);
+        embeddedPackage = this.createEmbeddedPackage(embeddedPackagePath, containerPackage, partFileNode.nodePath, partFileNode);
+        this.embeddedPackages.set(partFileNode.nodePath, embeddedPackage);
+      }
+
+      await embeddedPackage.openOOXMLPackage();
+    }
+  }
+
+  /**
+   * Finds an embedded ooxml package, including the ones embedded in the embedded ooxml packages.
+   *
+   * @param {string} ooxmlPackagePath The path the embedded ooxml package is opened with.
+   * @returns {OOXMLPackageFacade | undefined} The embedded ooxml package or undefined if it isn't open.
+   */
+  find(ooxmlPackagePath: string): OOXMLPackageFacade | undefined {
+    for (const embeddedPackage of this.embeddedPackages.values()) {
+      const foundPackage = embeddedPackage.findPackage(ooxmlPackagePath);
+      if (foundPackage) {
+        return foundPackage;
+      }
+    }
+  }
+
+  /**
+   * Gets the open embedded ooxml packages.
+   *
+   * @returns {OOXMLPackageFacade[]} The embedded ooxml packages.
+   */
+  getPackages(): OOXMLPackageFacade[] {
+    return [...this.embeddedPackages.values()];
+  }
+
+  /**
+   * Disposes the embedded ooxml packages.
+   */
+  async dispose(): Promise<void> {
+    const embeddedPackages = [...this.embeddedPackages.values()];
+    this.embeddedPackages.clear();
+    await Promise.all(embeddedPackages.map(p => p.dispose()));
+  }
+}
@@ -0,0 +1,409 @@
+import { Document, Element, XMLSerializer } from '@xmldom/xmldom';
+import { createCipheriv, createDecipheriv, createHash, createHmac, timingSafeEqual } from 'crypto';
+import { CompoundFile, CompoundFileStream } from '../utilities/compound-file';
+import { XmlFormatter } from '../utilities/xml-formatter';
+
+const textEncoder = new TextEncoder();
+
+const ENCRYPTION_INFO_PATH = 'EncryptionInfo';
+const ENCRYPTED_PACKAGE_PATH = 'EncryptedPackage';
+const ENCRYPTION_NAMESPACE = 'http://schemas.microsoft.com/office/2006/encryption';
+const PASSWORD_KEY_ENCRYPTOR_NAMESPACE = 'http://schemas.microsoft.com/office/2006/keyEncryptor/password';
+
+// The block keys that the keys and initialization vectors of agile encryption are derived with
+const VERIFIER_HASH_INPUT_BLOCK_KEY = new Uint8Array([0xfe, 0xa7, 0xd2, 0x76, 0x3b, 0x4b, 0x9e, 0x79]);
+const VERIFIER_HASH_VALUE_BLOCK_KEY = new Uint8Array([0xd7, 0xaa, 0x0f, 0x6d, 0x30, 0x61, 0x34, 0x4e]);
+const ENCRYPTED_KEY_VALUE_BLOCK_KEY = new Uint8Array([0x14, 0x6e, 0x0b, 0xe7, 0xab, 0xac, 0xd0, 0xd6]);
+const HMAC_KEY_BLOCK_KEY = new Uint8Array([0x5f, 0xb2, 0xad, 0x01, 0x0c, 0xb9, 0xe1, 0xf6]);
+const HMAC_VALUE_BLOCK_KEY = new Uint8Array([0xa0, 0x67, 0x7f, 0x02, 0xb2, 0x2c, 0x84, 0x33]);
+const AGILE_SEGMENT_SIZE = 4096;
+
+// The AES algorithm ids and the iterations of the password hash of standard encryption
+const STANDARD_AES_ALGORITHM_IDS = [0x660e, 0x660f, 0x6610];
+const STANDARD_SPIN_COUNT = 50000;
+
+/**
+ * The encryption of a password-protected ooxml package, which is a compound file with an EncryptionInfo stream
+ * and an EncryptedPackage stream that has the encrypted zip, as specified in [MS-OFFCRYPTO].
+ * Agile encryption and standard encryption with AES are supported.
+ */
+export class OOXMLPackageEncryption {
+  private constructor(
+    private streams: CompoundFileStream[],
+    private cipher: PackageCipher,
+  ) {}
+
+  /**
+   * Determines whether or not a file is an encrypted ooxml package, i.e. a compound file with EncryptionInfo and EncryptedPackage streams.
+   *
+   * @param {Uint8Array} data The file.
+   * @returns {boolean} Whether or not the file is an encrypted ooxml package.
+   */
+  static isEncryptedPackage(data: Uint8Array): boolean {
+    try {
+      const compoundFile = CompoundFile.isCompoundFile(data) ? new CompoundFile(data) : undefined;
+      return !!compoundFile?.findEntry(ENCRYPTION_INFO_PATH) && !!compoundFile.findEntry(ENCRYPTED_PACKAGE_PATH);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Decrypts an encrypted ooxml package.
+   *
+   * @param {Uint8Array} data The encrypted ooxml package.
+   * @param {string} password The password of the ooxml package.
+   * @returns {DecryptedPackage | undefined} The zip of the ooxml package and the encryption to encrypt it with again,
+   *  or undefined if the password is incorrect.
+   * @throws {Error} If the encryption isn't supported or the ooxml package is corrupt.
+   */
+  static decrypt(data: Uint8Array, password: string): DecryptedPackage | undefined {
+    const compoundFile = new CompoundFile(data);
+    const encryptionInfo = compoundFile.getStream(ENCRYPTION_INFO_PATH);
+    const encryptedPackage = compoundFile.getStream(ENCRYPTED_PACKAGE_PATH);
+    if (!encryptionInfo || !encryptedPackage) {
+      throw new Error('The file is not an encrypted package');
+    }
+
+    const view = new DataView(encryptionInfo.buffer, encryptionInfo.byteOffset, encryptionInfo.byteLength);
+    const majorVersion = view.getUint16(0, true);
+    const minorVersion = view.getUint16(2, true);
+    let cipher: PackageCipher | undefined;
+    if (majorVersion === 4 && minorVersion === 4) {
+      cipher = AgileCipher.create(encryptionInfo, password);
+    } else if ([2, 3, 4].includes(majorVersion) && minorVersion === 2) {
+      cipher = StandardCipher.create(encryptionInfo, password);
+    } else {
+      throw new Error(`The encryption version ${majorVersion}.${minorVersion} is not supported`);
+    }
+
+    if (!cipher) {
+      return undefined;
+    }
+
+    return { data: cipher.decrypt(encryptedPackage), encryption: new OOXMLPackageEncryption(compoundFile.getStreams(), cipher) };
+  }
+
+  /**
+   * Encrypts an ooxml package with the password and keys it was decrypted with, keeping the other streams of the compound file.
+   *
+   * @param {Uint8Array} packageData The zip of the ooxml package.
+   * @returns {Uint8Array} The encrypted ooxml package.
+   */
+  encrypt(packageData: Uint8Array): Uint8Array {
+    const encryptedPackage = this.cipher.encrypt(packageData);
+    const encryptionInfo = this.cipher.getEncryptionInfo(encryptedPackage);
+    return CompoundFile.create(
+      this.streams.map(s => {
+        switch (s.path) {
+          case ENCRYPTION_INFO_PATH:
+            return { path: s.path, data: encryptionInfo };
+          case ENCRYPTED_PACKAGE_PATH:
+            return { path: s.path, data: encryptedPackage };
+          default:
+            return s;
+        }
+      }),
+    );
+  }
+}
+
+/**
+ * A decrypted ooxml package.
+ */
+export interface DecryptedPackage {
+  /**
+   * The zip of the ooxml package.
+   */
+  data: Uint8Array;
+  encryption: OOXMLPackageEncryption;
+}
+
+/**
+ * Decrypts and encrypts the EncryptedPackage stream with the keys derived from the password.
+ */
+abstract class PackageCipher {
+  abstract decrypt(encryptedPackage: Uint8Array): Uint8Array;
+  abstract encrypt(packageData: Uint8Array): Uint8Array;
+  abstract getEncryptionInfo(encryptedPackage: Uint8Array): Uint8Array;
+
+  protected static hashPassword(hashAlgorithm: string, salt: Uint8Array, password: string, spinCount: number): Uint8Array {
+    let passwordHash = PackageCipher.hash(hashAlgorithm, salt, Buffer.from(password, 'utf16le'));
+    const iterator = new Uint8Array(4);
+    const iteratorView = new DataView(iterator.buffer);
+    for (let i = 0; i < spinCount; i++) {
+      iteratorView.setUint32(0, i, true);
+      passwordHash = PackageCipher.hash(hashAlgorithm, iterator, passwordHash);
+    }
+
+    return passwordHash;
+  }
+
+  protected static hash(hashAlgorithm: string, ...data: Uint8Array[]): Uint8Array {
+    const hasher = createHash(hashAlgorithm);
+    data.forEach(d => hasher.update(d));
+    return new Uint8Array(hasher.digest());
+  }
+
+  protected static decryptAes(mode: 'cbc' | 'ecb', key: Uint8Array, iv: Uint8Array | undefined, data: Uint8Array): Uint8Array {
+    const decipher = createDecipheriv(`aes-${key.length * 8}-${mode}`, key, iv ?? null).setAutoPadding(false);
+    return PackageCipher.concat([decipher.update(data), decipher.final()]);
+  }
+
+  protected static encryptAes(mode: 'cbc' | 'ecb', key: Uint8Array, iv: Uint8Array | undefined, data: Uint8Array): Uint8Array {
+    const cipher = createCipheriv(`aes-${key.length * 8}-${mode}`, key, iv ?? null).setAutoPadding(false);
+    return PackageCipher.concat([cipher.update(data), cipher.final()]);
+  }
+
+  protected static readPackageSize(encryptedPackage: Uint8Array): number {
+    const view = new DataView(encryptedPackage.buffer, encryptedPackage.byteOffset, encryptedPackage.byteLength);
+    return view.getUint32(0, true) + view.getUint32(4, true) * 0x100000000;
+  }
+
+  protected static writePackageSize(size: number): Uint8Array {
+    const data = new Uint8Array(8);
+    const view = new DataView(data.buffer);
+    view.setUint32(0, size % 0x100000000, true);
+    view.setUint32(4, Math.floor(size / 0x100000000), true);
+    return data;
+  }
+
+  protected static padToBlockSize(data: Uint8Array, blockSize: number): Uint8Array {
+    return data.length % blockSize ? PackageCipher.concat([data, new Uint8Array(blockSize - (data.length % blockSize))]) : data;
+  }
+
+  protected static equals(a: Uint8Array, b: Uint8Array): boolean {
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  protected static concat(data: Uint8Array[]): Uint8Array {
+    return new Uint8Array(Buffer.concat(data));
+  }
+}
+
+/**
+ * The agile encryption of ooxml packages, whose parameters are xml in the EncryptionInfo stream.
+ */
+class AgileCipher extends PackageCipher {
+  private constructor(
+    private encryptionInfoHeader: Uint8Array,
+    private document: Document,
+    private keyData: CipherParameters,
+    private secretKey: Uint8Array,
+    private hmacKey: Uint8Array,
+  ) {
+    super();
+  }
+
+  static create(encryptionInfo: Uint8Array, password: string): AgileCipher | undefined {
+    // the version is followed by reserved flags and then the xml
+    const document = XmlFormatter.parse(encryptionInfo.subarray(8), ENCRYPTION_INFO_PATH);
+    const keyDataElement = document.getElementsByTagNameNS(ENCRYPTION_NAMESPACE, 'keyData')[0];
+    const dataIntegrityElement = document.getElementsByTagNameNS(ENCRYPTION_NAMESPACE, 'dataIntegrity')[0];
+    const encryptedKeyElement = document.getElementsByTagNameNS(PASSWORD_KEY_ENCRYPTOR_NAMESPACE, 'encryptedKey')[0];
+    if (!keyDataElement || !encryptedKeyElement) {
+      throw new Error('Only packages encrypted with a password are supported');
+    }
+
+    const keyData = AgileCipher.getCipherParameters(keyDataElement);
+    const encryptedKey = AgileCipher.getCipherParameters(encryptedKeyElement);
+    const spinCount = Number(encryptedKeyElement.getAttribute('spinCount') ?? 0);
+    const passwordHash = PackageCipher.hashPassword(encryptedKey.hashAlgorithm, encryptedKey.salt, password, spinCount);
+    const decryptWithPassword = (blockKey: Uint8Array, attributeName: string) =>
+      PackageCipher.decryptAes(
+        'cbc',
+        AgileCipher.fitToLength(PackageCipher.hash(encryptedKey.hashAlgorithm, passwordHash, blockKey), encryptedKey.keyBits / 8),
+        encryptedKey.salt,
+        AgileCipher.getBase64Attribute(encryptedKeyElement, attributeName),
+      );
+
+    const verifierHashInput = decryptWithPassword(VERIFIER_HASH_INPUT_BLOCK_KEY, 'encryptedVerifierHashInput').subarray(
+      0,
+      encryptedKey.salt.length,
+    );
+    const verifierHashValue = decryptWithPassword(VERIFIER_HASH_VALUE_BLOCK_KEY, 'encryptedVerifierHashValue').subarray(
+      0,
+      encryptedKey.hashSize,
+    );
+    if (!PackageCipher.equals(PackageCipher.hash(encryptedKey.hashAlgorithm, verifierHashInput), verifierHashValue)) {
+      return undefined;
+    }
+
+    const secretKey = decryptWithPassword(ENCRYPTED_KEY_VALUE_BLOCK_KEY, 'encryptedKeyValue').subarray(0, keyData.keyBits / 8);
+    const hmacKey = dataIntegrityElement
+      ? PackageCipher.decryptAes(
+          'cbc',
+          secretKey,
+          AgileCipher.getInitializationVector(keyData, HMAC_KEY_BLOCK_KEY),
+          AgileCipher.getBase64Attribute(dataIntegrityElement, 'encryptedHmacKey'),
+        ).subarray(0, keyData.hashSize)
+      : new Uint8Array();
+    return new AgileCipher(encryptionInfo.subarray(0, 8), document, keyData, secretKey, hmacKey);
+  }
+
+  decrypt(encryptedPackage: Uint8Array): Uint8Array {
+    const size = PackageCipher.readPackageSize(encryptedPackage);
+    const packageData = new Uint8Array(size);
+    for (let offset = 0; offset < size; offset += AGILE_SEGMENT_SIZE) {
+      const segmentStart = 8 + offset;
+      const segment = encryptedPackage.subarray(segmentStart, segmentStart + AGILE_SEGMENT_SIZE);
+      const iv = AgileCipher.getInitializationVector(this.keyData, AgileCipher.segmentIndex(offset));
+      packageData.set(PackageCipher.decryptAes('cbc', this.secretKey, iv, segment).subarray(0, size - offset), offset);
+    }
+
+    return packageData;
+  }
+
+  encrypt(packageData: Uint8Array): Uint8Array {
+    const segments: Uint8Array[] = [PackageCipher.writePackageSize(packageData.length)];
+    for (let offset = 0; offset < packageData.length; offset += AGILE_SEGMENT_SIZE) {
+      const segment = PackageCipher.padToBlockSize(packageData.subarray(offset, offset + AGILE_SEGMENT_SIZE), this.keyData.blockSize);
+      segments.push(
+        PackageCipher.encryptAes(
+          'cbc',
+          this.secretKey,
+          AgileCipher.getInitializationVector(this.keyData, AgileCipher.segmentIndex(offset)),
+          segment,
+        ),
+      );
+    }
+
+    return PackageCipher.concat(segments);
+  }
+
+  getEncryptionInfo(encryptedPackage: Uint8Array): Uint8Array {
+    // the hmac of the whole stream lets office check that the package wasn't changed without the key
+    const dataIntegrityElement = this.document.getElementsByTagNameNS(ENCRYPTION_NAMESPACE, 'dataIntegrity')[0];
+    if (dataIntegrityElement) {
+      const hmacValue = createHmac(this.keyData.hashAlgorithm, this.hmacKey).update(encryptedPackage).digest();
+      const iv = AgileCipher.getInitializationVector(this.keyData, HMAC_VALUE_BLOCK_KEY);
+      const encryptedHmacValue = PackageCipher.encryptAes(
+        'cbc',
+        this.secretKey,
+        iv,
+        PackageCipher.padToBlockSize(hmacValue, this.keyData.blockSize),
+      );
+      dataIntegrityElement.setAttribute('encryptedHmacValue', Buffer.from(encryptedHmacValue).toString('base64'));
+    }
+
+    return PackageCipher.concat([this.encryptionInfoHeader, textEncoder.encode(new XMLSerializer().serializeToString(this.document))]);
+  }
+
+  private static getCipherParameters(element: Element): CipherParameters {
+    const cipherAlgorithm = element.getAttribute('cipherAlgorithm');
+    const cipherChaining = element.getAttribute('cipherChaining');
+    if (cipherAlgorithm !== 'AES' || cipherChaining !== 'ChainingModeCBC') {
+      throw new Error(`The ${cipherAlgorithm} cipher with ${cipherChaining} is not supported`);
+    }
+
+    return {
+      keyBits: Number(element.getAttribute('keyBits')),
+      blockSize: Number(element.getAttribute('blockSize')),
+      hashSize: Number(element.getAttribute('hashSize')),
+      hashAlgorithm: (element.getAttribute('hashAlgorithm') ?? '').replace('-', '').toLowerCase(),
+      salt: AgileCipher.getBase64Attribute(element, 'saltValue'),
+    };
+  }
+
+  private static getInitializationVector(keyData: CipherParameters, blockKey: Uint8Array): Uint8Array {
+    return AgileCipher.fitToLength(PackageCipher.hash(keyData.hashAlgorithm, keyData.salt, blockKey), keyData.blockSize);
+  }
+
+  private static segmentIndex(offset: number): Uint8Array {
+    const index = new Uint8Array(4);
+    new DataView(index.buffer).setUint32(0, offset / AGILE_SEGMENT_SIZE, true);
+    return index;
+  }
+
+  private static fitToLength(data: Uint8Array, length: number): Uint8Array {
+    // keys and initialization vectors that are shorter than the hash are truncated, longer ones are padded with 0x36
+    return data.length >= length ? data.subarray(0, length) : PackageCipher.concat([data, new Uint8Array(length - data.length).fill(0x36)]);
+  }
+
+  private static getBase64Attribute(element: Element, attributeName: string): Uint8Array {
+    return new Uint8Array(Buffer.from(element.getAttribute(attributeName) ?? '', 'base64'));
+  }
+}
+
+/**
+ * The standard encryption of ooxml packages, whose parameters are binary structures in the EncryptionInfo stream.
+ */
+class StandardCipher extends PackageCipher {
+  private constructor(
+    private encryptionInfo: Uint8Array,
+    private key: Uint8Array,
+  ) {
+    super();
+  }
+
+  static create(encryptionInfo: Uint8Array, password: string): StandardCipher | undefined {
+    const view = new DataView(encryptionInfo.buffer, encryptionInfo.byteOffset, encryptionInfo.byteLength);
+    const headerSize = view.getUint32(8, true);
+    const algorithmId = view.getUint32(20, true);
+    const keySize = view.getUint32(28, true);
+    if (!STANDARD_AES_ALGORITHM_IDS.includes(algorithmId)) {
+      throw new Error(`The encryption algorithm 0x${algorithmId.toString(16)} is not supported`);
+    }
+
+    // the verifier follows the header
+    const verifierOffset = 12 + headerSize;
+    const saltSize = view.getUint32(verifierOffset, true);
+    const salt = encryptionInfo.subarray(verifierOffset + 4, verifierOffset + 4 + saltSize);
+    const encryptedVerifier = encryptionInfo.subarray(verifierOffset + 4 + saltSize, verifierOffset + 4 + saltSize + 16);
+    const verifierHashSize = view.getUint32(verifierOffset + 4 + saltSize + 16, true);
+    const encryptedVerifierHash = encryptionInfo.subarray(verifierOffset + 8 + saltSize + 16);
+
+    const key = StandardCipher.deriveKey(salt, password, keySize / 8);
+    const verifier = PackageCipher.decryptAes('ecb', key, undefined, encryptedVerifier);
+    const verifierHash = PackageCipher.decryptAes('ecb', key, undefined, encryptedVerifierHash).subarray(0, verifierHashSize);
+    return PackageCipher.equals(PackageCipher.hash('sha1', verifier), verifierHash) ? new StandardCipher(encryptionInfo, key) : undefined;
+  }
+
+  decrypt(encryptedPackage: Uint8Array): Uint8Array {
+    const size = PackageCipher.readPackageSize(encryptedPackage);
+    const encryptedData = encryptedPackage.subarray(8);
+    return PackageCipher.decryptAes(
+      'ecb',
+      this.key,
+      undefined,
+      encryptedData.subarray(0, encryptedData.length - (encryptedData.length % 16)),
+    ).subarray(0, size);
+  }
+
+  encrypt(packageData: Uint8Array): Uint8Array {
+    return PackageCipher.concat([
+      PackageCipher.writePackageSize(packageData.length),
+      PackageCipher.encryptAes('ecb', this.key, undefined, PackageCipher.padToBlockSize(packageData, 16)),
+    ]);
+  }
+
+  getEncryptionInfo(): Uint8Array {
+    return this.encryptionInfo;
+  }
+
+  private static deriveKey(salt: Uint8Array, password: string, keyLength: number): Uint8Array {
+    const passwordHash = PackageCipher.hashPassword('sha1', salt, password, STANDARD_SPIN_COUNT);
+    const finalHash = PackageCipher.hash('sha1', passwordHash, new Uint8Array(4));
+    // the hash is stretched to the key length by hashing it xor'ed with two different 64 byte buffers
+    const stretch = (byte: number) =>
+      PackageCipher.hash(
+        'sha1',
+        new Uint8Array(64).map((_, i) => (i < finalHash.length ? finalHash[i] ^ byte : byte)),
+      );
+    return PackageCipher.concat([stretch(0x36), stretch(0x5c)]).subarray(0, keyLength);
+  }
+}
+
+/**
+ * The cipher parameters of agile encryption.
+ */
+interface CipherParameters {
+  keyBits: number;
+  blockSize: number;
+  hashSize: number;
+  /**
+   * The name of the hash algorithm in node, e.g. sha512.
+   */
+  hashAlgorithm: string;
+  salt: Uint8Array;
+}
@@ -1,10 +1,21 @@
+import { Uri } from 'vscode';
+import { OOXMLFileSystemProvider } from '../file-system/ooxml-file-system-provider';
 import { getExtensionSettings } from '../ooxml-extension-settings';
-import { OOXMLTreeDataProvider } from '../tree-view/ooxml-tree-view-provider';
+import { OOXMLRelationshipTreeDataProvider } from '../tree-view/ooxml-relationship-tree-view-provider';
+import { FileNode, OOXMLTreeDataProvider } from '../tree-view/ooxml-tree-view-provider';
 import logger from '../utilities/logger';
 import { OOXMLPackage } from './ooxml-package';
+import { OOXMLPackageBackup } from './ooxml-package-backup';
+import { OOXMLPackageCompletionProvider } from './ooxml-package-completion-provider';
+import { OOXMLPackageDiagnostics } from './ooxml-package-diagnostics';
+import { OOXMLPackageEmbeddedFileAccessor } from './ooxml-package-embedded-file-accessor';
+import { OOXMLPackageEmbeddedPackages } from './ooxml-package-embedded-packages';
 import { OOXMLPackageFileAccessor } from './ooxml-package-file-accessor';
-import { OOXMLPackageFileCache } from './ooxml-package-file-cache';
+import { OOXMLPackageFileSystem } from './ooxml-package-file-system';
 import { OOXMLPackageFileWatcher } from './ooxml-package-file-watcher';
+import { OOXMLPackageHoverProvider } from './ooxml-package-hover-provider';
+import { OOXMLPackageRelationshipProvider } from './ooxml-package-relationship-provider';
+import { PartReference } from './ooxml-package-relationships';
 import { OOXMLPackageTreeView } from './ooxml-package-tree-view';
 
 /**
@@ -17,16 +28,131 @@ export class OOXMLPackageFacade {
    * @param filePath The path to the ooxml package.
    * @param treeDataProvider The tree data provider.
    * @param storagePath The path to the extension's storage path.
+   * @param relationshipTreeDataProvider The relationship tree data provider.
+   * @param fileSystemProvider The file system provider that serves the parts of the opened packages.
    * @returns {Promise<OOXMLPackageFacade>} The OOXML package facade.
    */
-  static create(filePath: string, treeDataProvider: OOXMLTreeDataProvider, storagePath: string): OOXMLPackageFacade {
-    const ooxmlFileCache = new OOXMLPackageFileCache(filePath, storagePath);
-    const packageRootNode = new OOXMLPackageTreeView(treeDataProvider, filePath);
-    const ooxmlFileAccessor = new OOXMLPackageFileAccessor(filePath);
-    const ooxmlPackage = new OOXMLPackage(filePath, ooxmlFileAccessor, packageRootNode, ooxmlFileCache, getExtensionSettings());
-    const fileWatchers = new OOXMLPackageFileWatcher(filePath, ooxmlPackage);
+  static create(
+    filePath: string,
+    treeDataProvider: OOXMLTreeDataProvider,
+    storagePath: string,
+    relationshipTreeDataProvider: OOXMLRelationshipTreeDataProvider,
+    fileSystemProvider: OOXMLFileSystemProvider,
+  ): OOXMLPackageFacade {
+    const settings = getExtensionSettings();
+    const ooxmlFileAccessor = new OOXMLPackageFileAccessor(filePath, new OOXMLPackageBackup(filePath, storagePath, settings));
+    const packageRootNode = new OOXMLPackageTreeView(treeDataProvider, filePath, relationshipTreeDataProvider);
 
-    return new OOXMLPackageFacade(filePath, ooxmlPackage, packageRootNode, fileWatchers, ooxmlFileCache);
+    return OOXMLPackageFacade.createWith(
+      filePath,
+      ooxmlFileAccessor,
+      packageRootNode,
+      treeDataProvider,
+      storagePath,
+      relationshipTreeDataProvider,
+      fileSystemProvider,
+      true,
+    );
+  }
+
+  /**
+   * Creates an instance of a OOXML package facade for an ooxml package that is a part of another ooxml package.
+   * The parts of the embedded package are served under its part and it is shown under its part,
+   * and saving one of its parts writes the container package.
+   *
+   * @param filePath The path the embedded package is opened with, the path of the container package followed by the part path.
+   * @param containerPackage The ooxml package the embedded package is a part of.
+   * @param partPath The path of the embedded package in the container package.
+   * @param partFileNode The file node of the part.
+   * @param treeDataProvider The tree data provider.
+   * @param storagePath The path to the extension's storage path.
+   * @param relationshipTreeDataProvider The relationship tree data provider.
+   * @param fileSystemProvider The file system provider that serves the parts of the opened packages.
+   * @returns {OOXMLPackageFacade} The OOXML package facade.
+   */
+  static createEmbedded(
+    filePath: string,
+    containerPackage: OOXMLPackage,
+    partPath: string,
+    partFileNode: FileNode,
+    treeDataProvider: OOXMLTreeDataProvider,
+    storagePath: string,
+    relationshipTreeDataProvider: OOXMLRelationshipTreeDataProvider,
+    fileSystemProvider: OOXMLFileSystemProvider,
+  ): OOXMLPackageFacade {
+    const ooxmlFileAccessor = new OOXMLPackageEmbeddedFileAccessor(filePath, containerPackage, partPath);
+    const packageRootNode = new OOXMLPackageTreeView(treeDataProvider, filePath, relationshipTreeDataProvider, partFileNode);
+
+    // embedded packages don't have a file to watch, they are reloaded with their container package
+    return OOXMLPackageFacade.createWith(
+      filePath,
+      ooxmlFileAccessor,
+      packageRootNode,
+      treeDataProvider,
+      storagePath,
+      relationshipTreeDataProvider,
+      fileSystemProvider,
+      false,
+    );
+  }
+
+  private static createWith(
+    filePath: string,
+    ooxmlFileAccessor: OOXMLPackageFileAccessor,
+    packageRootNode: OOXMLPackageTreeView,
+    treeDataProvider: OOXMLTreeDataProvider,
+    storagePath: string,
+    relationshipTreeDataProvider: OOXMLRelationshipTreeDataProvider,
+    fileSystemProvider: OOXMLFileSystemProvider,
+    watchFileSystem: boolean,
+  ): OOXMLPackageFacade {
+    const settings = getExtensionSettings();
+    const fileSystem = new OOXMLPackageFileSystem(
+      filePath,
+      fileSystemProvider,
+      settings,
+      partPath => ooxmlFileAccessor.getPart(partPath),
+      (partPath, data) => ooxmlPackage.updateOOXMLFile(partPath, data),
+    );
+    const diagnostics = new OOXMLPackageDiagnostics(fileSystem);
+    const embeddedPackages = new OOXMLPackageEmbeddedPackages(filePath, (embeddedPackagePath, containerPackage, partPath, partFileNode) =>
+      OOXMLPackageFacade.createEmbedded(
+        embeddedPackagePath,
+        containerPackage,
+        partPath,
+        partFileNode,
+        treeDataProvider,
+        storagePath,
+        relationshipTreeDataProvider,
+        fileSystemProvider,
+      ),
+    );
+    const ooxmlPackage: OOXMLPackage = new OOXMLPackage(
+      filePath,
+      ooxmlFileAccessor,
+      packageRootNode,
+      fileSystem,
+      settings,
+      diagnostics,
+      embeddedPackages,
+    );
+    const fileWatchers = new OOXMLPackageFileWatcher(filePath, ooxmlPackage, watchFileSystem);
+    const relationshipProvider = new OOXMLPackageRelationshipProvider(fileSystem);
+    const completionProvider = new OOXMLPackageCompletionProvider(fileSystem);
+    const hoverProvider = new OOXMLPackageHoverProvider(fileSystem);
+
+    return new OOXMLPackageFacade(
+      filePath,
+      ooxmlPackage,
+      packageRootNode,
+      fileWatchers,
+      fileSystem,
+      relationshipProvider,
+      diagnostics,
+      completionProvider,
+      hoverProvider,
+      embeddedPackages,
+    );
   }
 
   private constructor(
@@ -34,9 +160,24 @@ export class OOXMLPackageFacade {
     private ooxmlPackage: OOXMLPackage,
     private packageRootNode: OOXMLPackageTreeView,
     private fileWatchers: OOXMLPackageFileWatcher,
-    private fileCache: OOXMLPackageFileCache,
+    private fileSystem: OOXMLPackageFileSystem,
+    private relationshipProvider: OOXMLPackageRelationshipProvider,
+    private diagnostics: OOXMLPackageDiagnostics,
+    private completionProvider: OOXMLPackageCompletionProvider,
+    private hoverProvider: OOXMLPackageHoverProvider,
+    private embeddedPackages: OOXMLPackageEmbeddedPackages,
   ) {}
 
+  /**
+   * Finds the ooxml package or one of the ooxml packages embedded in it.
+   *
+   * @param {string} ooxmlPackagePath The path the ooxml package is opened with.
+   * @returns {OOXMLPackageFacade | undefined} The ooxml package or undefined if it isn't this package or embedded in it.
+   */
+  findPackage(ooxmlPackagePath: string): OOXMLPackageFacade | undefined {
+    return this.ooxmlFilePath === ooxmlPackagePath ? this : this.embeddedPackages.find(ooxmlPackagePath);
+  }
+
   /**
    * Opens the ooxml package.
    */
@@ -53,6 +194,26 @@ export class OOXMLPackageFacade {
     await this.ooxmlPackage.viewFile(filePath);
   }
 
+  /**
+   * Displays a stream of a part that is a compound file.
+   *
+   * @param {string} filePath The path of the part.
+   * @param {string} streamPath The path of the stream in the compound file.
+   */
+  async viewStream(filePath: string, streamPath: string): Promise<void> {
+    await this.ooxmlPackage.viewStream(filePath, streamPath);
+  }
+
+  /**
+   * Displays the source of a module of a part that is a VBA project.
+   *
+   * @param {string} filePath The path of the part.
+   * @param {string} vbaModuleName The name of the module.
+   */
+  async viewVbaModule(filePath: string, vbaModuleName: string): Promise<void> {
+    await this.ooxmlPackage.viewVbaModule(filePath, vbaModuleName);
+  }
+
   /**
    * Opens a window showing the difference between the primary xml part and the compare xml part.
    *
@@ -69,13 +230,123 @@ export class OOXMLPackageFacade {
     await this.ooxmlPackage.searchOOXMLParts();
   }
 
+  /**
+   * Shows the history of a part in the ooxml package.
+   *
+   * @param {string} filePath The path of the part.
+   */
+  async showPartHistory(filePath: string): Promise<void> {
+    await this.ooxmlPackage.showPartHistory(filePath);
+  }
+
+  /**
+   * Creates a new part in the ooxml package.
+   *
+   * @param {string} folderPath The path of the folder to create the part in.
+   */
+  async createPart(folderPath: string): Promise<void> {
+    await this.ooxmlPackage.createPart(folderPath);
+  }
+
+  /**
+   * Deletes a part from the ooxml package.
+   *
+   * @param {string} filePath The path of the part to delete.
+   */
+  async deletePart(filePath: string): Promise<void> {
+    await this.ooxmlPackage.deletePart(filePath);
+  }
+
+  /**
+   * Renames or moves a part in the ooxml package.
+   *
+   * @param {string} filePath The path of the part to rename.
+   */
+  async renamePart(filePath: string): Promise<void> {
+    await this.ooxmlPackage.renamePart(filePath);
+  }
+
+  /**
+   * Imports files from the file system into the ooxml package.
+   *
+   * @param {string} folderPath The path of the folder to import the files into.
+   * @param {string[]} externalFilePaths The paths of the files to import.
+   */
+  async importFiles(folderPath: string, externalFilePaths?: string[]): Promise<void> {
+    await this.ooxmlPackage.importFiles(folderPath, externalFilePaths);
+  }
+
+  /**
+   * Extracts the parts of the ooxml package to a folder.
+   */
+  async extractPackage(): Promise<void> {
+    await this.ooxmlPackage.extractPackage();
+  }
+
+  /**
+   * Validates all the parts of the ooxml package against their schemas.
+   */
+  async validatePackage(): Promise<void> {
+    await this.ooxmlPackage.validatePackage();
+  }
+
+  /**
+   * Gets the part of a file and the relationships that target it.
+   *
+   * @param {Uri} uri The uri of the file.
+   * @returns {Promise<PartReferences | undefined>} The part and its references or undefined if the file isn't a part of the package.
+   */
+  async getPartReferences(uri: Uri): Promise<PartReferences | undefined> {
+    const filePath = this.fileSystem.getPartFilePath(uri);
+    if (filePath === undefined) {
+      for (const embeddedPackage of this.embeddedPackages.getPackages()) {
+        const partReferences = await embeddedPackage.getPartReferences(uri);
+        if (partReferences) {
+          return partReferences;
+        }
+      }
+
+      return undefined;
+    }
+
+    return {
+      ooxmlPackagePath: this.ooxmlFilePath,
+      filePath: filePath,
+      references: await this.ooxmlPackage.getPartReferences(filePath),
+    };
+  }
+
+  /**
+   * Replaces the ooxml package with a backup selected by the user.
+   */
+  async restorePreviousVersion(): Promise<void> {
+    await this.ooxmlPackage.restorePreviousVersion();
+  }
+
   /**
    * Disposes the ooxml package.
    */
   async dispose(): Promise<void> {
     logger.debug(`Disposing '${this.ooxmlFilePath}'`);
+    await this.embeddedPackages.dispose();
     this.fileWatchers.dispose();
+    this.relationshipProvider.dispose();
+    this.completionProvider.dispose();
+    this.hoverProvider.dispose();
+    this.diagnostics.dispose();
     this.packageRootNode.reset();
-    await this.fileCache.reset();
+    this.fileSystem.dispose();
   }
 }
+
+/**
+ * A part of an ooxml package and the relationships that target it.
+ */
+export interface PartReferences {
+  ooxmlPackagePath: string;
+  /**
+   * The path of the part in the ooxml package.
+   */
+  filePath: string;
+  references: PartReference[];
+}
@@ -1,16 +1,24 @@
 import JSZip from 'jszip';
 import { lookup } from 'mime-types';
 import { basename } from 'path';
+import { ExtensionUtilities } from '../utilities/extension-utilities';
 import { FileSystemUtilities } from '../utilities/file-system-utilities';
 import logger from '../utilities/logger';
+import { DecryptedPackage, OOXMLPackageEncryption } from './ooxml-package-encryption';
+import { MIMETYPE_PATH } from './ooxml-package-manifest';
+import { OOXMLPackageBackup, PackageBackup } from './ooxml-package-backup';
 
 /**
  * Exposes read and write operations for the ooxml file.
  */
 export class OOXMLPackageFileAccessor {
   private zip: JSZip | undefined;
+  private encryption: OOXMLPackageEncryption | undefined;
+  private password: string | undefined;
+  // Whether or not the package has been backed up since it was opened, it is only backed up before the first write.
+  private isBackedUp = false;
   private get mimeType() {
-    return lookup(basename(this.ooxmlPackagePath)) || undefined;
+    return OOXMLPackageFileAccessor.getMimeType(this.ooxmlPackagePath);
   }
 
   /**
@@ -18,15 +26,30 @@ export class OOXMLPackageFileAccessor {
    *
    * @constructor
    * @param {string} ooxmlPackagePath The path to the ooxml package.
+   * @param {OOXMLPackageBackup} backup The backups made before the ooxml package is first written to.
    */
-  constructor(private ooxmlPackagePath: string) {}
+  constructor(
+    protected ooxmlPackagePath: string,
+    private backup?: OOXMLPackageBackup,
+  ) {}
 
   /**
-   * Loads the ooxml package from the file system.
+   * Loads the ooxml package from the file system, or from the provided data, e.g. a committed version of the package.
+   * Encrypted packages are decrypted with the password the user enters and encrypted with it again when they are written.
+   *
+   * @param {Uint8Array} packageData The contents of the ooxml package to load instead of the file.
+   * @throws {Error} If the package is encrypted and the user doesn't enter its password.
    */
-  async load(): Promise<void> {
+  async load(packageData?: Uint8Array): Promise<void> {
     logger.debug(`Loading ooxml package '${this.ooxmlPackagePath}'`);
-    const data = FileSystemUtilities.readFile(this.ooxmlPackagePath);
+    let data = packageData ?? (await this.readPackage());
+    this.encryption = undefined;
+    if (OOXMLPackageEncryption.isEncryptedPackage(data)) {
+      const decryptedPackage = await this.decryptPackage(data);
+      this.encryption = decryptedPackage.encryption;
+      data = decryptedPackage.data;
+    }
+
     this.zip = new JSZip();
     await this.zip.loadAsync(data);
   }
@@ -39,14 +62,130 @@ export class OOXMLPackageFileAccessor {
    * @returns {Promise<boolean>} True or false depending on whether the package updated successfully.
    */
   async updatePackage(filePath: string, data: Uint8Array): Promise<boolean> {
-    logger.debug(`Updating '${filePath}' in OOXML package`);
+    return await this.updatePackageParts([{ filePath: filePath, data: data }]);
+  }
+
+  /**
+   * Updates the ooxml package with the provided files in a single write.
+   * The package is backed up before it is first written and written to a temporary file that replaces it once it is complete.
+   * If the package can't be written, the loaded package is rolled back so it still matches the file.
+   *
+   * @param {PackagePart[]} parts The parts inside the ooxml package to create or update.
+   * @param {string[]} deletedFilePaths The paths of the files inside the ooxml package to delete.
+   * @returns {Promise<boolean>} True or false depending on whether the package updated successfully.
+   */
+  async updatePackageParts(parts: PackagePart[], deletedFilePaths: string[] = []): Promise<boolean> {
+    logger.debug(`Updating '${parts.map(p => p.filePath).join(', ')}' and deleting '${deletedFilePaths.join(', ')}' in OOXML package`);
     if (!this.zip) {
       logger.warn('Unable to update package since zip does not exist');
       return false;
     }
 
-    const file = await this.zip.file(filePath, data).generateAsync({ type: 'uint8array', mimeType: this.mimeType, compression: 'DEFLATE' });
-    return await FileSystemUtilities.writeFile(this.ooxmlPackagePath, file);
+    const previousParts = await Promise.all(
+      [...parts.map(p => p.filePath), ...deletedFilePaths].map(async filePath => ({
+        filePath: filePath,
+        data: await this.getPart(filePath),
+      })),
+    );
+
+    for (const part of parts) {
+      this.zip.file(part.filePath, part.data);
+    }
+
+    for (const deletedFilePath of deletedFilePaths) {
+      this.zip.remove(deletedFilePath);
+    }
+
+    try {
+      const file = await OOXMLPackageFileAccessor.generatePackage(this.zip, this.mimeType);
+      const success = await this.writePackage(this.encryption?.encrypt(file) ?? file);
+      if (!success) {
+        this.rollback(previousParts);
+      }
+
+      return success;
+    } catch (err) {
+      this.rollback(previousParts);
+      throw err;
+    }
+  }
+
+  /**
+   * Creates an ooxml package from the provided files, overwriting the file if it exists.
+   * The files are added to the package in the order they are provided.
+   *
+   * @param {string} ooxmlPackagePath The path of the ooxml package to create.
+   * @param {PackagePart[]} parts The parts of the ooxml package.
+   * @returns {Promise<boolean>} True or false depending on whether the package was written successfully.
+   */
+  static async createPackage(ooxmlPackagePath: string, parts: PackagePart[]): Promise<boolean> {
+    logger.debug(`Creating OOXML package '${ooxmlPackagePath}'`);
+    const zip = new JSZip();
+    for (const part of parts) {
+      zip.file(part.filePath, part.data, { createFolders: false });
+    }
+
+    const file = await OOXMLPackageFileAccessor.generatePackage(zip, OOXMLPackageFileAccessor.getMimeType(ooxmlPackagePath));
+    return await FileSystemUtilities.writeFileAtomically(ooxmlPackagePath, file);
+  }
+
+  /**
+   * Gets the backups of the ooxml package.
+   *
+   * @returns {Promise<PackageBackup[]>} A promise resolving to the backups from newest to oldest.
+   */
+  async getBackups(): Promise<PackageBackup[]> {
+    return (await this.backup?.getBackups()) ?? [];
+  }
+
+  /**
+   * Replaces the ooxml package with one of its backups. The current package is backed up first so the restore can be undone.
+   *
+   * @param {string} backupFilePath The path of the backup to restore.
+   * @returns {Promise<boolean>} True or false depending on whether the package was restored successfully.
+   */
+  async restoreBackup(backupFilePath: string): Promise<boolean> {
+    logger.debug(`Restoring '${this.ooxmlPackagePath}' from '${backupFilePath}'`);
+    const data = await FileSystemUtilities.readFile(backupFilePath);
+    await this.backup?.createBackup();
+    this.isBackedUp = true;
+    return await FileSystemUtilities.writeFileAtomically(this.ooxmlPackagePath, data);
+  }
+
+  /**
+   * Checks whether the ooxml package contains a part.
+   *
+   * @param {string} filePath The path of the file inside the ooxml package.
+   * @returns {boolean} Whether or not the part exists.
+   */
+  hasPart(filePath: string): boolean {
+    return !!this.zip?.file(filePath);
+  }
+
+  /**
+   * Gets the paths of all the parts in the ooxml package, excluding folders.
+   *
+   * @returns {string[]} The sorted part paths.
+   */
+  getPartPaths(): string[] {
+    if (!this.zip) {
+      return [];
+    }
+
+    return Object.values(this.zip.files)
+      .filter(file => !file.dir)
+      .map(file => file.name)
+      .sort();
+  }
+
+  /**
+   * Gets the contents of a single part of the ooxml package.
+   *
+   * @param {string} filePath The path of the file inside the ooxml package.
+   * @returns {Promise<Uint8Array | undefined>} A promise resolving to the contents of the part, or undefined if it doesn't exist.
+   */
+  async getPart(filePath: string): Promise<Uint8Array | undefined> {
+    return await this.zip?.file(filePath)?.async('uint8array');
   }
 
   /**
@@ -71,13 +210,105 @@ export class OOXMLPackageFileAccessor {
         })),
     );
   }
+
+  /**
+   * Reads the ooxml package from the file system.
+   *
+   * @returns {Promise<Uint8Array>} A promise resolving to the contents of the ooxml package.
+   */
+  protected async readPackage(): Promise<Uint8Array> {
+    return await FileSystemUtilities.readFile(this.ooxmlPackagePath);
+  }
+
+  /**
+   * Replaces the ooxml package with the provided contents, backing it up first if this is the first time it is written.
+   *
+   * @param {Uint8Array} data The new contents of the ooxml package.
+   * @returns {Promise<boolean>} True or false depending on whether the package was written successfully.
+   */
+  protected async writePackage(data: Uint8Array): Promise<boolean> {
+    if (!this.isBackedUp) {
+      await this.backup?.createBackup();
+      this.isBackedUp = true;
+    }
+
+    return await FileSystemUtilities.writeFileAtomically(this.ooxmlPackagePath, data);
+  }
+
+  private async decryptPackage(data: Uint8Array): Promise<DecryptedPackage> {
+    // the password is kept so that the user isn't asked for it again when the package is reloaded after it is written
+    if (this.password !== undefined) {
+      const decryptedPackage = OOXMLPackageEncryption.decrypt(data, this.password);
+      if (decryptedPackage) {
+        return decryptedPackage;
+      }
+    }
+
+    const packageName = basename(this.ooxmlPackagePath);
+    let prompt = `Enter the password to open '${packageName}'.`;
+    let decryptedPackage: DecryptedPackage | undefined;
+    while (!decryptedPackage) {
+      const password = await ExtensionUtilities.showInput(`'${packageName}' Password`, prompt, undefined, true);
+      if (password === undefined) {
+        throw new Error(`'${packageName}' is encrypted and can't be opened without its password`);
+      }
+
+      logger.debug(`Decrypting '${this.ooxmlPackagePath}'`);
+      decryptedPackage = OOXMLPackageEncryption.decrypt(data, password);
+      this.password = decryptedPackage ? password : this.password;
+      prompt = `The password is incorrect. Enter the password to open '${packageName}'.`;
+    }
+
+    return decryptedPackage;
+  }
+
+  private rollback(previousParts: { filePath: string; data: Uint8Array | undefined }[]): void {
+    logger.debug('Rolling back OOXML package changes');
+    for (const previousPart of previousParts) {
+      if (previousPart.data) {
+        this.zip?.file(previousPart.filePath, previousPart.data);
+      } else {
+        this.zip?.remove(previousPart.filePath);
+      }
+    }
+  }
+
+  private static async generatePackage(zip: JSZip, mimeType: string | undefined): Promise<Uint8Array> {
+    const mimetypeFile = zip.file(MIMETYPE_PATH);
+    if (!mimetypeFile) {
+      return await zip.generateAsync({ type: 'uint8array', mimeType: mimeType, compression: 'DEFLATE' });
+    }
+
+    // odf packages start with their mimetype file stored uncompressed, so that their type can be read at a fixed offset
+    const odfZip = new JSZip();
+    odfZip.file(MIMETYPE_PATH, await mimetypeFile.async('uint8array'), { compression: 'STORE', date: mimetypeFile.date });
+    zip.forEach((relativePath, file) => {
+      if (file.dir) {
+        odfZip.folder(relativePath);
+      } else if (relativePath !== MIMETYPE_PATH) {
+        odfZip.file(relativePath, file.async('uint8array'), { date: file.date, createFolders: false });
+      }
+    });
+
+    return await odfZip.generateAsync({ type: 'uint8array', mimeType: mimeType, compression: 'DEFLATE' });
+  }
+
+  private static getMimeType(ooxmlPackagePath: string): string | undefined {
+    return lookup(basename(ooxmlPackagePath)) || undefined;
+  }
 }
 
 /**
- * Represents each file in the ooxml package.
+ * Represents a part to write to the ooxml package.
  */
-export interface PackageFile {
-  isDirectory: boolean;
+export interface PackagePart {
   filePath: string;
   data: Uint8Array;
 }
+
+/**
+ * Represents each file in the ooxml package.
+ */
+export interface PackageFile extends PackagePart {
+  isDirectory: boolean;
+}
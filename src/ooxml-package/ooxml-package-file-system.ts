@@ -0,0 +1,398 @@
+import { Disposable, FileChangeType, FilePermission, FileStat, FileSystemError, FileType, Uri } from 'vscode';
+import { OOXML_SCHEME, OOXMLFileSystemProvider, PackageFileSystem } from '../file-system/ooxml-file-system-provider';
+import { OOXMLExtensionSettings } from '../ooxml-extension-settings';
+import { CompoundFile } from '../utilities/compound-file';
+import { VbaModule, VbaProjectReader } from '../utilities/vba-project-reader';
+import { XmlFormatter } from '../utilities/xml-formatter';
+
+const textEncoder = new TextEncoder();
+
+const COMPARE_QUERY = 'compare';
+const HISTORY_QUERY = 'history';
+const STREAM_QUERY = 'stream';
+const VBA_MODULE_QUERY = 'vbaModule';
+
+// The number of snapshots kept in the history of each part, the oldest snapshot after the first one is dropped when a new one is taken
+const MAXIMUM_NUMBER_OF_SNAPSHOTS = 20;
+
+/**
+ * The files of an ooxml package served by the ooxml file system provider.
+ * The parts are read from the loaded package, the other versions of the parts are kept in memory.
+ *
+ * Part files, e.g. ooxml:/path/report.docx/word/document.xml
+ *  - the formatted parts, used for displaying and editing the parts, saving one writes it to the package
+ * Compare files, e.g. ooxml:/path/report.docx/word/document.xml?compare
+ *  - the parts before the package last changed, used as the comparison point for diffs
+ * History files, e.g. ooxml:/path/report.docx/word/document.xml?history=3
+ *  - snapshots of the parts each time the package is opened, saved or changed, used to diff or restore earlier versions,
+ *    identified by the id of the snapshot so the uri keeps pointing at the same snapshot when older ones are dropped
+ * Stream files, e.g. ooxml:/path/report.docx/word/vbaProject.bin/VBA/dir?stream=VBA%2Fdir
+ *  - the streams of parts that are compound files, used to view a stream
+ * VBA module files, e.g. ooxml:/path/report.docx/word/vbaProject.bin/Module1.bas?vbaModule=Module1
+ *  - the decompressed source of the modules of VBA project parts, used to view a module
+ * Only the part files can be written to.
+ */
+export class OOXMLPackageFileSystem implements PackageFileSystem {
+  readonly rootUri: Uri;
+  private compareFiles = new Map<string, Uint8Array>();
+  private snapshots: PartSnapshot[] = [];
+  private nextSnapshotId = 1;
+  private modifiedTimes = new Map<string, number>();
+  // The formatted contents of the files that were read by uri, so stat doesn't read and format a file again to get its size
+  private formattedFiles = new Map<string, { filePath: string; data: Promise<Uint8Array> }>();
+  private createdTime = Date.now();
+  private registration: Disposable;
+
+  /**
+   * Creates the files of an ooxml package and registers them with the ooxml file system provider.
+   *
+   * @constructor
+   * @param {string} rootPath The path the ooxml package is opened with.
+   * @param {OOXMLFileSystemProvider} fileSystemProvider The ooxml file system provider.
+   * @param {OOXMLExtensionSettings} extensionSettings The extension settings.
+   * @param {(filePath: string) => Promise<Uint8Array | undefined>} getPart Reads a part of the loaded package.
+   * @param {(filePath: string, data: Uint8Array) => Promise<void>} updatePart Writes a saved part to the package,
+   *  the part files are read-only if not provided.
+   */
+  constructor(
+    rootPath: string,
+    private fileSystemProvider: OOXMLFileSystemProvider,
+    private extensionSettings: OOXMLExtensionSettings,
+    private getPart: (filePath: string) => Promise<Uint8Array | undefined>,
+    private updatePart?: (filePath: string, data: Uint8Array) => Promise<void>,
+  ) {
+    this.rootUri = Uri.file(rootPath).with({ scheme: OOXML_SCHEME });
+    this.registration = fileSystemProvider.register(this.rootUri, this);
+  }
+
+  /**
+   * Gets the uri of a part.
+   *
+   * @param {string} filePath The file path in the ooxml file.
+   * @returns {Uri} The uri of the part file.
+   */
+  getPartUri(filePath: string): Uri {
+    return Uri.joinPath(this.rootUri, filePath);
+  }
+
+  /**
+   * Gets the uri of the compare file of a part.
+   *
+   * @param {string} filePath The file path in the ooxml file.
+   * @returns {Uri} The uri of the compare file.
+   */
+  getCompareUri(filePath: string): Uri {
+    return this.getPartUri(filePath).with({ query: COMPARE_QUERY });
+  }
+
+  /**
+   * Gets the uri of a snapshot.
+   *
+   * @param {PartSnapshot} snapshot The snapshot.
+   * @returns {Uri} The uri of the history file.
+   */
+  getSnapshotUri(snapshot: PartSnapshot): Uri {
+    return this.getPartUri(snapshot.filePath).with({ query: `${HISTORY_QUERY}=${snapshot.id}` });
+  }
+
+  /**
+   * Gets the uri of a stream of a part that is a compound file.
+   *
+   * @param {string} filePath The file path in the ooxml file.
+   * @param {string} streamPath The path of the stream in the compound file.
+   * @returns {Uri} The uri of the stream file.
+   */
+  getStreamUri(filePath: string, streamPath: string): Uri {
+    return Uri.joinPath(this.getPartUri(filePath), streamPath).with({
+      query: new URLSearchParams({ [STREAM_QUERY]: streamPath }).toString(),
+    });
+  }
+
+  /**
+   * Gets the uri of the source of a module of a part that is a VBA project.
+   *
+   * @param {string} filePath The file path in the ooxml file.
+   * @param {VbaModule} vbaModule The module.
+   * @returns {Uri} The uri of the VBA module file, named like the file VBA exports the module to.
+   */
+  getVbaModuleUri(filePath: string, vbaModule: VbaModule): Uri {
+    return Uri.joinPath(this.getPartUri(filePath), VbaProjectReader.getFileName(vbaModule)).with({
+      query: new URLSearchParams({ [VBA_MODULE_QUERY]: vbaModule.name }).toString(),
+    });
+  }
+
+  /**
+   * Gets the path of the part a part file shows.
+   *
+   * @param {Uri} uri The uri of a file.
+   * @returns {string | undefined} The file path in the ooxml file or undefined if the uri isn't one of the package's part files.
+   */
+  getPartFilePath(uri: Uri): string | undefined {
+    // the files of embedded packages are below the part files of the container package
+    if (uri.scheme !== OOXML_SCHEME || uri.query || this.fileSystemProvider.findFileSystem(uri) !== this) {
+      return undefined;
+    }
+
+    return uri.path.substring(this.rootUri.path.length + 1);
+  }
+
+  /**
+   * Reads a part as it is shown, formatted if it is xml that doesn't exceed the maximum size to format.
+   *
+   * @param {string} filePath The file path in the ooxml file.
+   * @returns {Promise<Uint8Array | undefined>} Promise resolving to the contents of the part or undefined if the package doesn't have it.
+   */
+  async readPart(filePath: string): Promise<Uint8Array | undefined> {
+    const data = await this.getPart(filePath);
+    return data && this.tryFormatPart(data);
+  }
+
+  /**
+   * Sets the version of a part its diff compares with.
+   *
+   * @param {string} filePath The file path in the ooxml file.
+   * @param {Uint8Array} fileContents The contents of the part to compare with, empty for new parts.
+   */
+  setCompareFile(filePath: string, fileContents: Uint8Array): void {
+    this.compareFiles.set(filePath, fileContents);
+    this.forgetFormattedFiles(filePath);
+  }
+
+  /**
+   * Removes the compare file of a part that is no longer in the package.
+   *
+   * @param {string} filePath The file path in the ooxml file.
+   */
+  deleteFiles(filePath: string): void {
+    this.compareFiles.delete(filePath);
+    this.modifiedTimes.delete(filePath);
+    this.forgetFormattedFiles(filePath);
+  }
+
+  /**
+   * Moves the compare file and the history of a part to a new file path.
+   *
+   * @param {string} filePath The file path in the ooxml file.
+   * @param {string} newFilePath The new file path in the ooxml file.
+   */
+  renameFiles(filePath: string, newFilePath: string): void {
+    const compareFile = this.compareFiles.get(filePath);
+    if (compareFile) {
+      this.compareFiles.set(newFilePath, compareFile);
+    }
+
+    this.deleteFiles(filePath);
+    this.forgetFormattedFiles(newFilePath);
+    this.snapshots.filter(s => s.filePath === filePath).forEach(s => (s.filePath = newFilePath));
+  }
+
+  /**
+   * Records a snapshot of a file in its history unless it matches the latest snapshot of the file.
+   * Only the first snapshot, e.g. the file as the package was opened, and the newest snapshots of each file are kept.
+   *
+   * @param {string} filePath The file path in the ooxml file.
+   * @param {Uint8Array} fileContents The contents of the file.
+   * @param {string} description What caused the snapshot, e.g. 'Saved'.
+   * @returns {PartSnapshot | undefined} The new snapshot or undefined if the file hasn't changed since the latest snapshot.
+   */
+  createSnapshot(filePath: string, fileContents: Uint8Array, description: string): PartSnapshot | undefined {
+    const latestSnapshot = this.getSnapshots(filePath)[0];
+    if (latestSnapshot && XmlFormatter.areEqual(latestSnapshot.data, fileContents)) {
+      return undefined;
+    }
+
+    const snapshot: PartSnapshot = {
+      id: this.nextSnapshotId++,
+      filePath: filePath,
+      description: description,
+      timestamp: Date.now(),
+      data: fileContents,
+    };
+    this.snapshots.push(snapshot);
+    const droppedSnapshots = this.getSnapshots(filePath).slice(MAXIMUM_NUMBER_OF_SNAPSHOTS - 1, -1);
+    this.snapshots = this.snapshots.filter(s => !droppedSnapshots.includes(s));
+
+    return snapshot;
+  }
+
+  /**
+   * Gets the snapshots in the history of a file.
+   *
+   * @param {string} filePath The file path in the ooxml file.
+   * @returns {PartSnapshot[]} The snapshots from newest to oldest.
+   */
+  getSnapshots(filePath: string): PartSnapshot[] {
+    return this.snapshots.filter(s => s.filePath === filePath).reverse();
+  }
+
+  /**
+   * Tells the editors showing the files of parts that the parts changed or were deleted, so they are reloaded.
+   *
+   * @param {string[]} changedFilePaths The paths of the parts that changed in the package.
+   * @param {string[]} deletedFilePaths The paths of the parts that were deleted from the package.
+   */
+  notifyChanged(changedFilePaths: string[], deletedFilePaths: string[] = []): void {
+    [...changedFilePaths, ...deletedFilePaths].forEach(p => this.touch(p));
+    this.fileSystemProvider.fireDidChangeFile([
+      ...changedFilePaths.map(p => ({ type: FileChangeType.Changed, uri: this.getPartUri(p) })),
+      ...deletedFilePaths.map(p => ({ type: FileChangeType.Deleted, uri: this.getPartUri(p) })),
+      ...[...changedFilePaths, ...deletedFilePaths].map(p => ({ type: FileChangeType.Changed, uri: this.getCompareUri(p) })),
+    ]);
+  }
+
+  /**
+   * Gets the metadata of a file. Only the part files can be written to, and only if the package can be written to.
+   *
+   * @param {Uri} uri The uri of the file.
+   * @returns {Promise<FileStat>} Promise resolving to the metadata of the file, the size is the size of the file as it is read.
+   */
+  async stat(uri: Uri): Promise<FileStat> {
+    const { filePath } = this.parseUri(uri);
+    const data = await this.readFile(uri);
+    return {
+      type: FileType.File,
+      ctime: this.createdTime,
+      mtime: this.modifiedTimes.get(filePath) ?? this.createdTime,
+      size: data.byteLength,
+      permissions: this.updatePart && !uri.query ? undefined : FilePermission.Readonly,
+    };
+  }
+
+  /**
+   * Reads a file, formatted if it is xml that doesn't exceed the maximum size to format.
+   * The formatted file is kept until its part changes.
+   *
+   * @param {Uri} uri The uri of the file.
+   * @returns {Promise<Uint8Array>} Promise resolving to the contents of the file.
+   */
+  async readFile(uri: Uri): Promise<Uint8Array> {
+    const key = uri.toString();
+    const formattedFile = this.formattedFiles.get(key);
+    if (formattedFile) {
+      return await formattedFile.data;
+    }
+
+    const newFormattedFile = {
+      filePath: this.parseUri(uri).filePath,
+      data: this.readUnformattedFile(uri).then(d => this.tryFormatPart(d)),
+    };
+    this.formattedFiles.set(key, newFormattedFile);
+    try {
+      return await newFormattedFile.data;
+    } catch (err) {
+      // files that can't be read aren't kept, so reading them again tries again
+      if (this.formattedFiles.get(key) === newFormattedFile) {
+        this.formattedFiles.delete(key);
+      }
+
+      throw err;
+    }
+  }
+
+  /**
+   * Writes a saved part file to the package.
+   *
+   * @param {Uri} uri The uri of the part file.
+   * @param {Uint8Array} content The saved contents of the part.
+   * @returns {Promise<void>}
+   */
+  async writeFile(uri: Uri, content: Uint8Array): Promise<void> {
+    const { filePath } = this.parseUri(uri);
+    if (!this.updatePart || uri.query) {
+      throw FileSystemError.NoPermissions(uri);
+    }
+
+    await this.updatePart(filePath, content);
+    this.touch(filePath);
+  }
+
+  /**
+   * Unregisters the files and clears the compare files and history.
+   */
+  dispose(): void {
+    this.registration.dispose();
+    this.compareFiles.clear();
+    this.snapshots = [];
+    this.modifiedTimes.clear();
+    this.formattedFiles.clear();
+  }
+
+  private touch(filePath: string): void {
+    // the modified time has to change even if the part changes twice within a millisecond
+    this.modifiedTimes.set(filePath, Math.max(Date.now(), (this.modifiedTimes.get(filePath) ?? this.createdTime) + 1));
+    this.forgetFormattedFiles(filePath);
+  }
+
+  private forgetFormattedFiles(filePath: string): void {
+    // the compare, history, stream and VBA module files of the part are forgotten along with the part file
+    [...this.formattedFiles].filter(([, f]) => f.filePath === filePath).forEach(([key]) => this.formattedFiles.delete(key));
+  }
+
+  private parseUri(uri: Uri): { filePath: string; query: URLSearchParams } {
+    const query = new URLSearchParams(uri.query);
+    const path = uri.path.substring(this.rootUri.path.length + 1);
+    const streamPath = query.get(STREAM_QUERY);
+    if (streamPath !== null) {
+      return { filePath: path.substring(0, path.length - streamPath.length - 1), query: query };
+    }
+
+    return { filePath: query.has(VBA_MODULE_QUERY) ? path.substring(0, path.lastIndexOf('/')) : path, query: query };
+  }
+
+  private async readUnformattedFile(uri: Uri): Promise<Uint8Array> {
+    const { filePath, query } = this.parseUri(uri);
+    const streamPath = query.get(STREAM_QUERY);
+    const vbaModuleName = query.get(VBA_MODULE_QUERY);
+    const snapshotId = query.get(HISTORY_QUERY);
+    let data: Uint8Array | undefined;
+    if (query.has(COMPARE_QUERY)) {
+      data = this.compareFiles.get(filePath);
+    } else if (snapshotId !== null) {
+      data = this.snapshots.find(s => s.id === Number(snapshotId))?.data;
+    } else if (streamPath !== null) {
+      const partData = await this.getPart(filePath);
+      data = partData && CompoundFile.isCompoundFile(partData) ? new CompoundFile(partData).getStream(streamPath) : undefined;
+    } else if (vbaModuleName !== null) {
+      const partData = await this.getPart(filePath);
+      const vbaModule =
+        partData && VbaProjectReader.isVbaProject(partData)
+          ? VbaProjectReader.read(partData).find(m => m.name === vbaModuleName)
+          : undefined;
+      data = vbaModule && textEncoder.encode(vbaModule.source);
+    } else {
+      // parts deleted from the package are shown as empty files until they are removed from the tree view
+      data = (await this.getPart(filePath)) ?? (this.compareFiles.has(filePath) ? new Uint8Array() : undefined);
+    }
+
+    if (!data) {
+      throw FileSystemError.FileNotFound(uri);
+    }
+
+    return data;
+  }
+
+  /**
+   * Formats the part if it is xml that doesn't exceed the maximum size to format.
+   *
+   * @param {Uint8Array} data The contents of the part.
+   * @returns {Uint8Array} The formatted contents or the original contents if they weren't formatted.
+   */
+  private tryFormatPart(data: Uint8Array): Uint8Array {
+    if (XmlFormatter.minify(data, true).byteLength > this.extensionSettings.maximumXmlPartsFileSizeBytes) {
+      return data;
+    }
+
+    return XmlFormatter.format(data);
+  }
+}
+
+/**
+ * A snapshot of a file in the ooxml package.
+ */
+export interface PartSnapshot {
+  id: number;
+  filePath: string;
+  description: string;
+  timestamp: number;
+  data: Uint8Array;
+}
@@ -15,9 +15,11 @@ export class OOXMLPackageFileWatcher {
    * @constructor
    * @param {string} filePath The path to the ooxml file.
    * @param {string} ooxmlPackage The ooxml package.
+   * @param {boolean} watchFileSystem Whether or not to reload the ooxml package when its file changes,
+   * false for embedded ooxml packages, which are reloaded with their container package.
    */
-  constructor(filePath: string, ooxmlPackage: OOXMLPackage) {
-    this.setupFileWatchers(filePath, ooxmlPackage);
+  constructor(filePath: string, ooxmlPackage: OOXMLPackage, watchFileSystem = true) {
+    this.setupFileWatchers(filePath, ooxmlPackage, watchFileSystem);
   }
 
   /**
@@ -28,8 +30,12 @@ export class OOXMLPackageFileWatcher {
     this.watchers = [];
   }
 
-  private setupFileWatchers(filePath: string, ooxmlPackage: OOXMLPackage) {
-    // set up watchers
+  private setupFileWatchers(filePath: string, ooxmlPackage: OOXMLPackage, watchFileSystem: boolean) {
+    // the parts are saved through the ooxml file system provider, so only the package file is watched
+    if (!watchFileSystem) {
+      return;
+    }
+
     const fileSystemWatcher: FileSystemWatcher = workspace.createFileSystemWatcher(
       new RelativePattern(dirname(filePath), basename(filePath)),
     );
@@ -72,9 +78,6 @@ export class OOXMLPackageFileWatcher {
       await ooxmlPackage.removePackage();
     });
 
-    const openTextDocumentWatcher = workspace.onDidOpenTextDocument(async document => ooxmlPackage.tryFormatDocument(document.fileName));
-    const saveTextDocumentWatcher = workspace.onDidSaveTextDocument(async document => ooxmlPackage.updateOOXMLFile(document.fileName));
-
-    this.watchers.push(openTextDocumentWatcher, fileSystemWatcher, saveTextDocumentWatcher);
+    this.watchers.push(fileSystemWatcher);
   }
 }
@@ -0,0 +1,158 @@
+import { Disposable, Hover, HoverProvider, languages, MarkdownString, Position, Range, RelativePattern, TextDocument } from 'vscode';
+import { OOXML_SCHEME } from '../file-system/ooxml-file-system-provider';
+import { OOXMLUnits } from '../utilities/ooxml-units';
+import { XmlSchemaDefinition } from '../utilities/xml-schema-validator';
+import { XmlTagScanner } from '../utilities/xml-tag-scanner';
+import { OOXMLPackageFileSystem } from './ooxml-package-file-system';
+import { OOXMLPackageSchemaValidator } from './ooxml-package-schema-validator';
+
+// Matches the name and attributes of a start tag
+const START_TAG_PATTERN = /<([\w.:-]+)((?:[^>"'/]|\/(?!>)|"[^"]*"|'[^']*')*)/y;
+const ATTRIBUTE_PATTERN = /([\w.:-]+)\s*=\s*(["'])(.*?)\2/g;
+
+/**
+ * Hover information for the elements and attributes in the parts of an ooxml package:
+ * their schema type and documentation, and the values of measurement attributes in human units, e.g. twips and EMUs in pt, cm and in.
+ */
+export class OOXMLPackageHoverProvider implements HoverProvider {
+  private registrations: Disposable[] = [];
+
+  /**
+   * Creates the hover provider and registers it for the parts of an ooxml package.
+   *
+   * @constructor
+   * @param {OOXMLPackageFileSystem} fileSystem The files of the ooxml package.
+   */
+  constructor(private fileSystem: OOXMLPackageFileSystem) {
+    const selector = { scheme: OOXML_SCHEME, pattern: new RelativePattern(fileSystem.rootUri, '**/*') };
+    this.registrations.push(languages.registerHoverProvider(selector, this));
+  }
+
+  /**
+   * Disposes the provider registrations.
+   */
+  dispose(): void {
+    this.registrations.forEach(r => r.dispose());
+    this.registrations = [];
+  }
+
+  /**
+   * Provides the schema type and documentation of the element or attribute at the position.
+   *
+   * @param {TextDocument} document The document in which the hover was invoked.
+   * @param {Position} position The position at which the hover was invoked.
+   * @returns {Promise<Hover | undefined>} The hover or undefined if there is no element or attribute the schema declares at the position.
+   */
+  async provideHover(document: TextDocument, position: Position): Promise<Hover | undefined> {
+    const target = OOXMLPackageHoverProvider.findHoverTarget(document.getText(), document.offsetAt(position));
+    if (!target) {
+      return undefined;
+    }
+
+    const filePath = this.fileSystem.getPartFilePath(document.uri);
+    const schemaSet = filePath !== undefined ? await OOXMLPackageSchemaValidator.getPartSchemaSet(this.fileSystem, filePath) : undefined;
+    const definition = target.attribute
+      ? schemaSet?.getAttributeDefinition(target.elementPath, target.attribute.name)
+      : schemaSet?.getElementDefinition(target.elementPath);
+    if (!definition) {
+      return undefined;
+    }
+
+    const contents = new MarkdownString();
+    contents.appendMarkdown(
+      target.attribute
+        ? `**${target.attribute.qualifiedName}** attribute of **${target.qualifiedName}**`
+        : `**${target.qualifiedName}** element`,
+    );
+    OOXMLPackageHoverProvider.appendDefinition(contents, definition);
+
+    const valueInUnits = target.attribute && definition.typeName && OOXMLUnits.describe(definition.typeName, target.attribute.value);
+    if (valueInUnits) {
+      contents.appendMarkdown('\n\n');
+      contents.appendText(valueInUnits);
+    }
+
+    return new Hover(contents, new Range(document.positionAt(target.start), document.positionAt(target.end)));
+  }
+
+  private static appendDefinition(contents: MarkdownString, definition: XmlSchemaDefinition): void {
+    if (definition.typeName) {
+      contents.appendMarkdown(` \`${definition.typeName}\``);
+    }
+
+    if (definition.documentation) {
+      contents.appendMarkdown('\n\n');
+      contents.appendText(definition.documentation);
+    }
+  }
+
+  /**
+   * Finds the element name or attribute of the start tag at an offset.
+   *
+   * @param {string} text The text of the part.
+   * @param {number} offset The offset of the position.
+   * @returns {HoverTarget | undefined} The element or attribute or undefined if the offset isn't on the name or an attribute of a start tag.
+   */
+  private static findHoverTarget(text: string, offset: number): HoverTarget | undefined {
+    const tagStart = text.lastIndexOf('<', offset);
+    START_TAG_PATTERN.lastIndex = Math.max(tagStart, 0);
+    const startTag = tagStart !== -1 ? START_TAG_PATTERN.exec(text) : null;
+    if (!startTag || offset > tagStart + startTag[0].length) {
+      return undefined;
+    }
+
+    const [, qualifiedName, attributesText] = startTag;
+    // the tag is undefined if it is in a comment
+    const tag = XmlTagScanner.findUnfinishedTag(text.substring(0, tagStart + startTag[0].length));
+    if (!tag) {
+      return undefined;
+    }
+
+    const elementPath = [...tag.ancestorPath, XmlTagScanner.resolveName(qualifiedName, tag.namespaces, true)];
+    const nameEnd = tagStart + 1 + qualifiedName.length;
+    if (offset <= nameEnd) {
+      return { elementPath: elementPath, qualifiedName: qualifiedName, start: tagStart + 1, end: nameEnd };
+    }
+
+    for (const attribute of attributesText.matchAll(ATTRIBUTE_PATTERN)) {
+      const start = nameEnd + (attribute.index ?? 0);
+      const end = start + attribute[0].length;
+      if (offset >= start && offset <= end) {
+        return {
+          elementPath: elementPath,
+          qualifiedName: qualifiedName,
+          attribute: {
+            qualifiedName: attribute[1],
+            name: XmlTagScanner.resolveName(attribute[1], tag.namespaces, false),
+            value: attribute[3],
+          },
+          start: start,
+          end: end,
+        };
+      }
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * The element name or attribute at a position and its offsets in the text.
+ */
+interface HoverTarget {
+  /**
+   * The '{namespace}localName' names of the element and its ancestors.
+   */
+  elementPath: string[];
+  qualifiedName: string;
+  attribute?: {
+    qualifiedName: string;
+    /**
+     * The '{namespace}localName' name of the attribute.
+     */
+    name: string;
+    value: string;
+  };
+  start: number;
+  end: number;
+}
@@ -0,0 +1,153 @@
+import { Document, Element, XMLSerializer } from '@xmldom/xmldom';
+import { XmlFormatter } from '../utilities/xml-formatter';
+
+const textEncoder = new TextEncoder();
+
+export const MANIFEST_PATH = 'META-INF/manifest.xml';
+export const MIMETYPE_PATH = 'mimetype';
+const MANIFEST_NAMESPACE = 'urn:oasis:names:tc:opendocument:xmlns:manifest:1.0';
+
+/**
+ * The manifest of an odf package, i.e. the contents of the META-INF/manifest.xml part,
+ * which lists the files of the package with their media types instead of [Content_Types].xml and relationships.
+ */
+export class OOXMLPackageManifest {
+  private document: Document;
+
+  private get manifestElement(): Element {
+    const manifestElement = this.document.documentElement;
+    if (!manifestElement) {
+      throw new Error(`'${MANIFEST_PATH}' does not contain a manifest element`);
+    }
+
+    return manifestElement;
+  }
+
+  /**
+   * Creates an instance of the odf package manifest.
+   *
+   * @constructor
+   * @param {Uint8Array} data The contents of the META-INF/manifest.xml part.
+   * @throws {Error} If the META-INF/manifest.xml part isn't well-formed.
+   */
+  constructor(data: Uint8Array) {
+    this.document = XmlFormatter.parse(data, MANIFEST_PATH);
+  }
+
+  /**
+   * Determines whether or not a package is an odf package, i.e. it has a mimetype file or a manifest.
+   *
+   * @param {string[]} filePaths The paths of the files in the package.
+   * @returns {boolean} Whether or not the package is an odf package.
+   */
+  static isOdfPackage(filePaths: string[]): boolean {
+    return filePaths.includes(MIMETYPE_PATH) || filePaths.includes(MANIFEST_PATH);
+  }
+
+  /**
+   * Determines whether or not a file of an odf package is listed in its manifest. The mimetype file and the files
+   * in the META-INF folder, e.g. the manifest itself and the signatures, aren't listed.
+   *
+   * @param {string} filePath The path of the file in the odf package.
+   * @returns {boolean} Whether or not the file should have a file entry.
+   */
+  static isListedFile(filePath: string): boolean {
+    return filePath !== MIMETYPE_PATH && !filePath.startsWith('META-INF/');
+  }
+
+  /**
+   * Gets the media type of a file.
+   *
+   * @param {string} filePath The path of the file in the odf package.
+   * @returns {string | undefined} The media type of the file or undefined if it isn't listed.
+   */
+  getMediaType(filePath: string): string | undefined {
+    return this.findFileEntry(filePath)?.getAttributeNS(MANIFEST_NAMESPACE, 'media-type') ?? undefined;
+  }
+
+  /**
+   * Gets the paths of the files listed in the manifest, excluding the entries of the package itself and of folders.
+   *
+   * @returns {string[]} The file paths.
+   */
+  getFilePaths(): string[] {
+    return this.getFileEntries()
+      .map(e => e.getAttributeNS(MANIFEST_NAMESPACE, 'full-path') ?? '')
+      .filter(p => p && !p.endsWith('/'));
+  }
+
+  /**
+   * Adds a file entry for a new file or replaces the media type of its file entry.
+   *
+   * @param {string} filePath The path of the file in the odf package.
+   * @param {string} mediaType The media type of the file.
+   * @returns {boolean} Whether or not the manifest was changed.
+   */
+  registerPart(filePath: string, mediaType: string): boolean {
+    const existingFileEntry = this.findFileEntry(filePath);
+    if (existingFileEntry) {
+      if (existingFileEntry.getAttributeNS(MANIFEST_NAMESPACE, 'media-type') === mediaType) {
+        return false;
+      }
+
+      existingFileEntry.setAttributeNS(MANIFEST_NAMESPACE, this.getQualifiedName('media-type'), mediaType);
+      return true;
+    }
+
+    const fileEntry = this.document.createElementNS(MANIFEST_NAMESPACE, this.getQualifiedName('file-entry'));
+    fileEntry.setAttributeNS(MANIFEST_NAMESPACE, this.getQualifiedName('full-path'), filePath);
+    fileEntry.setAttributeNS(MANIFEST_NAMESPACE, this.getQualifiedName('media-type'), mediaType);
+    this.manifestElement.appendChild(fileEntry);
+    return true;
+  }
+
+  /**
+   * Removes the file entry of a file.
+   *
+   * @param {string} filePath The path of the file in the odf package.
+   * @returns {boolean} Whether or not the file had a file entry.
+   */
+  removePart(filePath: string): boolean {
+    const fileEntry = this.findFileEntry(filePath);
+    fileEntry?.parentNode?.removeChild(fileEntry);
+    return !!fileEntry;
+  }
+
+  /**
+   * Moves the file entry of a file to its new path, keeping its media type and encryption data.
+   *
+   * @param {string} filePath The current path of the file in the odf package.
+   * @param {string} newFilePath The new path of the file in the odf package.
+   * @returns {boolean} Whether or not the manifest was changed.
+   */
+  renamePart(filePath: string, newFilePath: string): boolean {
+    const fileEntry = this.findFileEntry(filePath);
+    fileEntry?.setAttributeNS(MANIFEST_NAMESPACE, this.getQualifiedName('full-path'), newFilePath);
+    return !!fileEntry;
+  }
+
+  /**
+   * Serializes the manifest.
+   *
+   * @returns {Uint8Array} The contents of the META-INF/manifest.xml part.
+   */
+  toData(): Uint8Array {
+    return textEncoder.encode(new XMLSerializer().serializeToString(this.document));
+  }
+
+  private getQualifiedName(localName: string): string {
+    const prefix = this.manifestElement.prefix;
+    return prefix ? `${prefix}:${localName}` : localName;
+  }
+
+  private findFileEntry(filePath: string): Element | undefined {
+    return this.getFileEntries().find(e => e.getAttributeNS(MANIFEST_NAMESPACE, 'full-path') === filePath);
+  }
+
+  private getFileEntries(): Element[] {
+    return Array.from(this.manifestElement.childNodes).filter(
+      (node): node is Element =>
+        node.nodeType === node.ELEMENT_NODE && (node as Element).localName === 'file-entry' && node.namespaceURI === MANIFEST_NAMESPACE,
+    );
+  }
+}
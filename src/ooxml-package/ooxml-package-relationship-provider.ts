@@ -0,0 +1,269 @@
+import {
+  DefinitionProvider,
+  Disposable,
+  languages,
+  Location,
+  Position,
+  Range,
+  ReferenceContext,
+  ReferenceProvider,
+  RelativePattern,
+  TextDocument,
+  workspace,
+} from 'vscode';
+import { OOXML_SCHEME } from '../file-system/ooxml-file-system-provider';
+import logger from '../utilities/logger';
+import { OOXMLPackageFileSystem } from './ooxml-package-file-system';
+import { OOXMLPackageRelationships, RELATIONSHIP_ID_NAMESPACES } from './ooxml-package-relationships';
+
+const textDecoder = new TextDecoder();
+
+const DEFAULT_RELATIONSHIP_ID_PREFIX = 'r';
+
+/**
+ * Go to definition and find references for the relationship ids, e.g. r:embed="rId7", in the parts of an ooxml package.
+ *
+ * From a relationship id in a part, go to definition goes to the Relationship element in the part's relationships part
+ * and to the target part. From the Id of a Relationship element, find references lists the relationship id's usages in the source part.
+ */
+export class OOXMLPackageRelationshipProvider implements DefinitionProvider, ReferenceProvider {
+  private registrations: Disposable[] = [];
+
+  /**
+   * Creates the relationship provider and registers it for the parts of an ooxml package.
+   *
+   * @constructor
+   * @param {OOXMLPackageFileSystem} fileSystem The files of the ooxml package.
+   */
+  constructor(private fileSystem: OOXMLPackageFileSystem) {
+    const selector = { scheme: OOXML_SCHEME, pattern: new RelativePattern(fileSystem.rootUri, '**/*') };
+    this.registrations.push(languages.registerDefinitionProvider(selector, this), languages.registerReferenceProvider(selector, this));
+  }
+
+  /**
+   * Disposes the provider registrations.
+   */
+  dispose(): void {
+    this.registrations.forEach(r => r.dispose());
+    this.registrations = [];
+  }
+
+  /**
+   * Provides the Relationship element and target part of the relationship id at the position,
+   * or the target part of the Relationship element Target at the position in a relationships part.
+   *
+   * @param {TextDocument} document The document in which the command was invoked.
+   * @param {Position} position The position at which the command was invoked.
+   * @returns {Promise<Location[] | undefined>} The definitions or undefined if there is no relationship at the position.
+   */
+  async provideDefinition(document: TextDocument, position: Position): Promise<Location[] | undefined> {
+    const filePath = this.fileSystem.getPartFilePath(document.uri);
+    if (filePath === undefined) {
+      return undefined;
+    }
+
+    const text = document.getText();
+    const offset = document.offsetAt(position);
+
+    if (OOXMLPackageRelationships.isRelationshipsPart(filePath)) {
+      const relationship = OOXMLPackageRelationshipProvider.findRelationshipElements(text).find(r => r.target.contains(offset));
+      if (!relationship || relationship.targetMode === 'External') {
+        return undefined;
+      }
+
+      const sourcePartPath = OOXMLPackageRelationships.getSourcePartPath(filePath);
+      return [this.getPartLocation(OOXMLPackageRelationships.resolveTarget(sourcePartPath, relationship.target.value))];
+    }
+
+    const relationshipId = OOXMLPackageRelationshipProvider.findRelationshipIdAttributes(text).find(a => a.contains(offset));
+    if (!relationshipId) {
+      return undefined;
+    }
+
+    const relationshipsPartPath = OOXMLPackageRelationships.getRelationshipsPartPath(filePath);
+    const relationshipsText = await this.readPart(relationshipsPartPath);
+    const relationship = OOXMLPackageRelationshipProvider.findRelationshipElements(relationshipsText ?? '').find(
+      r => r.id.value === relationshipId.value,
+    );
+    if (!relationshipsText || !relationship) {
+      logger.debug(`'${relationshipId.value}' is not defined in '${relationshipsPartPath}'`);
+      return undefined;
+    }
+
+    const definitions = [this.getLocation(relationshipsPartPath, relationshipsText, relationship.start, relationship.end)];
+    if (relationship.targetMode !== 'External') {
+      definitions.push(this.getPartLocation(OOXMLPackageRelationships.resolveTarget(filePath, relationship.target.value)));
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Provides the usages of the relationship id at the position in the source part,
+   * either from the Id of a Relationship element or from a relationship id in the source part.
+   *
+   * @param {TextDocument} document The document in which the command was invoked.
+   * @param {Position} position The position at which the command was invoked.
+   * @param {ReferenceContext} context Whether or not to include the Relationship element.
+   * @returns {Promise<Location[] | undefined>} The references or undefined if there is no relationship id at the position.
+   */
+  async provideReferences(document: TextDocument, position: Position, context: ReferenceContext): Promise<Location[] | undefined> {
+    const filePath = this.fileSystem.getPartFilePath(document.uri);
+    if (filePath === undefined) {
+      return undefined;
+    }
+
+    const text = document.getText();
+    const isRelationshipsPart = OOXMLPackageRelationships.isRelationshipsPart(filePath);
+    const sourcePartPath = isRelationshipsPart ? OOXMLPackageRelationships.getSourcePartPath(filePath) : filePath;
+    const relationshipIds = isRelationshipsPart
+      ? OOXMLPackageRelationshipProvider.findRelationshipElements(text).map(r => r.id)
+      : OOXMLPackageRelationshipProvider.findRelationshipIdAttributes(text);
+    const relationshipId = relationshipIds.find(a => a.contains(document.offsetAt(position)))?.value;
+
+    const sourcePartText = relationshipId ? await this.readPart(sourcePartPath) : undefined;
+    if (!relationshipId || sourcePartText === undefined) {
+      return undefined;
+    }
+
+    const references = OOXMLPackageRelationshipProvider.findRelationshipIdAttributes(sourcePartText)
+      .filter(a => a.value === relationshipId)
+      .map(a => this.getLocation(sourcePartPath, sourcePartText, a.start, a.end));
+
+    if (context.includeDeclaration) {
+      const relationshipsPartPath = OOXMLPackageRelationships.getRelationshipsPartPath(sourcePartPath);
+      const relationshipsText = await this.readPart(relationshipsPartPath);
+      const relationship = OOXMLPackageRelationshipProvider.findRelationshipElements(relationshipsText ?? '').find(
+        r => r.id.value === relationshipId,
+      );
+      if (relationshipsText && relationship) {
+        references.unshift(this.getLocation(relationshipsPartPath, relationshipsText, relationship.id.start, relationship.id.end));
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Finds the attributes in the relationships namespace, e.g. r:id, r:embed or r:link.
+   *
+   * @param {string} text The xml of a part.
+   * @returns {AttributeValue[]} The values of the attributes.
+   */
+  private static findRelationshipIdAttributes(text: string): AttributeValue[] {
+    const prefixes = new Set<string>();
+    for (const match of text.matchAll(/\bxmlns:([\w.-]+)\s*=\s*(["'])(.*?)\2/g)) {
+      if (RELATIONSHIP_ID_NAMESPACES.includes(match[3])) {
+        prefixes.add(match[1]);
+      }
+    }
+
+    if (!prefixes.size) {
+      prefixes.add(DEFAULT_RELATIONSHIP_ID_PREFIX);
+    }
+
+    const prefixPattern = [...prefixes].map(p => p.replace(/\./g, '\\.')).join('|');
+    return OOXMLPackageRelationshipProvider.findAttributeValues(
+      text,
+      new RegExp(`\\s(?:${prefixPattern}):[\\w.-]+\\s*=\\s*(["'])(.*?)\\1`, 'g'),
+    );
+  }
+
+  /**
+   * Finds the Relationship elements in a relationships part.
+   *
+   * @param {string} text The xml of a relationships part.
+   * @returns {RelationshipElement[]} The Relationship elements.
+   */
+  private static findRelationshipElements(text: string): RelationshipElement[] {
+    const relationshipElements: RelationshipElement[] = [];
+    for (const match of text.matchAll(/<(?:[\w.-]+:)?Relationship\s[^>]*>/g)) {
+      const element = match[0];
+      const start = match.index ?? 0;
+      const findAttribute = (name: string) =>
+        OOXMLPackageRelationshipProvider.findAttributeValues(element, new RegExp(`\\s${name}\\s*=\\s*(["'])(.*?)\\1`, 'g'))[0]?.offsetBy(
+          start,
+        );
+
+      const id = findAttribute('Id');
+      const target = findAttribute('Target');
+      if (id && target) {
+        relationshipElements.push({ start, end: start + element.length, id, target, targetMode: findAttribute('TargetMode')?.value });
+      }
+    }
+
+    return relationshipElements;
+  }
+
+  private static findAttributeValues(text: string, attributePattern: RegExp): AttributeValue[] {
+    return Array.from(text.matchAll(attributePattern), match => {
+      const value = match[2];
+      // the value is followed by the closing quote
+      const end = (match.index ?? 0) + match[0].length - 1;
+      return new AttributeValue(value, end - value.length, end);
+    });
+  }
+
+  private getPartLocation(filePath: string): Location {
+    return new Location(this.fileSystem.getPartUri(filePath), new Position(0, 0));
+  }
+
+  private getLocation(filePath: string, text: string, start: number, end: number): Location {
+    return new Location(
+      this.fileSystem.getPartUri(filePath),
+      new Range(OOXMLPackageRelationshipProvider.getPosition(text, start), OOXMLPackageRelationshipProvider.getPosition(text, end)),
+    );
+  }
+
+  private static getPosition(text: string, offset: number): Position {
+    const lines = text.substring(0, offset).split('\n');
+    return new Position(lines.length - 1, lines[lines.length - 1].length);
+  }
+
+  /**
+   * Reads a formatted part, preferring the open document so unsaved changes are used.
+   *
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @returns {Promise<string | undefined>} A promise resolving to the text of the part or undefined if the part doesn't exist.
+   */
+  private async readPart(filePath: string): Promise<string | undefined> {
+    const partUri = this.fileSystem.getPartUri(filePath).toString();
+    const openDocument = workspace.textDocuments.find(d => d.uri.toString() === partUri);
+    if (openDocument) {
+      return openDocument.getText();
+    }
+
+    const data = await this.fileSystem.readPart(filePath);
+    return data ? textDecoder.decode(data) : undefined;
+  }
+}
+
+/**
+ * The value of an attribute and its offsets in the text.
+ */
+class AttributeValue {
+  constructor(
+    public value: string,
+    public start: number,
+    public end: number,
+  ) {}
+
+  contains(offset: number): boolean {
+    return offset >= this.start && offset <= this.end;
+  }
+
+  offsetBy(offset: number): AttributeValue {
+    return new AttributeValue(this.value, this.start + offset, this.end + offset);
+  }
+}
+
+/**
+ * A Relationship element and its offsets in the text of a relationships part.
+ */
+interface RelationshipElement {
+  start: number;
+  end: number;
+  id: AttributeValue;
+  target: AttributeValue;
+  targetMode: string | undefined;
+}
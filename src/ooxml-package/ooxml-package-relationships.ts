@@ -0,0 +1,322 @@
+import { Document, Element, XMLSerializer } from '@xmldom/xmldom';
+import { posix } from 'path';
+import { XmlFormatter } from '../utilities/xml-formatter';
+
+const textEncoder = new TextEncoder();
+
+const RELATIONSHIPS_FOLDER_NAME = '_rels';
+const RELATIONSHIPS_EXTENSION = '.rels';
+const RELATIONSHIPS_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const OFFICE_DOCUMENT_RELATIONSHIPS_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+export const RELATIONSHIPS_CONTENT_TYPE = 'application/vnd.openxmlformats-package.relationships+xml';
+
+/**
+ * The namespaces of the attributes that reference a relationship id in a part, e.g. r:embed="rId7",
+ * in transitional and strict ooxml.
+ */
+export const RELATIONSHIP_ID_NAMESPACES = [
+  OFFICE_DOCUMENT_RELATIONSHIPS_NAMESPACE,
+  'http://purl.oclc.org/ooxml/officeDocument/relationships',
+];
+
+/**
+ * Relationship types of parts that are commonly imported into a package, keyed by a friendly name.
+ */
+export const IMPORTED_PART_RELATIONSHIP_TYPES: Record<string, string> = {
+  image: `${OFFICE_DOCUMENT_RELATIONSHIPS_NAMESPACE}/image`,
+  oleObject: `${OFFICE_DOCUMENT_RELATIONSHIPS_NAMESPACE}/oleObject`,
+  package: `${OFFICE_DOCUMENT_RELATIONSHIPS_NAMESPACE}/package`,
+  video: `${OFFICE_DOCUMENT_RELATIONSHIPS_NAMESPACE}/video`,
+  audio: `${OFFICE_DOCUMENT_RELATIONSHIPS_NAMESPACE}/audio`,
+  media: 'http://schemas.microsoft.com/office/2007/relationships/media',
+  customXml: `${OFFICE_DOCUMENT_RELATIONSHIPS_NAMESPACE}/customXml`,
+};
+
+const IMPORTED_PART_RELATIONSHIP_TYPE_EXTENSIONS: Record<string, string[]> = {
+  image: ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'tif', 'tiff', 'emf', 'wmf', 'svg', 'ico'],
+  oleObject: ['bin'],
+  package: ['docx', 'docm', 'xlsx', 'xlsm', 'pptx', 'pptm', 'sldx'],
+  video: ['mp4', 'm4v', 'mov', 'avi', 'wmv', 'mpg', 'mpeg'],
+  audio: ['mp3', 'm4a', 'wav', 'wma', 'mid', 'midi'],
+};
+
+/**
+ * The relationships of a source part, i.e. the contents of a _rels/*.rels part.
+ */
+export class OOXMLPackageRelationships {
+  private document: Document;
+  private _sourcePartPath: string;
+
+  /**
+   * The path of the part the relationships belong to, or an empty string for the package relationships.
+   */
+  get sourcePartPath(): string {
+    return this._sourcePartPath;
+  }
+
+  /**
+   * The path of the relationships part in the ooxml package.
+   */
+  get relationshipsPartPath(): string {
+    return OOXMLPackageRelationships.getRelationshipsPartPath(this._sourcePartPath);
+  }
+
+  /**
+   * Creates an instance of the ooxml package relationships.
+   *
+   * @constructor
+   * @param {string} relationshipsPartPath The path of the relationships part in the ooxml package.
+   * @param {Uint8Array} data The contents of the relationships part.
+   * @throws {Error} If the relationships part isn't well-formed.
+   */
+  constructor(relationshipsPartPath: string, data: Uint8Array) {
+    this._sourcePartPath = OOXMLPackageRelationships.getSourcePartPath(relationshipsPartPath);
+    this.document = XmlFormatter.parse(data, relationshipsPartPath);
+  }
+
+  /**
+   * Gets the relationships.
+   *
+   * @returns {Relationship[]} The relationships of the source part.
+   */
+  getRelationships(): Relationship[] {
+    return this.getRelationshipElements().map(element => this.toRelationship(element));
+  }
+
+  /**
+   * Removes the internal relationships that target a part.
+   * Part names are compared case-insensitively.
+   *
+   * @param {string} filePath The path of the target part in the ooxml package.
+   * @returns {Relationship[]} The removed relationships.
+   */
+  removeRelationshipsTargeting(filePath: string): Relationship[] {
+    const removedRelationships: Relationship[] = [];
+    for (const element of this.getRelationshipElements()) {
+      const relationship = this.toRelationship(element);
+      if (relationship.targetPath?.toLowerCase() === filePath.toLowerCase()) {
+        element.parentNode?.removeChild(element);
+        removedRelationships.push(relationship);
+      }
+    }
+
+    return removedRelationships;
+  }
+
+  /**
+   * Adds an internal relationship to a part with the next available id.
+   *
+   * @param {string} type The relationship type.
+   * @param {string} targetPath The path of the target part in the ooxml package.
+   * @returns {string} The id of the new relationship.
+   */
+  addRelationship(type: string, targetPath: string): string {
+    const maxId = Math.max(0, ...this.getRelationships().map(r => Number(/^rId(\d+)$/.exec(r.id)?.[1] ?? 0)));
+    const id = `rId${maxId + 1}`;
+
+    const relationshipsElement = this.document.documentElement;
+    if (!relationshipsElement) {
+      throw new Error(`'${this.relationshipsPartPath}' does not contain a Relationships element`);
+    }
+
+    const element = this.document.createElementNS(RELATIONSHIPS_NAMESPACE, 'Relationship');
+    element.setAttribute('Id', id);
+    element.setAttribute('Type', type);
+    element.setAttribute('Target', OOXMLPackageRelationships.getRelativeTarget(this.sourcePartPath, targetPath));
+    relationshipsElement.appendChild(element);
+
+    return id;
+  }
+
+  /**
+   * Points the internal relationships that target a part at the part's new path.
+   *
+   * @param {string} filePath The current path of the target part in the ooxml package.
+   * @param {string} newFilePath The new path of the target part in the ooxml package.
+   * @returns {Relationship[]} The relationships that were updated, with their previous targets.
+   */
+  retargetRelationships(filePath: string, newFilePath: string): Relationship[] {
+    const retargetedRelationships: Relationship[] = [];
+    for (const element of this.getRelationshipElements()) {
+      const relationship = this.toRelationship(element);
+      if (relationship.targetPath?.toLowerCase() === filePath.toLowerCase()) {
+        this.setTargetPath(element, newFilePath);
+        retargetedRelationships.push(relationship);
+      }
+    }
+
+    return retargetedRelationships;
+  }
+
+  /**
+   * Moves the relationships to a new source part. Relative targets are rewritten so that
+   * they still resolve to the same parts from the new source part's folder.
+   *
+   * @param {string} newSourcePartPath The new path of the source part in the ooxml package.
+   */
+  moveSourcePart(newSourcePartPath: string): void {
+    const targetPaths = this.getRelationshipElements().map(element => ({ element, targetPath: this.toRelationship(element).targetPath }));
+    this._sourcePartPath = newSourcePartPath;
+
+    for (const { element, targetPath } of targetPaths) {
+      if (targetPath !== undefined) {
+        this.setTargetPath(element, targetPath);
+      }
+    }
+  }
+
+  /**
+   * Serializes the relationships.
+   *
+   * @returns {Uint8Array} The contents of the relationships part.
+   */
+  toData(): Uint8Array {
+    return textEncoder.encode(new XMLSerializer().serializeToString(this.document));
+  }
+
+  /**
+   * Creates empty relationships for a source part.
+   *
+   * @param {string} sourcePartPath The path of the source part, or an empty string for the package relationships.
+   * @returns {OOXMLPackageRelationships} The empty relationships.
+   */
+  static create(sourcePartPath: string): OOXMLPackageRelationships {
+    const xml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="${RELATIONSHIPS_NAMESPACE}"/>`;
+    return new OOXMLPackageRelationships(OOXMLPackageRelationships.getRelationshipsPartPath(sourcePartPath), textEncoder.encode(xml));
+  }
+
+  /**
+   * Gets the friendly name of the relationship type an imported file most likely needs based on its extension.
+   *
+   * @param {string} filePath The path of the imported file.
+   * @returns {string | undefined} A key of IMPORTED_PART_RELATIONSHIP_TYPES or undefined if the extension isn't recognized.
+   */
+  static getImportedPartRelationshipTypeName(filePath: string): string | undefined {
+    const extension = posix.extname(filePath).substring(1).toLowerCase();
+    return Object.keys(IMPORTED_PART_RELATIONSHIP_TYPE_EXTENSIONS).find(name =>
+      IMPORTED_PART_RELATIONSHIP_TYPE_EXTENSIONS[name].includes(extension),
+    );
+  }
+
+  /**
+   * Checks whether a file in the ooxml package is a relationships part.
+   *
+   * @param {string} filePath The path of the file in the ooxml package.
+   * @returns {boolean} Whether or not the file is a relationships part.
+   */
+  static isRelationshipsPart(filePath: string): boolean {
+    return posix.basename(posix.dirname(filePath)) === RELATIONSHIPS_FOLDER_NAME && filePath.endsWith(RELATIONSHIPS_EXTENSION);
+  }
+
+  /**
+   * Gets the path of the relationships part of a source part, e.g. 'word/document.xml' becomes 'word/_rels/document.xml.rels'.
+   *
+   * @param {string} sourcePartPath The path of the source part, or an empty string for the package relationships.
+   * @returns {string} The path of the relationships part.
+   */
+  static getRelationshipsPartPath(sourcePartPath: string): string {
+    const folderPath = posix.dirname(sourcePartPath);
+    const relationshipsPartName = `${posix.basename(sourcePartPath)}${RELATIONSHIPS_EXTENSION}`;
+    return folderPath === '.'
+      ? `${RELATIONSHIPS_FOLDER_NAME}/${relationshipsPartName}`
+      : `${folderPath}/${RELATIONSHIPS_FOLDER_NAME}/${relationshipsPartName}`;
+  }
+
+  /**
+   * Gets the path of the source part of a relationships part, e.g. 'word/_rels/document.xml.rels' becomes 'word/document.xml'.
+   *
+   * @param {string} relationshipsPartPath The path of the relationships part.
+   * @returns {string} The path of the source part, or an empty string for the package relationships.
+   */
+  static getSourcePartPath(relationshipsPartPath: string): string {
+    const sourceFolderPath = posix.dirname(posix.dirname(relationshipsPartPath));
+    const relationshipsPartName = posix.basename(relationshipsPartPath);
+    const sourcePartName = relationshipsPartName.substring(0, relationshipsPartName.length - RELATIONSHIPS_EXTENSION.length);
+    return sourceFolderPath === '.' ? sourcePartName : `${sourceFolderPath}/${sourcePartName}`;
+  }
+
+  /**
+   * Resolves a relationship target against the folder of its source part.
+   *
+   * @param {string} sourcePartPath The path of the source part, or an empty string for the package relationships.
+   * @param {string} target The value of the relationship's Target attribute.
+   * @returns {string} The path of the target part in the ooxml package.
+   */
+  static resolveTarget(sourcePartPath: string, target: string): string {
+    const decodedTarget = OOXMLPackageRelationships.tryDecodeUri(target.split('#')[0]);
+    const resolvedTarget = decodedTarget.startsWith('/')
+      ? posix.normalize(decodedTarget)
+      : posix.join('/', posix.dirname(sourcePartPath), decodedTarget);
+    return resolvedTarget.substring(1);
+  }
+
+  /**
+   * Gets the target of a relationship relative to the folder of its source part.
+   *
+   * @param {string} sourcePartPath The path of the source part, or an empty string for the package relationships.
+   * @param {string} targetPath The path of the target part in the ooxml package.
+   * @returns {string} The value of the relationship's Target attribute.
+   */
+  static getRelativeTarget(sourcePartPath: string, targetPath: string): string {
+    return encodeURI(posix.relative(posix.join('/', posix.dirname(sourcePartPath)), posix.join('/', targetPath)));
+  }
+
+  private static tryDecodeUri(uri: string): string {
+    try {
+      return decodeURI(uri);
+    } catch {
+      return uri;
+    }
+  }
+
+  private getRelationshipElements(): Element[] {
+    return Array.from(this.document.getElementsByTagName('Relationship'));
+  }
+
+  private setTargetPath(element: Element, targetPath: string): void {
+    // keep absolute targets absolute and keep any fragment
+    const [target, ...fragments] = (element.getAttribute('Target') ?? '').split('#');
+    const newTarget = target.startsWith('/')
+      ? encodeURI(`/${targetPath}`)
+      : OOXMLPackageRelationships.getRelativeTarget(this.sourcePartPath, targetPath);
+    element.setAttribute('Target', [newTarget, ...fragments].join('#'));
+  }
+
+  private toRelationship(element: Element): Relationship {
+    const target = element.getAttribute('Target') ?? '';
+    const targetMode = element.getAttribute('TargetMode') ?? undefined;
+    return {
+      id: element.getAttribute('Id') ?? '',
+      type: element.getAttribute('Type') ?? '',
+      target: target,
+      targetMode: targetMode,
+      targetPath: targetMode === 'External' ? undefined : OOXMLPackageRelationships.resolveTarget(this._sourcePartPath, target),
+    };
+  }
+}
+
+/**
+ * Represents a relationship from a source part to a target.
+ */
+export interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+  targetMode: string | undefined;
+  /**
+   * The path of the target part in the ooxml package, undefined for external targets.
+   */
+  targetPath: string | undefined;
+}
+
+/**
+ * A relationship that targets a part, along with the part it is from.
+ */
+export interface PartReference {
+  /**
+   * The path of the source part of the relationship, empty for package relationships.
+   */
+  sourcePartPath: string;
+  relationship: Relationship;
+}
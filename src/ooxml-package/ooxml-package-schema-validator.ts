@@ -0,0 +1,104 @@
+import { join } from 'path';
+import logger from '../utilities/logger';
+import { XmlSchemaError, XmlSchemaSet } from '../utilities/xml-schema-validator';
+import { CONTENT_TYPES_PATH, OOXMLPackageContentTypes } from './ooxml-package-content-types';
+import { OOXMLPackageFileSystem } from './ooxml-package-file-system';
+import { RELATIONSHIPS_CONTENT_TYPE } from './ooxml-package-relationships';
+
+// The ECMA-376 transitional schemas shipped with the extension, see resources/schemas/README.md
+const SCHEMA_FOLDER_PATH = join(__filename, '..', '..', 'resources', 'schemas');
+
+// The schema of the parts whose content type starts with the prefix
+const SCHEMA_FILE_NAMES: [contentTypePrefix: string, schemaFileName: string][] = [
+  ['application/vnd.openxmlformats-officedocument.wordprocessingml.', 'wml.xsd'],
+  ['application/vnd.openxmlformats-officedocument.spreadsheetml.', 'sml.xsd'],
+  ['application/vnd.openxmlformats-officedocument.presentationml.', 'pml.xsd'],
+  ['application/vnd.openxmlformats-officedocument.theme+xml', 'dml-main.xsd'],
+  ['application/vnd.openxmlformats-officedocument.drawingml.chart+xml', 'dml-chart.xsd'],
+  ['application/vnd.openxmlformats-officedocument.drawingml.diagram', 'dml-diagram.xsd'],
+  ['application/vnd.openxmlformats-officedocument.extended-properties+xml', 'shared-documentPropertiesExtended.xsd'],
+  ['application/vnd.openxmlformats-package.core-properties+xml', 'opc-coreProperties.xsd'],
+  [RELATIONSHIPS_CONTENT_TYPE, 'opc-relationships.xsd'],
+];
+
+/**
+ * Validates the parts of an ooxml package against the ECMA-376 schema selected by their content type.
+ */
+export class OOXMLPackageSchemaValidator {
+  // Loading a schema and the schemas it imports is slow, so each one is only loaded once
+  private static schemaSets = new Map<string, Promise<XmlSchemaSet | undefined>>();
+
+  /**
+   * Validates a part against the schema of its content type.
+   *
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @param {string | undefined} contentType The content type of the part.
+   * @param {Uint8Array} data The contents of the part.
+   * @returns {Promise<XmlSchemaError[] | undefined>} The schema errors, an empty array if there is no schema for the content type,
+   *  or undefined if the part wasn't validated because its schema can't be loaded.
+   */
+  static async validate(filePath: string, contentType: string | undefined, data: Uint8Array): Promise<XmlSchemaError[] | undefined> {
+    const schemaFileName = OOXMLPackageSchemaValidator.getSchemaFileName(filePath, contentType);
+    if (!schemaFileName) {
+      return [];
+    }
+
+    const schemaSet = await OOXMLPackageSchemaValidator.loadSchemaSet(schemaFileName);
+    return schemaSet?.validate(data);
+  }
+
+  /**
+   * Gets the schema of a part.
+   *
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @param {string | undefined} contentType The content type of the part.
+   * @returns {Promise<XmlSchemaSet | undefined>} The schema or undefined if there is no schema for the content type or it can't be loaded.
+   */
+  static async getSchemaSet(filePath: string, contentType: string | undefined): Promise<XmlSchemaSet | undefined> {
+    const schemaFileName = OOXMLPackageSchemaValidator.getSchemaFileName(filePath, contentType);
+    return schemaFileName ? await OOXMLPackageSchemaValidator.loadSchemaSet(schemaFileName) : undefined;
+  }
+
+  /**
+   * Gets the schema of a part using the content types in the [Content_Types].xml of its package.
+   *
+   * @param {OOXMLPackageFileSystem} fileSystem The files of the ooxml package.
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @returns {Promise<XmlSchemaSet | undefined>} The schema or undefined if there is no schema for the part or it can't be loaded.
+   */
+  static async getPartSchemaSet(fileSystem: OOXMLPackageFileSystem, filePath: string): Promise<XmlSchemaSet | undefined> {
+    const contentTypesData = await fileSystem.readPart(CONTENT_TYPES_PATH);
+    const contentTypes = contentTypesData ? new OOXMLPackageContentTypes(contentTypesData) : undefined;
+
+    return await OOXMLPackageSchemaValidator.getSchemaSet(filePath, contentTypes?.getContentType(filePath));
+  }
+
+  /**
+   * Gets the file name of the schema of a part.
+   *
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @param {string | undefined} contentType The content type of the part.
+   * @returns {string | undefined} The file name of the schema or undefined if there is no schema for the content type.
+   */
+  static getSchemaFileName(filePath: string, contentType: string | undefined): string | undefined {
+    // [Content_Types].xml is the only part without a content type of its own
+    if (filePath === CONTENT_TYPES_PATH) {
+      return 'opc-contentTypes.xsd';
+    }
+
+    return SCHEMA_FILE_NAMES.find(([contentTypePrefix]) => contentType?.startsWith(contentTypePrefix))?.[1];
+  }
+
+  private static loadSchemaSet(schemaFileName: string): Promise<XmlSchemaSet | undefined> {
+    let schemaSet = OOXMLPackageSchemaValidator.schemaSets.get(schemaFileName);
+    if (!schemaSet) {
+      schemaSet = XmlSchemaSet.load(SCHEMA_FOLDER_PATH, [schemaFileName]).catch(err => {
+        logger.warn(`Unable to load the schema '${schemaFileName}': ${(err as Error)?.message}`);
+        return undefined;
+      });
+      OOXMLPackageSchemaValidator.schemaSets.set(schemaFileName, schemaSet);
+    }
+
+    return schemaSet;
+  }
+}
@@ -0,0 +1,203 @@
+import { Element } from '@xmldom/xmldom';
+import { createHash } from 'crypto';
+import logger from '../utilities/logger';
+import { XmlFormatter } from '../utilities/xml-formatter';
+import { PackageFile } from './ooxml-package-file-accessor';
+import { OOXMLPackageRelationships, Relationship } from './ooxml-package-relationships';
+
+const textEncoder = new TextEncoder();
+
+const DIGITAL_SIGNATURE_ORIGIN_TYPE = 'http://schemas.openxmlformats.org/package/2006/relationships/digital-signature/origin';
+const DIGITAL_SIGNATURE_TYPE = 'http://schemas.openxmlformats.org/package/2006/relationships/digital-signature/signature';
+const XML_DSIG_NAMESPACE = 'http://www.w3.org/2000/09/xmldsig#';
+const DIGITAL_SIGNATURE_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/digital-signature';
+const RELATIONSHIPS_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const RELATIONSHIP_TRANSFORM_ALGORITHM = 'http://schemas.openxmlformats.org/package/2006/RelationshipTransform';
+
+// The digest methods of XML-DSig and the names of their hash algorithms in node
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  'http://www.w3.org/2000/09/xmldsig#sha1': 'sha1',
+  'http://www.w3.org/2001/04/xmldsig-more#sha224': 'sha224',
+  'http://www.w3.org/2001/04/xmlenc#sha256': 'sha256',
+  'http://www.w3.org/2001/04/xmldsig-more#sha384': 'sha384',
+  'http://www.w3.org/2001/04/xmlenc#sha512': 'sha512',
+};
+
+/**
+ * The digital signatures of an ooxml package, i.e. the XML-DSig parts that the relationships of the signature origin part,
+ * usually _xmlsignatures/origin.sigs, target.
+ * Only the digests of the signed parts are checked, the signature values and certificates aren't verified.
+ */
+export class OOXMLPackageSignatures {
+  /**
+   * Reads the signatures of an ooxml package and checks the digests of the parts each of them signs.
+   * Signature parts that aren't well-formed are skipped.
+   *
+   * @param {PackageFile[]} fileContents The files in the ooxml package.
+   * @returns {PackageSignature[]} The signatures of the package.
+   */
+  static read(fileContents: PackageFile[]): PackageSignature[] {
+    const parts = new Map(fileContents.filter(file => !file.isDirectory).map(part => [part.filePath.toLowerCase(), part.data]));
+    const signatures: PackageSignature[] = [];
+    const originPartPath = OOXMLPackageSignatures.findTargetPaths(parts, '', DIGITAL_SIGNATURE_ORIGIN_TYPE)[0];
+    if (!originPartPath) {
+      return signatures;
+    }
+
+    for (const signaturePartPath of OOXMLPackageSignatures.findTargetPaths(parts, originPartPath, DIGITAL_SIGNATURE_TYPE)) {
+      const data = parts.get(signaturePartPath.toLowerCase());
+      if (!data) {
+        continue;
+      }
+
+      try {
+        const signedParts = OOXMLPackageSignatures.checkSignedParts(parts, signaturePartPath, data);
+        signatures.push({ filePath: signaturePartPath, signedParts: signedParts, isValid: signedParts.every(p => p.isValid) });
+      } catch (err) {
+        logger.warn(`Unable to read the signature '${signaturePartPath}': ${(err as Error)?.message}`);
+      }
+    }
+
+    return signatures;
+  }
+
+  /**
+   * Finds the valid signatures that changing parts would invalidate, i.e. the ones that sign any of the parts.
+   *
+   * @param {PackageSignature[]} signatures The signatures of the package.
+   * @param {string[]} filePaths The paths of the parts that are changed.
+   * @returns {PackageSignature[]} The signatures that would be invalidated.
+   */
+  static findInvalidatedSignatures(signatures: PackageSignature[], filePaths: string[]): PackageSignature[] {
+    return signatures.filter(s => s.isValid && OOXMLPackageSignatures.findSignedParts(s, filePaths).length);
+  }
+
+  /**
+   * Finds the parts a signature signs among parts.
+   * Part names are compared case-insensitively.
+   *
+   * @param {PackageSignature} signature The signature.
+   * @param {string[]} filePaths The paths of the parts.
+   * @returns {SignedPart[]} The signed parts.
+   */
+  static findSignedParts(signature: PackageSignature, filePaths: string[]): SignedPart[] {
+    return signature.signedParts.filter(p => filePaths.some(filePath => filePath.toLowerCase() === p.filePath.toLowerCase()));
+  }
+
+  private static findTargetPaths(parts: Map<string, Uint8Array>, sourcePartPath: string, type: string): string[] {
+    const relationshipsPartPath = OOXMLPackageRelationships.getRelationshipsPartPath(sourcePartPath);
+    const data = parts.get(relationshipsPartPath.toLowerCase());
+    if (!data) {
+      return [];
+    }
+
+    return new OOXMLPackageRelationships(relationshipsPartPath, data)
+      .getRelationships()
+      .filter(r => r.type === type && r.targetPath !== undefined)
+      .map(r => r.targetPath ?? '');
+  }
+
+  private static checkSignedParts(parts: Map<string, Uint8Array>, signaturePartPath: string, signatureData: Uint8Array): SignedPart[] {
+    const document = XmlFormatter.parse(signatureData, signaturePartPath);
+    // the parts are referenced by the manifest of the package object, which is signed as a whole
+    const manifestElements = Array.from(document.getElementsByTagNameNS(XML_DSIG_NAMESPACE, 'Manifest'));
+    return manifestElements
+      .flatMap(manifestElement => OOXMLPackageSignatures.getChildElements(manifestElement, 'Reference'))
+      .map(referenceElement => {
+        // part references are absolute part names followed by the content type of the part as a query
+        const filePath = OOXMLPackageRelationships.resolveTarget('', (referenceElement.getAttribute('URI') ?? '').split('?')[0]);
+        const data = parts.get(filePath.toLowerCase());
+        const digestMethod = OOXMLPackageSignatures.getChildElements(referenceElement, 'DigestMethod')[0]?.getAttribute('Algorithm') ?? '';
+        const digestValue = OOXMLPackageSignatures.getChildElements(referenceElement, 'DigestValue')[0]?.textContent?.trim() ?? '';
+        const hashAlgorithm = DIGEST_ALGORITHMS[digestMethod];
+        if (!data || !hashAlgorithm) {
+          return { filePath: filePath, isValid: false };
+        }
+
+        const relationshipTransform = OOXMLPackageSignatures.getChildElements(referenceElement, 'Transforms')
+          .flatMap(e => OOXMLPackageSignatures.getChildElements(e, 'Transform'))
+          .find(e => e.getAttribute('Algorithm') === RELATIONSHIP_TRANSFORM_ALGORITHM);
+        const signedData = relationshipTransform
+          ? OOXMLPackageSignatures.transformRelationships(new OOXMLPackageRelationships(filePath, data), relationshipTransform)
+          : data;
+        const digest = createHash(hashAlgorithm).update(signedData).digest('base64');
+        return { filePath: filePath, isValid: digest === digestValue };
+      });
+  }
+
+  /**
+   * Applies the relationship transform of a reference to a relationships part and canonicalizes the result,
+   * so that only the signed relationships are digested and relationships can be added to the part without breaking the signature.
+   *
+   * @param {OOXMLPackageRelationships} relationships The relationships part.
+   * @param {Element} transformElement The Transform element of the relationship transform.
+   * @returns {Uint8Array} The canonical xml of the signed relationships.
+   */
+  private static transformRelationships(relationships: OOXMLPackageRelationships, transformElement: Element): Uint8Array {
+    const sourceIds = Array.from(transformElement.getElementsByTagNameNS(DIGITAL_SIGNATURE_NAMESPACE, 'RelationshipReference')).map(e =>
+      e.getAttribute('SourceId'),
+    );
+    const sourceTypes = Array.from(transformElement.getElementsByTagNameNS(DIGITAL_SIGNATURE_NAMESPACE, 'RelationshipsGroupReference')).map(
+      e => e.getAttribute('SourceType'),
+    );
+    const relationshipElements = relationships
+      .getRelationships()
+      .filter(r => sourceIds.includes(r.id) || sourceTypes.includes(r.type))
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .map(r => OOXMLPackageSignatures.toCanonicalElement(r));
+    return textEncoder.encode(`<Relationships xmlns="${RELATIONSHIPS_NAMESPACE}">${relationshipElements.join('')}</Relationships>`);
+  }
+
+  private static toCanonicalElement(relationship: Relationship): string {
+    // canonical xml sorts the attributes by name and escapes the characters that would be normalized when it is parsed
+    const attributes = [
+      ['Id', relationship.id],
+      ['Target', relationship.target],
+      ['TargetMode', relationship.targetMode ?? 'Internal'],
+      ['Type', relationship.type],
+    ].map(
+      ([name, value]) =>
+        `${name}="${value
+          .replace(/&/g, '&amp;')
+          .replace(/</g, '&lt;')
+          .replace(/"/g, '&quot;')
+          .replace(/\t/g, '&#x9;')
+          .replace(/\n/g, '&#xA;')
+          .replace(/\r/g, '&#xD;')}"`,
+    );
+    return `<Relationship ${attributes.join(' ')}></Relationship>`;
+  }
+
+  private static getChildElements(element: Element, localName: string): Element[] {
+    return Array.from(element.childNodes).filter(
+      (node): node is Element =>
+        node.nodeType === node.ELEMENT_NODE && (node as Element).localName === localName && node.namespaceURI === XML_DSIG_NAMESPACE,
+    );
+  }
+}
+
+/**
+ * A digital signature of an ooxml package.
+ */
+export interface PackageSignature {
+  /**
+   * The path of the signature part, e.g. _xmlsignatures/sig1.xml.
+   */
+  filePath: string;
+  signedParts: SignedPart[];
+  /**
+   * Whether or not the digests of all the signed parts match.
+   */
+  isValid: boolean;
+}
+
+/**
+ * A part signed by a digital signature.
+ */
+export interface SignedPart {
+  filePath: string;
+  /**
+   * Whether or not the part exists and its digest matches the one in the signature.
+   */
+  isValid: boolean;
+}
@@ -1,10 +1,16 @@
+import { OOXMLRelationshipTreeDataProvider, RelationshipNode } from '../tree-view/ooxml-relationship-tree-view-provider';
 import { FileNode, OOXMLTreeDataProvider } from '../tree-view/ooxml-tree-view-provider';
+import { OOXMLPackageRelationships, Relationship } from './ooxml-package-relationships';
+import { PackageSignature } from './ooxml-package-signatures';
+import { PackageProblem } from './ooxml-package-validator';
 
 /**
- * The ooxml package tree view. Represents the part of the tree view that contains the ooxml file.
+ * The ooxml package tree view. Represents the part of the tree view that contains the ooxml file
+ * and the part of the relationship tree view that contains its relationships.
  */
 export class OOXMLPackageTreeView {
   private rootFileNode: FileNode;
+  private relationshipNode: RelationshipNode | undefined;
 
   /**
    * Creates a new instance of a root file node.
@@ -12,10 +18,15 @@ export class OOXMLPackageTreeView {
    * @constructor
    * @param {OOXMLTreeDataProvider} treeDataProvider The tree data provider.
    * @param {string} ooxmlPackagePath The path to the ooxml file.
+   * @param {OOXMLRelationshipTreeDataProvider} relationshipTreeDataProvider The relationship tree data provider.
+   * @param {FileNode} parentFileNode The file node the ooxml package is shown under, the part of the container package
+   * for embedded ooxml packages and the root of the tree view for the others.
    */
   constructor(
     private treeDataProvider: OOXMLTreeDataProvider,
     private ooxmlPackagePath: string,
+    private relationshipTreeDataProvider: OOXMLRelationshipTreeDataProvider,
+    private parentFileNode: FileNode = treeDataProvider.rootFileNode,
   ) {
     this.rootFileNode = this.createRootNode();
   }
@@ -37,18 +48,85 @@ export class OOXMLPackageTreeView {
   }
 
   /**
-   * Resets the ooxml package tree and removes it from the tree view.
+   * Replaces the relationships of the ooxml package shown in the relationship tree view.
+   *
+   * @param {OOXMLPackageRelationships[]} relationshipsParts The relationships parts of the ooxml package.
+   */
+  setRelationships(relationshipsParts: OOXMLPackageRelationships[]): void {
+    const relationshipsBySourcePart = new Map<string, Relationship[]>(
+      relationshipsParts.map(relationships => [relationships.sourcePartPath, relationships.getRelationships()]),
+    );
+    const relationshipNode = RelationshipNode.createPackageNode(this.ooxmlPackagePath, relationshipsBySourcePart);
+
+    // replace the package's node in place so the packages keep their order
+    const nodeIndex = this.relationshipNode ? this.relationshipTreeDataProvider.packageNodes.indexOf(this.relationshipNode) : -1;
+    if (nodeIndex !== -1) {
+      this.relationshipTreeDataProvider.packageNodes[nodeIndex] = relationshipNode;
+    } else {
+      this.relationshipTreeDataProvider.packageNodes.push(relationshipNode);
+    }
+
+    this.relationshipNode = relationshipNode;
+    this.relationshipTreeDataProvider.refresh();
+  }
+
+  /**
+   * Replaces the problems shown on the file nodes of the ooxml package.
+   *
+   * @param {PackageProblem[]} problems The problems found in the package.
+   */
+  setProblems(problems: PackageProblem[]): void {
+    const fileNodeQueue = [this.rootFileNode];
+    let fileNode;
+    while ((fileNode = fileNodeQueue.pop())) {
+      const nodePath = fileNode.nodePath;
+      fileNode.problems = fileNode.isOOXMLPackage ? [] : problems.filter(p => p.filePath === nodePath).map(p => p.message);
+      // the nodes of embedded packages belong to their own package
+      fileNodeQueue.push(...fileNode.children.filter(c => !c.isOOXMLPackage));
+    }
+
+    this.treeDataProvider.refresh();
+  }
+
+  /**
+   * Replaces the digital signatures shown on the file node of the ooxml package.
+   *
+   * @param {PackageSignature[]} signatures The signatures of the package.
+   */
+  setSignatures(signatures: PackageSignature[]): void {
+    this.rootFileNode.signatures = signatures.map(signature => {
+      const changedPartPaths = signature.signedParts.filter(p => !p.isValid).map(p => `'${p.filePath}'`);
+      return signature.isValid
+        ? `'${signature.filePath}' signs ${signature.signedParts.length} parts`
+        : `'${signature.filePath}' is invalid, ${changedPartPaths.join(', ')} changed after signing`;
+    });
+    this.rootFileNode.hasInvalidSignature = signatures.some(s => !s.isValid);
+    this.treeDataProvider.refresh();
+  }
+
+  /**
+   * Resets the ooxml package tree and removes it from the tree view and the relationship tree view.
    */
   reset(): void {
-    const nodeIndex = this.treeDataProvider.rootFileNode.children.indexOf(this.rootFileNode);
+    const nodeIndex = this.parentFileNode.children.indexOf(this.rootFileNode);
     if (nodeIndex !== -1) {
-      this.treeDataProvider.rootFileNode.children.splice(nodeIndex, 1);
+      this.parentFileNode.children.splice(nodeIndex, 1);
       this.treeDataProvider.refresh();
     }
+
+    const relationshipNodeIndex = this.relationshipNode
+      ? this.relationshipTreeDataProvider.packageNodes.indexOf(this.relationshipNode)
+      : -1;
+    if (relationshipNodeIndex !== -1) {
+      this.relationshipTreeDataProvider.packageNodes.splice(relationshipNodeIndex, 1);
+      this.relationshipTreeDataProvider.refresh();
+    }
+
+    this.relationshipNode = undefined;
   }
 
   private createRootNode(): FileNode {
-    const rootFileNode = FileNode.create(this.ooxmlPackagePath, this.treeDataProvider.rootFileNode, this.ooxmlPackagePath);
+    const rootFileNode = FileNode.create(this.ooxmlPackagePath, this.parentFileNode, this.ooxmlPackagePath);
     rootFileNode.isOOXMLPackage = true;
     this.treeDataProvider.refresh();
 
@@ -0,0 +1,166 @@
+import { DOMParser } from '@xmldom/xmldom';
+import { XmlFormatter } from '../utilities/xml-formatter';
+import { CONTENT_TYPES_PATH, OOXMLPackageContentTypes } from './ooxml-package-content-types';
+import { PackageFile } from './ooxml-package-file-accessor';
+import { MANIFEST_PATH, OOXMLPackageManifest } from './ooxml-package-manifest';
+import { OOXMLPackageRelationships, RELATIONSHIP_ID_NAMESPACES } from './ooxml-package-relationships';
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Checks the integrity of an ooxml package, i.e. that the relationship ids used in the parts are defined,
+ * that the internal relationship targets exist and that every part has a content type.
+ * The integrity of odf packages is checked against their manifest instead.
+ */
+export class OOXMLPackageValidator {
+  /**
+   * Validates the parts of an ooxml package. Parts that aren't well-formed are skipped.
+   *
+   * @param {PackageFile[]} fileContents The files in the ooxml package.
+   * @param {number} maximumXmlPartsFileSizeBytes Parts larger than this aren't searched for relationship ids.
+   * @returns {PackageProblem[]} The problems found in the package.
+   */
+  static validate(fileContents: PackageFile[], maximumXmlPartsFileSizeBytes: number): PackageProblem[] {
+    const parts = fileContents.filter(file => !file.isDirectory);
+    const partPaths = new Set(parts.map(part => part.filePath.toLowerCase()));
+    const relationshipsParts = new Map<string, OOXMLPackageRelationships>();
+    for (const part of parts.filter(p => OOXMLPackageRelationships.isRelationshipsPart(p.filePath))) {
+      try {
+        relationshipsParts.set(part.filePath, new OOXMLPackageRelationships(part.filePath, part.data));
+      } catch {
+        // relationships parts that aren't well-formed can't be checked
+      }
+    }
+
+    return [
+      ...OOXMLPackageValidator.findMissingTargets([...relationshipsParts.values()], partPaths),
+      ...parts
+        .filter(
+          part => part.data.byteLength <= maximumXmlPartsFileSizeBytes && !OOXMLPackageRelationships.isRelationshipsPart(part.filePath),
+        )
+        .flatMap(part =>
+          OOXMLPackageValidator.findUndefinedRelationshipIds(
+            part,
+            relationshipsParts.get(OOXMLPackageRelationships.getRelationshipsPartPath(part.filePath)),
+          ),
+        ),
+      ...OOXMLPackageValidator.findPartsWithoutContentType(parts),
+      ...OOXMLPackageValidator.findManifestProblems(parts),
+    ];
+  }
+
+  private static findMissingTargets(relationshipsParts: OOXMLPackageRelationships[], partPaths: Set<string>): PackageProblem[] {
+    return relationshipsParts.flatMap(relationships =>
+      relationships
+        .getRelationships()
+        .filter(r => r.targetPath !== undefined && !partPaths.has(r.targetPath.toLowerCase()))
+        .map(r => ({
+          filePath: relationships.relationshipsPartPath,
+          message: `Relationship '${r.id}' targets '${r.targetPath}', which doesn't exist in the package`,
+          value: r.target,
+        })),
+    );
+  }
+
+  private static findUndefinedRelationshipIds(part: PackageFile, relationships: OOXMLPackageRelationships | undefined): PackageProblem[] {
+    if (!XmlFormatter.isXml(part.data)) {
+      return [];
+    }
+
+    const text = textDecoder.decode(part.data);
+    if (!RELATIONSHIP_ID_NAMESPACES.some(namespace => text.includes(namespace))) {
+      return [];
+    }
+
+    let document;
+    try {
+      document = new DOMParser({ onError: () => undefined }).parseFromString(text, 'text/xml');
+    } catch {
+      return [];
+    }
+
+    const relationshipIds = new Set(relationships?.getRelationships().map(r => r.id));
+    const undefinedRelationshipIds = new Map<string, string>();
+    for (const element of Array.from(document.getElementsByTagName('*'))) {
+      for (const attribute of Array.from(element.attributes)) {
+        if (
+          RELATIONSHIP_ID_NAMESPACES.includes(attribute.namespaceURI ?? '') &&
+          !relationshipIds.has(attribute.value) &&
+          !undefinedRelationshipIds.has(attribute.value)
+        ) {
+          undefinedRelationshipIds.set(attribute.value, attribute.name);
+        }
+      }
+    }
+
+    const relationshipsPartPath = OOXMLPackageRelationships.getRelationshipsPartPath(part.filePath);
+    return [...undefinedRelationshipIds].map(([id, attributeName]) => ({
+      filePath: part.filePath,
+      message: relationships
+        ? `'${attributeName}' references relationship '${id}', which isn't defined in '${relationshipsPartPath}'`
+        : `'${attributeName}' references relationship '${id}', but '${relationshipsPartPath}' doesn't exist`,
+      value: id,
+    }));
+  }
+
+  private static findPartsWithoutContentType(parts: PackageFile[]): PackageProblem[] {
+    // packages that don't follow the open packaging conventions (e.g. odf) don't have content types
+    const contentTypesPart = parts.find(part => part.filePath === CONTENT_TYPES_PATH);
+    if (!contentTypesPart) {
+      return [];
+    }
+
+    try {
+      const contentTypes = new OOXMLPackageContentTypes(contentTypesPart.data);
+      return parts
+        .filter(part => part !== contentTypesPart && contentTypes.getContentType(part.filePath) === undefined)
+        .map(part => ({ filePath: part.filePath, message: `'${part.filePath}' has no content type in '${CONTENT_TYPES_PATH}'` }));
+    } catch {
+      // content types that aren't well-formed can't be checked
+      return [];
+    }
+  }
+
+  private static findManifestProblems(parts: PackageFile[]): PackageProblem[] {
+    const manifestPart = parts.find(part => part.filePath === MANIFEST_PATH);
+    if (!manifestPart) {
+      return [];
+    }
+
+    try {
+      const manifest = new OOXMLPackageManifest(manifestPart.data);
+      const partPaths = new Set(parts.map(part => part.filePath));
+      const listedFilePaths = new Set(manifest.getFilePaths());
+      return [
+        ...[...listedFilePaths]
+          .filter(filePath => !partPaths.has(filePath))
+          .map(filePath => ({
+            filePath: MANIFEST_PATH,
+            message: `'${MANIFEST_PATH}' lists '${filePath}', which doesn't exist in the package`,
+            value: filePath,
+          })),
+        ...parts
+          .filter(part => OOXMLPackageManifest.isListedFile(part.filePath) && !listedFilePaths.has(part.filePath))
+          .map(part => ({ filePath: part.filePath, message: `'${part.filePath}' is not listed in '${MANIFEST_PATH}'` })),
+      ];
+    } catch {
+      // manifests that aren't well-formed can't be checked
+      return [];
+    }
+  }
+}
+
+/**
+ * A problem with the integrity of an ooxml package.
+ */
+export interface PackageProblem {
+  /**
+   * The path of the part the problem is in.
+   */
+  filePath: string;
+  message: string;
+  /**
+   * The attribute value the problem is about, e.g. the undefined relationship id, used to find the problem in the part.
+   */
+  value?: string;
+}
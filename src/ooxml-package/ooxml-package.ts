@@ -1,13 +1,40 @@
-import { basename } from 'path';
+import { lookup } from 'mime-types';
+import { basename, dirname, join, relative } from 'path';
+import { Range } from 'vscode';
+import { HEX_VIEW_VIEW_TYPE } from '../editors/ooxml-hex-view-provider';
+import { IMAGE_PREVIEW_VIEW_TYPE } from '../editors/ooxml-image-preview-provider';
 import { OOXMLExtensionSettings } from '../ooxml-extension-settings';
 import { FileNode, FileNodeType } from '../tree-view/ooxml-tree-view-provider';
+import { CompoundFile, CompoundFileEntry } from '../utilities/compound-file';
 import { ExtensionUtilities } from '../utilities/extension-utilities';
+import { FileSystemUtilities } from '../utilities/file-system-utilities';
+import { HexFormatter } from '../utilities/hex-formatter';
 import logger from '../utilities/logger';
 import { RemoveOOXMLCommand } from '../utilities/ooxml-commands';
+import { VbaProjectReader } from '../utilities/vba-project-reader';
 import { XmlFormatter } from '../utilities/xml-formatter';
-import { OOXMLPackageFileAccessor } from './ooxml-package-file-accessor';
-import { OOXMLPackageFileCache } from './ooxml-package-file-cache';
+import { CONTENT_TYPES_PATH, OOXMLPackageContentTypes } from './ooxml-package-content-types';
+import { OOXMLPackageDiagnostics } from './ooxml-package-diagnostics';
+import { OOXMLPackageEmbeddedPackages } from './ooxml-package-embedded-packages';
+import { OOXMLPackageFileAccessor, PackageFile, PackagePart } from './ooxml-package-file-accessor';
+import { OOXMLPackageFileSystem } from './ooxml-package-file-system';
+import { MANIFEST_PATH, OOXMLPackageManifest } from './ooxml-package-manifest';
+import {
+  IMPORTED_PART_RELATIONSHIP_TYPES,
+  OOXMLPackageRelationships,
+  PartReference,
+  RELATIONSHIPS_CONTENT_TYPE,
+} from './ooxml-package-relationships';
+import { OOXMLPackageSchemaValidator } from './ooxml-package-schema-validator';
+import { OOXMLPackageSignatures, PackageSignature } from './ooxml-package-signatures';
 import { OOXMLPackageTreeView } from './ooxml-package-tree-view';
+import { OOXMLPackageValidator } from './ooxml-package-validator';
+
+// How long to wait for more parts to be saved before writing them to the package in a single transaction,
+//  e.g. when "Save All" saves several parts one after another.
+const SAVE_TRANSACTION_DELAY_MS = 100;
+
+const textDecoder = new TextDecoder();
 
 /**
  * The OOXML Package
@@ -17,6 +44,16 @@ export class OOXMLPackage {
   //  (Should the new file label (asterisk) be shown when creating a new file node).
   private isFirstOpen: boolean;
   private packageName: string;
+  // The saved parts waiting to be written to the package, keyed by their path in the package.
+  private stagedParts: Map<string, Uint8Array>;
+  // The commit that will write the staged parts.
+  private pendingCommit: Promise<void> | undefined;
+  // The latest write to the package, which the next write waits for so only one writes at a time.
+  private lastWrite: Promise<void> | undefined;
+  // The digital signatures of the package, checked each time the package is populated or written.
+  private signatures: PackageSignature[];
+  // Whether or not the user has been told that a part wasn't validated because its schema can't be loaded.
+  private hasShownSchemaWarning: boolean;
 
   /**
    * Constructs an instance of OOXMLPackage.
@@ -25,32 +62,53 @@ export class OOXMLPackage {
    * @param {string} ooxmlFilePath The path to the ooxml file.
    * @param {OOXMLPackageFileAccessor} ooxmlFileAccessor The ooxml package file accessor.
    * @param {OOXMLPackageTreeView} treeView The package tree view.
-   * @param {OOXMLPackageFileCache} cache The file cache for the ooxml package.
+   * @param {OOXMLPackageFileSystem} fileSystem The files of the ooxml package served by the ooxml file system provider.
    * @param {OOXMLExtensionSettings} extensionSettings The extension settings.
+   * @param {OOXMLPackageDiagnostics} diagnostics The diagnostics of the ooxml package's integrity problems and schema errors.
+   * @param {OOXMLPackageEmbeddedPackages} embeddedPackages The ooxml packages that are parts of the ooxml package.
    */
   constructor(
     private ooxmlFilePath: string,
     private ooxmlFileAccessor: OOXMLPackageFileAccessor,
     private treeView: OOXMLPackageTreeView,
-    private cache: OOXMLPackageFileCache,
+    private fileSystem: OOXMLPackageFileSystem,
     private extensionSettings: OOXMLExtensionSettings,
+    private diagnostics: OOXMLPackageDiagnostics,
+    private embeddedPackages?: OOXMLPackageEmbeddedPackages,
   ) {
     this.isFirstOpen = true;
     this.packageName = basename(ooxmlFilePath);
+    this.stagedParts = new Map();
+    this.signatures = [];
+    this.hasShownSchemaWarning = false;
   }
 
   /**
-   * Displays and formats the selected file.
+   * Displays the selected file, which is formatted when it is read.
    *
    * @param {string} filePath The selected file node's file path
    */
   async viewFile(filePath: string): Promise<void> {
     try {
       await ExtensionUtilities.withProgress(async () => {
-        await this.formatXml(filePath);
+        const data = (await this.ooxmlFileAccessor.getPart(filePath)) ?? new Uint8Array();
+        const fileSize = XmlFormatter.minify(data, true).byteLength;
+        if (fileSize > this.extensionSettings.maximumXmlPartsFileSizeBytes && XmlFormatter.isXml(data)) {
+          ExtensionUtilities.showWarning(
+            `'${basename(filePath)}' size of '${fileSize}' exceeds maximum of '${this.extensionSettings.maximumXmlPartsFileSizeBytes}' bytes`,
+          );
+        }
 
-        const fileCachePath = this.cache.getNormalFileCachePath(filePath);
-        await ExtensionUtilities.openFile(fileCachePath);
+        const partUri = this.fileSystem.getPartUri(filePath);
+        if ((lookup(filePath) || '').startsWith('image/')) {
+          await ExtensionUtilities.openWith(partUri, IMAGE_PREVIEW_VIEW_TYPE);
+        } else if (HexFormatter.isBinary(data)) {
+          await ExtensionUtilities.openWith(partUri, HEX_VIEW_VIEW_TYPE);
+        } else {
+          await ExtensionUtilities.openFile(partUri);
+          // the schema errors are found in the formatted part, so they point at the right place
+          await this.validateShownPartSchema(filePath);
+        }
       }, `Opening ${filePath}`);
     } catch (err) {
       await ExtensionUtilities.showError(err);
@@ -58,50 +116,62 @@ export class OOXMLPackage {
   }
 
   /**
-   * Opens a window showing the difference between the primary xml part and the compare xml part.
+   * Displays a stream of a part that is a compound file in the hex view.
    *
-   * @param {string} filePath The path of the file to be diffed.
+   * @param {string} filePath The path of the part.
+   * @param {string} streamPath The path of the stream in the compound file.
    */
-  async getDiff(filePath: string): Promise<void> {
+  async viewStream(filePath: string, streamPath: string): Promise<void> {
     try {
-      // format the file
-      await this.formatXml(filePath);
-
-      // diff the primary and compare files
-      const fileCachePath = this.cache.getNormalFileCachePath(filePath);
-      const fileCompareCachePath = this.cache.getCompareFileCachePath(filePath);
-      const title = `${basename(fileCachePath)} ↔ compare.${basename(fileCompareCachePath)}`;
+      const data = new CompoundFile((await this.ooxmlFileAccessor.getPart(filePath)) ?? new Uint8Array()).getStream(streamPath);
+      if (!data) {
+        throw new Error(`'${filePath}' does not have a '${streamPath}' stream`);
+      }
 
-      await ExtensionUtilities.openDiff(fileCompareCachePath, fileCachePath, title);
+      await ExtensionUtilities.openWith(this.fileSystem.getStreamUri(filePath, streamPath), HEX_VIEW_VIEW_TYPE);
     } catch (err) {
       await ExtensionUtilities.showError(err);
     }
   }
 
   /**
-   * Format the document if it is a cached normal file.
+   * Displays the decompressed source of a module of a part that is a VBA project.
    *
-   * @param {string} filePath The file path to format.
+   * @param {string} filePath The path of the part.
+   * @param {string} vbaModuleName The name of the module.
    */
-  async tryFormatDocument(filePath: string): Promise<void> {
+  async viewVbaModule(filePath: string, vbaModuleName: string): Promise<void> {
     try {
-      if (this.cache.cachePathIsNormal(filePath)) {
-        await ExtensionUtilities.withProgress(
-          async () => {
-            await this.formatXml(this.cache.getFilePathFromCacheFilePath(filePath));
-          },
-          `Formatting '${basename(filePath)}'`,
-        );
-      } else {
-        logger.debug(`Unable to format file '${filePath}' since file is not in cache path`);
+      const vbaModule = VbaProjectReader.read((await this.ooxmlFileAccessor.getPart(filePath)) ?? new Uint8Array()).find(
+        m => m.name === vbaModuleName,
+      );
+      if (!vbaModule) {
+        throw new Error(`'${filePath}' does not have a '${vbaModuleName}' module`);
       }
+
+      await ExtensionUtilities.openFile(this.fileSystem.getVbaModuleUri(filePath, vbaModule));
+    } catch (err) {
+      await ExtensionUtilities.showError(err);
+    }
+  }
+
+  /**
+   * Opens a window showing the difference between the primary xml part and the compare xml part.
+   *
+   * @param {string} filePath The path of the file to be diffed.
+   */
+  async getDiff(filePath: string): Promise<void> {
+    try {
+      const title = `${basename(filePath)} ↔ compare.${basename(filePath)}`;
+      await ExtensionUtilities.openDiff(this.fileSystem.getCompareUri(filePath), this.fileSystem.getPartUri(filePath), title);
+      await this.validateShownPartSchema(filePath);
     } catch (err) {
       await ExtensionUtilities.showError(err);
     }
   }
 
   /**
-   * Search OOXML parts for a string and display the results in the search.
+   * Search the formatted OOXML parts for a string, ignoring case, and open the part of the selected result at the match.
    */
   async searchOOXMLParts(): Promise<void> {
     try {
@@ -112,7 +182,47 @@ export class OOXMLPackage {
       }
 
       logger.info(`Using search term '${searchTerm}'`);
-      await ExtensionUtilities.findInFiles(searchTerm, this.cache.normalSubfolderPath);
+      const results: { filePath: string; range: Range; text: string }[] = [];
+      await ExtensionUtilities.withProgress(async () => {
+        for (const filePath of this.ooxmlFileAccessor.getPartPaths()) {
+          const data = await this.fileSystem.readPart(filePath);
+          if (!data || HexFormatter.isBinary(data)) {
+            continue;
+          }
+
+          textDecoder
+            .decode(data)
+            .split(/\r?\n/)
+            .forEach((text, line) => {
+              const character = text.toLowerCase().indexOf(searchTerm.toLowerCase());
+              if (character !== -1) {
+                results.push({
+                  filePath: filePath,
+                  range: new Range(line, character, line, character + searchTerm.length),
+                  text: text.trim(),
+                });
+              }
+            });
+        }
+      }, `Searching '${this.packageName}'`);
+
+      if (!results.length) {
+        await ExtensionUtilities.showInformation(`'${searchTerm}' was not found in '${this.packageName}'`);
+        return;
+      }
+
+      const resultNames = results.map(r => `${r.filePath}:${r.range.start.line + 1} ${r.text}`);
+      const selectedResultName = await ExtensionUtilities.showQuickPick(
+        resultNames,
+        `${results.length} result${results.length === 1 ? '' : 's'} for '${searchTerm}' in '${this.packageName}'`,
+      );
+      if (!selectedResultName) {
+        logger.debug('Searching parts cancelled');
+        return;
+      }
+
+      const result = results[resultNames.indexOf(selectedResultName)];
+      await ExtensionUtilities.openFile(this.fileSystem.getPartUri(result.filePath), result.range);
     } catch (err) {
       await ExtensionUtilities.showError(err);
     }
@@ -125,7 +235,6 @@ export class OOXMLPackage {
     try {
       await ExtensionUtilities.withProgress(async () => {
         // load ooxml file and populate the viewer
-        await this.cache.initialize();
         await this.ooxmlFileAccessor.load();
         await this.populateOOXMLViewer();
       }, `Unpacking '${this.packageName}'`);
@@ -136,41 +245,310 @@ export class OOXMLPackage {
 
   /**
    * Writes changes to OOXML file being inspected when one of its parts is saved.
-   * Note that this will trigger `reloadOOXMLFile` to fire if changes are written.
+   * Parts saved in quick succession are written to the package in a single transaction once the saves stop.
+   * Errors are thrown instead of shown, so that the editor the part was saved in shows them and stays dirty.
+   * Note that this will trigger the file watcher to reload the package if changes are written.
+   *
+   * @param {string} filePath The path of the part that was saved.
+   * @param {Uint8Array} fileContents The saved contents of the part.
+   */
+  async updateOOXMLFile(filePath: string, fileContents: Uint8Array): Promise<void> {
+    logger.debug(`Updating OOXML file '${filePath}'`);
+    // checked before the contents are compared, since minifying repairs some malformed xml, e.g. '<a><b></a>' becomes '<a><b></b></a>'
+    const syntaxError = XmlFormatter.findSyntaxError(fileContents);
+    await this.diagnostics.setSyntaxError(filePath, syntaxError);
+    const prevFileContents = await this.ooxmlFileAccessor.getPart(filePath);
+    if (!syntaxError && prevFileContents && XmlFormatter.areEqual(fileContents, prevFileContents)) {
+      // a part that is reverted before the pending commit writes it isn't written
+      this.stagedParts.delete(filePath);
+      logger.debug('Saved and packaged file contents match. OOXML package will not be updated');
+      return;
+    }
+
+    await this.stagePart(filePath, fileContents);
+  }
+
+  /**
+   * Shows the snapshots of a part taken each time the package was opened, saved or changed,
+   * and compares the part with the selected snapshot or restores it.
    *
-   * @param {string} cacheFilePath The path of the xml part that was updated.
+   * @param {string} filePath The path of the part in the ooxml package.
    */
-  async updateOOXMLFile(cacheFilePath: string): Promise<void> {
+  async showPartHistory(filePath: string): Promise<void> {
     try {
-      if (!this.cache.cachePathIsNormal(cacheFilePath)) {
-        logger.debug(`Not updating OOXML file '${cacheFilePath}' since it is not in the normal cache path`);
+      const snapshots = this.fileSystem.getSnapshots(filePath);
+      if (!snapshots.length) {
+        await ExtensionUtilities.showInformation(`'${filePath}' has no history`);
+        return;
+      }
+
+      const snapshotNames = snapshots.map(
+        (snapshot, i) => `${snapshots.length - i}. ${snapshot.description} ${new Date(snapshot.timestamp).toLocaleString()}`,
+      );
+      const selectedSnapshotName = await ExtensionUtilities.showQuickPick(snapshotNames, `Select a snapshot of '${filePath}'`);
+      if (!selectedSnapshotName) {
+        logger.debug('Showing part history cancelled');
+        return;
+      }
+
+      const compare = 'Compare with Current';
+      const action = await ExtensionUtilities.showQuickPick([compare, 'Restore'], selectedSnapshotName);
+      if (!action) {
+        logger.debug('Showing part history cancelled');
         return;
       }
 
-      const filePath = this.cache.getFilePathFromCacheFilePath(cacheFilePath);
-      logger.debug(`Updating OOXML file '${filePath}'`);
+      const snapshot = snapshots[snapshotNames.indexOf(selectedSnapshotName)];
+      if (action === compare) {
+        const title = `${basename(filePath)} ↔ ${selectedSnapshotName}`;
+        await ExtensionUtilities.openDiff(this.fileSystem.getSnapshotUri(snapshot), this.fileSystem.getPartUri(filePath), title);
+      } else {
+        logger.info(`Restoring '${filePath}' to snapshot '${selectedSnapshotName}'`);
+        await this.stagePart(filePath, snapshot.data);
+        // unlike a saved part, the open tab of a restored part still shows the contents before the restore
+        this.fileSystem.notifyChanged([filePath]);
+      }
+    } catch (err) {
+      await ExtensionUtilities.showError(err);
+    }
+  }
+
+  /**
+   * Creates a new empty part in the OOXML package and registers its content type in [Content_Types].xml,
+   * or its media type in META-INF/manifest.xml for odf packages.
+   * Note that this will trigger the file watcher to reload the package, which adds the part to the tree view as a created part.
+   *
+   * @param {string} folderPath The path of the folder to create the part in, or an empty string for the root of the package.
+   */
+  async createPart(folderPath: string): Promise<void> {
+    try {
+      const input = await ExtensionUtilities.showInput(
+        `New '${this.packageName}' Part`,
+        'Enter the path of the new part.',
+        folderPath ? `${folderPath}/` : '',
+      );
+      const filePath = input?.replace(/\\/g, '/').replace(/^\/+/, '');
+      if (!filePath || filePath.endsWith('/')) {
+        logger.warn('No part path provided');
+        return;
+      }
 
-      const fileContents = await this.cache.getCachedNormalFile(filePath);
-      const prevFileContents = await this.cache.getCachedPrevFile(filePath);
-      if (XmlFormatter.areEqual(fileContents, prevFileContents)) {
-        logger.debug('Normal and prev file contents match. OOXML package will not be updated');
+      if (this.ooxmlFileAccessor.hasPart(filePath)) {
+        await ExtensionUtilities.showWarning(`'${filePath}' already exists in '${this.packageName}'`);
         return;
       }
 
-      const fileMinXml = XmlFormatter.minify(fileContents, this.extensionSettings.preserveComments);
+      const fileContents = new Uint8Array();
+      const parts: PackagePart[] = [{ filePath: filePath, data: fileContents }];
 
-      const success = await this.ooxmlFileAccessor.updatePackage(filePath, fileMinXml);
-      if (!success) {
-        await ExtensionUtilities.showWarning(
-          `File not saved.\n'${this.packageName}' is open in another program.\nClose that program before making any changes.`,
-          true,
+      // packages that don't follow the open packaging conventions (e.g. odf) don't have content types
+      const contentTypesData = await this.ooxmlFileAccessor.getPart(CONTENT_TYPES_PATH);
+      if (contentTypesData) {
+        const contentTypes = new OOXMLPackageContentTypes(contentTypesData);
+        const contentType = await ExtensionUtilities.showInput(
+          `'${filePath}' Content Type`,
+          'Enter the content type of the new part.',
+          contentTypes.getContentType(filePath) ?? (lookup(filePath) || undefined),
+        );
+        if (!contentType) {
+          logger.warn('No content type provided');
+          return;
+        }
+
+        if (contentTypes.registerPart(filePath, contentType)) {
+          parts.push({ filePath: CONTENT_TYPES_PATH, data: contentTypes.toData() });
+        }
+      }
+
+      // odf packages list their files with their media types in the manifest instead
+      const manifestData = await this.ooxmlFileAccessor.getPart(MANIFEST_PATH);
+      if (manifestData && OOXMLPackageManifest.isListedFile(filePath)) {
+        const manifest = new OOXMLPackageManifest(manifestData);
+        const mediaType = await ExtensionUtilities.showInput(
+          `'${filePath}' Media Type`,
+          'Enter the media type of the new file.',
+          lookup(filePath) || undefined,
         );
+        if (!mediaType) {
+          logger.warn('No media type provided');
+          return;
+        }
 
-        await ExtensionUtilities.makeActiveTextEditorDirty();
+        manifest.registerPart(filePath, mediaType);
+        parts.push({ filePath: MANIFEST_PATH, data: manifest.toData() });
+      }
+
+      logger.info(`Creating '${filePath}' in '${this.packageName}'`);
+      const success = await this.queueWrite(() => this.ooxmlFileAccessor.updatePackageParts(parts));
+      if (!success) {
+        await this.showPackageBusyWarning();
         return;
       }
 
-      await this.cache.createCachedFiles(filePath, fileContents);
+      this.fileSystem.setCompareFile(filePath, new Uint8Array());
+      await ExtensionUtilities.openFile(this.fileSystem.getPartUri(filePath));
+    } catch (err) {
+      await ExtensionUtilities.showError(err);
+    }
+  }
+
+  /**
+   * Deletes a part from the OOXML package along with its relationships part, the relationships
+   * that target it, its content type override, and its manifest file entry, after the user confirms the changes.
+   * Note that this will trigger the file watcher to reload the package, which marks the part as deleted in the tree view.
+   *
+   * @param {string} filePath The path of the part to delete.
+   */
+  async deletePart(filePath: string): Promise<void> {
+    try {
+      const updatedParts: PackagePart[] = [];
+      const deletedFilePaths = [filePath];
+      const changes = [`Delete '${filePath}'`];
+
+      const relationshipsPartPath = OOXMLPackageRelationships.getRelationshipsPartPath(filePath);
+      if (this.ooxmlFileAccessor.hasPart(relationshipsPartPath)) {
+        deletedFilePaths.push(relationshipsPartPath);
+        changes.push(`Delete '${relationshipsPartPath}'`);
+      }
+
+      const otherRelationshipsPartPaths = this.ooxmlFileAccessor
+        .getPartPaths()
+        .filter(p => OOXMLPackageRelationships.isRelationshipsPart(p) && !deletedFilePaths.includes(p));
+      for (const otherRelationshipsPartPath of otherRelationshipsPartPaths) {
+        const data = (await this.ooxmlFileAccessor.getPart(otherRelationshipsPartPath)) ?? new Uint8Array();
+        const relationships = new OOXMLPackageRelationships(otherRelationshipsPartPath, data);
+        const removedRelationships = relationships.removeRelationshipsTargeting(filePath);
+        if (removedRelationships.length) {
+          updatedParts.push({ filePath: otherRelationshipsPartPath, data: relationships.toData() });
+          changes.push(`Remove relationship ${removedRelationships.map(r => `'${r.id}'`).join(', ')} from '${otherRelationshipsPartPath}'`);
+        }
+      }
+
+      const contentTypesData = await this.ooxmlFileAccessor.getPart(CONTENT_TYPES_PATH);
+      if (contentTypesData) {
+        const contentTypes = new OOXMLPackageContentTypes(contentTypesData);
+        const relationshipsPartOverrideRemoved = deletedFilePaths.length > 1 && contentTypes.removeOverride(relationshipsPartPath);
+        if (contentTypes.removeOverride(filePath) || relationshipsPartOverrideRemoved) {
+          updatedParts.push({ filePath: CONTENT_TYPES_PATH, data: contentTypes.toData() });
+          changes.push(`Remove the content type override from '${CONTENT_TYPES_PATH}'`);
+        }
+      }
+
+      const manifestData = await this.ooxmlFileAccessor.getPart(MANIFEST_PATH);
+      if (manifestData) {
+        const manifest = new OOXMLPackageManifest(manifestData);
+        if (manifest.removePart(filePath)) {
+          updatedParts.push({ filePath: MANIFEST_PATH, data: manifest.toData() });
+          changes.push(`Remove the file entry from '${MANIFEST_PATH}'`);
+        }
+      }
+
+      const confirmed = await ExtensionUtilities.showConfirmation(
+        `Delete '${filePath}' from '${this.packageName}'?`,
+        changes.join('\n'),
+        'Delete',
+      );
+      if (!confirmed) {
+        logger.debug(`Deleting '${filePath}' cancelled`);
+        return;
+      }
+
+      logger.info(`Deleting '${filePath}' from '${this.packageName}'`);
+      const success = await this.queueWrite(() => this.ooxmlFileAccessor.updatePackageParts(updatedParts, deletedFilePaths));
+      if (!success) {
+        await this.showPackageBusyWarning();
+      }
+    } catch (err) {
+      await ExtensionUtilities.showError(err);
+    }
+  }
+
+  /**
+   * Renames or moves a part. The part's relationships part is moved with it, the relationships that target the part
+   * are rewritten, and its content type or manifest file entry is moved. The compare file and the history move with the part
+   * and open tabs follow it.
+   *
+   * @param {string} filePath The path of the part to rename.
+   */
+  async renamePart(filePath: string): Promise<void> {
+    try {
+      const input = await ExtensionUtilities.showInput(`Rename '${basename(filePath)}'`, 'Enter the new path of the part.', filePath);
+      const newFilePath = input?.replace(/\\/g, '/').replace(/^\/+/, '');
+      if (!newFilePath || newFilePath.endsWith('/') || newFilePath === filePath) {
+        logger.warn('No new part path provided');
+        return;
+      }
+
+      if (this.ooxmlFileAccessor.hasPart(newFilePath)) {
+        await ExtensionUtilities.showWarning(`'${newFilePath}' already exists in '${this.packageName}'`);
+        return;
+      }
+
+      const data = (await this.ooxmlFileAccessor.getPart(filePath)) ?? new Uint8Array();
+      const updatedParts: PackagePart[] = [{ filePath: newFilePath, data: data }];
+      const renamedFilePaths = new Map([[filePath, newFilePath]]);
+
+      // the part's own relationships move with it and their relative targets are rewritten from its new folder
+      const relationshipsPartPath = OOXMLPackageRelationships.getRelationshipsPartPath(filePath);
+      if (this.ooxmlFileAccessor.hasPart(relationshipsPartPath)) {
+        const relationshipsData = (await this.ooxmlFileAccessor.getPart(relationshipsPartPath)) ?? new Uint8Array();
+        const relationships = new OOXMLPackageRelationships(relationshipsPartPath, relationshipsData);
+        relationships.moveSourcePart(newFilePath);
+        relationships.retargetRelationships(filePath, newFilePath);
+        updatedParts.push({ filePath: relationships.relationshipsPartPath, data: relationships.toData() });
+        renamedFilePaths.set(relationshipsPartPath, relationships.relationshipsPartPath);
+      }
+
+      const otherRelationshipsPartPaths = this.ooxmlFileAccessor
+        .getPartPaths()
+        .filter(p => OOXMLPackageRelationships.isRelationshipsPart(p) && !renamedFilePaths.has(p));
+      for (const otherRelationshipsPartPath of otherRelationshipsPartPaths) {
+        const relationshipsData = (await this.ooxmlFileAccessor.getPart(otherRelationshipsPartPath)) ?? new Uint8Array();
+        const relationships = new OOXMLPackageRelationships(otherRelationshipsPartPath, relationshipsData);
+        if (relationships.retargetRelationships(filePath, newFilePath).length) {
+          updatedParts.push({ filePath: otherRelationshipsPartPath, data: relationships.toData() });
+        }
+      }
+
+      const contentTypesData = await this.ooxmlFileAccessor.getPart(CONTENT_TYPES_PATH);
+      if (contentTypesData) {
+        const contentTypes = new OOXMLPackageContentTypes(contentTypesData);
+        const contentTypesChanged = [...renamedFilePaths].map(([oldPath, newPath]) => contentTypes.renamePart(oldPath, newPath));
+        if (contentTypesChanged.includes(true)) {
+          updatedParts.push({ filePath: CONTENT_TYPES_PATH, data: contentTypes.toData() });
+        }
+      }
+
+      const manifestData = await this.ooxmlFileAccessor.getPart(MANIFEST_PATH);
+      if (manifestData) {
+        const manifest = new OOXMLPackageManifest(manifestData);
+        if (manifest.renamePart(filePath, newFilePath)) {
+          updatedParts.push({ filePath: MANIFEST_PATH, data: manifest.toData() });
+        }
+      }
+
+      logger.info(`Renaming '${filePath}' to '${newFilePath}' in '${this.packageName}'`);
+      const success = await this.queueWrite(() => this.ooxmlFileAccessor.updatePackageParts(updatedParts, [...renamedFilePaths.keys()]));
+      if (!success) {
+        await this.showPackageBusyWarning();
+        return;
+      }
+
+      const openTextDocumentUris = new Set(ExtensionUtilities.getOpenTextDocumentUris().map(uri => uri.toString()));
+      for (const [oldPath, newPath] of renamedFilePaths) {
+        const partUri = this.fileSystem.getPartUri(oldPath);
+        const isOpen = openTextDocumentUris.has(partUri.toString());
+        if (isOpen) {
+          await ExtensionUtilities.closeTextDocument(partUri);
+        }
+
+        this.fileSystem.renameFiles(oldPath, newPath);
+        this.moveFileNode(oldPath, newPath);
+
+        if (isOpen) {
+          await ExtensionUtilities.openFile(this.fileSystem.getPartUri(newPath));
+        }
+      }
 
       this.treeView.refresh();
     } catch (err) {
@@ -178,6 +556,165 @@ export class OOXMLPackage {
     }
   }
 
+  /**
+   * Copies files from the file system into a folder of the OOXML package, registering a default content type for new extensions.
+   * Optionally creates relationships from a source part to the imported parts and copies the new relationship ids to the clipboard.
+   * The imported files of odf packages are listed in their manifest instead.
+   * Note that this will trigger the file watcher to reload the package, which adds the parts to the tree view as created parts.
+   *
+   * @param {string} folderPath The path of the folder to import the files into, or an empty string for the root of the package.
+   * @param {string[]} externalFilePaths The paths of the files to import. The user is asked to select files if not provided.
+   */
+  async importFiles(folderPath: string, externalFilePaths?: string[]): Promise<void> {
+    try {
+      const selectedFilePaths =
+        externalFilePaths ?? (await ExtensionUtilities.showOpenDialog(`Import Files into '${folderPath || this.packageName}'`));
+      if (!selectedFilePaths?.length) {
+        logger.warn('No files selected to import');
+        return;
+      }
+
+      const updatedParts: PackagePart[] = [];
+      for (const externalFilePath of selectedFilePaths) {
+        const filePath = folderPath ? `${folderPath}/${basename(externalFilePath)}` : basename(externalFilePath);
+        if (this.ooxmlFileAccessor.hasPart(filePath) || updatedParts.some(p => p.filePath === filePath)) {
+          await ExtensionUtilities.showWarning(`'${filePath}' already exists in '${this.packageName}'`);
+          continue;
+        }
+
+        updatedParts.push({ filePath: filePath, data: await FileSystemUtilities.readFile(externalFilePath) });
+      }
+
+      if (!updatedParts.length) {
+        return;
+      }
+
+      const importedFilePaths = updatedParts.map(p => p.filePath);
+      const contentTypesData = await this.ooxmlFileAccessor.getPart(CONTENT_TYPES_PATH);
+      const contentTypes = contentTypesData ? new OOXMLPackageContentTypes(contentTypesData) : undefined;
+      for (const filePath of importedFilePaths) {
+        contentTypes?.registerPart(filePath, contentTypes.getContentType(filePath) ?? (lookup(filePath) || 'application/octet-stream'));
+      }
+
+      // odf packages list the files in the manifest and don't have relationships
+      const manifestData = await this.ooxmlFileAccessor.getPart(MANIFEST_PATH);
+      const manifest = manifestData ? new OOXMLPackageManifest(manifestData) : undefined;
+      for (const filePath of importedFilePaths.filter(p => OOXMLPackageManifest.isListedFile(p))) {
+        manifest?.registerPart(filePath, lookup(filePath) || 'application/octet-stream');
+      }
+
+      const relationshipIds = manifest ? [] : await this.addImportedPartRelationships(importedFilePaths, updatedParts, contentTypes);
+      if (relationshipIds === undefined) {
+        logger.debug('Importing files cancelled');
+        return;
+      }
+
+      if (contentTypes) {
+        updatedParts.push({ filePath: CONTENT_TYPES_PATH, data: contentTypes.toData() });
+      }
+
+      if (manifest) {
+        updatedParts.push({ filePath: MANIFEST_PATH, data: manifest.toData() });
+      }
+
+      logger.info(`Importing '${importedFilePaths.join(', ')}' into '${this.packageName}'`);
+      const success = await this.queueWrite(() => this.ooxmlFileAccessor.updatePackageParts(updatedParts));
+      if (!success) {
+        await this.showPackageBusyWarning();
+        return;
+      }
+
+      importedFilePaths.forEach(filePath => this.fileSystem.setCompareFile(filePath, new Uint8Array()));
+
+      if (relationshipIds.length) {
+        await ExtensionUtilities.writeToClipboard(relationshipIds.join(' '));
+        await ExtensionUtilities.showInformation(`Relationship id '${relationshipIds.join(', ')}' copied to the clipboard`);
+      }
+    } catch (err) {
+      await ExtensionUtilities.showError(err);
+    }
+  }
+
+  /**
+   * Writes every part of the OOXML package to a folder on the file system, optionally formatting the xml parts.
+   */
+  async extractPackage(): Promise<void> {
+    try {
+      const folderPath = await ExtensionUtilities.showFolderDialog(`Extract '${this.packageName}' To Folder`, dirname(this.ooxmlFilePath));
+      if (!folderPath) {
+        logger.warn('No folder selected to extract to');
+        return;
+      }
+
+      const formatXml = 'Format XML parts';
+      const formatSelection = await ExtensionUtilities.showQuickPick([formatXml, 'Keep XML parts as they are'], 'Format the XML parts?');
+      if (!formatSelection) {
+        logger.debug('Extracting package cancelled');
+        return;
+      }
+
+      await ExtensionUtilities.withProgress(async () => {
+        const packageFiles = await this.ooxmlFileAccessor.getPackageContents();
+        for (const packageFile of packageFiles.filter(f => !f.isDirectory)) {
+          const extractedFilePath = join(folderPath, packageFile.filePath);
+          if (relative(folderPath, extractedFilePath).startsWith('..')) {
+            await ExtensionUtilities.showWarning(`'${packageFile.filePath}' is outside of the package and was not extracted`);
+            continue;
+          }
+
+          const data = formatSelection === formatXml ? this.tryFormatPart(packageFile.data) : packageFile.data;
+          await FileSystemUtilities.writeFile(extractedFilePath, data);
+        }
+      }, `Extracting '${this.packageName}'`);
+
+      await ExtensionUtilities.showInformation(`Extracted '${this.packageName}' to '${folderPath}'`);
+    } catch (err) {
+      await ExtensionUtilities.showError(err);
+    }
+  }
+
+  /**
+   * Replaces the OOXML package with a backup selected by the user.
+   * Note that this will trigger the file watcher to reload the package.
+   */
+  async restorePreviousVersion(): Promise<void> {
+    try {
+      const backups = await this.ooxmlFileAccessor.getBackups();
+      if (!backups.length) {
+        await ExtensionUtilities.showInformation(`There are no previous versions of '${this.packageName}' to restore`);
+        return;
+      }
+
+      const backupNames = backups.map(b => `${new Date(b.modifiedTime).toLocaleString()} (${basename(b.filePath)})`);
+      const selectedBackupName = await ExtensionUtilities.showQuickPick(
+        backupNames,
+        `Select the version of '${this.packageName}' to restore`,
+      );
+      if (!selectedBackupName) {
+        logger.debug('Restoring previous version cancelled');
+        return;
+      }
+
+      const confirmed = await ExtensionUtilities.showConfirmation(
+        `Restore '${this.packageName}' to the version from ${selectedBackupName}?`,
+        'The current version is backed up before it is replaced.',
+        'Restore',
+      );
+      if (!confirmed) {
+        logger.debug('Restoring previous version cancelled');
+        return;
+      }
+
+      const backupFilePath = backups[backupNames.indexOf(selectedBackupName)].filePath;
+      const success = await this.queueWrite(() => this.ooxmlFileAccessor.restoreBackup(backupFilePath));
+      if (!success) {
+        await this.showPackageBusyWarning();
+      }
+    } catch (err) {
+      await ExtensionUtilities.showError(err);
+    }
+  }
+
   /**
    * Removes the OOXML package from the tree view.
    */
@@ -192,7 +729,99 @@ export class OOXMLPackage {
   }
 
   /**
-   * Creates or updates tree view file nodes and creates cache files for comparison.
+   * Validates all the parts of the package against the schemas of their content types and shows the schema errors in the problems view.
+   */
+  async validatePackage(): Promise<void> {
+    try {
+      let numberOfErrors = 0;
+      let numberOfInvalidParts = 0;
+      let numberOfSkippedParts = 0;
+      await ExtensionUtilities.withProgress(async () => {
+        const contentTypesData = await this.ooxmlFileAccessor.getPart(CONTENT_TYPES_PATH);
+        const contentTypes = contentTypesData ? new OOXMLPackageContentTypes(contentTypesData) : undefined;
+        for (const filePath of this.ooxmlFileAccessor.getPartPaths()) {
+          const numberOfPartErrors = await this.validatePartSchema(filePath, contentTypes);
+          numberOfErrors += numberOfPartErrors ?? 0;
+          numberOfInvalidParts += numberOfPartErrors ? 1 : 0;
+          numberOfSkippedParts += numberOfPartErrors === undefined ? 1 : 0;
+        }
+      }, `Validating '${this.packageName}'`);
+
+      // a package whose schemas can't be loaded isn't reported as having no errors
+      if (numberOfSkippedParts) {
+        await ExtensionUtilities.showWarning(
+          `Skipped validating ${numberOfSkippedParts} part${numberOfSkippedParts === 1 ? '' : 's'} of '${this.packageName}' because the schemas couldn't be loaded`,
+        );
+      }
+
+      if (!numberOfErrors) {
+        if (!numberOfSkippedParts) {
+          await ExtensionUtilities.showInformation(`'${this.packageName}' has no schema errors`);
+        }
+
+        return;
+      }
+
+      await ExtensionUtilities.showInformation(
+        `'${this.packageName}' has ${numberOfErrors} schema error${numberOfErrors === 1 ? '' : 's'} in ${numberOfInvalidParts} part${numberOfInvalidParts === 1 ? '' : 's'}`,
+      );
+      await ExtensionUtilities.showProblems();
+    } catch (err) {
+      await ExtensionUtilities.showError(err);
+    }
+  }
+
+  /**
+   * Gets the relationships that target a part and the parts they are from.
+   *
+   * @param {string} filePath The path of the part.
+   * @returns {Promise<PartReference[]>} The relationships that target the part, skipping the relationships parts that aren't well-formed.
+   */
+  async getPartReferences(filePath: string): Promise<PartReference[]> {
+    const references: PartReference[] = [];
+    const relationshipsPartPaths = this.ooxmlFileAccessor.getPartPaths().filter(p => OOXMLPackageRelationships.isRelationshipsPart(p));
+    for (const relationshipsPartPath of relationshipsPartPaths) {
+      const data = (await this.ooxmlFileAccessor.getPart(relationshipsPartPath)) ?? new Uint8Array();
+      try {
+        const relationships = new OOXMLPackageRelationships(relationshipsPartPath, data);
+        relationships
+          .getRelationships()
+          .filter(r => r.targetPath === filePath)
+          .forEach(r => references.push({ sourcePartPath: relationships.sourcePartPath, relationship: r }));
+      } catch (err) {
+        logger.warn(`Unable to parse the relationships in '${relationshipsPartPath}': ${(err as Error)?.message}`);
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Gets the contents of a part of the package.
+   *
+   * @param {string} filePath The path of the part.
+   * @returns {Promise<Uint8Array | undefined>} The contents of the part or undefined if the package doesn't have it.
+   */
+  async getPart(filePath: string): Promise<Uint8Array | undefined> {
+    return await this.ooxmlFileAccessor.getPart(filePath);
+  }
+
+  /**
+   * Writes a part that is an embedded ooxml package after one of its own parts was saved.
+   * The part is committed like a saved part, so the user confirms invalidating a digital signature and the package is checked.
+   * Note that this will trigger the file watcher to reload the package if changes are written.
+   *
+   * @param {string} filePath The path of the part.
+   * @param {Uint8Array} data The new contents of the embedded ooxml package.
+   * @throws {Error} If the package isn't written, e.g. because it is open in another program.
+   */
+  async updateEmbeddedPackage(filePath: string, data: Uint8Array): Promise<void> {
+    logger.debug(`Updating embedded package '${filePath}' in '${this.packageName}'`);
+    await this.stagePart(filePath, data);
+  }
+
+  /**
+   * Creates or updates tree view file nodes, sets the compare files and reloads the tabs of the parts that changed.
    */
   private async populateOOXMLViewer(): Promise<void> {
     logger.debug('Populating OOXML Viewer');
@@ -207,6 +836,8 @@ export class OOXMLPackage {
       return;
     }
 
+    const embeddedPackageFileNodes: FileNode[] = [];
+    const changedFilePaths: string[] = [];
     for (const file of fileContents) {
       // ignore folder files
       if (file.isDirectory) {
@@ -215,23 +846,9 @@ export class OOXMLPackage {
 
       // Build nodes for each file in the package
 
-      let fileNodeAlreadyExists = true;
-      let currentFileNode = this.treeView.getRootFileNode();
-      const names: string[] = file.filePath.split('/');
-      for (let i = 0; i < names.length; i++) {
-        const fileOrFolderPath = names.slice(0, i + 1).join('/');
-        const existingFileNode = currentFileNode.children.find(c => c.nodePath === fileOrFolderPath);
-        if (existingFileNode) {
-          currentFileNode = existingFileNode;
-        } else {
-          fileNodeAlreadyExists = false;
-          // create a new FileNode with the currentFileNode as parent and add it to the currentFileNode children
-          const newFileNode = FileNode.create(fileOrFolderPath, currentFileNode, this.ooxmlFilePath);
-          currentFileNode = newFileNode;
-        }
-      }
+      const { fileNode: currentFileNode, alreadyExists: fileNodeAlreadyExists } = this.findOrCreateFileNode(file.filePath);
 
-      // cache or update the cache of the node and mark the status of the node
+      // set the compare file of the node and mark the status of the node
 
       // If the file node already exists and it isn't already marked as deleted,
       // the next state of the node can either
@@ -244,28 +861,41 @@ export class OOXMLPackage {
       // - "created" if the file is recreated (handled in the else block)
 
       if (fileNodeAlreadyExists && !currentFileNode.isDeleted()) {
-        const filesAreDifferent = await this.hasFileBeenChangedFromOutside(currentFileNode.nodePath, file.data);
-        await this.cache.updateCachedFiles(currentFileNode.nodePath, file.data);
+        // the diff compares the part with the version it had before the package changed
+        const prevFileContents = this.fileSystem.getSnapshots(currentFileNode.nodePath)[0]?.data ?? new Uint8Array();
+        this.fileSystem.setCompareFile(currentFileNode.nodePath, prevFileContents);
 
-        if (filesAreDifferent) {
+        if (!XmlFormatter.areEqual(file.data, prevFileContents)) {
           currentFileNode.setModified();
+          changedFilePaths.push(currentFileNode.nodePath);
         } else {
           currentFileNode.setUnchanged();
         }
       } else {
         if (!this.isFirstOpen) {
-          await this.cache.createCachedFilesWithEmptyCompare(currentFileNode.nodePath, file.data);
+          this.fileSystem.setCompareFile(currentFileNode.nodePath, new Uint8Array());
           currentFileNode.setCreated();
+          changedFilePaths.push(currentFileNode.nodePath);
         } else {
-          await this.cache.createCachedFiles(currentFileNode.nodePath, file.data);
+          this.fileSystem.setCompareFile(currentFileNode.nodePath, file.data);
         }
       }
+
+      this.fileSystem.createSnapshot(currentFileNode.nodePath, file.data, this.isFirstOpen ? 'Opened' : 'Package changed');
+      this.setCompoundFileNodes(currentFileNode, file.data);
+      if (OOXMLPackageEmbeddedPackages.isEmbeddedPackage(file.filePath, file.data)) {
+        embeddedPackageFileNodes.push(currentFileNode);
+      }
     }
 
     // need to handle deleted parts separately since the zip
     // doesn't contain them anymore
-    await this.handleDeletedParts(fileContents.map(file => file.filePath));
-    await this.reformatOpenTabs(fileContents.map(file => file.filePath));
+    const deletedFilePaths = this.handleDeletedParts(fileContents.map(file => file.filePath));
+    await this.reloadOpenTabs(changedFilePaths, deletedFilePaths);
+    this.treeView.setRelationships(this.parseRelationshipsParts(fileContents));
+    await this.checkPackageIntegrity(fileContents);
+    this.checkSignatures(fileContents);
+    await this.embeddedPackages?.update(this, embeddedPackageFileNodes);
 
     // tell vscode the tree has changed
     this.treeView.refresh();
@@ -274,111 +904,424 @@ export class OOXMLPackage {
   }
 
   /**
-   * Traverse tree and delete cached parts that don't exist anymore.
-   * If the file node is marked as deleted, delete the cached part, if it isn't, then
-   * mark the node for deletion on next update.
+   * Parses the relationships parts of the package, skipping the ones that aren't well-formed.
+   *
+   * @param {PackageFile[]} fileContents The files in the ooxml package.
+   * @returns {OOXMLPackageRelationships[]} The relationships parts.
+   */
+  private parseRelationshipsParts(fileContents: PackageFile[]): OOXMLPackageRelationships[] {
+    const relationshipsParts: OOXMLPackageRelationships[] = [];
+    for (const file of fileContents) {
+      if (file.isDirectory || !OOXMLPackageRelationships.isRelationshipsPart(file.filePath)) {
+        continue;
+      }
+
+      try {
+        relationshipsParts.push(new OOXMLPackageRelationships(file.filePath, file.data));
+      } catch (err) {
+        logger.warn(`Unable to parse the relationships in '${file.filePath}': ${(err as Error)?.message}`);
+      }
+    }
+
+    return relationshipsParts;
+  }
+
+  /**
+   * Checks the integrity of the package and shows the problems as diagnostics on the parts and on their file nodes.
+   *
+   * @param {PackageFile[]} fileContents The files in the ooxml package.
+   */
+  private async checkPackageIntegrity(fileContents: PackageFile[]): Promise<void> {
+    const problems = OOXMLPackageValidator.validate(fileContents, this.extensionSettings.maximumXmlPartsFileSizeBytes);
+    this.treeView.setProblems(problems);
+    await this.diagnostics.setProblems(problems);
+  }
+
+  /**
+   * Checks the digests of the parts signed by the digital signatures of the package and shows the signatures on the package's file node.
+   *
+   * @param {PackageFile[]} fileContents The files in the ooxml package.
+   */
+  private checkSignatures(fileContents: PackageFile[]): void {
+    this.signatures = OOXMLPackageSignatures.read(fileContents);
+    this.treeView.setSignatures(this.signatures);
+  }
+
+  /**
+   * Finds the file node of a file, creating it and any missing folder nodes if it doesn't exist.
+   *
+   * @param {string} filePath The path of the file in the ooxml package.
+   * @returns {{ fileNode: FileNode; alreadyExists: boolean }} The file node and whether or not it already existed.
+   */
+  private findOrCreateFileNode(filePath: string): { fileNode: FileNode; alreadyExists: boolean } {
+    let alreadyExists = true;
+    let currentFileNode = this.treeView.getRootFileNode();
+    const names: string[] = filePath.split('/');
+    for (let i = 0; i < names.length; i++) {
+      const fileOrFolderPath = names.slice(0, i + 1).join('/');
+      const existingFileNode = currentFileNode.children.find(c => c.nodePath === fileOrFolderPath);
+      if (existingFileNode) {
+        currentFileNode = existingFileNode;
+      } else {
+        alreadyExists = false;
+        // create a new FileNode with the currentFileNode as parent and add it to the currentFileNode children
+        const newFileNode = FileNode.create(fileOrFolderPath, currentFileNode, this.ooxmlFilePath);
+        currentFileNode = newFileNode;
+      }
+    }
+
+    return { fileNode: currentFileNode, alreadyExists: alreadyExists };
+  }
+
+  /**
+   * Replaces the storage, stream and VBA module nodes of a part with the storages and streams of the part if it is a compound file,
+   * preceded by its modules if it is a VBA project.
+   *
+   * @param {FileNode} fileNode The file node of the part.
+   * @param {Uint8Array} data The contents of the part.
+   */
+  private setCompoundFileNodes(fileNode: FileNode, data: Uint8Array): void {
+    fileNode.children = fileNode.children.filter(c => !c.streamPath && !c.vbaModuleName);
+    if (!CompoundFile.isCompoundFile(data)) {
+      return;
+    }
+
+    if (VbaProjectReader.isVbaProject(data)) {
+      try {
+        VbaProjectReader.read(data).forEach(m => FileNode.createVbaModuleNode(m.name, VbaProjectReader.getFileName(m), fileNode));
+      } catch (err) {
+        fileNode.children = fileNode.children.filter(c => !c.vbaModuleName);
+        logger.warn(`Unable to read the VBA modules of '${fileNode.nodePath}': ${(err as Error)?.message}`);
+      }
+    }
+
+    const addStreamNodes = (entry: CompoundFileEntry, parentFileNode: FileNode) => {
+      for (const child of entry.children) {
+        addStreamNodes(child, FileNode.createStreamNode(child.path, child.isStorage, parentFileNode));
+      }
+    };
+
+    try {
+      addStreamNodes(new CompoundFile(data).root, fileNode);
+    } catch (err) {
+      fileNode.children = fileNode.children.filter(c => !c.streamPath);
+      logger.warn(`Unable to read the storages and streams of '${fileNode.nodePath}': ${(err as Error)?.message}`);
+    }
+  }
+
+  /**
+   * Moves a file node to a new path, removing folder nodes that are left empty.
+   *
+   * @param {string} filePath The path of the file in the ooxml package.
+   * @param {string} newFilePath The new path of the file in the ooxml package.
+   */
+  private moveFileNode(filePath: string, newFilePath: string): void {
+    // create the new node first so that shared folder nodes aren't removed and recreated
+    this.findOrCreateFileNode(newFilePath);
+
+    const fileNodeQueue = [this.treeView.getRootFileNode()];
+    let fileNode: FileNode | undefined;
+    while ((fileNode = fileNodeQueue.pop()) && fileNode.nodePath !== filePath) {
+      // the nodes of embedded packages belong to their own package
+      fileNodeQueue.push(...fileNode.children.filter(c => !c.isOOXMLPackage));
+    }
+
+    let parentFileNode = fileNode?.parent;
+    if (fileNode && parentFileNode) {
+      parentFileNode.children.splice(parentFileNode.children.indexOf(fileNode), 1);
+      while (parentFileNode.parent && !parentFileNode.isOOXMLPackage && !parentFileNode.children.length) {
+        parentFileNode.parent.children.splice(parentFileNode.parent.children.indexOf(parentFileNode), 1);
+        parentFileNode = parentFileNode.parent;
+      }
+    }
+  }
+
+  /**
+   * Traverse tree and mark the parts that don't exist anymore as deleted.
+   * If the file node is marked as deleted already, remove it and the compare file of the part.
    *
    * @param {string[]} filePaths The file paths in the ooxml file.
+   * @returns {string[]} The paths of the parts that were marked as deleted.
    */
-  private async handleDeletedParts(filePaths: string[]): Promise<void> {
+  private handleDeletedParts(filePaths: string[]): string[] {
     const filesInOOXMLFile = new Set(filePaths);
     const fileNodeQueue = [this.treeView.getRootFileNode()];
+    const deletedFilePaths: string[] = [];
 
     let fileNode;
     while ((fileNode = fileNodeQueue.pop())) {
       if (fileNode.contextValue === FileNodeType.File && !filesInOOXMLFile.has(fileNode.nodePath)) {
         if (!fileNode.isDeleted()) {
           fileNode.setDeleted();
-          await this.cache.updateCachedFiles(fileNode.nodePath, new Uint8Array());
+          this.fileSystem.setCompareFile(fileNode.nodePath, this.fileSystem.getSnapshots(fileNode.nodePath)[0]?.data ?? new Uint8Array());
+          deletedFilePaths.push(fileNode.nodePath);
         } else {
-          // remove files marked as deleted from tree view and cache after the ooxml file
+          // remove files marked as deleted from tree view after the ooxml file
           // the second time the ooxml file is saved
-          await this.cache.deleteCachedFiles(fileNode.nodePath);
+          this.fileSystem.deleteFiles(fileNode.nodePath);
           fileNode.parent?.children.splice(fileNode.parent.children.indexOf(fileNode), 1);
         }
       }
 
-      fileNodeQueue.push(...fileNode.children);
+      // the nodes of embedded packages belong to their own package
+      fileNodeQueue.push(...fileNode.children.filter(c => !c.isOOXMLPackage));
     }
 
     this.treeView.refresh();
+    return deletedFilePaths;
   }
 
   /**
-   * Reformats the open tabs after their contents have been updated.
-   * (Formats the xml of all tabs and closes the ones that were deleted)
+   * Reloads the open tabs of the parts that changed and closes the ones of the parts that were deleted.
    *
-   * @param {string[]} filePaths The file paths in the ooxml file.
+   * @param {string[]} changedFilePaths The paths of the parts that were changed or created.
+   * @param {string[]} deletedFilePaths The paths of the parts that were deleted.
    */
-  private async reformatOpenTabs(filePaths: string[]): Promise<void> {
-    logger.debug('Reformatting open tabs');
-    const filePathsInOOXMLPackage = new Set(filePaths);
-    const openTextDocumentsInCache = ExtensionUtilities.getOpenTextDocumentFilePaths()
-      .filter(fileName => this.cache.pathBelongsToCache(fileName))
-      .map(fileName => this.cache.getFilePathFromCacheFilePath(fileName));
+  private async reloadOpenTabs(changedFilePaths: string[], deletedFilePaths: string[]): Promise<void> {
+    logger.debug('Reloading open tabs');
+    this.fileSystem.notifyChanged(changedFilePaths, deletedFilePaths);
+
+    const deletedPartUris = new Set(deletedFilePaths.map(filePath => this.fileSystem.getPartUri(filePath).toString()));
+    await Promise.all(
+      ExtensionUtilities.getOpenTextDocumentUris()
+        .filter(uri => deletedPartUris.has(uri.toString()))
+        .map(uri => ExtensionUtilities.closeTextDocument(uri)),
+    );
+  }
 
-    const formatCacheDocuments = openTextDocumentsInCache
-      .filter(p => filePathsInOOXMLPackage.has(p))
-      .map(filePath => this.formatXml(filePath));
+  /**
+   * Validates the formatted part against the schema of its content type and shows the schema errors as diagnostics.
+   * Parts that aren't xml or exceed the maximum size to format aren't validated.
+   *
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @param {OOXMLPackageContentTypes} contentTypes The content types of the package, read from the package if not provided.
+   * @param {Uint8Array} fileContents The contents of the part as they are shown, the formatted part if not provided.
+   * @returns {Promise<number | undefined>} A promise resolving to the number of schema errors,
+   *  or undefined if the part wasn't validated because its schema can't be loaded.
+   */
+  private async validatePartSchema(
+    filePath: string,
+    contentTypes?: OOXMLPackageContentTypes,
+    fileContents?: Uint8Array,
+  ): Promise<number | undefined> {
+    const data = fileContents ?? (await this.fileSystem.readPart(filePath)) ?? new Uint8Array();
+    if (!XmlFormatter.isXml(data) || data.byteLength > this.extensionSettings.maximumXmlPartsFileSizeBytes) {
+      await this.diagnostics.setSchemaErrors(filePath, []);
+      return 0;
+    }
 
-    const closeDocumentsInCacheButNotPackage = openTextDocumentsInCache
-      .filter(fileName => !filePathsInOOXMLPackage.has(fileName))
-      .map(fileName => ExtensionUtilities.closeTextDocument(fileName));
+    if (!contentTypes) {
+      const contentTypesData = await this.ooxmlFileAccessor.getPart(CONTENT_TYPES_PATH);
+      contentTypes = contentTypesData ? new OOXMLPackageContentTypes(contentTypesData) : undefined;
+    }
 
-    await Promise.all([...formatCacheDocuments, ...closeDocumentsInCacheButNotPackage]);
+    const schemaErrors = await OOXMLPackageSchemaValidator.validate(filePath, contentTypes?.getContentType(filePath), data);
+    await this.diagnostics.setSchemaErrors(filePath, schemaErrors ?? []);
+    return schemaErrors?.length;
   }
 
   /**
-   * Tries to format the file as xml and if successful, updates the cached files.
+   * Validates a part that is opened or saved, and tells the user the first time a part of the package isn't validated
+   * because its schema can't be loaded, so that a part without schema errors isn't mistaken for a valid one.
    *
-   * @param {string} filePath The path of the file in the ooxml package.
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @param {Uint8Array} fileContents The contents of the part as they are shown, the formatted part if not provided.
    */
-  private async formatXml(filePath: string): Promise<void> {
-    logger.debug(`Formatting '${filePath}'`);
-    const data = await this.cache.getCachedNormalFile(filePath);
-    const fileSize = XmlFormatter.minify(data, true).byteLength;
-    if (fileSize > this.extensionSettings.maximumXmlPartsFileSizeBytes) {
-      if (XmlFormatter.isXml(data)) {
-        ExtensionUtilities.showWarning(
-          `'${basename(filePath)}' size of '${fileSize}' exceeds maximum of '${this.extensionSettings.maximumXmlPartsFileSizeBytes}' bytes`,
-        );
-      }
+  private async validateShownPartSchema(filePath: string, fileContents?: Uint8Array): Promise<void> {
+    const numberOfErrors = await this.validatePartSchema(filePath, undefined, fileContents);
+    if (numberOfErrors === undefined && !this.hasShownSchemaWarning) {
+      this.hasShownSchemaWarning = true;
+      // the warning isn't awaited, so it doesn't hold up the saves that follow
+      ExtensionUtilities.showWarning(`'${filePath}' wasn't validated because its schema couldn't be loaded`);
+    }
+  }
 
+  /**
+   * Stages a part to be written to the package by the pending commit, starting a commit if there isn't one pending.
+   *
+   * @param {string} filePath The path of the part in the ooxml package.
+   * @param {Uint8Array} fileContents The contents to write to the part.
+   */
+  private async stagePart(filePath: string, fileContents: Uint8Array): Promise<void> {
+    this.stagedParts.set(filePath, fileContents);
+    this.pendingCommit ??= this.queueWrite(() => this.commitStagedParts());
+    await this.pendingCommit;
+  }
+
+  /**
+   * Writes to the package once the write in progress has finished,
+   * so that writes, and the rollback of a write that fails, never interleave.
+   *
+   * @param {() => Promise<T>} write Writes to the package.
+   * @returns {Promise<T>} The result of the write.
+   */
+  private async queueWrite<T>(write: () => Promise<T>): Promise<T> {
+    const previousWrite = this.lastWrite;
+    const queuedWrite = (async () => {
+      await previousWrite;
+      return await write();
+    })();
+    // the errors of a write are thrown to the caller of that write, not to the writes queued after it
+    this.lastWrite = queuedWrite.then(
+      () => undefined,
+      () => undefined,
+    );
+
+    return await queuedWrite;
+  }
+
+  /**
+   * Waits for the save burst to end and writes all the staged parts to the package in a single write.
+   * If any part fails to minify or the package can't be written, none of the parts are written and the error is thrown.
+   */
+  private async commitStagedParts(): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, SAVE_TRANSACTION_DELAY_MS));
+
+    // parts saved from now on are staged for the next commit, which waits until this one has finished
+    const stagedParts = new Map(this.stagedParts);
+    this.stagedParts.clear();
+    this.pendingCommit = undefined;
+    if (!stagedParts.size) {
+      logger.debug('All the staged parts were reverted. OOXML package will not be updated');
       return;
     }
 
-    // Need to format the normal/prev and the compare separately for the diff to work
-    const formatNormalXml = async () => {
-      const fileContent = await this.cache.getCachedNormalFile(filePath);
-      const formattedXml = XmlFormatter.format(fileContent);
+    logger.debug(`Committing '${[...stagedParts.keys()].join(', ')}' to '${this.packageName}'`);
+    // the saved parts already have diagnostics at their parse errors, see updateOOXMLFile
+    const syntaxErrors = [...stagedParts].map(([filePath, fileContents]) => ({
+      filePath: filePath,
+      syntaxError: XmlFormatter.findSyntaxError(fileContents),
+    }));
+    const { filePath: malformedFilePath, syntaxError } = syntaxErrors.find(e => e.syntaxError) ?? {};
+    if (syntaxError) {
+      throw new Error(
+        `No changes were saved to '${this.packageName}'. '${malformedFilePath}' is not well-formed at line ${syntaxError.lineNumber}, column ${syntaxError.columnNumber}: ${syntaxError.message}`,
+      );
+    }
 
-      if (fileContent != formattedXml) {
-        await this.cache.updateCachedFilesNoCompare(filePath, formattedXml);
+    const updatedParts: PackagePart[] = [];
+    for (const [filePath, fileContents] of stagedParts) {
+      try {
+        updatedParts.push({ filePath: filePath, data: XmlFormatter.minify(fileContents, this.extensionSettings.preserveComments) });
+      } catch (err) {
+        throw new Error(`No changes were saved to '${this.packageName}'. '${filePath}' could not be minified: ${(err as Error)?.message}`);
       }
-    };
-
-    const formatCompareXml = async () => {
-      const compareFileContent = await this.cache.getCachedCompareFile(filePath);
-      const formattedXml = XmlFormatter.format(compareFileContent);
+    }
 
-      if (compareFileContent != formattedXml) {
-        await this.cache.updateCompareFile(filePath, formattedXml);
+    const updatedPartPaths = updatedParts.map(p => p.filePath);
+    const invalidatedSignatures = OOXMLPackageSignatures.findInvalidatedSignatures(this.signatures, updatedPartPaths);
+    if (invalidatedSignatures.length) {
+      const signedPartChanges = invalidatedSignatures.map(signature => {
+        const changedPartPaths = OOXMLPackageSignatures.findSignedParts(signature, updatedPartPaths).map(p => `'${p.filePath}'`);
+        return `'${signature.filePath}' signs ${changedPartPaths.join(', ')}`;
+      });
+      const confirmed = await ExtensionUtilities.showConfirmation(
+        `Saving will invalidate the digital signature of '${this.packageName}'. Save anyway?`,
+        signedPartChanges.join('\n'),
+        'Save',
+      );
+      if (!confirmed) {
+        throw new Error(`No changes were saved to '${this.packageName}' so its digital signature stays valid`);
       }
-    };
+    }
 
-    await Promise.all([formatNormalXml(), formatCompareXml()]);
+    const success = await this.ooxmlFileAccessor.updatePackageParts(updatedParts);
+    if (!success) {
+      throw new Error(`File not saved. '${this.packageName}' is open in another program. Close that program before making any changes.`);
+    }
+
+    // the editors already show the saved parts, so they aren't told that the parts changed
+    for (const part of updatedParts) {
+      this.fileSystem.setCompareFile(part.filePath, part.data);
+      this.fileSystem.createSnapshot(part.filePath, part.data, 'Saved');
+    }
+
+    const packageContents = await this.ooxmlFileAccessor.getPackageContents();
+    await this.checkPackageIntegrity(packageContents);
+    this.checkSignatures(packageContents);
+    for (const [filePath, fileContents] of stagedParts) {
+      await this.validateShownPartSchema(filePath, fileContents);
+    }
+
+    this.treeView.refresh();
   }
 
   /**
-   * Check if an OOXML part is different from its cached version.
+   * Formats the part if it is xml that doesn't exceed the maximum size to format.
    *
-   * @param {string} filePath The path of the file in the ooxml package.
-   * @param {string} newContent The updated contents of the file.
-   * @returns {Promise<boolean>} A Promise resolving to whether or not the file has been changed from the outside.
+   * @param {Uint8Array} data The contents of the part.
+   * @returns {Uint8Array} The formatted contents or the original contents if they weren't formatted.
    */
-  private async hasFileBeenChangedFromOutside(filePath: string, newContent: Uint8Array): Promise<boolean> {
-    const prevFileContent = await this.cache.getCachedPrevFile(filePath);
+  private tryFormatPart(data: Uint8Array): Uint8Array {
+    if (XmlFormatter.minify(data, true).byteLength > this.extensionSettings.maximumXmlPartsFileSizeBytes) {
+      return data;
+    }
 
-    return !XmlFormatter.areEqual(newContent, prevFileContent);
+    return XmlFormatter.format(data);
+  }
+
+  /**
+   * Asks the user for a source part and a relationship type and adds relationships from the source part to the imported parts.
+   *
+   * @param {string[]} importedFilePaths The paths of the imported parts in the ooxml package.
+   * @param {PackagePart[]} updatedParts The parts to write to the package, the updated relationships part is added to it.
+   * @param {OOXMLPackageContentTypes | undefined} contentTypes The content types of the package.
+   * @returns {Promise<string[] | undefined>} The ids of the new relationships, an empty array if the user chose not to create any,
+   *  or undefined if the user cancelled.
+   */
+  private async addImportedPartRelationships(
+    importedFilePaths: string[],
+    updatedParts: PackagePart[],
+    contentTypes: OOXMLPackageContentTypes | undefined,
+  ): Promise<string[] | undefined> {
+    const noRelationship = '(No relationship)';
+    const sourcePartPaths = this.ooxmlFileAccessor
+      .getPartPaths()
+      .filter(p => p !== CONTENT_TYPES_PATH && p.toLowerCase().endsWith('.xml') && !OOXMLPackageRelationships.isRelationshipsPart(p));
+    const sourcePartPath = await ExtensionUtilities.showQuickPick(
+      [noRelationship, ...sourcePartPaths],
+      'Select a part to create a relationship from',
+    );
+    if (!sourcePartPath) {
+      return undefined;
+    }
+
+    if (sourcePartPath === noRelationship) {
+      return [];
+    }
+
+    const typeNames = Object.keys(IMPORTED_PART_RELATIONSHIP_TYPES);
+    const suggestedTypeName = OOXMLPackageRelationships.getImportedPartRelationshipTypeName(importedFilePaths[0]);
+    const typeName = await ExtensionUtilities.showQuickPick(
+      suggestedTypeName ? [suggestedTypeName, ...typeNames.filter(n => n !== suggestedTypeName)] : typeNames,
+      'Select the relationship type',
+    );
+    if (!typeName) {
+      return undefined;
+    }
+
+    const relationshipsPartPath = OOXMLPackageRelationships.getRelationshipsPartPath(sourcePartPath);
+    const relationshipsData = await this.ooxmlFileAccessor.getPart(relationshipsPartPath);
+    const relationships = relationshipsData
+      ? new OOXMLPackageRelationships(relationshipsPartPath, relationshipsData)
+      : OOXMLPackageRelationships.create(sourcePartPath);
+    const relationshipIds = importedFilePaths.map(filePath =>
+      relationships.addRelationship(IMPORTED_PART_RELATIONSHIP_TYPES[typeName], filePath),
+    );
+
+    updatedParts.push({ filePath: relationshipsPartPath, data: relationships.toData() });
+    contentTypes?.registerPart(relationshipsPartPath, RELATIONSHIPS_CONTENT_TYPE);
+
+    return relationshipIds;
+  }
+
+  /**
+   * Warns that the OOXML package couldn't be written to because another program has it open.
+   */
+  private async showPackageBusyWarning(): Promise<void> {
+    await ExtensionUtilities.showWarning(
+      `File not saved.\n'${this.packageName}' is open in another program.\nClose that program before making any changes.`,
+      true,
+    );
   }
 }
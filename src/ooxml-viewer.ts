@@ -1,17 +1,29 @@
-import { basename } from 'path';
-import { ExtensionContext } from 'vscode';
+import { basename, join } from 'path';
+import { ExtensionContext, Uri } from 'vscode';
+import { OOXMLFileSystemProvider } from './file-system/ooxml-file-system-provider';
 import { OOXMLExtensionSettings } from './ooxml-extension-settings';
-import { OOXMLPackageFacade } from './ooxml-package/ooxml-package-facade';
+import { CONTENT_TYPES_PATH } from './ooxml-package/ooxml-package-content-types';
+import { OOXMLPackageComparison } from './ooxml-package/ooxml-package-comparison';
+import { OOXMLPackageFacade, PartReferences } from './ooxml-package/ooxml-package-facade';
+import { OOXMLPackageFileAccessor, PackagePart } from './ooxml-package/ooxml-package-file-accessor';
+import { MIMETYPE_PATH, OOXMLPackageManifest } from './ooxml-package/ooxml-package-manifest';
+import { OOXMLRelationshipTreeDataProvider } from './tree-view/ooxml-relationship-tree-view-provider';
 import { OOXMLTreeDataProvider } from './tree-view/ooxml-tree-view-provider';
 import { ExtensionUtilities } from './utilities/extension-utilities';
 import { FileSystemUtilities } from './utilities/file-system-utilities';
+import { GitUtilities } from './utilities/git-utilities';
 import logger from './utilities/logger';
+import { XmlFormatter } from './utilities/xml-formatter';
+
+// Earlier versions cached the parts in this folder of the storage folder
+const LEGACY_CACHE_FOLDER_NAME = 'cache';
 
 /**
  * The OOXML Viewer.
  */
 export class OOXMLViewer {
   private ooxmlPackages: OOXMLPackageFacade[];
+  private comparisons: OOXMLPackageComparison[] = [];
 
   private get contextStorageUri() {
     return (
@@ -29,11 +41,15 @@ export class OOXMLViewer {
    * @param  {OOXMLTreeDataProvider} treeDataProvider The tree data provider.
    * @param  {OOXMLExtensionSettings} settings The extension settings.
    * @param  {ExtensionContext} context The extension context.
+   * @param  {OOXMLRelationshipTreeDataProvider} relationshipTreeDataProvider The relationship tree data provider.
+   * @param  {OOXMLFileSystemProvider} fileSystemProvider The file system provider that serves the parts of the opened packages.
    */
   constructor(
     private treeDataProvider: OOXMLTreeDataProvider,
     private settings: OOXMLExtensionSettings,
     private context: ExtensionContext,
+    private relationshipTreeDataProvider: OOXMLRelationshipTreeDataProvider,
+    private fileSystemProvider: OOXMLFileSystemProvider,
   ) {
     this.ooxmlPackages = [];
   }
@@ -55,7 +71,13 @@ export class OOXMLViewer {
       return;
     }
 
-    const ooxmlPackage = OOXMLPackageFacade.create(filePath, this.treeDataProvider, this.contextStorageUri);
+    const ooxmlPackage = OOXMLPackageFacade.create(
+      filePath,
+      this.treeDataProvider,
+      this.contextStorageUri,
+      this.relationshipTreeDataProvider,
+      this.fileSystemProvider,
+    );
     this.ooxmlPackages.push(ooxmlPackage);
     await ooxmlPackage.openOOXMLPackage();
   }
@@ -87,6 +109,32 @@ export class OOXMLViewer {
     await ooxmlPackage?.viewFile(filePath);
   }
 
+  /**
+   * Displays a stream of a part that is a compound file.
+   *
+   * @param {string} ooxmlPackagePath The path to the ooxml file.
+   * @param {string} filePath The path of the part.
+   * @param {string} streamPath The path of the stream in the compound file.
+   */
+  async viewStream(ooxmlPackagePath: string, filePath: string, streamPath: string): Promise<void> {
+    logger.info(`Viewing '${streamPath}' of '${filePath}' in '${ooxmlPackagePath}'`);
+    const ooxmlPackage = this.findOOXMLPackage(ooxmlPackagePath);
+    await ooxmlPackage?.viewStream(filePath, streamPath);
+  }
+
+  /**
+   * Displays the source of a module of a part that is a VBA project.
+   *
+   * @param {string} ooxmlPackagePath The path to the ooxml file.
+   * @param {string} filePath The path of the part.
+   * @param {string} vbaModuleName The name of the module.
+   */
+  async viewVbaModule(ooxmlPackagePath: string, filePath: string, vbaModuleName: string): Promise<void> {
+    logger.info(`Viewing VBA module '${vbaModuleName}' of '${filePath}' in '${ooxmlPackagePath}'`);
+    const ooxmlPackage = this.findOOXMLPackage(ooxmlPackagePath);
+    await ooxmlPackage?.viewVbaModule(filePath, vbaModuleName);
+  }
+
   /**
    * Opens a window showing the difference between the primary xml part and the compare xml part.
    *
@@ -110,27 +158,321 @@ export class OOXMLViewer {
     await ooxmlPackage?.searchOOXMLParts();
   }
 
+  /**
+   * Shows the history of a part in the OOXML package.
+   *
+   * @param {string} ooxmlPackagePath The path to the ooxml file.
+   * @param {string} filePath The path of the part.
+   */
+  async showPartHistory(ooxmlPackagePath: string, filePath: string): Promise<void> {
+    logger.info(`Showing the history of '${filePath}' in '${ooxmlPackagePath}'`);
+    const ooxmlPackage = this.findOOXMLPackage(ooxmlPackagePath);
+    await ooxmlPackage?.showPartHistory(filePath);
+  }
+
+  /**
+   * Creates a new part in the OOXML package.
+   *
+   * @param {string} ooxmlPackagePath The path to the ooxml file.
+   * @param {string} folderPath The path of the folder to create the part in, or an empty string for the root of the package.
+   */
+  async createPart(ooxmlPackagePath: string, folderPath: string): Promise<void> {
+    logger.info(`Creating a part in '${folderPath}' in '${ooxmlPackagePath}'`);
+    const ooxmlPackage = this.findOOXMLPackage(ooxmlPackagePath);
+    await ooxmlPackage?.createPart(folderPath);
+  }
+
+  /**
+   * Deletes a part from the OOXML package.
+   *
+   * @param {string} ooxmlPackagePath The path to the ooxml file.
+   * @param {string} filePath The path of the part to delete.
+   */
+  async deletePart(ooxmlPackagePath: string, filePath: string): Promise<void> {
+    logger.info(`Deleting '${filePath}' in '${ooxmlPackagePath}'`);
+    const ooxmlPackage = this.findOOXMLPackage(ooxmlPackagePath);
+    await ooxmlPackage?.deletePart(filePath);
+  }
+
+  /**
+   * Renames or moves a part in the OOXML package.
+   *
+   * @param {string} ooxmlPackagePath The path to the ooxml file.
+   * @param {string} filePath The path of the part to rename.
+   */
+  async renamePart(ooxmlPackagePath: string, filePath: string): Promise<void> {
+    logger.info(`Renaming '${filePath}' in '${ooxmlPackagePath}'`);
+    const ooxmlPackage = this.findOOXMLPackage(ooxmlPackagePath);
+    await ooxmlPackage?.renamePart(filePath);
+  }
+
+  /**
+   * Imports files from the file system into the OOXML package.
+   *
+   * @param {string} ooxmlPackagePath The path to the ooxml file.
+   * @param {string} folderPath The path of the folder to import the files into, or an empty string for the root of the package.
+   * @param {string[]} externalFilePaths The paths of the files to import. The user is asked to select files if not provided.
+   */
+  async importFiles(ooxmlPackagePath: string, folderPath: string, externalFilePaths?: string[]): Promise<void> {
+    logger.info(`Importing files into '${folderPath}' in '${ooxmlPackagePath}'`);
+    const ooxmlPackage = this.findOOXMLPackage(ooxmlPackagePath);
+    await ooxmlPackage?.importFiles(folderPath, externalFilePaths);
+  }
+
+  /**
+   * Extracts the parts of the OOXML package to a folder.
+   *
+   * @param {string} ooxmlPackagePath The path to the ooxml file.
+   */
+  async extractPackage(ooxmlPackagePath: string): Promise<void> {
+    logger.info(`Extracting '${ooxmlPackagePath}'`);
+    const ooxmlPackage = this.findOOXMLPackage(ooxmlPackagePath);
+    await ooxmlPackage?.extractPackage();
+  }
+
+  /**
+   * Validates all the parts of the OOXML package against their schemas.
+   *
+   * @param {string} ooxmlPackagePath The path to the ooxml file.
+   */
+  async validatePackage(ooxmlPackagePath: string): Promise<void> {
+    logger.info(`Validating '${ooxmlPackagePath}'`);
+    const ooxmlPackage = this.findOOXMLPackage(ooxmlPackagePath);
+    await ooxmlPackage?.validatePackage();
+  }
+
+  /**
+   * Gets the part of an opened OOXML package that a file belongs to and the relationships that target it.
+   *
+   * @param {Uri} uri The uri of the file.
+   * @returns {Promise<PartReferences | undefined>} The part and its references or undefined if the file isn't a part.
+   */
+  async getPartReferences(uri: Uri): Promise<PartReferences | undefined> {
+    for (const ooxmlPackage of this.ooxmlPackages) {
+      const partReferences = await ooxmlPackage.getPartReferences(uri);
+      if (partReferences) {
+        return partReferences;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Replaces the OOXML package with a backup selected by the user.
+   *
+   * @param {string} ooxmlPackagePath The path to the ooxml file.
+   */
+  async restorePreviousVersion(ooxmlPackagePath: string): Promise<void> {
+    logger.info(`Restoring a previous version of '${ooxmlPackagePath}'`);
+    const ooxmlPackage = this.findOOXMLPackage(ooxmlPackagePath);
+    await ooxmlPackage?.restorePreviousVersion();
+  }
+
+  /**
+   * Packs the files in a folder into an OOXML package.
+   * The [Content_Types].xml part, or the mimetype file of odf packages, is written first and the xml parts are minified.
+   *
+   * @param {string} folderPath The path to the folder to pack.
+   */
+  async packFolder(folderPath: string): Promise<void> {
+    logger.info(`Packing '${folderPath}'`);
+    try {
+      const filePaths = await FileSystemUtilities.getFilePaths(folderPath);
+      const firstFilePath = OOXMLPackageManifest.isOdfPackage(filePaths) ? MIMETYPE_PATH : CONTENT_TYPES_PATH;
+      if (!filePaths.includes(firstFilePath)) {
+        await ExtensionUtilities.showWarning(`'${basename(folderPath)}' does not contain a '${firstFilePath}' file`);
+        return;
+      }
+
+      const ooxmlPackagePath = await ExtensionUtilities.showSaveDialog(`Pack '${basename(folderPath)}' As OOXML`, folderPath);
+      if (!ooxmlPackagePath) {
+        logger.warn('No file selected to pack to');
+        return;
+      }
+
+      await ExtensionUtilities.withProgress(
+        async () => {
+          const orderedFilePaths = [firstFilePath, ...filePaths.filter(filePath => filePath !== firstFilePath)];
+          const parts: PackagePart[] = [];
+          for (const filePath of orderedFilePaths) {
+            const data = await FileSystemUtilities.readFile(join(folderPath, filePath));
+            parts.push({ filePath: filePath, data: XmlFormatter.minify(data, this.settings.preserveComments) });
+          }
+
+          const success = await OOXMLPackageFileAccessor.createPackage(ooxmlPackagePath, parts);
+          if (!success) {
+            throw new Error(`Unable to write '${basename(ooxmlPackagePath)}', it may be open in another application`);
+          }
+        },
+        `Packing '${basename(folderPath)}'`,
+      );
+
+      await ExtensionUtilities.showInformation(`Packed '${basename(folderPath)}' into '${ooxmlPackagePath}'`);
+    } catch (err) {
+      await ExtensionUtilities.showError(err);
+    }
+  }
+
+  /**
+   * Compares two OOXML packages part by part and adds the comparison to the tree view.
+   *
+   * @param {string | undefined} originalPackagePath The path to the ooxml file that is compared against.
+   *  The user is asked to select a file if not provided.
+   * @param {string} modifiedPackagePath The path to the ooxml file that is compared.
+   */
+  async comparePackages(originalPackagePath: string | undefined, modifiedPackagePath: string): Promise<void> {
+    try {
+      originalPackagePath ??= (await ExtensionUtilities.showOpenDialog(`Compare '${basename(modifiedPackagePath)}' With`))?.[0];
+      if (!originalPackagePath) {
+        logger.warn('No file selected to compare with');
+        return;
+      }
+
+      logger.info(`Comparing '${modifiedPackagePath}' with '${originalPackagePath}'`);
+      for (const filePath of [originalPackagePath, modifiedPackagePath]) {
+        const fileSize = await FileSystemUtilities.getFileSize(filePath);
+        if (fileSize > this.settings.maximumOOXMLFileSizeBytes) {
+          ExtensionUtilities.showWarning(
+            `'${basename(filePath)}' size of '${fileSize}' exceeds the max file size of '${this.settings.maximumOOXMLFileSizeBytes}' bytes`,
+          );
+          return;
+        }
+      }
+
+      await this.addComparison(originalPackagePath, modifiedPackagePath);
+    } catch (err) {
+      await ExtensionUtilities.showError(err);
+    }
+  }
+
+  /**
+   * Compares an OOXML package part by part with the version committed to HEAD in its local git repository
+   * and adds the comparison to the tree view.
+   *
+   * @param {string} ooxmlPackagePath The path to the ooxml file.
+   */
+  async compareWithHead(ooxmlPackagePath: string): Promise<void> {
+    logger.info(`Comparing '${ooxmlPackagePath}' with HEAD`);
+    try {
+      const committedPackageSize = await GitUtilities.getCommittedFileSize(ooxmlPackagePath);
+      if (committedPackageSize === undefined) {
+        await ExtensionUtilities.showWarning(`'${basename(ooxmlPackagePath)}' is not committed to a local git repository`);
+        return;
+      }
+
+      if (committedPackageSize > this.settings.maximumOOXMLFileSizeBytes) {
+        ExtensionUtilities.showWarning(
+          `'${basename(ooxmlPackagePath)}' (HEAD) size of '${committedPackageSize}' exceeds the max file size of '${this.settings.maximumOOXMLFileSizeBytes}' bytes`,
+        );
+        return;
+      }
+
+      // the size of a package stored with git lfs is the size of its pointer, so the contents are limited to the max file size too
+      const committedPackageData = await GitUtilities.getCommittedFile(ooxmlPackagePath, 'HEAD', this.settings.maximumOOXMLFileSizeBytes);
+      if (!committedPackageData) {
+        await ExtensionUtilities.showWarning(
+          `'${basename(ooxmlPackagePath)}' (HEAD) could not be read or exceeds the max file size of '${this.settings.maximumOOXMLFileSizeBytes}' bytes`,
+        );
+        return;
+      }
+
+      await this.addComparison(`${ooxmlPackagePath} (HEAD)`, ooxmlPackagePath, committedPackageData);
+    } catch (err) {
+      await ExtensionUtilities.showError(err);
+    }
+  }
+
+  /**
+   * Opens a window showing the difference between a part in the original package and in the modified package of a comparison.
+   *
+   * @param {string} originalPackagePath The path to the ooxml file that is compared against.
+   * @param {string} modifiedPackagePath The path to the ooxml file that is compared.
+   * @param {string} filePath The path of the part to be diffed.
+   */
+  async getComparisonDiff(originalPackagePath: string, modifiedPackagePath: string, filePath: string): Promise<void> {
+    logger.info(`Getting the diff of '${filePath}' in '${modifiedPackagePath}' and '${originalPackagePath}'`);
+    try {
+      await this.findComparison(originalPackagePath, modifiedPackagePath)?.getDiff(filePath);
+    } catch (err) {
+      await ExtensionUtilities.showError(err);
+    }
+  }
+
+  /**
+   * Removes a comparison of two OOXML packages from the tree view.
+   *
+   * @param {string} originalPackagePath The path to the ooxml file that is compared against.
+   * @param {string} modifiedPackagePath The path to the ooxml file that is compared.
+   */
+  async removeComparison(originalPackagePath: string, modifiedPackagePath: string): Promise<void> {
+    const comparison = this.findComparison(originalPackagePath, modifiedPackagePath);
+    if (comparison) {
+      logger.info(`Removing the comparison of '${modifiedPackagePath}' with '${originalPackagePath}'`);
+      this.comparisons.splice(this.comparisons.indexOf(comparison), 1);
+      await comparison.dispose();
+    }
+  }
+
   /**
    * Resets the OOXML viewer.
    */
   async reset(): Promise<void> {
     logger.info('Resetting the OOXML viewer');
     await Promise.all(this.ooxmlPackages.map(ooxmlPackage => ooxmlPackage.dispose()));
+    await Promise.all(this.comparisons.map(comparison => comparison.dispose()));
     this.ooxmlPackages = [];
+    this.comparisons = [];
     this.treeDataProvider.rootFileNode.children.length = 0;
     this.treeDataProvider.refresh();
+    this.relationshipTreeDataProvider.packageNodes.length = 0;
+    this.relationshipTreeDataProvider.refresh();
     await this.tryClearCache();
   }
 
   private async tryClearCache(): Promise<void> {
     try {
-      await FileSystemUtilities.deleteFile(this.contextStorageUri);
+      // backups are kept in the storage folder too, so only the cache of earlier versions is cleared
+      await FileSystemUtilities.deleteFile(join(this.contextStorageUri, LEGACY_CACHE_FOLDER_NAME));
     } catch {
       logger.debug('Failed to clear the cache.');
     }
   }
 
   private findOOXMLPackage(filePath: string): OOXMLPackageFacade | undefined {
-    return this.ooxmlPackages.find(ooxmlPackage => ooxmlPackage.ooxmlFilePath === filePath);
+    for (const ooxmlPackage of this.ooxmlPackages) {
+      const foundPackage = ooxmlPackage.findPackage(filePath);
+      if (foundPackage) {
+        return foundPackage;
+      }
+    }
+  }
+
+  private async addComparison(originalPackagePath: string, modifiedPackagePath: string, originalPackageData?: Uint8Array): Promise<void> {
+    await this.removeComparison(originalPackagePath, modifiedPackagePath);
+    const comparison = new OOXMLPackageComparison(
+      originalPackagePath,
+      modifiedPackagePath,
+      this.treeDataProvider,
+      this.fileSystemProvider,
+      this.settings,
+      originalPackageData,
+    );
+    this.comparisons.push(comparison);
+    try {
+      await ExtensionUtilities.withProgress(
+        () => comparison.compare(),
+        `Comparing '${basename(modifiedPackagePath)}' with '${basename(originalPackagePath)}'`,
+      );
+    } catch (err) {
+      await this.removeComparison(originalPackagePath, modifiedPackagePath);
+      throw err;
+    }
+  }
+
+  private findComparison(originalPackagePath: string, modifiedPackagePath: string): OOXMLPackageComparison | undefined {
+    return this.comparisons.find(
+      comparison => comparison.originalPackagePath === originalPackagePath && comparison.modifiedPackagePath === modifiedPackagePath,
+    );
   }
 }
@@ -0,0 +1,167 @@
+import { basename } from 'path';
+import { Command, Event, EventEmitter, ProviderResult, ThemeIcon, TreeDataProvider, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { Relationship } from '../ooxml-package/ooxml-package-relationships';
+
+/**
+ * OOXML relationship tree data provider. Shows the relationship graph of each package starting at the package relationships.
+ */
+export class OOXMLRelationshipTreeDataProvider implements TreeDataProvider<RelationshipNode> {
+  private _onDidChangeTreeData: EventEmitter<RelationshipNode | undefined | null> = new EventEmitter<RelationshipNode | undefined | null>();
+
+  /**
+   * An optional event to signal that an element or root has changed.
+   * This will trigger the view to update the changed element/root and its children recursively (if shown).
+   * To signal that root has changed, do not pass any argument or pass `undefined` or `null`.
+   */
+  onDidChangeTreeData?: Event<RelationshipNode | undefined | null> = this._onDidChangeTreeData.event;
+
+  /**
+   * The root relationship node of each package
+   */
+  packageNodes: RelationshipNode[] = [];
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  /**
+   * Get [TreeItem](#TreeItem) representation of the `element`
+   *
+   * @param element The element for which [TreeItem](#TreeItem) representation is asked for.
+   * @return [TreeItem](#TreeItem) representation of the element
+   */
+  getTreeItem(element: RelationshipNode): TreeItem | Thenable<TreeItem> {
+    return element;
+  }
+
+  /**
+   * Get the children of `element` or root if no element is passed.
+   * The children are created when the element is expanded, so relationships that form a cycle don't recurse forever.
+   *
+   * @param element The element from which the provider gets children. Can be `undefined`.
+   * @return Children of `element` or root if no element is passed.
+   */
+  getChildren(element?: RelationshipNode): ProviderResult<RelationshipNode[]> {
+    return element ? element.getChildren() : this.packageNodes;
+  }
+}
+
+/**
+ * Relationship tree node. Either the root node of a package or a relationship from its parent node's part to a target.
+ */
+export class RelationshipNode implements TreeItem {
+  /**
+   * Creates the root relationship node of a package.
+   *
+   * @param {string} ooxmlPackagePath The path to the ooxml package.
+   * @param {Map<string, Relationship[]>} relationshipsBySourcePart The relationships of the package keyed by the path of their source part,
+   *  or an empty string for the package relationships.
+   * @returns {RelationshipNode}
+   */
+  static createPackageNode(ooxmlPackagePath: string, relationshipsBySourcePart: Map<string, Relationship[]>): RelationshipNode {
+    return new RelationshipNode(ooxmlPackagePath, relationshipsBySourcePart);
+  }
+
+  private constructor(
+    public ooxmlPackagePath: string,
+    private relationshipsBySourcePart: Map<string, Relationship[]>,
+    public relationship?: Relationship,
+  ) {}
+
+  get label(): string {
+    return this.relationship ? RelationshipNode.getRelationshipTypeName(this.relationship.type) : basename(this.ooxmlPackagePath);
+  }
+
+  get description(): string | undefined {
+    if (this.relationship) {
+      const targetMode = this.relationship.targetMode ? ` (${this.relationship.targetMode})` : '';
+      return `${this.relationship.id} → ${this.relationship.target}${targetMode}`;
+    }
+  }
+
+  get tooltip(): string {
+    return this.relationship
+      ? `${this.relationship.type}\n${this.relationship.targetPath ?? this.relationship.target}`
+      : this.ooxmlPackagePath;
+  }
+
+  get iconPath(): ThemeIcon {
+    if (!this.relationship) {
+      return new ThemeIcon('package');
+    }
+
+    return this.relationship.targetPath === undefined ? new ThemeIcon('link-external') : ThemeIcon.File;
+  }
+
+  get collapsibleState(): TreeItemCollapsibleState {
+    if (!this.relationship) {
+      return TreeItemCollapsibleState.Expanded;
+    }
+
+    return this.getTargetRelationships().length ? TreeItemCollapsibleState.Collapsed : TreeItemCollapsibleState.None;
+  }
+
+  get contextValue(): RelationshipNodeType {
+    if (!this.relationship) {
+      return RelationshipNodeType.Package;
+    }
+
+    return this.relationship.targetPath === undefined ? RelationshipNodeType.ExternalRelationship : RelationshipNodeType.Relationship;
+  }
+
+  get command(): Command | undefined {
+    if (this.relationship?.targetPath !== undefined) {
+      return {
+        command: 'ooxmlViewer.viewFile',
+        title: 'View file',
+        tooltip: 'View file',
+        arguments: [this],
+      };
+    }
+  }
+
+  /**
+   * The path of the target part in the ooxml package, so the node can be used like a file node by the view file command.
+   */
+  get nodePath(): string {
+    return this.relationship?.targetPath ?? '';
+  }
+
+  /**
+   * Creates the nodes of the relationships of the target part, or of the package relationships for a package node.
+   *
+   * @returns {RelationshipNode[]} The child nodes.
+   */
+  getChildren(): RelationshipNode[] {
+    return this.getTargetRelationships().map(
+      relationship => new RelationshipNode(this.ooxmlPackagePath, this.relationshipsBySourcePart, relationship),
+    );
+  }
+
+  /**
+   * Shortens a relationship type to its last segment, e.g. 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles'
+   * becomes 'styles'.
+   *
+   * @param {string} type The relationship type.
+   * @returns {string} The friendly name of the relationship type.
+   */
+  static getRelationshipTypeName(type: string): string {
+    const segments = type.split('/').filter(segment => segment);
+    return segments[segments.length - 1] ?? type;
+  }
+
+  private getTargetRelationships(): Relationship[] {
+    if (!this.relationship) {
+      return this.relationshipsBySourcePart.get('') ?? [];
+    }
+
+    // external targets are leaves
+    return this.relationship.targetPath === undefined ? [] : this.relationshipsBySourcePart.get(this.relationship.targetPath) ?? [];
+  }
+}
+
+export enum RelationshipNodeType {
+  Package = 'relationshipPackage',
+  Relationship = 'relationship',
+  ExternalRelationship = 'externalRelationship',
+}
@@ -0,0 +1,41 @@
+import { CancellationToken, DataTransfer, TreeDragAndDropController, Uri } from 'vscode';
+import { ExtensionUtilities } from '../utilities/extension-utilities';
+import logger from '../utilities/logger';
+import { ImportFilesCommand } from '../utilities/ooxml-commands';
+import { FileNode, FileNodeType } from './ooxml-tree-view-provider';
+
+const URI_LIST_MIME_TYPE = 'text/uri-list';
+
+/**
+ * OOXML tree drag and drop controller. Imports files dropped from the explorer into the package.
+ */
+export class OOXMLTreeDragAndDropController implements TreeDragAndDropController<FileNode> {
+  readonly dropMimeTypes = [URI_LIST_MIME_TYPE];
+  readonly dragMimeTypes = [];
+
+  /**
+   * Handles a drop on the tree view by importing the dropped files into the folder they were dropped on.
+   * Files dropped on a part are imported into the part's folder.
+   *
+   * @param target The file node the files were dropped on.
+   * @param dataTransfer The data transfer containing the dropped uris.
+   * @param token A cancellation token indicating that the drop has been cancelled.
+   */
+  async handleDrop(target: FileNode | undefined, dataTransfer: DataTransfer, token: CancellationToken): Promise<void> {
+    const uriList = await dataTransfer.get(URI_LIST_MIME_TYPE)?.asString();
+    const folderNode = target?.contextValue === FileNodeType.File ? target.parent : target;
+    if (!uriList || !folderNode || folderNode.comparedPackagePath || token.isCancellationRequested) {
+      logger.debug('Nothing to import from the drop');
+      return;
+    }
+
+    const filePaths = uriList
+      .split(/\r?\n/)
+      .filter(uri => uri && !uri.startsWith('#'))
+      .map(uri => Uri.parse(uri))
+      .filter(uri => uri.scheme === 'file')
+      .map(uri => uri.fsPath);
+
+    await ExtensionUtilities.dispatch(new ImportFilesCommand(folderNode, filePaths));
+  }
+}
@@ -1,5 +1,6 @@
-import { join } from 'path';
+import { basename, join } from 'path';
 import { Command, Event, EventEmitter, ProviderResult, ThemeIcon, TreeDataProvider, TreeItem, TreeItemCollapsibleState, Uri } from 'vscode';
+import { CompoundFile } from '../utilities/compound-file';
 
 /**
  * OOXML tree data provider
@@ -78,13 +79,69 @@ export class FileNode implements TreeItem {
     return fileNode;
   }
 
+  /**
+   * Creates the file node of a storage or stream of a part that is a compound file.
+   *
+   * @param  {string} streamPath The path of the storage or stream in the compound file.
+   * @param  {boolean} isStorage Whether the node is a storage or a stream.
+   * @param  {FileNode} parentFileNode The file node of the part or of the storage the storage or stream is in.
+   * @returns {FileNode}
+   */
+  public static createStreamNode(streamPath: string, isStorage: boolean, parentFileNode: FileNode): FileNode {
+    const fileNode = FileNode.create(`${parentFileNode.nodePath}/${basename(streamPath)}`, parentFileNode, parentFileNode.ooxmlPackagePath);
+    fileNode.streamPath = streamPath;
+    fileNode.isStorage = isStorage;
+    return fileNode;
+  }
+
+  /**
+   * Creates the file node of a module of a part that is a VBA project.
+   *
+   * @param  {string} vbaModuleName The name of the module.
+   * @param  {string} fileName The file name the module is shown with, e.g. Module1.bas.
+   * @param  {FileNode} parentFileNode The file node of the part.
+   * @returns {FileNode}
+   */
+  public static createVbaModuleNode(vbaModuleName: string, fileName: string, parentFileNode: FileNode): FileNode {
+    const fileNode = FileNode.create(`${parentFileNode.nodePath}/${fileName}`, parentFileNode, parentFileNode.ooxmlPackagePath);
+    fileNode.vbaModuleName = vbaModuleName;
+    return fileNode;
+  }
+
   private _status: 'created' | 'deleted' | 'modified' | 'unchanged' = 'unchanged';
 
   get collapsibleState(): TreeItemCollapsibleState | undefined {
-    return this.contextValue === FileNodeType.File ? TreeItemCollapsibleState.None : TreeItemCollapsibleState.Expanded;
+    // parts that are compound files and their storages are collapsed
+    if (this.isFile || this.isStorage) {
+      return this.children.length ? TreeItemCollapsibleState.Collapsed : TreeItemCollapsibleState.None;
+    }
+
+    return TreeItemCollapsibleState.Expanded;
+  }
+
+  get label(): string | undefined {
+    return this.streamPath ? CompoundFile.getPrintableName(basename(this.streamPath)) : undefined;
   }
 
   get command(): Command | undefined {
+    if (this.contextValue === FileNodeType.VbaModule) {
+      return {
+        command: 'ooxmlViewer.viewVbaModule',
+        title: 'View VBA module',
+        tooltip: 'View VBA module',
+        arguments: [this],
+      };
+    }
+
+    if (this.contextValue === FileNodeType.Stream) {
+      return {
+        command: 'ooxmlViewer.viewStream',
+        title: 'View stream',
+        tooltip: 'View stream',
+        arguments: [this],
+      };
+    }
+
     if (this.nodePath && this.contextValue === FileNodeType.File) {
       return {
         command: 'ooxmlViewer.viewFile',
@@ -93,10 +150,45 @@ export class FileNode implements TreeItem {
         arguments: [this],
       };
     }
+
+    if (this.nodePath && this.contextValue === FileNodeType.ComparisonFile) {
+      return {
+        command: 'ooxmlViewer.showComparisonDiff',
+        title: 'Compare file',
+        tooltip: 'Compare file',
+        arguments: [this],
+      };
+    }
   }
 
   get contextValue(): FileNodeType | undefined {
-    return this.isOOXMLPackage ? FileNodeType.Package : this.children.length ? FileNodeType.Folder : FileNodeType.File;
+    if (this.comparedPackagePath) {
+      return this.isOOXMLPackage ? FileNodeType.Comparison : this.isFile ? FileNodeType.ComparisonFile : FileNodeType.ComparisonFolder;
+    }
+
+    if (this.vbaModuleName) {
+      return FileNodeType.VbaModule;
+    }
+
+    if (this.streamPath) {
+      return this.isStorage ? FileNodeType.Storage : FileNodeType.Stream;
+    }
+
+    return this.isOOXMLPackage ? FileNodeType.Package : this.isFile ? FileNodeType.File : FileNodeType.Folder;
+  }
+
+  get description(): string | undefined {
+    if (this.isOOXMLPackage && this.comparedPackagePath) {
+      return `↔ ${basename(this.comparedPackagePath)}`;
+    }
+
+    if (this.problems.length) {
+      return `⚠ ${this.problems.length}`;
+    }
+
+    if (this.signatures.length) {
+      return this.hasInvalidSignature ? '🔏 Signature invalid' : '🔏 Signed';
+    }
   }
 
   get resourceUri(): Uri {
@@ -104,7 +196,13 @@ export class FileNode implements TreeItem {
   }
 
   get tooltip(): string {
-    return this.nodePath;
+    if (this.isOOXMLPackage && this.comparedPackagePath) {
+      return `${this.comparedPackagePath} ↔ ${this.nodePath}`;
+    }
+
+    return [this.nodePath, ...this.problems.map(problem => `⚠ ${problem}`), ...this.signatures.map(signature => `🔏 ${signature}`)].join(
+      '\n',
+    );
   }
 
   get iconPath(): ThemeIcon | Uri | { light: Uri; dark: Uri } {
@@ -120,8 +218,31 @@ export class FileNode implements TreeItem {
       case 'modified':
         return Uri.file(join(__filename, '..', '..', 'resources', 'icons', 'asterisk.yellow.svg'));
       default:
-        return this.contextValue === FileNodeType.File ? ThemeIcon.File : ThemeIcon.Folder;
+        return this.isFile ? ThemeIcon.File : ThemeIcon.Folder;
+    }
+  }
+
+  private get isFile(): boolean {
+    return !this.isOOXMLPackage && !this.isStorage && (!this.children.length || this.children[0].isShownUnderPart);
+  }
+
+  /**
+   * Whether or not the file node is a storage, stream or VBA module of a part or the root of an embedded package,
+   * which are shown under the part
+   */
+  private get isShownUnderPart(): boolean {
+    return !!this.streamPath || !!this.vbaModuleName || this.isOOXMLPackage;
+  }
+
+  /**
+   * The path of the part the file node is, or the path of the part that contains the storage, stream or VBA module
+   */
+  get partPath(): string {
+    if (this.vbaModuleName) {
+      return this.nodePath.substring(0, this.nodePath.lastIndexOf('/'));
     }
+
+    return this.streamPath ? this.nodePath.substring(0, this.nodePath.length - this.streamPath.length - 1) : this.nodePath;
   }
 
   /**
@@ -149,6 +270,42 @@ export class FileNode implements TreeItem {
    */
   isOOXMLPackage = false;
 
+  /**
+   * The ooxml package the file node's package is compared with, empty if the file node isn't part of a package comparison
+   */
+  comparedPackagePath = '';
+
+  /**
+   * The path of the storage or stream in the compound file part the file node is in, e.g. VBA/dir,
+   * empty if the file node isn't a storage or stream
+   */
+  streamPath = '';
+
+  /**
+   * Whether or not the file node is a storage of a compound file part
+   */
+  isStorage = false;
+
+  /**
+   * The name of the module of the VBA project part the file node is, empty if the file node isn't a VBA module
+   */
+  vbaModuleName = '';
+
+  /**
+   * The integrity problems found in the file, shown as a warning badge
+   */
+  problems: string[] = [];
+
+  /**
+   * The digital signatures of the ooxml package the file node is, shown as a signed badge
+   */
+  signatures: string[] = [];
+
+  /**
+   * Whether or not any of the digital signatures of the ooxml package the file node is no longer matches the parts it signs
+   */
+  hasInvalidSignature = false;
+
   /**
    * Gets whether or not the file node has a status of deleted.
    *
@@ -204,4 +361,10 @@ export enum FileNodeType {
   Package = 'package',
   Folder = 'folder',
   File = 'file',
+  Comparison = 'comparison',
+  ComparisonFolder = 'comparisonFolder',
+  ComparisonFile = 'comparisonFile',
+  Storage = 'storage',
+  Stream = 'stream',
+  VbaModule = 'vbaModule',
 }
@@ -0,0 +1,498 @@
+const SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const HEADER_SIZE = 512;
+const HEADER_DIFAT_LENGTH = 109;
+const DIRECTORY_ENTRY_SIZE = 128;
+const MAXIMUM_NAME_LENGTH = 31;
+
+// The sector sizes and the mini stream cutoff size of the version 3 files that are created
+const SECTOR_SIZE = 512;
+const MINI_SECTOR_SIZE = 64;
+const MINI_STREAM_CUTOFF_SIZE = 4096;
+
+// Special sector and stream ids
+const DIFAT_SECTOR = 0xfffffffc;
+const FAT_SECTOR = 0xfffffffd;
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const NO_STREAM = 0xffffffff;
+
+// Object types of directory entries
+const STORAGE_OBJECT = 1;
+const STREAM_OBJECT = 2;
+const ROOT_STORAGE_OBJECT = 5;
+
+/**
+ * A Compound File Binary (OLE) file as specified in [MS-CFB], e.g. vbaProject.bin and oleObject1.bin,
+ * which is a file system of storages and streams within a file.
+ */
+export class CompoundFile {
+  private view: DataView;
+  private sectorSize: number;
+  private miniSectorSize: number;
+  private miniStreamCutoffSize: number;
+  private fat: number[];
+  private miniFat: number[];
+  private directoryEntries: DirectoryEntry[];
+  private miniStream: Uint8Array;
+
+  /**
+   * The root storage of the compound file.
+   */
+  readonly root: CompoundFileEntry;
+
+  /**
+   * Reads the storages and streams of a compound file.
+   *
+   * @constructor
+   * @param {Uint8Array} data The compound file.
+   * @throws {Error} If the data isn't a compound file or is corrupt.
+   */
+  constructor(private data: Uint8Array) {
+    if (!CompoundFile.isCompoundFile(data) || data.length < HEADER_SIZE) {
+      throw new Error('The file is not a compound file');
+    }
+
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const majorVersion = this.view.getUint16(0x1a, true);
+    this.sectorSize = 1 << this.view.getUint16(0x1e, true);
+    this.miniSectorSize = 1 << this.view.getUint16(0x20, true);
+    this.miniStreamCutoffSize = this.view.getUint32(0x38, true);
+    if (![3, 4].includes(majorVersion) || ![512, 4096].includes(this.sectorSize)) {
+      throw new Error(`The compound file version ${majorVersion} with ${this.sectorSize} byte sectors is not supported`);
+    }
+
+    this.fat = this.readFat();
+    this.miniFat = this.readUint32s(this.readChain(this.view.getUint32(0x3c, true), this.fat, this.sectorSize));
+    this.directoryEntries = this.readDirectoryEntries(majorVersion);
+    const rootEntry = this.directoryEntries[0];
+    if (rootEntry?.objectType !== ROOT_STORAGE_OBJECT) {
+      throw new Error('The compound file does not have a root storage');
+    }
+
+    this.miniStream = this.readChain(rootEntry.startSector, this.fat, this.sectorSize).subarray(0, rootEntry.size);
+    this.root = this.toEntry(rootEntry, '', new Set());
+  }
+
+  /**
+   * Determines whether or not data is a compound file from its signature.
+   *
+   * @param {Uint8Array} data The data.
+   * @returns {boolean} Whether or not the data starts with the compound file signature.
+   */
+  static isCompoundFile(data: Uint8Array): boolean {
+    return SIGNATURE.every((b, i) => data[i] === b);
+  }
+
+  /**
+   * Creates a version 3 compound file with 512 byte sectors from its streams. The storages are created from the stream paths.
+   *
+   * @param {CompoundFileStream[]} streams The streams of the compound file.
+   * @returns {Uint8Array} The compound file.
+   * @throws {Error} If the name of a storage or stream is longer than 31 characters.
+   */
+  static create(streams: CompoundFileStream[]): Uint8Array {
+    const root: WrittenEntry = { name: 'Root Entry', objectType: ROOT_STORAGE_OBJECT, data: new Uint8Array(), children: [] };
+    for (const stream of streams) {
+      let storage = root;
+      const names = stream.path.split('/').filter(n => n);
+      names.forEach((name, i) => {
+        if (name.length > MAXIMUM_NAME_LENGTH) {
+          throw new Error(
+            `The compound file entry name '${CompoundFile.getPrintableName(name)}' is longer than ${MAXIMUM_NAME_LENGTH} characters`,
+          );
+        }
+
+        let child = storage.children.find(c => c.name.toUpperCase() === name.toUpperCase());
+        if (!child) {
+          child = { name: name, objectType: i < names.length - 1 ? STORAGE_OBJECT : STREAM_OBJECT, data: new Uint8Array(), children: [] };
+          storage.children.push(child);
+        }
+
+        if (i === names.length - 1) {
+          child.data = stream.data;
+        }
+
+        storage = child;
+      });
+    }
+
+    // the entries are numbered depth first, so the ids of the children of a storage follow its id
+    const entries: WrittenEntry[] = [];
+    const addEntries = (entry: WrittenEntry) => {
+      entry.id = entries.length;
+      entries.push(entry);
+      entry.children.forEach(addEntries);
+    };
+    addEntries(root);
+
+    const streamEntries = entries.filter(e => e.objectType === STREAM_OBJECT);
+    const miniStreamEntries = streamEntries.filter(e => e.data.length < MINI_STREAM_CUTOFF_SIZE);
+    const regularStreamEntries = streamEntries.filter(e => e.data.length >= MINI_STREAM_CUTOFF_SIZE);
+    const sectorCount = (size: number, sectorSize: number) => Math.ceil(size / sectorSize);
+    const miniSectorCount = miniStreamEntries.reduce((count, e) => count + sectorCount(e.data.length, MINI_SECTOR_SIZE), 0);
+    const directorySectorCount = sectorCount(entries.length * DIRECTORY_ENTRY_SIZE, SECTOR_SIZE);
+    const miniFatSectorCount = sectorCount(miniSectorCount * 4, SECTOR_SIZE);
+    const miniStreamSectorCount = sectorCount(miniSectorCount * MINI_SECTOR_SIZE, SECTOR_SIZE);
+    const otherSectorCount =
+      directorySectorCount +
+      miniFatSectorCount +
+      miniStreamSectorCount +
+      regularStreamEntries.reduce((count, e) => count + sectorCount(e.data.length, SECTOR_SIZE), 0);
+
+    // the FAT has to list its own sectors and the DIFAT sectors that list the FAT sectors that don't fit in the header
+    const entriesPerSector = SECTOR_SIZE / 4;
+    let fatSectorCount = 0;
+    let difatSectorCount = 0;
+    for (let previousFatSectorCount = -1; fatSectorCount !== previousFatSectorCount; ) {
+      previousFatSectorCount = fatSectorCount;
+      fatSectorCount = sectorCount(otherSectorCount + fatSectorCount + difatSectorCount, entriesPerSector);
+      difatSectorCount = sectorCount(Math.max(fatSectorCount - HEADER_DIFAT_LENGTH, 0), entriesPerSector - 1);
+    }
+
+    const fat: number[] = [...Array(fatSectorCount).fill(FAT_SECTOR), ...Array(difatSectorCount).fill(DIFAT_SECTOR)];
+    const addChain = (fatEntries: number[], count: number) => {
+      const startSector = fatEntries.length;
+      for (let i = 0; i < count; i++) {
+        fatEntries.push(i < count - 1 ? fatEntries.length + 1 : END_OF_CHAIN);
+      }
+
+      return count ? startSector : END_OF_CHAIN;
+    };
+    const directoryStartSector = addChain(fat, directorySectorCount);
+    const miniFatStartSector = addChain(fat, miniFatSectorCount);
+    root.startSector = addChain(fat, miniStreamSectorCount);
+    regularStreamEntries.forEach(e => (e.startSector = addChain(fat, sectorCount(e.data.length, SECTOR_SIZE))));
+    const miniFat: number[] = [];
+    miniStreamEntries.forEach(e => (e.startSector = addChain(miniFat, sectorCount(e.data.length, MINI_SECTOR_SIZE))));
+
+    const totalSectorCount = fatSectorCount * entriesPerSector;
+    const data = new Uint8Array((fat.length + 1) * SECTOR_SIZE);
+    const view = new DataView(data.buffer);
+    const sectorOffset = (sector: number) => (sector + 1) * SECTOR_SIZE;
+    const writeUint32s = (offset: number, values: number[]) => values.forEach((v, i) => view.setUint32(offset + i * 4, v, true));
+
+    data.set(SIGNATURE);
+    view.setUint16(0x18, 0x003e, true);
+    view.setUint16(0x1a, 3, true);
+    view.setUint16(0x1c, 0xfffe, true);
+    view.setUint16(0x1e, Math.log2(SECTOR_SIZE), true);
+    view.setUint16(0x20, Math.log2(MINI_SECTOR_SIZE), true);
+    writeUint32s(0x2c, [fatSectorCount, directoryStartSector, 0, MINI_STREAM_CUTOFF_SIZE]);
+    writeUint32s(0x3c, [miniFatStartSector, miniFatSectorCount, difatSectorCount ? fatSectorCount : END_OF_CHAIN, difatSectorCount]);
+    const fatSectors = Array.from({ length: fatSectorCount }, (_, i) => i);
+    writeUint32s(0x4c, [
+      ...fatSectors.slice(0, HEADER_DIFAT_LENGTH),
+      ...Array(Math.max(HEADER_DIFAT_LENGTH - fatSectorCount, 0)).fill(FREE_SECTOR),
+    ]);
+    for (let i = 0; i < difatSectorCount; i++) {
+      const listedFatSectors = fatSectors.slice(
+        HEADER_DIFAT_LENGTH + i * (entriesPerSector - 1),
+        HEADER_DIFAT_LENGTH + (i + 1) * (entriesPerSector - 1),
+      );
+      const nextDifatSector = i < difatSectorCount - 1 ? fatSectorCount + i + 1 : END_OF_CHAIN;
+      writeUint32s(sectorOffset(fatSectorCount + i), [
+        ...listedFatSectors,
+        ...Array(entriesPerSector - 1 - listedFatSectors.length).fill(FREE_SECTOR),
+        nextDifatSector,
+      ]);
+    }
+
+    writeUint32s(sectorOffset(0), [...fat, ...Array(totalSectorCount - fat.length).fill(FREE_SECTOR)]);
+    if (miniFatSectorCount) {
+      writeUint32s(sectorOffset(miniFatStartSector), [
+        ...miniFat,
+        ...Array(miniFatSectorCount * entriesPerSector - miniFat.length).fill(FREE_SECTOR),
+      ]);
+    }
+
+    // empty streams don't have any sectors
+    miniStreamEntries
+      .filter(e => e.data.length)
+      .forEach(e => data.set(e.data, sectorOffset(root.startSector ?? 0) + (e.startSector ?? 0) * MINI_SECTOR_SIZE));
+    regularStreamEntries.forEach(e => data.set(e.data, sectorOffset(e.startSector ?? 0)));
+
+    for (let i = 0; i < directorySectorCount * (SECTOR_SIZE / DIRECTORY_ENTRY_SIZE); i++) {
+      const offset = sectorOffset(directoryStartSector) + i * DIRECTORY_ENTRY_SIZE;
+      CompoundFile.writeDirectoryEntry(view, offset, entries[i], miniSectorCount * MINI_SECTOR_SIZE);
+    }
+
+    return data;
+  }
+
+  /**
+   * Gets a compound file entry name or path that can be displayed, replacing the control characters that start
+   * the names of some streams, e.g. '\x05SummaryInformation', with their number in brackets, e.g. '[5]SummaryInformation'.
+   *
+   * @param {string} name The name or path of the entry.
+   * @returns {string} The printable name.
+   */
+  static getPrintableName(name: string): string {
+    return name.replace(/[\x00-\x1f]/g, c => `[${c.charCodeAt(0)}]`);
+  }
+
+  /**
+   * Gets the data of a stream.
+   *
+   * @param {string} streamPath The path of the stream, the names of its storages and its name separated by '/', e.g. VBA/dir.
+   * @returns {Uint8Array | undefined} The data of the stream or undefined if there is no stream at the path.
+   */
+  getStream(streamPath: string): Uint8Array | undefined {
+    const entry = this.findEntry(streamPath);
+    if (!entry || entry.isStorage) {
+      return undefined;
+    }
+
+    const directoryEntry = this.directoryEntries[entry.id];
+    return directoryEntry.size < this.miniStreamCutoffSize
+      ? this.readChain(directoryEntry.startSector, this.miniFat, this.miniSectorSize, this.miniStream).subarray(0, directoryEntry.size)
+      : this.readChain(directoryEntry.startSector, this.fat, this.sectorSize).subarray(0, directoryEntry.size);
+  }
+
+  /**
+   * Gets the streams of the compound file with their data.
+   *
+   * @returns {CompoundFileStream[]} The streams in the order of their storages.
+   */
+  getStreams(): CompoundFileStream[] {
+    const streams: CompoundFileStream[] = [];
+    const addStreams = (entry: CompoundFileEntry) => {
+      for (const child of entry.children) {
+        if (child.isStorage) {
+          addStreams(child);
+        } else {
+          streams.push({ path: child.path, data: this.getStream(child.path) ?? new Uint8Array() });
+        }
+      }
+    };
+    addStreams(this.root);
+
+    return streams;
+  }
+
+  /**
+   * Finds the storage or stream at a path.
+   *
+   * @param {string} entryPath The path of the storage or stream, the names of its storages and its name separated by '/'.
+   * @returns {CompoundFileEntry | undefined} The storage or stream or undefined if there is none at the path.
+   */
+  findEntry(entryPath: string): CompoundFileEntry | undefined {
+    let entry: CompoundFileEntry | undefined = this.root;
+    for (const name of entryPath.split('/').filter(n => n)) {
+      entry = entry?.children.find(c => c.name.toUpperCase() === name.toUpperCase());
+    }
+
+    return entry;
+  }
+
+  private static writeDirectoryEntry(view: DataView, offset: number, entry: WrittenEntry | undefined, miniStreamSize: number): void {
+    if (!entry) {
+      // unused entries don't have siblings or children
+      [68, 72, 76].forEach(o => view.setUint32(offset + o, NO_STREAM, true));
+      return;
+    }
+
+    [...entry.name].forEach((c, i) => view.setUint16(offset + i * 2, c.charCodeAt(0), true));
+    view.setUint16(offset + 64, (entry.name.length + 1) * 2, true);
+    view.setUint8(offset + 66, entry.objectType);
+    // every entry is black, which the siblings trees of files that are read don't depend on
+    view.setUint8(offset + 67, 1);
+    const childId = CompoundFile.addSiblingsTree(entry);
+    view.setUint32(offset + 68, entry.leftSiblingId ?? NO_STREAM, true);
+    view.setUint32(offset + 72, entry.rightSiblingId ?? NO_STREAM, true);
+    view.setUint32(offset + 76, childId, true);
+    view.setUint32(offset + 116, entry.objectType === STORAGE_OBJECT ? 0 : entry.startSector ?? END_OF_CHAIN, true);
+    view.setUint32(offset + 120, entry.objectType === ROOT_STORAGE_OBJECT ? miniStreamSize : entry.data.length, true);
+  }
+
+  private static addSiblingsTree(storage: WrittenEntry): number {
+    // the children of a storage are a balanced binary search tree ordered by the length of their names and then their upper case names,
+    // which the storage refers to by the id of the child at its root
+    const children = [...storage.children].sort(
+      (a, b) =>
+        a.name.length - b.name.length ||
+        (a.name.toUpperCase() < b.name.toUpperCase() ? -1 : a.name.toUpperCase() > b.name.toUpperCase() ? 1 : 0),
+    );
+    const addTree = (start: number, end: number): number => {
+      if (start > end) {
+        return NO_STREAM;
+      }
+
+      const middle = Math.floor((start + end) / 2);
+      children[middle].leftSiblingId = addTree(start, middle - 1);
+      children[middle].rightSiblingId = addTree(middle + 1, end);
+      return children[middle].id ?? NO_STREAM;
+    };
+
+    return addTree(0, children.length - 1);
+  }
+
+  private readFat(): number[] {
+    const numberOfFatSectors = this.view.getUint32(0x2c, true);
+    const fatSectors = this.readUint32s(this.data.subarray(0x4c, 0x4c + HEADER_DIFAT_LENGTH * 4));
+
+    // the sectors of the FAT that don't fit in the header are listed in a chain of DIFAT sectors, each ending with the next DIFAT sector
+    const entriesPerSector = this.sectorSize / 4;
+    const visitedSectors = new Set<number>();
+    for (let sector = this.view.getUint32(0x44, true); sector < END_OF_CHAIN && !visitedSectors.has(sector); ) {
+      visitedSectors.add(sector);
+      const difatSector = this.readUint32s(this.readSector(sector, this.sectorSize));
+      fatSectors.push(...difatSector.slice(0, entriesPerSector - 1));
+      sector = difatSector[entriesPerSector - 1];
+    }
+
+    return fatSectors
+      .slice(0, numberOfFatSectors)
+      .filter(sector => sector < END_OF_CHAIN)
+      .flatMap(sector => this.readUint32s(this.readSector(sector, this.sectorSize)));
+  }
+
+  private readDirectoryEntries(majorVersion: number): DirectoryEntry[] {
+    const directory = this.readChain(this.view.getUint32(0x30, true), this.fat, this.sectorSize);
+    const view = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+    const entries: DirectoryEntry[] = [];
+    for (let offset = 0; offset + DIRECTORY_ENTRY_SIZE <= directory.length; offset += DIRECTORY_ENTRY_SIZE) {
+      const nameLength = Math.min(Math.max(view.getUint16(offset + 64, true) - 2, 0), 62);
+      entries.push({
+        name: String.fromCharCode(...this.readUint16s(directory.subarray(offset, offset + nameLength))),
+        objectType: view.getUint8(offset + 66),
+        leftSiblingId: view.getUint32(offset + 68, true),
+        rightSiblingId: view.getUint32(offset + 72, true),
+        childId: view.getUint32(offset + 76, true),
+        startSector: view.getUint32(offset + 116, true),
+        // version 3 files may have garbage in the high part of the size
+        size: view.getUint32(offset + 120, true) + (majorVersion === 4 ? view.getUint32(offset + 124, true) * 0x100000000 : 0),
+      });
+    }
+
+    return entries;
+  }
+
+  private toEntry(directoryEntry: DirectoryEntry, parentPath: string, visitedIds: Set<number>): CompoundFileEntry {
+    const id = this.directoryEntries.indexOf(directoryEntry);
+    visitedIds.add(id);
+    const isStorage = directoryEntry.objectType !== STREAM_OBJECT;
+    const entryPath = parentPath
+      ? `${parentPath}/${directoryEntry.name}`
+      : directoryEntry.objectType === ROOT_STORAGE_OBJECT
+        ? ''
+        : directoryEntry.name;
+    const entry: CompoundFileEntry = {
+      id: id,
+      name: directoryEntry.name,
+      path: entryPath,
+      isStorage: isStorage,
+      size: isStorage ? 0 : directoryEntry.size,
+      children: [],
+    };
+
+    // the children of a storage are a red-black tree of siblings, which is listed in order
+    const addSiblings = (siblingId: number) => {
+      const sibling = this.directoryEntries[siblingId];
+      if (siblingId === NO_STREAM || !sibling || visitedIds.has(siblingId)) {
+        return;
+      }
+
+      visitedIds.add(siblingId);
+      addSiblings(sibling.leftSiblingId);
+      if (sibling.objectType === STORAGE_OBJECT || sibling.objectType === STREAM_OBJECT) {
+        entry.children.push(this.toEntry(sibling, entryPath, visitedIds));
+      }
+
+      addSiblings(sibling.rightSiblingId);
+    };
+
+    if (isStorage) {
+      addSiblings(directoryEntry.childId);
+    }
+
+    return entry;
+  }
+
+  private readChain(startSector: number, fat: number[], sectorSize: number, source?: Uint8Array): Uint8Array {
+    const sectors: number[] = [];
+    const visitedSectors = new Set<number>();
+    for (let sector = startSector; sector < fat.length && !visitedSectors.has(sector); sector = fat[sector]) {
+      visitedSectors.add(sector);
+      sectors.push(sector);
+    }
+
+    const chain = new Uint8Array(sectors.length * sectorSize);
+    sectors.forEach((sector, i) => chain.set(this.readSector(sector, sectorSize, source), i * sectorSize));
+    return chain;
+  }
+
+  private readSector(sector: number, sectorSize: number, source?: Uint8Array): Uint8Array {
+    // sectors in the file are numbered from the end of the header, which is a sector long in version 4 files
+    const offset = source ? sector * sectorSize : (sector + 1) * sectorSize;
+    return (source ?? this.data).subarray(offset, offset + sectorSize);
+  }
+
+  private readUint32s(data: Uint8Array): number[] {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    return Array.from({ length: Math.floor(data.length / 4) }, (_, i) => view.getUint32(i * 4, true));
+  }
+
+  private readUint16s(data: Uint8Array): number[] {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    return Array.from({ length: Math.floor(data.length / 2) }, (_, i) => view.getUint16(i * 2, true));
+  }
+}
+
+/**
+ * A storage or stream of a compound file.
+ */
+export interface CompoundFileEntry {
+  /**
+   * The id of the entry in the directory of the compound file.
+   */
+  id: number;
+  name: string;
+  /**
+   * The names of the entry's storages and its name separated by '/', empty for the root storage.
+   */
+  path: string;
+  isStorage: boolean;
+  /**
+   * The size of the stream in bytes, 0 for storages.
+   */
+  size: number;
+  children: CompoundFileEntry[];
+}
+
+/**
+ * An entry of the directory of a compound file.
+ */
+interface DirectoryEntry {
+  name: string;
+  objectType: number;
+  leftSiblingId: number;
+  rightSiblingId: number;
+  childId: number;
+  startSector: number;
+  size: number;
+}
+
+/**
+ * A stream to write to a compound file.
+ */
+export interface CompoundFileStream {
+  /**
+   * The names of the stream's storages and its name separated by '/'.
+   */
+  path: string;
+  data: Uint8Array;
+}
+
+/**
+ * An entry of the directory of a compound file that is created.
+ */
+interface WrittenEntry {
+  id?: number;
+  name: string;
+  objectType: number;
+  data: Uint8Array;
+  children: WrittenEntry[];
+  leftSiblingId?: number;
+  rightSiblingId?: number;
+  startSector?: number;
+}
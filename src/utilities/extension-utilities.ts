@@ -1,4 +1,4 @@
-import { commands, Position, ProgressLocation, Range, TextEditorEdit, Uri, window, workspace } from 'vscode';
+import { commands, env, ProgressLocation, Range, Uri, window, workspace } from 'vscode';
 import packageJson from '../../package.json';
 import logger from './logger';
 import { OOXMLCommand } from './ooxml-commands';
@@ -9,51 +9,6 @@ const extensionName = packageJson.displayName;
  * Utilities for interacting with the extension host.
  */
 export class ExtensionUtilities {
-  /**
-   * Make a text editor tab dirty.
-   */
-  static async makeActiveTextEditorDirty(): Promise<void> {
-    window.activeTextEditor?.edit(async (textEditorEdit: TextEditorEdit) => {
-      if (window.activeTextEditor?.selection) {
-        const { activeTextEditor } = window;
-
-        if (activeTextEditor && activeTextEditor.document.lineCount >= 2) {
-          const lineNumber = activeTextEditor.document.lineCount - 2;
-          const lastLineRange = new Range(new Position(lineNumber, 0), new Position(lineNumber + 1, 0));
-          const lastLineText = activeTextEditor.document.getText(lastLineRange);
-          textEditorEdit.replace(lastLineRange, lastLineText);
-          return;
-        }
-
-        // Try to replace the first character.
-        const range = new Range(new Position(0, 0), new Position(0, 1));
-        const text: string | undefined = activeTextEditor?.document.getText(range);
-        if (text) {
-          textEditorEdit.replace(range, text);
-          return;
-        }
-
-        // With an empty file, we first add a character and then remove it.
-        // This has to be done as two edits, which can cause the cursor to
-        // visibly move and then return, but we can at least combine them
-        // into a single undo step.
-        await activeTextEditor?.edit(
-          (innerEditBuilder: TextEditorEdit) => {
-            innerEditBuilder.replace(range, ' ');
-          },
-          { undoStopBefore: true, undoStopAfter: false },
-        );
-
-        await activeTextEditor?.edit(
-          (innerEditBuilder: TextEditorEdit) => {
-            innerEditBuilder.replace(range, '');
-          },
-          { undoStopBefore: false, undoStopAfter: true },
-        );
-      }
-    });
-  }
-
   /**
    * Handles an error.
    *
@@ -82,15 +37,101 @@ export class ExtensionUtilities {
     await window.showWarningMessage(message, { modal: modal });
   }
 
+  /**
+   * Displays a modal confirmation dialog.
+   *
+   * @param {string} message The confirmation message.
+   * @param {string} detail The detail shown under the message.
+   * @param {string} confirmLabel The label of the confirm button.
+   * @returns {Promise<boolean>} A promise resolving to whether or not the user confirmed.
+   */
+  static async showConfirmation(message: string, detail: string, confirmLabel: string): Promise<boolean> {
+    const selection = await window.showWarningMessage(message, { modal: true, detail: detail }, confirmLabel);
+    return selection === confirmLabel;
+  }
+
   /**
    * Displays a warning message.
    *
    * @param {string} title The input title.
    * @param {string} prompt The input prompt.
+   * @param {string} value The value to prefill the input with.
+   * @param {boolean} password Whether or not the input is a password, which is hidden as it is typed.
    * @returns {Promise<string | undefined} A promise resolving to the string the user imported.
    */
-  static async showInput(title: string, prompt: string): Promise<string | undefined> {
-    return await window.showInputBox({ title: title, prompt: prompt });
+  static async showInput(title: string, prompt: string, value?: string, password = false): Promise<string | undefined> {
+    return await window.showInputBox({ title: title, prompt: prompt, value: value, password: password });
+  }
+
+  /**
+   * Displays a quick pick.
+   *
+   * @param {string[]} items The items to pick from.
+   * @param {string} placeHolder The placeholder shown in the quick pick.
+   * @returns {Promise<string | undefined>} A promise resolving to the picked item.
+   */
+  static async showQuickPick(items: string[], placeHolder: string): Promise<string | undefined> {
+    return await window.showQuickPick(items, { placeHolder: placeHolder });
+  }
+
+  /**
+   * Displays a dialog to select files from the file system.
+   *
+   * @param {string} title The dialog title.
+   * @returns {Promise<string[] | undefined>} A promise resolving to the paths of the selected files.
+   */
+  static async showOpenDialog(title: string): Promise<string[] | undefined> {
+    const uris = await window.showOpenDialog({ title: title, canSelectFiles: true, canSelectFolders: false, canSelectMany: true });
+    return uris?.map(uri => uri.fsPath);
+  }
+
+  /**
+   * Displays a dialog to select a folder from the file system.
+   *
+   * @param {string} title The dialog title.
+   * @param {string} defaultFolderPath The folder the dialog opens in.
+   * @returns {Promise<string | undefined>} A promise resolving to the path of the selected folder.
+   */
+  static async showFolderDialog(title: string, defaultFolderPath?: string): Promise<string | undefined> {
+    const uris = await window.showOpenDialog({
+      title: title,
+      defaultUri: defaultFolderPath ? Uri.file(defaultFolderPath) : undefined,
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+    });
+    return uris?.[0]?.fsPath;
+  }
+
+  /**
+   * Displays a dialog to select where to save a file.
+   *
+   * @param {string} title The dialog title.
+   * @param {string} defaultFilePath The file path the dialog is prefilled with.
+   * @returns {Promise<string | undefined>} A promise resolving to the path of the file to save.
+   */
+  static async showSaveDialog(title: string, defaultFilePath?: string): Promise<string | undefined> {
+    const uri = await window.showSaveDialog({ title: title, defaultUri: defaultFilePath ? Uri.file(defaultFilePath) : undefined });
+    return uri?.fsPath;
+  }
+
+  /**
+   * Displays an information message.
+   *
+   * @param {string} message The information message.
+   */
+  static async showInformation(message: string): Promise<void> {
+    logger.info(message);
+    await window.showInformationMessage(message);
+  }
+
+  /**
+   * Writes text to the clipboard.
+   *
+   * @param {string} text The text to write.
+   */
+  static async writeToClipboard(text: string): Promise<void> {
+    await env.clipboard.writeText(text);
   }
 
   /**
@@ -113,23 +154,23 @@ export class ExtensionUtilities {
   }
 
   /**
-   * Gets the file paths of all open text documents.
+   * Gets the uris of all open text documents.
    *
-   * @returns {string[]} An array of file paths.
+   * @returns {Uri[]} An array of uris.
    */
-  static getOpenTextDocumentFilePaths(): string[] {
-    return workspace.textDocuments.map(w => w.fileName);
+  static getOpenTextDocumentUris(): Uri[] {
+    return workspace.textDocuments.map(w => w.uri);
   }
 
   /**
    * Closes an object text document.
    *
-   * @param {string} fileName The file name of the text document.
+   * @param {Uri} uri The uri of the text document.
    */
-  static async closeTextDocument(fileName: string): Promise<void> {
+  static async closeTextDocument(uri: Uri): Promise<void> {
     try {
-      logger.trace(`Closing text document '${fileName}'`);
-      await window.showTextDocument(Uri.file(fileName), { preview: true, preserveFocus: false });
+      logger.trace(`Closing text document '${uri.toString()}'`);
+      await window.showTextDocument(uri, { preview: true, preserveFocus: false });
       await commands.executeCommand('workbench.action.closeActiveEditor');
     } catch {}
   }
@@ -137,43 +178,47 @@ export class ExtensionUtilities {
   /**
    * Opens a file.
    *
-   * @param {string} filePath The file path.
+   * @param {Uri} uri The uri of the file.
+   * @param {Range} selection The range to select in the file.
    */
-  static async openFile(filePath: string): Promise<void> {
+  static async openFile(uri: Uri, selection?: Range): Promise<void> {
     const command = 'vscode.open';
-    logger.trace(`Executing '${command}' on '${filePath}'`);
-    await commands.executeCommand(command, Uri.file(filePath));
+    logger.trace(`Executing '${command}' on '${uri.toString()}'`);
+    await commands.executeCommand(command, uri, { selection: selection });
   }
 
   /**
-   * Runs a query against a group of files.
+   * Opens a file with a custom editor.
    *
-   * @param {string} query The search query.
-   * @param {string} filesToInclude The path to the files to include in the search.
+   * @param {Uri} uri The uri of the file.
+   * @param {string} viewType The view type of the custom editor.
    */
-  static async findInFiles(query: string, filesToInclude: string): Promise<void> {
-    const command = 'workbench.action.findInFiles';
-    logger.trace(`Executing '${command}' on '${query}'`);
-    await commands.executeCommand(command, {
-      query: query,
-      filesToInclude: filesToInclude,
-      triggerSearch: true,
-      isCaseSensitive: false,
-      matchWholeWord: false,
-    });
+  static async openWith(uri: Uri, viewType: string): Promise<void> {
+    const command = 'vscode.openWith';
+    logger.trace(`Executing '${command}' on '${uri.toString()}' with '${viewType}'`);
+    await commands.executeCommand(command, uri, viewType);
+  }
+
+  /**
+   * Shows the problems view.
+   */
+  static async showProblems(): Promise<void> {
+    const command = 'workbench.actions.view.problems';
+    logger.trace(`Executing '${command}'`);
+    await commands.executeCommand(command);
   }
 
   /**
    * Diffs two files.
    *
-   * @param filePath1 The first file path to diff.
-   * @param filePath2 The second file path to diff.
+   * @param uri1 The uri of the first file to diff.
+   * @param uri2 The uri of the second file to diff.
    * @param title The title of the diff.
    */
-  static async openDiff(filePath1: string, filePath2: string, title: string): Promise<void> {
+  static async openDiff(uri1: Uri, uri2: Uri, title: string): Promise<void> {
     const command = 'vscode.diff';
-    logger.trace(`Executing '${command}' on '${filePath1}' and '${filePath2}'`);
-    await commands.executeCommand('vscode.diff', Uri.file(filePath1), Uri.file(filePath2), title);
+    logger.trace(`Executing '${command}' on '${uri1.toString()}' and '${uri2.toString()}'`);
+    await commands.executeCommand('vscode.diff', uri1, uri2, title);
   }
 
   /**
@@ -183,6 +228,6 @@ export class ExtensionUtilities {
    */
   static async dispatch(ooxmlCommand: OOXMLCommand): Promise<void> {
     logger.debug(`Dispatching '${ooxmlCommand.command}' on '${ooxmlCommand.fileNode}'`);
-    await commands.executeCommand(ooxmlCommand.command, ooxmlCommand.fileNode);
+    await commands.executeCommand(ooxmlCommand.command, ooxmlCommand.fileNode, ...(ooxmlCommand.args ?? []));
   }
 }
@@ -1,5 +1,7 @@
 import assert from 'assert';
-import { FileSystemError, Uri, workspace } from 'vscode';
+import crypto from 'crypto';
+import { basename, dirname, join, posix } from 'path';
+import { FileSystemError, FileType, Uri, workspace } from 'vscode';
 import packageJson from '../../package.json';
 import logger from './logger';
 
@@ -31,12 +33,12 @@ export class FileSystemUtilities {
   /**
    * Gets the contents of the file.
    *
-   * @param {string} filePath The path of the file to read.
+   * @param {string | Uri} filePath The path of the file to read, or its uri if it isn't on the local file system.
    * @returns {Promise<Uint8Array>} A promise resolving to the contents of the file.
    */
-  static async readFile(filePath: string): Promise<Uint8Array> {
-    logger.trace(`Reading file '${filePath}'`);
-    return await workspace.fs.readFile(Uri.file(filePath));
+  static async readFile(filePath: string | Uri): Promise<Uint8Array> {
+    logger.trace(`Reading file '${filePath.toString()}'`);
+    return await workspace.fs.readFile(typeof filePath === 'string' ? Uri.file(filePath) : filePath);
   }
 
   /**
@@ -51,7 +53,37 @@ export class FileSystemUtilities {
       logger.trace(`Writing file '${filePath}'`);
       await workspace.fs.writeFile(Uri.file(filePath), data);
     } catch (err) {
-      if ((err as FileSystemError)?.code.toLowerCase() === 'unknown' && (err as FileSystemError)?.message.toLowerCase().includes('ebusy')) {
+      if (FileSystemUtilities.isBusyError(err)) {
+        return false;
+      }
+
+      logger.error(`Error writing file '${filePath}'`);
+      throw err;
+    }
+
+    return true;
+  }
+
+  /**
+   * Writes data to a temporary file next to the file and then renames it over the file,
+   * so the file is never left partially written.
+   *
+   * @param filePath The path of the file to update.
+   * @param data The data write to the file.
+   * @returns A promise resolving to whether or not the file was written to successfully.
+   */
+  static async writeFileAtomically(filePath: string, data: Uint8Array): Promise<boolean> {
+    const tempFilePath = join(dirname(filePath), `.${basename(filePath)}.${crypto.randomBytes(4).toString('hex')}.tmp`);
+    let isRenaming = false;
+    try {
+      logger.trace(`Writing file '${filePath}' using '${tempFilePath}'`);
+      await workspace.fs.writeFile(Uri.file(tempFilePath), data);
+      isRenaming = true;
+      await workspace.fs.rename(Uri.file(tempFilePath), Uri.file(filePath), { overwrite: true });
+    } catch (err) {
+      await FileSystemUtilities.tryDeleteTempFile(tempFilePath);
+      // on Windows, replacing a file another program has open fails with a permission error instead of EBUSY
+      if (FileSystemUtilities.isBusyError(err) || (isRenaming && FileSystemUtilities.isPermissionError(err))) {
         return false;
       }
 
@@ -73,6 +105,28 @@ export class FileSystemUtilities {
     await workspace.fs.delete(Uri.file(filePath), { recursive: true, useTrash: false });
   }
 
+  /**
+   * Renames or moves a file, overwriting the destination if it exists.
+   *
+   * @param {string} filePath The path of the file to rename.
+   * @param {string} newFilePath The new path of the file.
+   */
+  static async renameFile(filePath: string, newFilePath: string): Promise<void> {
+    logger.trace(`Renaming file '${filePath}' to '${newFilePath}'`);
+    await workspace.fs.rename(Uri.file(filePath), Uri.file(newFilePath), { overwrite: true });
+  }
+
+  /**
+   * Copies a file, overwriting the destination if it exists.
+   *
+   * @param {string} filePath The path of the file to copy.
+   * @param {string} newFilePath The path of the copy.
+   */
+  static async copyFile(filePath: string, newFilePath: string): Promise<void> {
+    logger.trace(`Copying file '${filePath}' to '${newFilePath}'`);
+    await workspace.fs.copy(Uri.file(filePath), Uri.file(newFilePath), { overwrite: true });
+  }
+
   /**
    * Creates a directory.
    *
@@ -83,6 +137,31 @@ export class FileSystemUtilities {
     await workspace.fs.createDirectory(Uri.file(directoryPath));
   }
 
+  /**
+   * Gets the paths of all the files in a directory and its subdirectories.
+   *
+   * @param {string} directoryPath The path to the directory.
+   * @returns {Promise<string[]>} A promise resolving to the sorted file paths, relative to the directory and separated by '/'.
+   */
+  static async getFilePaths(directoryPath: string): Promise<string[]> {
+    logger.trace(`Reading directory '${directoryPath}'`);
+    const filePaths: string[] = [];
+    const readDirectory = async (relativePath: string) => {
+      const entries = await workspace.fs.readDirectory(Uri.joinPath(Uri.file(directoryPath), relativePath));
+      for (const [name, fileType] of entries) {
+        const entryPath = relativePath ? posix.join(relativePath, name) : name;
+        if (fileType & FileType.Directory) {
+          await readDirectory(entryPath);
+        } else if (fileType & FileType.File) {
+          filePaths.push(entryPath);
+        }
+      }
+    };
+
+    await readDirectory('');
+    return filePaths.sort();
+  }
+
   /**
    * Gets the size of a file in bytes. Returns -1 if unable to get file stats.
    *
@@ -97,4 +176,43 @@ export class FileSystemUtilities {
       return -1;
     }
   }
+
+  /**
+   * Gets the last modified time of a file in milliseconds since the epoch. Returns -1 if unable to get file stats.
+   *
+   * @param {string} filePath The path to the file.
+   */
+  static async getModifiedTime(filePath: string): Promise<number> {
+    try {
+      const fileStats = await workspace.fs.stat(Uri.file(filePath));
+      return fileStats.mtime;
+    } catch {
+      logger.error(`Unable to get modified time of '${filePath}'`);
+      return -1;
+    }
+  }
+
+  private static isBusyError(err: unknown): boolean {
+    return (
+      (err as FileSystemError)?.code?.toLowerCase() === 'unknown' && !!(err as FileSystemError)?.message?.toLowerCase().includes('ebusy')
+    );
+  }
+
+  private static isPermissionError(err: unknown): boolean {
+    const code = (err as FileSystemError)?.code?.toLowerCase();
+    return (
+      code === 'nopermissions' ||
+      code === 'eperm' ||
+      code === 'eacces' ||
+      (code === 'unknown' && /\b(eperm|eacces)\b/.test((err as FileSystemError)?.message?.toLowerCase() ?? ''))
+    );
+  }
+
+  private static async tryDeleteTempFile(tempFilePath: string): Promise<void> {
+    try {
+      await workspace.fs.delete(Uri.file(tempFilePath), { useTrash: false });
+    } catch {
+      logger.debug(`Unable to delete temporary file '${tempFilePath}'`);
+    }
+  }
 }
@@ -0,0 +1,82 @@
+import { execFile } from 'child_process';
+import { basename, dirname } from 'path';
+import logger from './logger';
+
+// The maximum size of the output of git commands that don't output file contents
+const MAXIMUM_OUTPUT_SIZE_BYTES = 1024;
+
+/**
+ * Wraps read only access to the local git repository a file is in.
+ */
+export class GitUtilities {
+  /**
+   * Gets the size of a file as it was committed at a revision, e.g. HEAD, without reading its contents.
+   * The size is the size of the committed blob, i.e. before clean and smudge filters such as git lfs are applied.
+   *
+   * @param {string} filePath The path of the file on the file system.
+   * @param {string} revision The revision to get the size of the file at.
+   * @returns {Promise<number | undefined>} A promise resolving to the size of the committed file in bytes,
+   *  or undefined if git isn't installed, the file isn't in a git repository or it isn't committed at the revision.
+   */
+  static async getCommittedFileSize(filePath: string, revision: string = 'HEAD'): Promise<number | undefined> {
+    logger.trace(`Getting the size of '${filePath}' at '${revision}'`);
+    try {
+      const output = await GitUtilities.git(
+        dirname(filePath),
+        ['cat-file', '-s', GitUtilities.getObjectName(filePath, revision)],
+        MAXIMUM_OUTPUT_SIZE_BYTES,
+      );
+      return Number(new TextDecoder().decode(output).trim());
+    } catch (err) {
+      logger.debug(`Unable to get the size of '${filePath}' at '${revision}': ${(err as Error)?.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Gets the contents of a file as it was committed at a revision, e.g. HEAD.
+   * Clean and smudge filters such as git lfs are applied so the contents match what would be checked out.
+   *
+   * @param {string} filePath The path of the file on the file system.
+   * @param {string} revision The revision to read the file at.
+   * @param {number} maximumSizeBytes The maximum size of the contents to read, larger contents aren't buffered.
+   * @returns {Promise<Uint8Array | undefined>} A promise resolving to the committed contents of the file,
+   *  or undefined if git isn't installed, the file isn't in a git repository, it isn't committed at the revision
+   *  or its contents exceed the maximum size.
+   */
+  static async getCommittedFile(
+    filePath: string,
+    revision: string = 'HEAD',
+    maximumSizeBytes: number = Number.MAX_SAFE_INTEGER,
+  ): Promise<Uint8Array | undefined> {
+    logger.trace(`Reading '${filePath}' at '${revision}'`);
+    try {
+      return await GitUtilities.git(
+        dirname(filePath),
+        ['cat-file', '--filters', GitUtilities.getObjectName(filePath, revision)],
+        maximumSizeBytes,
+      );
+    } catch (err) {
+      logger.debug(`Unable to read '${filePath}' at '${revision}': ${(err as Error)?.message}`);
+      return undefined;
+    }
+  }
+
+  private static getObjectName(filePath: string, revision: string): string {
+    // './' makes the path relative to the folder git is run in rather than to the root of the repository
+    return `${revision}:./${basename(filePath)}`;
+  }
+
+  // git is killed and the promise rejected once its output exceeds the maximum size
+  private static git(folderPath: string, args: string[], maximumOutputSizeBytes: number): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+      execFile('git', args, { cwd: folderPath, encoding: 'buffer', maxBuffer: maximumOutputSizeBytes }, (err, stdout, stderr) => {
+        if (err) {
+          reject(new Error(stderr.toString().trim() || err.message));
+        } else {
+          resolve(new Uint8Array(stdout.buffer, stdout.byteOffset, stdout.byteLength));
+        }
+      });
+    });
+  }
+}
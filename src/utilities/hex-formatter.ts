@@ -0,0 +1,57 @@
+const BYTES_PER_ROW = 16;
+// The number of bytes checked for a null byte when deciding whether data is binary, like git does
+const BINARY_CHECK_LENGTH = 8000;
+
+/**
+ * The hex formatter.
+ */
+export class HexFormatter {
+  /**
+   * Determines whether data is binary rather than text, i.e. it has a null byte near the start.
+   *
+   * @param {Uint8Array} data The data.
+   * @returns {boolean} Whether or not the data is binary.
+   */
+  static isBinary(data: Uint8Array): boolean {
+    return data.subarray(0, BINARY_CHECK_LENGTH).includes(0);
+  }
+
+  /**
+   * Formats data as rows of 16 bytes with the offset, hex values and printable ASCII characters of each row.
+   *
+   * @param {Uint8Array} data The data to format.
+   * @returns {HexRow[]} The rows.
+   */
+  static format(data: Uint8Array): HexRow[] {
+    const offsetLength = Math.max(8, data.length.toString(16).length);
+    const rows: HexRow[] = [];
+    for (let offset = 0; offset < data.length; offset += BYTES_PER_ROW) {
+      const bytes = Array.from(data.subarray(offset, offset + BYTES_PER_ROW));
+      rows.push({
+        offset: offset.toString(16).padStart(offsetLength, '0'),
+        hex: bytes.map(b => b.toString(16).padStart(2, '0')).join(' '),
+        ascii: bytes.map(b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join(''),
+      });
+    }
+
+    return rows;
+  }
+}
+
+/**
+ * A row of a hex dump.
+ */
+export interface HexRow {
+  /**
+   * The offset of the first byte of the row in hex.
+   */
+  offset: string;
+  /**
+   * The bytes of the row in hex separated by spaces.
+   */
+  hex: string;
+  /**
+   * The bytes of the row as ASCII characters, with '.' for the bytes that aren't printable.
+   */
+  ascii: string;
+}
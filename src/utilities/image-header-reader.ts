@@ -0,0 +1,224 @@
+const METERS_PER_INCH = 0.0254;
+const MILLIMETERS_PER_INCH = 25.4;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const EMF_HEADER_RECORD_TYPE = 1;
+const EMF_SIGNATURE = 0x464d4520;
+const WMF_PLACEABLE_KEY = 0x9ac6cdd7;
+
+// The tags of the baseline tiff fields, see the TIFF 6.0 specification
+const TIFF_IMAGE_WIDTH = 256;
+const TIFF_IMAGE_LENGTH = 257;
+const TIFF_X_RESOLUTION = 282;
+const TIFF_Y_RESOLUTION = 283;
+const TIFF_RESOLUTION_UNIT = 296;
+
+/**
+ * Reads the pixel size and resolution from the headers of the image formats found in ooxml packages,
+ * including the EMF and WMF metafiles that can't be rendered outside of Windows.
+ */
+export class ImageHeaderReader {
+  /**
+   * Reads the header of an image.
+   *
+   * @param {Uint8Array} data The image data.
+   * @returns {ImageHeader | undefined} The header or undefined if the format isn't known or the header is truncated.
+   */
+  static read(data: Uint8Array): ImageHeader | undefined {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    try {
+      if (PNG_SIGNATURE.every((b, i) => data[i] === b)) {
+        return ImageHeaderReader.readPng(data, view);
+      } else if (data[0] === 0xff && data[1] === 0xd8) {
+        return ImageHeaderReader.readJpeg(data, view);
+      } else if (ImageHeaderReader.readAscii(data, 0, 4) === 'GIF8') {
+        return { format: 'GIF', width: view.getUint16(6, true), height: view.getUint16(8, true) };
+      } else if (ImageHeaderReader.readAscii(data, 0, 2) === 'BM') {
+        return ImageHeaderReader.readBmp(view);
+      } else if (['II*\0', 'MM\0*'].includes(ImageHeaderReader.readAscii(data, 0, 4))) {
+        return ImageHeaderReader.readTiff(view);
+      } else if (view.getUint32(0, true) === EMF_HEADER_RECORD_TYPE && view.getUint32(40, true) === EMF_SIGNATURE) {
+        return ImageHeaderReader.readEmf(view);
+      } else if (view.getUint32(0, true) === WMF_PLACEABLE_KEY) {
+        return ImageHeaderReader.readPlaceableWmf(view);
+      }
+    } catch (err) {
+      if (!(err instanceof RangeError)) {
+        throw err;
+      }
+    }
+
+    return undefined;
+  }
+
+  private static readPng(data: Uint8Array, view: DataView): ImageHeader {
+    const header: ImageHeader = { format: 'PNG', width: view.getUint32(16), height: view.getUint32(20) };
+
+    // the physical pixel dimensions chunk comes before the image data
+    for (let offset = PNG_SIGNATURE.length; offset + 8 <= view.byteLength; ) {
+      const length = view.getUint32(offset);
+      const type = ImageHeaderReader.readAscii(data, offset + 4, 4);
+      if (type === 'pHYs' && view.getUint8(offset + 16) === 1) {
+        header.horizontalDpi = view.getUint32(offset + 8) * METERS_PER_INCH;
+        header.verticalDpi = view.getUint32(offset + 12) * METERS_PER_INCH;
+      } else if (type === 'IDAT' || type === 'IEND') {
+        break;
+      }
+
+      // length, type, data and crc
+      offset += 12 + length;
+    }
+
+    return header;
+  }
+
+  private static readJpeg(data: Uint8Array, view: DataView): ImageHeader | undefined {
+    let density: { horizontal: number; vertical: number } | undefined;
+    for (let offset = 2; offset + 4 <= view.byteLength; ) {
+      if (view.getUint8(offset) !== 0xff) {
+        return undefined;
+      }
+
+      const marker = view.getUint8(offset + 1);
+      if (marker === 0xff) {
+        // fill byte
+        offset++;
+        continue;
+      }
+
+      const length = view.getUint16(offset + 2);
+      const isJfif = marker === 0xe0 && ImageHeaderReader.readAscii(data, offset + 4, 5) === 'JFIF\0';
+      if (isJfif) {
+        // units are 1 for dots per inch and 2 for dots per centimeter
+        const units = view.getUint8(offset + 11);
+        const scale = units === 1 ? 1 : units === 2 ? 2.54 : 0;
+        density = scale ? { horizontal: view.getUint16(offset + 12) * scale, vertical: view.getUint16(offset + 14) * scale } : undefined;
+      } else if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        // start of frame
+        return {
+          format: 'JPEG',
+          width: view.getUint16(offset + 7),
+          height: view.getUint16(offset + 5),
+          horizontalDpi: density?.horizontal,
+          verticalDpi: density?.vertical,
+        };
+      }
+
+      offset += 2 + length;
+    }
+
+    return undefined;
+  }
+
+  private static readBmp(view: DataView): ImageHeader {
+    const dibHeaderSize = view.getUint32(14, true);
+    if (dibHeaderSize === 12) {
+      return { format: 'BMP', width: view.getUint16(18, true), height: view.getUint16(20, true) };
+    }
+
+    const horizontalPixelsPerMeter = view.getInt32(38, true);
+    const verticalPixelsPerMeter = view.getInt32(42, true);
+    return {
+      format: 'BMP',
+      width: view.getInt32(18, true),
+      // the height is negative for top-down bitmaps
+      height: Math.abs(view.getInt32(22, true)),
+      horizontalDpi: horizontalPixelsPerMeter > 0 ? horizontalPixelsPerMeter * METERS_PER_INCH : undefined,
+      verticalDpi: verticalPixelsPerMeter > 0 ? verticalPixelsPerMeter * METERS_PER_INCH : undefined,
+    };
+  }
+
+  private static readTiff(view: DataView): ImageHeader | undefined {
+    const littleEndian = view.getUint8(0) === 0x49;
+    const ifdOffset = view.getUint32(4, littleEndian);
+    const entryCount = view.getUint16(ifdOffset, littleEndian);
+    const fields = new Map<number, number>();
+    for (let i = 0; i < entryCount; i++) {
+      const entryOffset = ifdOffset + 2 + i * 12;
+      const tag = view.getUint16(entryOffset, littleEndian);
+      const type = view.getUint16(entryOffset + 2, littleEndian);
+      if (type === 3) {
+        // short
+        fields.set(tag, view.getUint16(entryOffset + 8, littleEndian));
+      } else if (type === 4) {
+        // long
+        fields.set(tag, view.getUint32(entryOffset + 8, littleEndian));
+      } else if (type === 5) {
+        // rational, stored at an offset
+        const valueOffset = view.getUint32(entryOffset + 8, littleEndian);
+        fields.set(tag, view.getUint32(valueOffset, littleEndian) / view.getUint32(valueOffset + 4, littleEndian));
+      }
+    }
+
+    const width = fields.get(TIFF_IMAGE_WIDTH);
+    const height = fields.get(TIFF_IMAGE_LENGTH);
+    if (width === undefined || height === undefined) {
+      return undefined;
+    }
+
+    // the resolution unit is 2 for inches, the default, and 3 for centimeters
+    const resolutionUnit = fields.get(TIFF_RESOLUTION_UNIT) ?? 2;
+    const scale = resolutionUnit === 2 ? 1 : resolutionUnit === 3 ? 2.54 : 0;
+    const horizontalResolution = fields.get(TIFF_X_RESOLUTION);
+    const verticalResolution = fields.get(TIFF_Y_RESOLUTION);
+    return {
+      format: 'TIFF',
+      width: width,
+      height: height,
+      horizontalDpi: scale && horizontalResolution ? horizontalResolution * scale : undefined,
+      verticalDpi: scale && verticalResolution ? verticalResolution * scale : undefined,
+    };
+  }
+
+  private static readEmf(view: DataView): ImageHeader {
+    // the bounds are inclusive and in device pixels, the reference device size is in pixels and in millimeters
+    const [left, top, right, bottom] = [8, 12, 16, 20].map(offset => view.getInt32(offset, true));
+    const [devicePixelsWide, devicePixelsHigh, deviceMillimetersWide, deviceMillimetersHigh] = [72, 76, 80, 84].map(offset =>
+      view.getInt32(offset, true),
+    );
+    return {
+      format: 'EMF',
+      width: right - left + 1,
+      height: bottom - top + 1,
+      horizontalDpi: deviceMillimetersWide > 0 ? (devicePixelsWide / deviceMillimetersWide) * MILLIMETERS_PER_INCH : undefined,
+      verticalDpi: deviceMillimetersHigh > 0 ? (devicePixelsHigh / deviceMillimetersHigh) * MILLIMETERS_PER_INCH : undefined,
+    };
+  }
+
+  private static readPlaceableWmf(view: DataView): ImageHeader {
+    // the bounding box is in logical units of which there are a given number per inch
+    const [left, top, right, bottom] = [6, 8, 10, 12].map(offset => view.getInt16(offset, true));
+    const unitsPerInch = view.getUint16(14, true);
+    return {
+      format: 'WMF',
+      width: Math.abs(right - left),
+      height: Math.abs(bottom - top),
+      horizontalDpi: unitsPerInch || undefined,
+      verticalDpi: unitsPerInch || undefined,
+    };
+  }
+
+  private static readAscii(data: Uint8Array, offset: number, length: number): string {
+    return String.fromCharCode(...data.subarray(offset, offset + length));
+  }
+}
+
+/**
+ * The size and resolution of an image.
+ */
+export interface ImageHeader {
+  /**
+   * The image format, e.g. PNG or EMF.
+   */
+  format: string;
+  /**
+   * The width in pixels, or in logical units for WMF metafiles.
+   */
+  width: number;
+  height: number;
+  /**
+   * The horizontal resolution in dots per inch, undefined if the image doesn't specify it.
+   */
+  horizontalDpi?: number;
+  verticalDpi?: number;
+}
@@ -3,6 +3,7 @@ import { FileNode } from '../tree-view/ooxml-tree-view-provider';
 export interface OOXMLCommand {
   command: string;
   fileNode: FileNode;
+  args?: unknown[];
 }
 
 export class RemoveOOXMLCommand implements OOXMLCommand {
@@ -10,3 +11,15 @@ export class RemoveOOXMLCommand implements OOXMLCommand {
 
   constructor(public fileNode: FileNode) {}
 }
+
+export class ImportFilesCommand implements OOXMLCommand {
+  command = 'ooxmlViewer.importFiles';
+  args: unknown[];
+
+  constructor(
+    public fileNode: FileNode,
+    filePaths: string[],
+  ) {
+    this.args = [filePaths];
+  }
+}
@@ -0,0 +1,72 @@
+const POINTS_PER_INCH = 72;
+const CENTIMETERS_PER_INCH = 2.54;
+
+// The measurements in points of one unit of the schema types, keyed by the name of the type
+const POINTS_PER_UNIT: Record<string, { unitName: string; points: number }> = {
+  ST_TwipsMeasure: { unitName: 'twips', points: 1 / 20 },
+  ST_SignedTwipsMeasure: { unitName: 'twips', points: 1 / 20 },
+  ST_PointMeasure: { unitName: 'points', points: 1 },
+  ST_HpsMeasure: { unitName: 'half-points', points: 1 / 2 },
+  ST_SignedHpsMeasure: { unitName: 'half-points', points: 1 / 2 },
+  ST_EighthPointMeasure: { unitName: 'eighths of a point', points: 1 / 8 },
+  ST_TextFontSize: { unitName: 'hundredths of a point', points: 1 / 100 },
+  ST_TextNonNegativePoint: { unitName: 'hundredths of a point', points: 1 / 100 },
+  ST_TextPoint: { unitName: 'hundredths of a point', points: 1 / 100 },
+  ST_Coordinate: { unitName: 'EMUs', points: 1 / 12700 },
+  ST_Coordinate32: { unitName: 'EMUs', points: 1 / 12700 },
+  ST_CoordinateUnqualified: { unitName: 'EMUs', points: 1 / 12700 },
+  ST_Coordinate32Unqualified: { unitName: 'EMUs', points: 1 / 12700 },
+  ST_PositiveCoordinate: { unitName: 'EMUs', points: 1 / 12700 },
+  ST_PositiveCoordinate32: { unitName: 'EMUs', points: 1 / 12700 },
+  ST_LineWidth: { unitName: 'EMUs', points: 1 / 12700 },
+};
+
+// Angles are in 60,000ths of a degree and percentages in 1,000ths of a percent
+const ANGLE_TYPES = ['ST_Angle', 'ST_FixedAngle', 'ST_PositiveFixedAngle'];
+const PERCENTAGE_TYPES = ['ST_Percentage', 'ST_PositivePercentage', 'ST_FixedPercentage', 'ST_PositiveFixedPercentage'];
+
+/**
+ * Converts the numeric values of the OOXML measurement types, e.g. twips, half-points and EMUs, to human units.
+ */
+export class OOXMLUnits {
+  /**
+   * Describes an attribute value in human units.
+   *
+   * @param {string} typeName The name of the attribute's schema type, e.g. ST_TwipsMeasure.
+   * @param {string} value The attribute value.
+   * @returns {string | undefined} The value in human units, e.g. '240 twips = 12 pt = 0.42 cm = 0.17 in',
+   *  or undefined if the type isn't a measurement or the value isn't a number.
+   */
+  static describe(typeName: string, value: string): string | undefined {
+    if (!/^-?\d+(\.\d+)?$/.test(value.trim())) {
+      return undefined;
+    }
+
+    const number = Number(value);
+    const unit = POINTS_PER_UNIT[typeName];
+    if (unit) {
+      const points = number * unit.points;
+      const inches = points / POINTS_PER_INCH;
+      return [
+        `${number} ${unit.unitName}`,
+        `${OOXMLUnits.round(points)} pt`,
+        `${OOXMLUnits.round(inches * CENTIMETERS_PER_INCH)} cm`,
+        `${OOXMLUnits.round(inches)} in`,
+      ].join(' = ');
+    }
+
+    if (ANGLE_TYPES.includes(typeName)) {
+      return `${number} = ${OOXMLUnits.round(number / 60000)}°`;
+    }
+
+    if (PERCENTAGE_TYPES.includes(typeName)) {
+      return `${number} = ${OOXMLUnits.round(number / 1000)}%`;
+    }
+
+    return undefined;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,224 @@
+import { CompoundFile } from './compound-file';
+
+const COMPRESSED_CONTAINER_SIGNATURE = 0x01;
+const DECOMPRESSED_CHUNK_SIZE = 4096;
+
+// Ids of the records of the dir stream
+const PROJECTCODEPAGE = 0x0003;
+const PROJECTVERSION = 0x0009;
+const MODULENAME = 0x0019;
+const MODULESTREAMNAME = 0x001a;
+const MODULEOFFSET = 0x0031;
+const MODULETYPE_PROCEDURAL = 0x0021;
+const MODULENAMEUNICODE = 0x0047;
+const MODULE_TERMINATOR = 0x002b;
+
+// The text encodings of the code pages VBA projects are saved with, the others fall back to windows-1252
+const CODE_PAGE_ENCODINGS: Record<number, string> = {
+  874: 'windows-874',
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  1250: 'windows-1250',
+  1251: 'windows-1251',
+  1252: 'windows-1252',
+  1253: 'windows-1253',
+  1254: 'windows-1254',
+  1255: 'windows-1255',
+  1256: 'windows-1256',
+  1257: 'windows-1257',
+  1258: 'windows-1258',
+  10000: 'macintosh',
+  65001: 'utf-8',
+};
+
+/**
+ * The reader of the VBA projects of macro-enabled packages, e.g. word/vbaProject.bin, as specified in [MS-OVBA].
+ */
+export class VbaProjectReader {
+  /**
+   * Reads the modules of a VBA project and decompresses their source.
+   *
+   * @param {Uint8Array} data The VBA project, a compound file with a VBA storage.
+   * @returns {VbaModule[]} The modules in the order they are listed in the project.
+   * @throws {Error} If the data isn't a VBA project or is corrupt.
+   */
+  static read(data: Uint8Array): VbaModule[] {
+    const compoundFile = new CompoundFile(data);
+    const dirStream = compoundFile.getStream('VBA/dir');
+    if (!dirStream) {
+      throw new Error('The file is not a VBA project');
+    }
+
+    const modules = VbaProjectReader.readModuleRecords(VbaProjectReader.decompress(dirStream));
+    return modules.map(m => {
+      const moduleStream = compoundFile.getStream(`VBA/${m.streamName}`);
+      if (!moduleStream) {
+        throw new Error(`The VBA project does not have a '${m.streamName}' module stream`);
+      }
+
+      // the source follows the compiled p-code of the module
+      const source = VbaProjectReader.decompress(moduleStream.subarray(m.offset));
+      return { name: m.name, streamName: m.streamName, type: m.type, source: VbaProjectReader.decode(source, m.codePage) };
+    });
+  }
+
+  /**
+   * Determines whether or not data is a VBA project, i.e. a compound file with a VBA/dir stream.
+   *
+   * @param {Uint8Array} data The data.
+   * @returns {boolean} Whether or not the data is a VBA project.
+   */
+  static isVbaProject(data: Uint8Array): boolean {
+    try {
+      return CompoundFile.isCompoundFile(data) && !!new CompoundFile(data).findEntry('VBA/dir');
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Gets the file name a module is shown with, with the extension VBA exports it with.
+   *
+   * @param {VbaModule} vbaModule The module.
+   * @returns {string} The name of the module followed by .bas for standard modules and .cls for class and document modules.
+   */
+  static getFileName(vbaModule: VbaModule): string {
+    return `${vbaModule.name}${vbaModule.type === 'standard' ? '.bas' : '.cls'}`;
+  }
+
+  /**
+   * Decompresses a compressed container of a VBA project.
+   *
+   * @param {Uint8Array} data The compressed container.
+   * @returns {Uint8Array} The decompressed data.
+   * @throws {Error} If the data isn't a compressed container.
+   */
+  static decompress(data: Uint8Array): Uint8Array {
+    if (data[0] !== COMPRESSED_CONTAINER_SIGNATURE) {
+      throw new Error('The data is not a compressed container');
+    }
+
+    const decompressed: number[] = [];
+    let position = 1;
+    while (position + 2 <= data.length) {
+      const header = data[position] | (data[position + 1] << 8);
+      const chunkEnd = Math.min(position + (header & 0x0fff) + 3, data.length);
+      position += 2;
+
+      // chunks that couldn't be compressed are stored as they are
+      if (!(header & 0x8000)) {
+        decompressed.push(...data.subarray(position, position + DECOMPRESSED_CHUNK_SIZE));
+        position += DECOMPRESSED_CHUNK_SIZE;
+        continue;
+      }
+
+      const chunkStart = decompressed.length;
+      while (position < chunkEnd) {
+        const flags = data[position++];
+        for (let bit = 0; bit < 8 && position < chunkEnd; bit++) {
+          if (!(flags & (1 << bit))) {
+            decompressed.push(data[position++]);
+            continue;
+          }
+
+          // a copy token copies bytes from earlier in the chunk, it uses more bits for the offset the further it is in the chunk
+          const token = data[position] | (data[position + 1] << 8);
+          position += 2;
+          const bitCount = Math.max(Math.ceil(Math.log2(decompressed.length - chunkStart)), 4);
+          const length = (token & (0xffff >> bitCount)) + 3;
+          const offset = (token >> (16 - bitCount)) + 1;
+          if (offset > decompressed.length - chunkStart) {
+            throw new Error('The compressed container is corrupt');
+          }
+
+          for (let i = 0; i < length; i++) {
+            decompressed.push(decompressed[decompressed.length - offset]);
+          }
+        }
+      }
+    }
+
+    return new Uint8Array(decompressed);
+  }
+
+  private static readModuleRecords(dir: Uint8Array): ModuleRecord[] {
+    const view = new DataView(dir.buffer, dir.byteOffset, dir.byteLength);
+    const modules: ModuleRecord[] = [];
+    let codePage = 1252;
+    let current: Partial<ModuleRecord> = {};
+    for (let position = 0; position + 6 <= dir.length; ) {
+      const id = view.getUint16(position, true);
+      // the size of the version record doesn't include the minor version that follows its major version
+      const size = id === PROJECTVERSION ? 6 : view.getUint32(position + 2, true);
+      const recordStart = position + 6;
+      const record = dir.subarray(recordStart, recordStart + size);
+      position = recordStart + size;
+
+      switch (id) {
+        case PROJECTCODEPAGE:
+          codePage = view.getUint16(recordStart, true);
+          break;
+        case MODULENAME:
+          current = { name: VbaProjectReader.decode(record, codePage), type: 'class', offset: 0, codePage: codePage };
+          break;
+        case MODULENAMEUNICODE:
+          current.name = new TextDecoder('utf-16le').decode(record);
+          break;
+        case MODULESTREAMNAME:
+          current.streamName = VbaProjectReader.decode(record, codePage);
+          break;
+        case MODULEOFFSET:
+          current.offset = view.getUint32(recordStart, true);
+          break;
+        case MODULETYPE_PROCEDURAL:
+          current.type = 'standard';
+          break;
+        case MODULE_TERMINATOR:
+          if (current.name) {
+            modules.push({ ...(current as ModuleRecord), streamName: current.streamName ?? current.name });
+          }
+
+          current = {};
+          break;
+      }
+    }
+
+    return modules;
+  }
+
+  private static decode(data: Uint8Array, codePage: number): string {
+    return new TextDecoder(CODE_PAGE_ENCODINGS[codePage] ?? 'windows-1252').decode(data);
+  }
+}
+
+/**
+ * A module of a VBA project.
+ */
+export interface VbaModule {
+  name: string;
+  /**
+   * The name of the stream in the VBA storage that has the compiled code and the source of the module.
+   */
+  streamName: string;
+  /**
+   * Standard modules, or class modules, which include document modules, e.g. ThisDocument, and forms.
+   */
+  type: 'standard' | 'class';
+  source: string;
+}
+
+/**
+ * The records of a module in the dir stream of a VBA project.
+ */
+interface ModuleRecord {
+  name: string;
+  streamName: string;
+  type: 'standard' | 'class';
+  /**
+   * The offset of the compressed source in the module stream.
+   */
+  offset: number;
+  codePage: number;
+}
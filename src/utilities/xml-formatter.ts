@@ -1,3 +1,4 @@
+import { Document, DOMParser } from '@xmldom/xmldom';
 import xmlFormatter from 'xml-formatter';
 
 const textEncoder = new TextEncoder();
@@ -50,6 +51,39 @@ export class XmlFormatter {
     return textEncoder.encode(minifiedXml);
   }
 
+  /**
+   * Checks whether a binary array is well-formed if it's xml.
+   *
+   * @param {Uint8Array} data The xml to check.
+   * @returns {XmlSyntaxError | undefined} The first syntax error or undefined if the xml is well-formed.
+   */
+  static findSyntaxError(data: Uint8Array): XmlSyntaxError | undefined {
+    if (!XmlFormatter.isXml(data)) {
+      return undefined;
+    }
+
+    return XmlFormatter.tryParse(data).syntaxError;
+  }
+
+  /**
+   * Parses xml without the parser writing its errors and warnings to the console.
+   *
+   * @param {Uint8Array} data The xml to parse.
+   * @param {string} name The name of the xml used in the error, e.g. the path of its part.
+   * @returns {Document} The parsed xml.
+   * @throws {Error} If the xml isn't well-formed.
+   */
+  static parse(data: Uint8Array, name: string): Document {
+    const { document, syntaxError } = XmlFormatter.tryParse(data);
+    if (syntaxError || !document) {
+      throw new Error(
+        `'${name}' is not well-formed at line ${syntaxError?.lineNumber ?? 1}, column ${syntaxError?.columnNumber ?? 1}: ${syntaxError?.message}`,
+      );
+    }
+
+    return document;
+  }
+
   /**
    * Check if two xml binary arrays are the same.
    *
@@ -71,4 +105,35 @@ export class XmlFormatter {
 
     return false;
   }
+
+  private static tryParse(data: Uint8Array): { document: Document | undefined; syntaxError: XmlSyntaxError | undefined } {
+    let syntaxError: XmlSyntaxError | undefined;
+    const parser = new DOMParser({
+      onError: (level, message, context) => {
+        if (level !== 'warning' && !syntaxError) {
+          syntaxError = {
+            message: message,
+            lineNumber: context?.locator?.lineNumber ?? 1,
+            columnNumber: context?.locator?.columnNumber ?? 1,
+          };
+        }
+      },
+    });
+
+    try {
+      return { document: parser.parseFromString(textDecoder.decode(data), 'text/xml'), syntaxError: syntaxError };
+    } catch {
+      // fatal errors are reported to onError before they are thrown
+      return { document: undefined, syntaxError: syntaxError };
+    }
+  }
+}
+
+/**
+ * A syntax error in an xml document, the line and column numbers start at 1.
+ */
+export interface XmlSyntaxError {
+  message: string;
+  lineNumber: number;
+  columnNumber: number;
 }
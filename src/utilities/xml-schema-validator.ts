@@ -0,0 +1,714 @@
+import { DOMParser, Element } from '@xmldom/xmldom';
+import { join } from 'path';
+import { FileSystemUtilities } from './file-system-utilities';
+import { XmlFormatter } from './xml-formatter';
+
+const textDecoder = new TextDecoder();
+
+const XSD_NAMESPACE = 'http://www.w3.org/2001/XMLSchema';
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+const XMLNS_NAMESPACE = 'http://www.w3.org/2000/xmlns/';
+
+// Parts that don't follow the schema at all would otherwise report an error for every element
+const MAXIMUM_NUMBER_OF_ERRORS = 100;
+
+/**
+ * A set of xml schemas (xsd) loaded from a folder along with the schemas they import and include.
+ * Validates the structure of xml documents: the root element, the order and number of child elements,
+ * unknown attributes and missing required attributes. Attribute and text values aren't checked.
+ * Elements and attributes in namespaces that none of the schemas define, e.g. markup compatibility extensions, are ignored.
+ * Also lists the child elements, attributes and enumerated attribute values the schemas allow for an element
+ * and describes the types and documentation of elements and attributes.
+ */
+export class XmlSchemaSet {
+  private elements = new Map<string, Element>();
+  private complexTypes = new Map<string, Element>();
+  private simpleTypes = new Map<string, Element>();
+  private attributes = new Map<string, Element>();
+  private groups = new Map<string, Element>();
+  private attributeGroups = new Map<string, Element>();
+  private targetNamespaces = new Set<string>();
+  private contentModels = new Map<Element, ContentModel>();
+
+  private constructor() {}
+
+  /**
+   * Loads schemas and the schemas they import or include from a folder.
+   *
+   * @param {string} schemaFolderPath The path of the folder containing the schemas.
+   * @param {string[]} schemaFileNames The file names of the schemas to load.
+   * @returns {Promise<XmlSchemaSet>} A promise resolving to the schema set.
+   * @throws {Error} If a schema isn't well-formed.
+   */
+  static async load(schemaFolderPath: string, schemaFileNames: string[]): Promise<XmlSchemaSet> {
+    const schemaSet = new XmlSchemaSet();
+    const loadedFileNames = new Set<string>();
+    const fileNameQueue = [...schemaFileNames];
+
+    let fileName;
+    while ((fileName = fileNameQueue.pop())) {
+      if (loadedFileNames.has(fileName)) {
+        continue;
+      }
+
+      loadedFileNames.add(fileName);
+      const data = await FileSystemUtilities.readFile(join(schemaFolderPath, fileName));
+      fileNameQueue.push(...schemaSet.addSchema(XmlFormatter.parse(data, fileName).documentElement));
+    }
+
+    return schemaSet;
+  }
+
+  /**
+   * Validates an xml document against the schemas. Documents that aren't well-formed aren't validated.
+   *
+   * @param {Uint8Array} data The xml document.
+   * @returns {XmlSchemaError[]} The schema errors, at most 100.
+   */
+  validate(data: Uint8Array): XmlSchemaError[] {
+    let root: Element | null;
+    try {
+      root = new DOMParser({ onError: () => undefined }).parseFromString(textDecoder.decode(data), 'text/xml').documentElement;
+    } catch {
+      return [];
+    }
+
+    if (!root) {
+      return [];
+    }
+
+    const errors: XmlSchemaError[] = [];
+    const declaration = this.elements.get(XmlSchemaSet.getName(root));
+    if (declaration) {
+      this.validateElement(root, declaration, errors);
+    } else {
+      XmlSchemaSet.addError(errors, root, `'${root.tagName}' is not a root element of the schema`);
+    }
+
+    return errors.slice(0, MAXIMUM_NUMBER_OF_ERRORS);
+  }
+
+  /**
+   * Gets the child elements the schemas allow in an element.
+   *
+   * @param {string[]} elementPath The '{namespace}localName' names of the element and its ancestors starting at the root element,
+   *  an empty path gets the root elements.
+   * @returns {XmlSchemaElement[]} The allowed child elements or an empty array if the element isn't declared.
+   */
+  getChildElements(elementPath: string[]): XmlSchemaElement[] {
+    if (!elementPath.length) {
+      return [...this.elements.keys()].map(name => XmlSchemaSet.splitName(name));
+    }
+
+    const declaration = this.findElementDeclaration(elementPath);
+    const contentModel = declaration && this.getContentModel(declaration);
+    return [...(contentModel?.elementDeclarations.keys() ?? [])].map(name => XmlSchemaSet.splitName(name));
+  }
+
+  /**
+   * Gets the attributes the schemas allow on an element.
+   *
+   * @param {string[]} elementPath The '{namespace}localName' names of the element and its ancestors starting at the root element.
+   * @returns {XmlSchemaAttribute[]} The allowed attributes or an empty array if the element isn't declared.
+   */
+  getAttributes(elementPath: string[]): XmlSchemaAttribute[] {
+    const declaration = this.findElementDeclaration(elementPath);
+    const contentModel = declaration && this.getContentModel(declaration);
+    return [...(contentModel?.attributes ?? [])].map(([name, attributeUse]) => ({
+      ...XmlSchemaSet.splitName(name),
+      isRequired: attributeUse.isRequired,
+    }));
+  }
+
+  /**
+   * Gets the values of an attribute whose type is an enumeration, e.g. the values of w:val on w:jc.
+   *
+   * @param {string[]} elementPath The '{namespace}localName' names of the element and its ancestors starting at the root element.
+   * @param {string} attributeName The '{namespace}localName' name of the attribute.
+   * @returns {string[]} The enumerated values or an empty array if the attribute's type isn't an enumeration.
+   */
+  getAttributeValues(elementPath: string[], attributeName: string): string[] {
+    const declaration = this.findElementDeclaration(elementPath);
+    const attributeDeclaration = declaration && this.getContentModel(declaration)?.attributes.get(attributeName)?.declaration;
+    if (!attributeDeclaration) {
+      return [];
+    }
+
+    const typeName = attributeDeclaration.getAttribute('type');
+    return this.getEnumerationValues(
+      typeName ? XmlSchemaSet.resolveName(attributeDeclaration, typeName) : undefined,
+      XmlSchemaSet.getSchemaChildren(attributeDeclaration).find(c => c.localName === 'simpleType'),
+      new Set(),
+    );
+  }
+
+  /**
+   * Gets the type and documentation of an element.
+   *
+   * @param {string[]} elementPath The '{namespace}localName' names of the element and its ancestors starting at the root element.
+   * @returns {XmlSchemaDefinition | undefined} The definition or undefined if the element isn't declared.
+   */
+  getElementDefinition(elementPath: string[]): XmlSchemaDefinition | undefined {
+    const declaration = this.findElementDeclaration(elementPath);
+    return declaration && XmlSchemaSet.getDefinition(declaration, this.complexTypes);
+  }
+
+  /**
+   * Gets the type and documentation of an attribute.
+   *
+   * @param {string[]} elementPath The '{namespace}localName' names of the element and its ancestors starting at the root element.
+   * @param {string} attributeName The '{namespace}localName' name of the attribute.
+   * @returns {XmlSchemaDefinition | undefined} The definition or undefined if the attribute isn't declared on the element.
+   */
+  getAttributeDefinition(elementPath: string[], attributeName: string): XmlSchemaDefinition | undefined {
+    const declaration = this.findElementDeclaration(elementPath);
+    const attributeDeclaration = declaration && this.getContentModel(declaration)?.attributes.get(attributeName)?.declaration;
+    return attributeDeclaration && XmlSchemaSet.getDefinition(attributeDeclaration, this.simpleTypes);
+  }
+
+  private static getDefinition(declaration: Element, typeDefinitions: Map<string, Element>): XmlSchemaDefinition {
+    const typeName = declaration.getAttribute('type');
+    const resolvedTypeName = typeName ? XmlSchemaSet.resolveName(declaration, typeName) : undefined;
+    const typeDefinition = resolvedTypeName ? typeDefinitions.get(resolvedTypeName) : undefined;
+    return {
+      typeName: resolvedTypeName && XmlSchemaSet.splitName(resolvedTypeName).localName,
+      // the declaration's own documentation is more specific than its type's
+      documentation: XmlSchemaSet.getDocumentation(declaration) ?? (typeDefinition && XmlSchemaSet.getDocumentation(typeDefinition)),
+    };
+  }
+
+  private static getDocumentation(component: Element): string | undefined {
+    const annotation = XmlSchemaSet.getSchemaChildren(component).find(c => c.localName === 'annotation');
+    const documentation = annotation && XmlSchemaSet.getSchemaChildren(annotation).find(c => c.localName === 'documentation');
+    return documentation?.textContent?.trim() || undefined;
+  }
+
+  private findElementDeclaration(elementPath: string[]): Element | undefined {
+    let declaration = this.elements.get(elementPath[0]);
+    for (const name of elementPath.slice(1)) {
+      if (!declaration) {
+        return undefined;
+      }
+
+      declaration = this.getContentModel(declaration)?.elementDeclarations.get(name) ?? this.elements.get(name);
+    }
+
+    return declaration;
+  }
+
+  /**
+   * Gets the enumerated values of a simple type, following restrictions without enumerations to their base type and unions to their members.
+   *
+   * @param {string | undefined} typeName The '{namespace}localName' name of the simple type.
+   * @param {Element | undefined} simpleType The xsd:simpleType if it is anonymous.
+   * @param {Set<Element>} visitedSimpleTypes The simple types already visited.
+   * @returns {string[]} The enumerated values.
+   */
+  private getEnumerationValues(typeName: string | undefined, simpleType: Element | undefined, visitedSimpleTypes: Set<Element>): string[] {
+    if (typeName === `{${XSD_NAMESPACE}}boolean`) {
+      return ['true', 'false'];
+    }
+
+    simpleType = simpleType ?? (typeName ? this.simpleTypes.get(typeName) : undefined);
+    if (!simpleType || visitedSimpleTypes.has(simpleType)) {
+      return [];
+    }
+
+    visitedSimpleTypes.add(simpleType);
+    const values: string[] = [];
+    for (const derivation of XmlSchemaSet.getSchemaChildren(simpleType)) {
+      const simpleTypes = XmlSchemaSet.getSchemaChildren(derivation).filter(c => c.localName === 'simpleType');
+      if (derivation.localName === 'restriction') {
+        const enumerationValues = XmlSchemaSet.getSchemaChildren(derivation)
+          .filter(c => c.localName === 'enumeration')
+          .map(c => c.getAttribute('value') ?? '');
+        const baseTypeName = derivation.getAttribute('base');
+        values.push(
+          ...(enumerationValues.length
+            ? enumerationValues
+            : this.getEnumerationValues(
+                baseTypeName ? XmlSchemaSet.resolveName(derivation, baseTypeName) : undefined,
+                simpleTypes[0],
+                visitedSimpleTypes,
+              )),
+        );
+      } else if (derivation.localName === 'union') {
+        const memberTypeNames = (derivation.getAttribute('memberTypes') ?? '').split(/\s+/).filter(n => n);
+        memberTypeNames.forEach(n =>
+          values.push(...this.getEnumerationValues(XmlSchemaSet.resolveName(derivation, n), undefined, visitedSimpleTypes)),
+        );
+        simpleTypes.forEach(t => values.push(...this.getEnumerationValues(undefined, t, visitedSimpleTypes)));
+      }
+    }
+
+    return [...new Set(values)];
+  }
+
+  private addSchema(schema: Element | null): string[] {
+    if (!schema) {
+      return [];
+    }
+
+    const targetNamespace = schema.getAttribute('targetNamespace') ?? '';
+    this.targetNamespaces.add(targetNamespace);
+
+    const referencedFileNames: string[] = [];
+    for (const component of XmlSchemaSet.getSchemaChildren(schema)) {
+      const name = `{${targetNamespace}}${component.getAttribute('name')}`;
+      switch (component.localName) {
+        case 'element':
+          this.elements.set(name, component);
+          break;
+        case 'complexType':
+          this.complexTypes.set(name, component);
+          break;
+        case 'simpleType':
+          this.simpleTypes.set(name, component);
+          break;
+        case 'attribute':
+          this.attributes.set(name, component);
+          break;
+        case 'group':
+          this.groups.set(name, component);
+          break;
+        case 'attributeGroup':
+          this.attributeGroups.set(name, component);
+          break;
+        case 'import':
+        case 'include': {
+          // schemas on the web, e.g. the Dublin Core schemas the core properties import, aren't downloaded,
+          // so the elements they declare are ignored like the ones in namespaces no schema defines
+          const schemaLocation = component.getAttribute('schemaLocation');
+          if (schemaLocation && !/^[a-z][a-z0-9+.-]*:/i.test(schemaLocation)) {
+            referencedFileNames.push(schemaLocation);
+          }
+          break;
+        }
+      }
+    }
+
+    return referencedFileNames;
+  }
+
+  private validateElement(element: Element, declaration: Element, errors: XmlSchemaError[]): void {
+    if (errors.length >= MAXIMUM_NUMBER_OF_ERRORS) {
+      return;
+    }
+
+    const contentModel = this.getContentModel(declaration);
+    if (!contentModel) {
+      return;
+    }
+
+    for (const attribute of Array.from(element.attributes)) {
+      const namespace = attribute.namespaceURI ?? '';
+      const isIgnored =
+        namespace === XMLNS_NAMESPACE ||
+        namespace === XML_NAMESPACE ||
+        attribute.name === 'xmlns' ||
+        attribute.name.startsWith('xmlns:') ||
+        (namespace && !this.targetNamespaces.has(namespace));
+      if (!isIgnored && !contentModel.anyAttribute && !contentModel.attributes.has(`{${namespace}}${attribute.localName}`)) {
+        XmlSchemaSet.addError(errors, element, `Attribute '${attribute.name}' is not allowed on '${element.tagName}'`);
+      }
+    }
+
+    for (const [name, { isRequired }] of contentModel.attributes) {
+      const { namespace, localName } = XmlSchemaSet.splitName(name);
+      if (isRequired && !element.hasAttributeNS(namespace || null, localName)) {
+        XmlSchemaSet.addError(errors, element, `'${element.tagName}' is missing the required attribute '${localName}'`);
+      }
+    }
+
+    const children = Array.from(element.childNodes).filter(
+      (node): node is Element => node.nodeType === node.ELEMENT_NODE && this.targetNamespaces.has((node as Element).namespaceURI ?? ''),
+    );
+    const unknownChildren = children.filter(
+      child =>
+        !contentModel.elementDeclarations.has(XmlSchemaSet.getName(child)) &&
+        !contentModel.wildcards.some(wildcard => XmlSchemaSet.allowsNamespace(wildcard, child.namespaceURI ?? '')),
+    );
+    unknownChildren.forEach(child => XmlSchemaSet.addError(errors, child, `'${child.tagName}' is not allowed in '${element.tagName}'`));
+
+    if (!unknownChildren.length && !this.matches(contentModel.particle, children)) {
+      const expectedNames = [...contentModel.elementDeclarations.keys()].map(name => XmlSchemaSet.splitName(name).localName);
+      XmlSchemaSet.addError(
+        errors,
+        element,
+        `The child elements of '${element.tagName}' are not in the order or number the schema requires: ${expectedNames.join(', ')}`,
+      );
+    }
+
+    for (const child of children) {
+      const childDeclaration =
+        contentModel.elementDeclarations.get(XmlSchemaSet.getName(child)) ?? this.elements.get(XmlSchemaSet.getName(child));
+      if (childDeclaration) {
+        this.validateElement(child, childDeclaration, errors);
+      }
+    }
+  }
+
+  /**
+   * Gets the content model of an element declaration.
+   *
+   * @param {Element} declaration The xsd:element.
+   * @returns {ContentModel | undefined} The content model or undefined if the element can contain anything
+   *  or its type references a component that isn't in the schemas.
+   */
+  private getContentModel(declaration: Element): ContentModel | undefined {
+    const typeName = declaration.getAttribute('type');
+    const resolvedTypeName = typeName ? XmlSchemaSet.resolveName(declaration, typeName) : undefined;
+    const typeDefinition = resolvedTypeName
+      ? this.complexTypes.get(resolvedTypeName)
+      : XmlSchemaSet.getSchemaChildren(declaration).find(c => c.localName === 'complexType');
+    const hasSimpleType = resolvedTypeName
+      ? this.simpleTypes.has(resolvedTypeName) ||
+        (resolvedTypeName.startsWith(`{${XSD_NAMESPACE}}`) && resolvedTypeName !== `{${XSD_NAMESPACE}}anyType`)
+      : XmlSchemaSet.getSchemaChildren(declaration).some(c => c.localName === 'simpleType');
+    if (hasSimpleType) {
+      return { particle: undefined, attributes: new Map(), anyAttribute: false, elementDeclarations: new Map(), wildcards: [] };
+    }
+
+    if (!typeDefinition) {
+      return undefined;
+    }
+
+    try {
+      return this.compileComplexType(typeDefinition);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private compileComplexType(complexType: Element): ContentModel {
+    const cachedContentModel = this.contentModels.get(complexType);
+    if (cachedContentModel) {
+      return cachedContentModel;
+    }
+
+    const contentModel: ContentModel = {
+      particle: undefined,
+      attributes: new Map(),
+      anyAttribute: false,
+      elementDeclarations: new Map(),
+      wildcards: [],
+    };
+
+    const content = XmlSchemaSet.getSchemaChildren(complexType).find(
+      c => c.localName === 'complexContent' || c.localName === 'simpleContent',
+    );
+    const derivation =
+      content && XmlSchemaSet.getSchemaChildren(content).find(c => c.localName === 'extension' || c.localName === 'restriction');
+    if (derivation) {
+      const baseType = this.complexTypes.get(XmlSchemaSet.resolveName(derivation, derivation.getAttribute('base') ?? ''));
+      const baseContentModel = baseType && this.compileComplexType(baseType);
+      baseContentModel?.attributes.forEach((attributeUse, name) => contentModel.attributes.set(name, attributeUse));
+      contentModel.anyAttribute = !!baseContentModel?.anyAttribute;
+
+      const particle = this.compileParticles(derivation)[0];
+      // an extension appends its particle to the base type's, a restriction restates the whole content
+      contentModel.particle =
+        derivation.localName === 'extension' && baseContentModel?.particle && particle
+          ? { kind: 'sequence', particles: [baseContentModel.particle, particle], minOccurs: 1, maxOccurs: 1 }
+          : derivation.localName === 'extension'
+            ? particle ?? baseContentModel?.particle
+            : particle;
+      this.addAttributes(derivation, contentModel);
+    } else {
+      contentModel.particle = this.compileParticles(complexType)[0];
+      this.addAttributes(complexType, contentModel);
+    }
+
+    XmlSchemaSet.addElementDeclarations(contentModel.particle, contentModel);
+    this.contentModels.set(complexType, contentModel);
+    return contentModel;
+  }
+
+  private compileParticles(parent: Element): Particle[] {
+    const particles: Particle[] = [];
+    for (const node of XmlSchemaSet.getSchemaChildren(parent)) {
+      const minOccurs = Number(node.getAttribute('minOccurs') ?? 1);
+      const maxOccursAttribute = node.getAttribute('maxOccurs');
+      const maxOccurs = maxOccursAttribute === 'unbounded' ? Infinity : Number(maxOccursAttribute ?? 1);
+
+      switch (node.localName) {
+        case 'element': {
+          const ref = node.getAttribute('ref');
+          const name = ref ? XmlSchemaSet.resolveName(node, ref) : XmlSchemaSet.getLocalElementName(node);
+          const declaration = ref ? this.elements.get(name) : node;
+          if (!declaration) {
+            throw new Error(`'${ref}' is not defined`);
+          }
+
+          particles.push({ kind: 'element', name: name, declaration: declaration, minOccurs: minOccurs, maxOccurs: maxOccurs });
+          break;
+        }
+        case 'sequence':
+        case 'choice':
+        case 'all':
+          particles.push({ kind: node.localName, particles: this.compileParticles(node), minOccurs: minOccurs, maxOccurs: maxOccurs });
+          break;
+        case 'group': {
+          const group = this.groups.get(XmlSchemaSet.resolveName(node, node.getAttribute('ref') ?? ''));
+          if (!group) {
+            throw new Error(`'${node.getAttribute('ref')}' is not defined`);
+          }
+
+          particles.push({ kind: 'sequence', particles: this.compileParticles(group), minOccurs: minOccurs, maxOccurs: maxOccurs });
+          break;
+        }
+        case 'any':
+          particles.push({
+            kind: 'any',
+            wildcard: { namespace: node.getAttribute('namespace') ?? '##any', targetNamespace: XmlSchemaSet.getTargetNamespace(node) },
+            minOccurs: minOccurs,
+            maxOccurs: maxOccurs,
+          });
+          break;
+      }
+    }
+
+    return particles;
+  }
+
+  private addAttributes(parent: Element, contentModel: ContentModel): void {
+    for (const node of XmlSchemaSet.getSchemaChildren(parent)) {
+      if (node.localName === 'attribute') {
+        const ref = node.getAttribute('ref');
+        const form = node.getAttribute('form') ?? node.ownerDocument?.documentElement?.getAttribute('attributeFormDefault');
+        const name = ref
+          ? XmlSchemaSet.resolveName(node, ref)
+          : `{${form === 'qualified' ? XmlSchemaSet.getTargetNamespace(node) : ''}}${node.getAttribute('name')}`;
+        if (node.getAttribute('use') === 'prohibited') {
+          contentModel.attributes.delete(name);
+        } else {
+          contentModel.attributes.set(name, {
+            isRequired: node.getAttribute('use') === 'required',
+            declaration: (ref && this.attributes.get(name)) || node,
+          });
+        }
+      } else if (node.localName === 'attributeGroup') {
+        const attributeGroup = this.attributeGroups.get(XmlSchemaSet.resolveName(node, node.getAttribute('ref') ?? ''));
+        if (!attributeGroup) {
+          throw new Error(`'${node.getAttribute('ref')}' is not defined`);
+        }
+
+        this.addAttributes(attributeGroup, contentModel);
+      } else if (node.localName === 'anyAttribute') {
+        contentModel.anyAttribute = true;
+      }
+    }
+  }
+
+  private static addElementDeclarations(particle: Particle | undefined, contentModel: ContentModel): void {
+    if (particle?.kind === 'element') {
+      contentModel.elementDeclarations.set(particle.name, particle.declaration);
+    } else if (particle?.kind === 'any') {
+      contentModel.wildcards.push(particle.wildcard);
+    } else if (particle) {
+      particle.particles.forEach(p => XmlSchemaSet.addElementDeclarations(p, contentModel));
+    }
+  }
+
+  /**
+   * Checks whether the child elements match the particle, i.e. whether they are in the right order and number.
+   *
+   * @param {Particle | undefined} particle The particle of the content model, undefined if the element can't have child elements.
+   * @param {Element[]} children The child elements.
+   * @returns {boolean} Whether or not the child elements match.
+   */
+  private matches(particle: Particle | undefined, children: Element[]): boolean {
+    if (!particle) {
+      return !children.length;
+    }
+
+    const childNames = children.map(child => XmlSchemaSet.getName(child));
+    const matchedPositions = new Map<Particle, Map<number, number[]>>();
+
+    // returns the positions after each way the particle can match once starting at a position
+    const matchOnce = (p: Particle, position: number): number[] => {
+      switch (p.kind) {
+        case 'element':
+          return childNames[position] === p.name ? [position + 1] : [];
+        case 'any':
+          return position < children.length && XmlSchemaSet.allowsNamespace(p.wildcard, children[position].namespaceURI ?? '')
+            ? [position + 1]
+            : [];
+        case 'sequence':
+          return p.particles.reduce((positions, q) => [...new Set(positions.flatMap(x => matchRepeatedly(q, x)))], [position]);
+        case 'choice':
+          return [...new Set(p.particles.flatMap(q => matchRepeatedly(q, position)))];
+        case 'all': {
+          // the elements of an all can be in any order
+          let end = position;
+          while (end < children.length && p.particles.some(q => matchRepeatedly(q, end).includes(end + 1))) {
+            end++;
+          }
+
+          return Array.from({ length: end - position + 1 }, (_, i) => position + i);
+        }
+      }
+    };
+
+    // returns the positions after each way the particle can match between its minimum and maximum number of times
+    const matchRepeatedly = (p: Particle, position: number): number[] => {
+      const cachedPositions = matchedPositions.get(p)?.get(position);
+      if (cachedPositions) {
+        return cachedPositions;
+      }
+
+      const ends = new Set<number>(p.minOccurs === 0 ? [position] : []);
+      const visited = new Set<number>();
+      let frontier = [position];
+      for (let count = 1; frontier.length && count <= p.maxOccurs; count++) {
+        const next = new Set<number>();
+        for (const x of frontier) {
+          for (const end of matchOnce(p, x)) {
+            // a particle that can match nothing can match any number of times
+            if (end === x) {
+              ends.add(x);
+            } else {
+              next.add(end);
+            }
+          }
+        }
+
+        if (count >= p.minOccurs) {
+          next.forEach(end => ends.add(end));
+          frontier = [...next].filter(end => !visited.has(end));
+          next.forEach(end => visited.add(end));
+        } else {
+          frontier = [...next];
+        }
+      }
+
+      const positions = [...ends];
+      matchedPositions.set(p, (matchedPositions.get(p) ?? new Map()).set(position, positions));
+      return positions;
+    };
+
+    return matchRepeatedly(particle, 0).includes(children.length);
+  }
+
+  private static getSchemaChildren(parent: Element): Element[] {
+    return Array.from(parent.childNodes).filter(
+      (node): node is Element => node.nodeType === node.ELEMENT_NODE && (node as Element).namespaceURI === XSD_NAMESPACE,
+    );
+  }
+
+  private static getTargetNamespace(node: Element): string {
+    return node.ownerDocument?.documentElement?.getAttribute('targetNamespace') ?? '';
+  }
+
+  private static getLocalElementName(node: Element): string {
+    const form = node.getAttribute('form') ?? node.ownerDocument?.documentElement?.getAttribute('elementFormDefault');
+    return `{${form === 'qualified' ? XmlSchemaSet.getTargetNamespace(node) : ''}}${node.getAttribute('name')}`;
+  }
+
+  private static resolveName(node: Element, qualifiedName: string): string {
+    // xmldom looks up the default namespace with an empty prefix rather than null
+    const [prefix, localName] = qualifiedName.includes(':') ? qualifiedName.split(':') : ['', qualifiedName];
+    return `{${node.lookupNamespaceURI(prefix) ?? ''}}${localName}`;
+  }
+
+  private static getName(element: Element): string {
+    return `{${element.namespaceURI ?? ''}}${element.localName}`;
+  }
+
+  private static splitName(name: string): { namespace: string; localName: string } {
+    const namespaceEnd = name.indexOf('}');
+    return { namespace: name.substring(1, namespaceEnd), localName: name.substring(namespaceEnd + 1) };
+  }
+
+  private static allowsNamespace(wildcard: Wildcard, namespace: string): boolean {
+    if (wildcard.namespace === '##any') {
+      return true;
+    }
+
+    if (wildcard.namespace === '##other') {
+      return namespace !== wildcard.targetNamespace && namespace !== '';
+    }
+
+    return wildcard.namespace
+      .split(/\s+/)
+      .map(n => (n === '##targetNamespace' ? wildcard.targetNamespace : n === '##local' ? '' : n))
+      .includes(namespace);
+  }
+
+  private static addError(errors: XmlSchemaError[], node: Element, message: string): void {
+    errors.push({ message: message, lineNumber: node.lineNumber ?? 1, columnNumber: node.columnNumber ?? 1 });
+  }
+}
+
+/**
+ * An element the schemas declare.
+ */
+export interface XmlSchemaElement {
+  namespace: string;
+  localName: string;
+}
+
+/**
+ * An attribute the schemas declare on an element.
+ */
+export interface XmlSchemaAttribute {
+  namespace: string;
+  localName: string;
+  isRequired: boolean;
+}
+
+/**
+ * The type and documentation of an element or attribute.
+ */
+export interface XmlSchemaDefinition {
+  /**
+   * The local name of the type, undefined if the type is anonymous.
+   */
+  typeName: string | undefined;
+  documentation: string | undefined;
+}
+
+/**
+ * An element of an xml document that doesn't follow the schema, the line and column numbers start at 1.
+ */
+export interface XmlSchemaError {
+  message: string;
+  lineNumber: number;
+  columnNumber: number;
+}
+
+interface AttributeUse {
+  isRequired: boolean;
+  declaration: Element;
+}
+
+interface Wildcard {
+  namespace: string;
+  targetNamespace: string;
+}
+
+type Particle = { minOccurs: number; maxOccurs: number } & (
+  | { kind: 'element'; name: string; declaration: Element }
+  | { kind: 'any'; wildcard: Wildcard }
+  | { kind: 'sequence' | 'choice' | 'all'; particles: Particle[] }
+);
+
+/**
+ * The allowed attributes and child elements of an element.
+ */
+interface ContentModel {
+  /**
+   * The particle the child elements must match, undefined if the element can't have child elements.
+   */
+  particle: Particle | undefined;
+  /**
+   * The allowed attributes, keyed by '{namespace}localName'.
+   */
+  attributes: Map<string, AttributeUse>;
+  anyAttribute: boolean;
+  /**
+   * The declarations of the allowed child elements, keyed by '{namespace}localName'.
+   */
+  elementDeclarations: Map<string, Element>;
+  wildcards: Wildcard[];
+}
@@ -0,0 +1,120 @@
+// Matches comments, cdata sections, processing instructions and tags, including an unfinished one at the end of the text
+const MARKUP_PATTERN =
+  /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<[?!][\s\S]*?(?:>|$)|<(\/?)([\w.:-]+)((?:[^>"'/]|\/(?!>)|"[^"]*(?:"|$)|'[^']*(?:'|$))*)(\/?>)?/g;
+const NAMESPACE_DECLARATION_PATTERN = /\sxmlns(?::([\w.-]+))?\s*=\s*(["'])(.*?)\2/g;
+
+/**
+ * Scans xml that may not be well-formed, e.g. a part that is being edited, for the start tag a position is in.
+ */
+export class XmlTagScanner {
+  /**
+   * Finds the start tag the text ends in, along with the elements it is in and the namespaces in scope.
+   *
+   * @param {string} text The xml up to a position, e.g. the text of a part before the cursor.
+   * @returns {UnfinishedTag | undefined} The start tag or undefined if the text doesn't end in a start tag,
+   *  e.g. it ends in text content, a comment or an end tag.
+   */
+  static findUnfinishedTag(text: string): UnfinishedTag | undefined {
+    const openElements: { qualifiedName: string; namespaces: Map<string, string> }[] = [];
+    const getAncestorPath = () => openElements.map(e => XmlTagScanner.resolveName(e.qualifiedName, e.namespaces, true));
+    const getNamespaces = (attributesText: string) => {
+      const namespaces = new Map(openElements[openElements.length - 1]?.namespaces);
+      for (const match of attributesText.matchAll(NAMESPACE_DECLARATION_PATTERN)) {
+        namespaces.set(match[1] ?? '', match[3]);
+      }
+
+      return namespaces;
+    };
+
+    for (const match of text.matchAll(MARKUP_PATTERN)) {
+      const [markup, closingSlash, qualifiedName, attributesText, tagEnd] = match;
+      const isAtEnd = (match.index ?? 0) + markup.length === text.length;
+      if (!qualifiedName) {
+        // the text ends inside a comment, cdata section or processing instruction
+        if (isAtEnd && !/(-->|]]>|>)$/.test(markup)) {
+          return undefined;
+        }
+
+        continue;
+      }
+
+      if (!tagEnd) {
+        return isAtEnd && !closingSlash
+          ? {
+              ancestorPath: getAncestorPath(),
+              namespaces: getNamespaces(attributesText),
+              qualifiedName: qualifiedName,
+              attributesText: attributesText,
+            }
+          : undefined;
+      }
+
+      if (closingSlash) {
+        openElements.pop();
+      } else if (tagEnd === '>') {
+        openElements.push({ qualifiedName: qualifiedName, namespaces: getNamespaces(attributesText) });
+      }
+    }
+
+    // a '<' that isn't followed by a name yet
+    return text.endsWith('<')
+      ? { ancestorPath: getAncestorPath(), namespaces: getNamespaces(''), qualifiedName: '', attributesText: '' }
+      : undefined;
+  }
+
+  /**
+   * Resolves a qualified name to a '{namespace}localName' name.
+   * Unprefixed element names are in the default namespace, unprefixed attribute names aren't in a namespace.
+   *
+   * @param {string} qualifiedName The qualified name, e.g. w:p.
+   * @param {Map<string, string>} namespaces The namespaces in scope keyed by prefix.
+   * @param {boolean} isElement Whether the name is the name of an element or of an attribute.
+   * @returns {string} The '{namespace}localName' name.
+   */
+  static resolveName(qualifiedName: string, namespaces: Map<string, string>, isElement: boolean): string {
+    const separatorIndex = qualifiedName.indexOf(':');
+    const prefix = separatorIndex !== -1 ? qualifiedName.substring(0, separatorIndex) : isElement ? '' : undefined;
+    const namespace = prefix !== undefined ? namespaces.get(prefix) ?? '' : '';
+    return `{${namespace}}${qualifiedName.substring(separatorIndex + 1)}`;
+  }
+
+  /**
+   * Gets the qualified name of an element or attribute using the prefixes in scope.
+   *
+   * @param {string} namespace The namespace of the element or attribute.
+   * @param {string} localName The local name of the element or attribute.
+   * @param {Map<string, string>} namespaces The namespaces in scope keyed by prefix.
+   * @param {boolean} isElement Whether the name is the name of an element or of an attribute.
+   * @returns {string | undefined} The qualified name or undefined if no prefix is declared for the namespace.
+   */
+  static getQualifiedName(namespace: string, localName: string, namespaces: Map<string, string>, isElement: boolean): string | undefined {
+    if (!namespace || (isElement && namespaces.get('') === namespace)) {
+      return localName;
+    }
+
+    const prefix = [...namespaces].find(([p, n]) => p && n === namespace)?.[0];
+    return prefix ? `${prefix}:${localName}` : undefined;
+  }
+}
+
+/**
+ * A start tag that isn't finished yet.
+ */
+export interface UnfinishedTag {
+  /**
+   * The '{namespace}localName' names of the elements the tag is in, starting at the root element.
+   */
+  ancestorPath: string[];
+  /**
+   * The namespaces in scope in the tag, including the ones it declares, keyed by prefix. The default namespace has an empty prefix.
+   */
+  namespaces: Map<string, string>;
+  /**
+   * The qualified name of the element, empty if only the '<' has been typed.
+   */
+  qualifiedName: string;
+  /**
+   * The text of the tag after the name.
+   */
+  attributesText: string;
+}
@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SinonStub, stub } from 'sinon';
+import { Uri, WebviewPanel } from 'vscode';
+import { OOXMLHexViewProvider } from '../../../src/editors/ooxml-hex-view-provider';
+import { ExtensionUtilities } from '../../../src/utilities/extension-utilities';
+import { FileSystemUtilities } from '../../../src/utilities/file-system-utilities';
+
+suite('OOXMLHexViewProvider', function () {
+  const stubs: SinonStub[] = [];
+  let readFileStub: SinonStub;
+  let provider: OOXMLHexViewProvider;
+
+  async function resolveView(uri: string): Promise<WebviewPanel> {
+    const webviewPanel = <WebviewPanel>(<unknown>{ webview: { html: '', options: {} } });
+    const document = provider.openCustomDocument(Uri.parse(uri));
+    await provider.resolveCustomEditor(document, webviewPanel);
+    return webviewPanel;
+  }
+
+  setup(function () {
+    readFileStub = stub(FileSystemUtilities, 'readFile').returns(Promise.resolve(new Uint8Array([0x00, 0x01, 0x3c, 0x26, 0x41])));
+    stubs.push(readFileStub);
+
+    provider = new OOXMLHexViewProvider();
+  });
+
+  teardown(function () {
+    stubs.forEach(s => s.restore());
+    stubs.length = 0;
+  });
+
+  test('should show the size and the hex dump of the file', async function () {
+    const webviewPanel = await resolveView('ooxml:/Test.xlsx/xl/printerSettings/printerSettings1.bin');
+
+    expect(webviewPanel.webview.options.enableScripts).to.be.false;
+    expect(webviewPanel.webview.html).to.contain('<p>5 bytes</p>');
+    expect(webviewPanel.webview.html).to.contain(`00000000  ${'00 01 3c 26 41'.padEnd(47)}  ..&lt;&amp;A`);
+    expect(webviewPanel.webview.html).not.to.contain('Compound file storages and streams');
+  });
+
+  test('should list the storages and streams of a compound file', async function () {
+    const data = new Uint8Array(readFileSync(join(__dirname, '..', '..', '..', '..', 'test', 'test-data', 'ole-object.bin')));
+    readFileStub.returns(Promise.resolve(data));
+
+    const webviewPanel = await resolveView('ooxml:/Test.docx/word/embeddings/oleObject1.bin');
+
+    expect(webviewPanel.webview.html).to.contain('<h3>Compound file storages and streams</h3>');
+    expect(webviewPanel.webview.html).to.contain('<tr><td>[1]Ole</td><td>Stream</td><td>20 bytes</td></tr>');
+    expect(webviewPanel.webview.html).to.contain('<tr><td>Storage1</td><td>Storage</td><td></td></tr>');
+    expect(webviewPanel.webview.html).to.contain('<tr><td>Storage1/Stream1</td><td>Stream</td><td>117 bytes</td></tr>');
+  });
+
+  test('should let the user know if a compound file can not be read', async function () {
+    const data = new Uint8Array(16);
+    data.set([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+    readFileStub.returns(Promise.resolve(data));
+
+    const webviewPanel = await resolveView('ooxml:/Test.docx/word/embeddings/oleObject1.bin');
+
+    expect(webviewPanel.webview.html).to.contain('The compound file could not be read: The file is not a compound file');
+  });
+
+  test('should showError if an error is thrown', async function () {
+    const showErrorStub = stub(ExtensionUtilities, 'showError');
+    stubs.push(showErrorStub);
+    readFileStub.throws(new Error());
+
+    await resolveView('ooxml:/Test.xlsx/xl/printerSettings/printerSettings1.bin');
+
+    expect(showErrorStub.callCount).to.eq(1);
+  });
+});
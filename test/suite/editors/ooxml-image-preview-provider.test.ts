@@ -0,0 +1,102 @@
+import { expect } from 'chai';
+import { createStubInstance, SinonStub, SinonStubbedInstance, stub } from 'sinon';
+import { Uri, WebviewPanel } from 'vscode';
+import { OOXMLImagePreviewProvider } from '../../../src/editors/ooxml-image-preview-provider';
+import { Relationship } from '../../../src/ooxml-package/ooxml-package-relationships';
+import { OOXMLViewer } from '../../../src/ooxml-viewer';
+import { ExtensionUtilities } from '../../../src/utilities/extension-utilities';
+import { FileSystemUtilities } from '../../../src/utilities/file-system-utilities';
+
+suite('OOXMLImagePreviewProvider', function () {
+  const stubs: SinonStub[] = [];
+  let ooxmlViewer: SinonStubbedInstance<OOXMLViewer>;
+  let readFileStub: SinonStub;
+  let provider: OOXMLImagePreviewProvider;
+
+  async function resolvePreview(uri: string): Promise<WebviewPanel> {
+    const webviewPanel = <WebviewPanel>(<unknown>{ webview: { html: '', options: {} } });
+    const document = provider.openCustomDocument(Uri.parse(uri));
+    await provider.resolveCustomEditor(document, webviewPanel);
+    return webviewPanel;
+  }
+
+  setup(function () {
+    ooxmlViewer = createStubInstance(OOXMLViewer);
+    ooxmlViewer.getPartReferences.returns(
+      Promise.resolve({
+        ooxmlPackagePath: 'Test.pptx',
+        filePath: 'ppt/media/image1.emf',
+        references: [
+          {
+            sourcePartPath: 'ppt/slides/slide1.xml',
+            relationship: <Relationship>{ id: 'rId2', type: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image' },
+          },
+        ],
+      }),
+    );
+    // a gif is 13 bytes, the width and height follow the signature
+    const gif = new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x0a, 0x00, 0x14, 0x00, 0x00, 0x00, 0x00]);
+    readFileStub = stub(FileSystemUtilities, 'readFile').returns(Promise.resolve(gif));
+    stubs.push(readFileStub);
+
+    provider = new OOXMLImagePreviewProvider(ooxmlViewer);
+  });
+
+  teardown(function () {
+    stubs.forEach(s => s.restore());
+    stubs.length = 0;
+  });
+
+  test('should show the image with its size, file size and the parts that reference it', async function () {
+    const webviewPanel = await resolvePreview('ooxml:/Test.pptx/ppt/media/image1.gif');
+
+    expect(webviewPanel.webview.options.localResourceRoots).to.be.empty;
+    expect(webviewPanel.webview.html).to.contain('<img src="data:image/gif;base64,R0lGODlhCgAUAAAAAA==" alt="image1.gif">');
+    expect(webviewPanel.webview.html).to.contain('<tr><th>Format</th><td>GIF</td></tr>');
+    expect(webviewPanel.webview.html).to.contain('<tr><th>Dimensions</th><td>10 × 20 pixels</td></tr>');
+    expect(webviewPanel.webview.html).to.contain('<tr><th>File size</th><td>13 bytes</td></tr>');
+    expect(webviewPanel.webview.html).to.contain('<li>ppt/slides/slide1.xml <code>rId2</code> image</li>');
+    expect(ooxmlViewer.getPartReferences.args[0][0].toString()).to.eq('ooxml:/Test.pptx/ppt/media/image1.gif');
+  });
+
+  test('should describe images that can not be rendered from their headers', async function () {
+    const emf = new Uint8Array(88);
+    const view = new DataView(emf.buffer);
+    [
+      [0, 1],
+      [16, 1439],
+      [20, 719],
+      [40, 0x464d4520],
+      [72, 960],
+      [76, 960],
+      [80, 254],
+      [84, 254],
+    ].forEach(([offset, value]) => view.setUint32(offset, value, true));
+    readFileStub.returns(Promise.resolve(emf));
+
+    const webviewPanel = await resolvePreview('ooxml:/Test.pptx/ppt/media/image1.emf');
+
+    expect(webviewPanel.webview.html).not.to.contain('<img');
+    expect(webviewPanel.webview.html).to.contain("EMF images can't be shown here, the details are read from the header.");
+    expect(webviewPanel.webview.html).to.contain('<tr><th>Resolution</th><td>96 × 96 DPI</td></tr>');
+    expect(webviewPanel.webview.html).to.contain('<tr><th>Print size</th><td>38.1 × 19.05 cm (15 × 7.5 in)</td></tr>');
+  });
+
+  test('should let the user know if the image is not a part of an opened package', async function () {
+    ooxmlViewer.getPartReferences.returns(Promise.resolve(undefined));
+
+    const webviewPanel = await resolvePreview('file:/images/image1.gif');
+
+    expect(webviewPanel.webview.html).to.contain("The image isn't a part of an opened OOXML package.");
+  });
+
+  test('should showError if an error is thrown', async function () {
+    const showErrorStub = stub(ExtensionUtilities, 'showError');
+    stubs.push(showErrorStub);
+    readFileStub.throws(new Error());
+
+    await resolvePreview('ooxml:/Test.pptx/ppt/media/image1.gif');
+
+    expect(showErrorStub.callCount).to.eq(1);
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from 'chai';
+import { FileChangeEvent, FileChangeType, FileSystemError, FileType, Uri } from 'vscode';
+import { OOXMLFileSystemProvider, PackageFileSystem } from '../../../src/file-system/ooxml-file-system-provider';
+
+suite('OOXMLFileSystemProvider', function () {
+  let provider: OOXMLFileSystemProvider;
+
+  function createFileSystem(text: string): PackageFileSystem {
+    return {
+      stat: () => Promise.resolve({ type: FileType.File, ctime: 0, mtime: 0, size: text.length }),
+      readFile: () => Promise.resolve(new TextEncoder().encode(text)),
+      writeFile: () => Promise.resolve(),
+    };
+  }
+
+  async function getError(promise: Promise<unknown>): Promise<FileSystemError | undefined> {
+    try {
+      await promise;
+    } catch (err) {
+      return err as FileSystemError;
+    }
+
+    return undefined;
+  }
+
+  setup(function () {
+    provider = new OOXMLFileSystemProvider();
+  });
+
+  test('should read the files from the package the file belongs to', async function () {
+    provider.register(Uri.parse('ooxml:/files/report.docx'), createFileSystem('report'));
+    provider.register(Uri.parse('ooxml:/files/book.xlsx'), createFileSystem('book'));
+
+    const data = await provider.readFile(Uri.parse('ooxml:/files/book.xlsx/xl/workbook.xml'));
+
+    expect(new TextDecoder().decode(data)).to.eq('book');
+  });
+
+  test('should find the embedded package of files below the part of the embedded package', function () {
+    const fileSystem = createFileSystem('report');
+    const embeddedFileSystem = createFileSystem('embedded');
+    provider.register(Uri.parse('ooxml:/report.docx'), fileSystem);
+    provider.register(Uri.parse('ooxml:/report.docx/word/embeddings/Book.xlsx'), embeddedFileSystem);
+
+    expect(provider.findFileSystem(Uri.parse('ooxml:/report.docx/word/embeddings/Book.xlsx'))).to.eq(fileSystem);
+    expect(provider.findFileSystem(Uri.parse('ooxml:/report.docx/word/embeddings/Book.xlsx/xl/workbook.xml'))).to.eq(embeddedFileSystem);
+    expect(provider.findFileSystem(Uri.parse('ooxml:/report.docx.bak/word/document.xml'))).to.be.undefined;
+  });
+
+  test('should not find the files of a package after its registration is disposed', async function () {
+    const registration = provider.register(Uri.parse('ooxml:/report.docx'), createFileSystem('report'));
+
+    registration.dispose();
+
+    const error = await getError(provider.readFile(Uri.parse('ooxml:/report.docx/word/document.xml')));
+    expect(error?.code).to.eq('FileNotFound');
+  });
+
+  test('should keep the files of a package opened again when the old registration is disposed', function () {
+    const registration = provider.register(Uri.parse('ooxml:/report.docx'), createFileSystem('old'));
+    const fileSystem = createFileSystem('new');
+    provider.register(Uri.parse('ooxml:/report.docx'), fileSystem);
+
+    registration.dispose();
+
+    expect(provider.findFileSystem(Uri.parse('ooxml:/report.docx/word/document.xml'))).to.eq(fileSystem);
+  });
+
+  test('should not delete or rename files', function () {
+    const uri = Uri.parse('ooxml:/report.docx/word/document.xml');
+    provider.register(Uri.parse('ooxml:/report.docx'), createFileSystem('report'));
+
+    expect(() => provider.delete(uri))
+      .to.throw(FileSystemError)
+      .with.property('code', 'NoPermissions');
+    expect(() => provider.rename(uri))
+      .to.throw(FileSystemError)
+      .with.property('code', 'NoPermissions');
+  });
+
+  test('should only fire file change events if there are changes', function () {
+    const firedEvents: FileChangeEvent[][] = [];
+    provider.onDidChangeFile(events => firedEvents.push(events));
+    const events = [{ type: FileChangeType.Changed, uri: Uri.parse('ooxml:/report.docx/word/document.xml') }];
+
+    provider.fireDidChangeFile([]);
+    provider.fireDidChangeFile(events);
+
+    expect(firedEvents).to.deep.eq([events]);
+  });
+});
@@ -0,0 +1,65 @@
+import { expect } from 'chai';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import { OOXMLExtensionSettings } from '../../../src/ooxml-extension-settings';
+import { OOXMLPackageBackup } from '../../../src/ooxml-package/ooxml-package-backup';
+import { FileSystemUtilities } from '../../../src/utilities/file-system-utilities';
+
+suite('OOXMLPackageBackup', function () {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const testFolderPath = join(tmpdir(), 'ooxml-viewer-backup-test');
+  const storagePath = join(testFolderPath, 'storage');
+  const ooxmlPackagePath = join(testFolderPath, 'Test.docx');
+  let settings: OOXMLExtensionSettings;
+
+  setup(async function () {
+    settings = <OOXMLExtensionSettings>{ backupLocation: 'besidePackage', maximumNumberOfBackups: 2 };
+    await FileSystemUtilities.writeFile(ooxmlPackagePath, encoder.encode('version 1'));
+  });
+
+  teardown(async function () {
+    await FileSystemUtilities.deleteFile(testFolderPath);
+  });
+
+  async function writeVersionAndBackup(backup: OOXMLPackageBackup, version: number): Promise<void> {
+    await backup.createBackup();
+    await FileSystemUtilities.writeFile(ooxmlPackagePath, encoder.encode(`version ${version}`));
+  }
+
+  test('should keep the newest backups beside the package', async function () {
+    const backup = new OOXMLPackageBackup(ooxmlPackagePath, storagePath, settings);
+
+    await writeVersionAndBackup(backup, 2);
+    await writeVersionAndBackup(backup, 3);
+    await writeVersionAndBackup(backup, 4);
+
+    const backups = await backup.getBackups();
+    expect(backups.map(b => basename(b.filePath))).to.deep.eq(['Test.docx.bak', 'Test.docx.bak.1']);
+    expect(decoder.decode(await FileSystemUtilities.readFile(backups[0].filePath))).to.eq('version 3');
+    expect(decoder.decode(await FileSystemUtilities.readFile(backups[1].filePath))).to.eq('version 2');
+    expect(await FileSystemUtilities.fileExists(join(testFolderPath, 'Test.docx.bak.2'))).to.be.false;
+  });
+
+  test('should keep backups in the extension storage', async function () {
+    settings.backupLocation = 'extensionStorage';
+    const backup = new OOXMLPackageBackup(ooxmlPackagePath, storagePath, settings);
+
+    await writeVersionAndBackup(backup, 2);
+
+    const backups = await backup.getBackups();
+    expect(backups).to.have.lengthOf(1);
+    expect(backups[0].filePath.startsWith(join(storagePath, 'backups'))).to.be.true;
+    expect(decoder.decode(await FileSystemUtilities.readFile(backups[0].filePath))).to.eq('version 1');
+  });
+
+  test('should not back up the package if backups are turned off', async function () {
+    settings.backupLocation = 'none';
+    const backup = new OOXMLPackageBackup(ooxmlPackagePath, storagePath, settings);
+
+    await writeVersionAndBackup(backup, 2);
+
+    expect(await backup.getBackups()).to.be.empty;
+    expect(await FileSystemUtilities.fileExists(join(testFolderPath, 'Test.docx.bak'))).to.be.false;
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from 'chai';
+import { createStubInstance, SinonStub, SinonStubbedInstance, stub } from 'sinon';
+import { Uri } from 'vscode';
+import { OOXMLFileSystemProvider } from '../../../src/file-system/ooxml-file-system-provider';
+import { OOXMLExtensionSettings } from '../../../src/ooxml-extension-settings';
+import { OOXMLPackageComparison } from '../../../src/ooxml-package/ooxml-package-comparison';
+import { OOXMLPackageFileAccessor, PackageFile } from '../../../src/ooxml-package/ooxml-package-file-accessor';
+import { FileNode, OOXMLTreeDataProvider } from '../../../src/tree-view/ooxml-tree-view-provider';
+import { ExtensionUtilities } from '../../../src/utilities/extension-utilities';
+
+suite('OOXMLPackageComparison', function () {
+  const encoder = new TextEncoder();
+  const stubs: SinonStub[] = [];
+  let treeDataProvider: SinonStubbedInstance<OOXMLTreeDataProvider>;
+  let getPackageContentsStub: SinonStub;
+  let comparison: OOXMLPackageComparison;
+  let extensionSettings: OOXMLExtensionSettings;
+  let fileSystemProvider: OOXMLFileSystemProvider;
+
+  function createFile(filePath: string, contents: string): PackageFile {
+    return { filePath: filePath, isDirectory: false, data: encoder.encode(contents) };
+  }
+
+  setup(function () {
+    treeDataProvider = createStubInstance(OOXMLTreeDataProvider);
+    treeDataProvider.rootFileNode = new FileNode();
+    extensionSettings = <OOXMLExtensionSettings>{
+      maximumNumberOfOOXMLParts: 1000,
+      maximumXmlPartsFileSizeBytes: 1000000,
+    };
+    const loadStub = stub(OOXMLPackageFileAccessor.prototype, 'load').returns(Promise.resolve());
+    getPackageContentsStub = stub(OOXMLPackageFileAccessor.prototype, 'getPackageContents');
+    getPackageContentsStub
+      .onFirstCall()
+      .returns(
+        Promise.resolve([
+          { filePath: 'word', isDirectory: true, data: new Uint8Array() },
+          createFile('word/document.xml', '<?xml version="1.0"?><document><body/></document>'),
+          createFile('word/styles.xml', '<?xml version="1.0"?><styles/>'),
+          createFile('word/settings.xml', '<?xml version="1.0"?><settings/>'),
+        ]),
+      );
+    getPackageContentsStub
+      .onSecondCall()
+      .returns(
+        Promise.resolve([
+          createFile('word/document.xml', '<?xml version="1.0"?>\n<document>\n  <body/>\n</document>'),
+          createFile('word/styles.xml', '<?xml version="1.0"?><styles><style/></styles>'),
+          createFile('word/media/image1.png', 'png'),
+        ]),
+      );
+    stubs.push(loadStub, getPackageContentsStub);
+
+    fileSystemProvider = new OOXMLFileSystemProvider();
+    comparison = new OOXMLPackageComparison('before.docx', 'after.docx', treeDataProvider, fileSystemProvider, extensionSettings);
+  });
+
+  teardown(function () {
+    stubs.forEach(s => s.restore());
+    stubs.length = 0;
+  });
+
+  test('compare should add the parts to the tree view marked as created, deleted, modified or unchanged', async function () {
+    await comparison.compare();
+
+    const rootFileNode = treeDataProvider.rootFileNode.children[0];
+    expect(rootFileNode.nodePath).to.eq('after.docx');
+    expect(rootFileNode.contextValue).to.eq('comparison');
+    expect(rootFileNode.comparedPackagePath).to.eq('before.docx');
+    const wordFileNode = rootFileNode.children[0];
+    expect(wordFileNode.contextValue).to.eq('comparisonFolder');
+    const [documentFileNode, mediaFileNode, settingsFileNode, stylesFileNode] = wordFileNode.children;
+    expect(documentFileNode.nodePath).to.eq('word/document.xml');
+    expect(documentFileNode.iconPath).to.not.be.instanceOf(Uri);
+    expect((mediaFileNode.children[0].iconPath as Uri).fsPath).to.contain('asterisk.green.svg');
+    expect((settingsFileNode.iconPath as Uri).fsPath).to.contain('asterisk.red.svg');
+    expect((stylesFileNode.iconPath as Uri).fsPath).to.contain('asterisk.yellow.svg');
+    expect(treeDataProvider.refresh.callCount).to.eq(1);
+  });
+
+  test('compare should throw if the packages have too many parts', async function () {
+    extensionSettings.maximumNumberOfOOXMLParts = 2;
+
+    let error: Error | undefined;
+    try {
+      await comparison.compare();
+    } catch (err) {
+      error = err as Error;
+    }
+
+    expect(error?.message).to.contain('exceeds the maximum');
+    expect(treeDataProvider.rootFileNode.children).to.be.empty;
+  });
+
+  test('getDiff should diff the formatted parts against an empty file for deleted parts', async function () {
+    const openDiffStub = stub(ExtensionUtilities, 'openDiff').returns(Promise.resolve());
+    stubs.push(openDiffStub);
+    await comparison.compare();
+
+    await comparison.getDiff('word/settings.xml');
+
+    const [originalUri, modifiedUri, title] = openDiffStub.args[0] as [Uri, Uri, string];
+    expect(originalUri.query).to.eq('compare');
+    expect(new TextDecoder().decode(await fileSystemProvider.readFile(originalUri))).to.eq('<?xml version="1.0"?>\r\n<settings/>');
+    expect(await fileSystemProvider.readFile(modifiedUri)).to.deep.eq(new Uint8Array());
+    expect(title).to.eq('settings.xml (before.docx ↔ after.docx)');
+  });
+
+  test('dispose should remove the comparison from the tree view and stop serving its parts', async function () {
+    const openDiffStub = stub(ExtensionUtilities, 'openDiff').returns(Promise.resolve());
+    stubs.push(openDiffStub);
+    await comparison.compare();
+    await comparison.getDiff('word/styles.xml');
+
+    await comparison.dispose();
+
+    expect(treeDataProvider.rootFileNode.children).to.be.empty;
+    expect(fileSystemProvider.findFileSystem(openDiffStub.args[0][1] as Uri)).to.be.undefined;
+  });
+});
@@ -0,0 +1,114 @@
+import { expect } from 'chai';
+import { join } from 'path';
+import { createStubInstance, SinonStub, SinonStubbedInstance, stub } from 'sinon';
+import { CompletionItem, Position, SnippetString, TextDocument, Uri } from 'vscode';
+import { OOXMLPackageCompletionProvider } from '../../../src/ooxml-package/ooxml-package-completion-provider';
+import { OOXMLPackageFileSystem } from '../../../src/ooxml-package/ooxml-package-file-system';
+import { OOXMLPackageSchemaValidator } from '../../../src/ooxml-package/ooxml-package-schema-validator';
+import { XmlSchemaSet } from '../../../src/utilities/xml-schema-validator';
+
+suite('OOXMLPackageCompletionProvider', function () {
+  const schemaFolderPath = join(__dirname, '..', '..', '..', '..', 'test', 'test-data', 'schemas');
+  const header = '<?xml version="1.0"?>\n<m:document xmlns:m="urn:test:main" xmlns:sh="urn:test:shared">\n';
+  const stubs: SinonStub[] = [];
+  let fileSystem: SinonStubbedInstance<OOXMLPackageFileSystem>;
+  let getSchemaSetStub: SinonStub;
+  let provider: OOXMLPackageCompletionProvider;
+
+  // the position is at the end of the text
+  async function provideCompletionItems(text: string): Promise<CompletionItem[] | undefined> {
+    const lines = text.split('\n');
+    const document = <TextDocument>(<unknown>{
+      uri: Uri.parse('ooxml:/report.docx/word/document.xml'),
+      getText: () => text,
+      offsetAt: () => text.length,
+    });
+
+    return await provider.provideCompletionItems(document, new Position(lines.length - 1, lines[lines.length - 1].length));
+  }
+
+  setup(async function () {
+    fileSystem = createStubInstance(OOXMLPackageFileSystem);
+    fileSystem.getPartFilePath.callsFake(uri => uri.path.replace('/report.docx/', ''));
+    fileSystem.readPart.returns(Promise.resolve(undefined));
+    const schemaSet = await XmlSchemaSet.load(schemaFolderPath, ['test-main.xsd']);
+    getSchemaSetStub = stub(OOXMLPackageSchemaValidator, 'getSchemaSet').returns(Promise.resolve(schemaSet));
+    stubs.push(getSchemaSetStub);
+
+    provider = new OOXMLPackageCompletionProvider(fileSystem);
+  });
+
+  teardown(function () {
+    stubs.forEach(s => s.restore());
+    stubs.length = 0;
+    provider.dispose();
+  });
+
+  test('should suggest the child elements of the parent element with the prefixes declared in the part', async function () {
+    const items = await provideCompletionItems(`${header}<m:p><m:pPr>\n<`);
+
+    expect(items?.map(i => i.label)).to.deep.eq(['m:style', 'm:keepNext', 'm:jc', 'm:spacing']);
+  });
+
+  test('should suggest child elements in the parent of closed and self-closing elements', async function () {
+    const items = await provideCompletionItems(`${header}<m:p><m:pPr><m:style m:val="a"/></m:pPr><!-- <m:pPr> --><m:r><m:t>x</m:t><m:`);
+
+    expect(items?.map(i => i.label)).to.deep.eq(['m:t', 'm:br']);
+    expect(items?.[0].range).to.deep.eq({ start: new Position(2, 74), end: new Position(2, 76) });
+  });
+
+  test('should suggest child elements without a prefix in the default namespace', async function () {
+    const items = await provideCompletionItems('<?xml version="1.0"?>\n<document xmlns="urn:test:main"><');
+
+    expect(items?.map(i => i.label)).to.deep.eq(['p']);
+  });
+
+  test('should suggest the attributes that are not on the element yet', async function () {
+    const items = await provideCompletionItems(`${header}<m:p><m:pPr><m:jc `);
+
+    expect(items?.map(i => i.label)).to.deep.eq(['m:val']);
+    expect((<SnippetString>items?.[0].insertText).value).to.eq('m:val="$1"');
+    expect(items?.[0].detail).to.eq('required');
+
+    const noItems = await provideCompletionItems(`${header}<m:p><m:pPr><m:jc m:val="left" `);
+
+    expect(noItems).to.be.empty;
+  });
+
+  test('should suggest attributes in other namespaces', async function () {
+    const items = await provideCompletionItems(`${header}<m:p `);
+
+    expect(items?.map(i => i.label)).to.deep.eq(['sh:id']);
+  });
+
+  test('should suggest the enumerated values of an attribute', async function () {
+    const items = await provideCompletionItems(`${header}<m:p><m:pPr><m:jc m:val="ce`);
+
+    expect(items?.map(i => i.label)).to.deep.eq(['left', 'center', 'right']);
+    expect(items?.[0].range).to.deep.eq({ start: new Position(2, 25), end: new Position(2, 27) });
+  });
+
+  test('should not suggest anything outside of a tag', async function () {
+    expect(await provideCompletionItems(`${header}<m:p><m:r><m:t>text`)).to.be.undefined;
+    expect(await provideCompletionItems(`${header}<!-- <`)).to.be.undefined;
+  });
+
+  test('should suggest the elements and values of the shipped WordprocessingML schema', async function () {
+    const wordSchemaSet = await XmlSchemaSet.load(join(__dirname, '..', '..', '..', '..', 'resources', 'schemas'), ['wml.xsd']);
+    getSchemaSetStub.returns(Promise.resolve(wordSchemaSet));
+    const wordHeader =
+      '<?xml version="1.0"?>\n<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>\n';
+
+    const elementItems = await provideCompletionItems(`${wordHeader}<w:p><w:pPr>\n<`);
+    const valueItems = await provideCompletionItems(`${wordHeader}<w:p><w:pPr><w:jc w:val="`);
+
+    expect(elementItems?.map(i => i.label)).to.include.members(['w:pStyle', 'w:keepNext', 'w:spacing', 'w:jc']);
+    expect(valueItems?.map(i => i.label)).to.include.members(['left', 'center', 'right', 'both']);
+  });
+
+  test('should not suggest anything in parts without a schema', async function () {
+    getSchemaSetStub.returns(Promise.resolve(undefined));
+
+    expect(await provideCompletionItems(`${header}<`)).to.be.undefined;
+  });
+});
@@ -0,0 +1,106 @@
+import { expect } from 'chai';
+import { OOXMLPackageContentTypes } from '../../../src/ooxml-package/ooxml-package-content-types';
+
+suite('OOXMLPackageContentTypes', function () {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const contentTypesXml =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+    '</Types>';
+
+  let contentTypes: OOXMLPackageContentTypes;
+
+  setup(function () {
+    contentTypes = new OOXMLPackageContentTypes(encoder.encode(contentTypesXml));
+  });
+
+  test('constructor should throw if the content types are not well-formed', function () {
+    expect(() => new OOXMLPackageContentTypes(encoder.encode('<Types><Default></Types>'))).to.throw(
+      "'[Content_Types].xml' is not well-formed",
+    );
+  });
+
+  test('getContentType should return the override content type of a part', function () {
+    expect(contentTypes.getContentType('word/document.xml')).to.eq(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml',
+    );
+  });
+
+  test('getContentType should return the default content type if a part has no override', function () {
+    expect(contentTypes.getContentType('word/_rels/document.xml.rels')).to.eq('application/vnd.openxmlformats-package.relationships+xml');
+  });
+
+  test('getContentType should return the default content type of the package relationships part', function () {
+    expect(contentTypes.getContentType('_rels/.rels')).to.eq('application/vnd.openxmlformats-package.relationships+xml');
+  });
+
+  test('getContentType should return undefined if a part has no content type', function () {
+    expect(contentTypes.getContentType('word/media/image1.png')).to.be.undefined;
+  });
+
+  test('registerPart should add a default for a new extension', function () {
+    const changed = contentTypes.registerPart('word/media/image1.png', 'image/png');
+
+    expect(changed).to.be.true;
+    expect(contentTypes.getDefaultContentType('png')).to.eq('image/png');
+    expect(decoder.decode(contentTypes.toData())).to.contain(
+      '<Default Extension="png" ContentType="image/png"/><Override PartName="/word/document.xml"',
+    );
+  });
+
+  test('registerPart should add an override for an xml part', function () {
+    const contentType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml';
+
+    const changed = contentTypes.registerPart('word/header1.xml', contentType);
+
+    expect(changed).to.be.true;
+    expect(contentTypes.getContentType('word/header1.xml')).to.eq(contentType);
+    expect(decoder.decode(contentTypes.toData())).to.contain(
+      `<Override PartName="/word/header1.xml" ContentType="${contentType}"/></Types>`,
+    );
+  });
+
+  test('registerPart should not change the content types if the part matches the default', function () {
+    const changed = contentTypes.registerPart('customXml/item1.xml', 'application/xml');
+
+    expect(changed).to.be.false;
+    expect(decoder.decode(contentTypes.toData())).to.eq(contentTypesXml);
+  });
+
+  test('removeOverride should remove the override of a part', function () {
+    const removed = contentTypes.removeOverride('word/document.xml');
+
+    expect(removed).to.be.true;
+    expect(contentTypes.getContentType('word/document.xml')).to.eq('application/xml');
+    expect(decoder.decode(contentTypes.toData())).to.not.contain('<Override');
+  });
+
+  test('removeOverride should return false if the part has no override', function () {
+    expect(contentTypes.removeOverride('word/styles.xml')).to.be.false;
+  });
+
+  test('renamePart should move the override to the new path', function () {
+    const changed = contentTypes.renamePart('word/document.xml', 'word/main.xml');
+
+    expect(changed).to.be.true;
+    expect(contentTypes.getContentType('word/main.xml')).to.eq(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml',
+    );
+    expect(decoder.decode(contentTypes.toData())).to.not.contain('/word/document.xml');
+  });
+
+  test('renamePart should not change the content types if the default still applies', function () {
+    expect(contentTypes.renamePart('customXml/item1.xml', 'customXml/item2.xml')).to.be.false;
+  });
+
+  test('addOverride should replace an existing override', function () {
+    contentTypes.addOverride('/word/document.xml', 'application/vnd.ms-word.document.macroEnabled.main+xml');
+
+    expect(contentTypes.getContentType('word/document.xml')).to.eq('application/vnd.ms-word.document.macroEnabled.main+xml');
+    expect(decoder.decode(contentTypes.toData()).match(/<Override/g)).to.have.lengthOf(1);
+  });
+});
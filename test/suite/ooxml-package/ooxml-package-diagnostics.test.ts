@@ -0,0 +1,132 @@
+import { expect } from 'chai';
+import { createStubInstance, SinonStub, SinonStubbedInstance, stub } from 'sinon';
+import { Diagnostic, DiagnosticCollection, DiagnosticSeverity, languages, Position, TextDocument, Uri, workspace } from 'vscode';
+import { OOXMLPackageDiagnostics } from '../../../src/ooxml-package/ooxml-package-diagnostics';
+import { OOXMLPackageFileSystem } from '../../../src/ooxml-package/ooxml-package-file-system';
+
+suite('OOXMLPackageDiagnostics', function () {
+  const relationshipsXml = [
+    '<?xml version="1.0"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    '  <Relationship Id="rId1" Type="officeDocument" Target="word/document.xml"/>',
+    '</Relationships>',
+  ].join('\n');
+  const stubs: SinonStub[] = [];
+  let fileSystem: SinonStubbedInstance<OOXMLPackageFileSystem>;
+  let diagnosticCollection: SinonStubbedInstance<DiagnosticCollection>;
+  let diagnostics: OOXMLPackageDiagnostics;
+
+  setup(function () {
+    fileSystem = createStubInstance(OOXMLPackageFileSystem);
+    fileSystem.getPartUri.callsFake(filePath => Uri.parse(`ooxml:/report.docx/${filePath}`));
+    fileSystem.readPart.returns(Promise.resolve(new TextEncoder().encode(relationshipsXml)));
+    diagnosticCollection = <SinonStubbedInstance<DiagnosticCollection>>{
+      set: stub(),
+      delete: stub(),
+      clear: stub(),
+      dispose: stub(),
+    };
+    const createDiagnosticCollectionStub = stub(languages, 'createDiagnosticCollection').returns(
+      <DiagnosticCollection>(<unknown>diagnosticCollection),
+    );
+    stubs.push(createDiagnosticCollectionStub);
+
+    diagnostics = new OOXMLPackageDiagnostics(fileSystem);
+  });
+
+  teardown(function () {
+    stubs.forEach(s => s.restore());
+    stubs.length = 0;
+  });
+
+  test('setProblems should publish warnings at the attribute values the problems are about', async function () {
+    await diagnostics.setProblems([
+      { filePath: '_rels/.rels', message: 'missing target', value: 'word/document.xml' },
+      { filePath: '_rels/.rels', message: 'no content type' },
+    ]);
+
+    const [uri, publishedDiagnostics] = <[Uri, Diagnostic[]]>(<unknown>diagnosticCollection.set.args[0]);
+    expect(uri.path).to.eq('/report.docx/_rels/.rels');
+    expect(publishedDiagnostics.map(d => d.message)).to.deep.eq(['missing target', 'no content type']);
+    expect(publishedDiagnostics[0].severity).to.eq(DiagnosticSeverity.Warning);
+    expect(publishedDiagnostics[0].range.start).to.deep.eq(new Position(2, 56));
+    expect(publishedDiagnostics[0].range.end).to.deep.eq(new Position(2, 73));
+    expect(publishedDiagnostics[1].range.start).to.deep.eq(new Position(0, 0));
+  });
+
+  test('setProblems should find the attribute values in the open document of the part', async function () {
+    const document = <TextDocument>{
+      uri: Uri.parse('ooxml:/report.docx/_rels/.rels'),
+      getText: () => `<?xml version="1.0"?>\n\n${relationshipsXml.split('\n').slice(1).join('\n')}`,
+    };
+    const textDocumentsStub = stub(workspace, 'textDocuments').value([document]);
+    stubs.push(textDocumentsStub);
+
+    await diagnostics.setProblems([{ filePath: '_rels/.rels', message: 'missing target', value: 'word/document.xml' }]);
+
+    const [, publishedDiagnostics] = <[Uri, Diagnostic[]]>(<unknown>diagnosticCollection.set.args[0]);
+    expect(publishedDiagnostics[0].range.start).to.deep.eq(new Position(3, 56));
+    expect(fileSystem.readPart.callCount).to.eq(0);
+  });
+
+  test('setProblems should remove the diagnostics of parts that no longer have problems', async function () {
+    await diagnostics.setProblems([{ filePath: '_rels/.rels', message: 'missing target' }]);
+
+    await diagnostics.setProblems([]);
+
+    expect(diagnosticCollection.delete.args[0][0].path).to.eq('/report.docx/_rels/.rels');
+  });
+
+  test('setSyntaxError should publish an error at the line and column of the syntax error', async function () {
+    await diagnostics.setSyntaxError('_rels/.rels', { message: 'unclosed tag', lineNumber: 3, columnNumber: 5 });
+
+    const [, publishedDiagnostics] = <[Uri, Diagnostic[]]>(<unknown>diagnosticCollection.set.args[0]);
+    expect(publishedDiagnostics[0].severity).to.eq(DiagnosticSeverity.Error);
+    expect(publishedDiagnostics[0].message).to.contain('unclosed tag');
+    expect(publishedDiagnostics[0].range.start).to.deep.eq(new Position(2, 4));
+  });
+
+  test('setSyntaxError should remove the error once the part is well-formed', async function () {
+    await diagnostics.setSyntaxError('_rels/.rels', { message: 'unclosed tag', lineNumber: 3, columnNumber: 5 });
+
+    await diagnostics.setSyntaxError('_rels/.rels', undefined);
+
+    expect(diagnosticCollection.delete.args[0][0].path).to.eq('/report.docx/_rels/.rels');
+  });
+
+  test('setSchemaErrors should publish warnings at the line and column of the schema errors', async function () {
+    await diagnostics.setSchemaErrors('_rels/.rels', [
+      { message: "'Bad' is not allowed in 'Relationships'", lineNumber: 3, columnNumber: 3 },
+    ]);
+
+    const [, publishedDiagnostics] = <[Uri, Diagnostic[]]>(<unknown>diagnosticCollection.set.args[0]);
+    expect(publishedDiagnostics[0].severity).to.eq(DiagnosticSeverity.Warning);
+    expect(publishedDiagnostics[0].message).to.eq("'Bad' is not allowed in 'Relationships'");
+    expect(publishedDiagnostics[0].range.start).to.deep.eq(new Position(2, 2));
+  });
+
+  test('setSchemaErrors should remove the schema errors once the part is valid', async function () {
+    await diagnostics.setSchemaErrors('_rels/.rels', [
+      { message: "'Bad' is not allowed in 'Relationships'", lineNumber: 3, columnNumber: 3 },
+    ]);
+
+    await diagnostics.setSchemaErrors('_rels/.rels', []);
+
+    expect(diagnosticCollection.delete.args[0][0].path).to.eq('/report.docx/_rels/.rels');
+  });
+
+  test('refresh should remove the diagnostics of a part without problems', async function () {
+    await diagnostics.setProblems([]);
+
+    await diagnostics.refresh('word/document.xml');
+
+    expect(diagnosticCollection.delete.args[0][0].path).to.eq('/report.docx/word/document.xml');
+    expect(diagnosticCollection.set.callCount).to.eq(0);
+  });
+
+  test('dispose should dispose the diagnostic collection', function () {
+    diagnostics.dispose();
+
+    expect(diagnosticCollection.dispose.callCount).to.eq(1);
+  });
+});
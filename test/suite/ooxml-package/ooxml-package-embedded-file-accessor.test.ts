@@ -0,0 +1,67 @@
+import { expect } from 'chai';
+import JSZip from 'jszip';
+import { createStubInstance, SinonStubbedInstance } from 'sinon';
+import { OOXMLPackage } from '../../../src/ooxml-package/ooxml-package';
+import { OOXMLPackageEmbeddedFileAccessor } from '../../../src/ooxml-package/ooxml-package-embedded-file-accessor';
+
+suite('OOXMLPackageEmbeddedFileAccessor', function () {
+  const partPath = 'word/embeddings/Microsoft_Excel_Worksheet.xlsx';
+  let containerPackage: SinonStubbedInstance<OOXMLPackage>;
+  let fileAccessor: OOXMLPackageEmbeddedFileAccessor;
+
+  setup(async function () {
+    const zip = new JSZip();
+    zip.file('[Content_Types].xml', '<Types/>');
+    zip.file('xl/workbook.xml', '<workbook/>');
+    containerPackage = createStubInstance(OOXMLPackage);
+    containerPackage.getPart.withArgs(partPath).returns(zip.generateAsync({ type: 'uint8array' }));
+    containerPackage.updateEmbeddedPackage.returns(Promise.resolve());
+
+    fileAccessor = new OOXMLPackageEmbeddedFileAccessor(`report.docx/${partPath}`, containerPackage, partPath);
+  });
+
+  test('should load the embedded package from the part of the container package', async function () {
+    await fileAccessor.load();
+
+    expect(fileAccessor.getPartPaths()).to.deep.eq(['[Content_Types].xml', 'xl/workbook.xml']);
+  });
+
+  test('should write the updated embedded package to the part of the container package', async function () {
+    await fileAccessor.load();
+
+    const success = await fileAccessor.updatePackage('xl/workbook.xml', new TextEncoder().encode('<workbook><sheets/></workbook>'));
+
+    expect(success).to.be.true;
+    expect(containerPackage.updateEmbeddedPackage.args[0][0]).to.eq(partPath);
+    const zip = await new JSZip().loadAsync(containerPackage.updateEmbeddedPackage.args[0][1]);
+    expect(await zip.file('xl/workbook.xml')?.async('string')).to.eq('<workbook><sheets/></workbook>');
+  });
+
+  test('should roll back the update if the container package could not be written', async function () {
+    containerPackage.updateEmbeddedPackage.rejects(new Error('not saved'));
+    await fileAccessor.load();
+
+    let error: Error | undefined;
+    try {
+      await fileAccessor.updatePackage('xl/workbook.xml', new TextEncoder().encode('<workbook><sheets/></workbook>'));
+    } catch (err) {
+      error = err as Error;
+    }
+
+    expect(error?.message).to.eq('not saved');
+    expect(new TextDecoder().decode(await fileAccessor.getPart('xl/workbook.xml'))).to.eq('<workbook/>');
+  });
+
+  test('should throw if the container package does not have the part', async function () {
+    containerPackage.getPart.withArgs(partPath).returns(Promise.resolve(undefined));
+
+    let error: Error | undefined;
+    try {
+      await fileAccessor.load();
+    } catch (err) {
+      error = err as Error;
+    }
+
+    expect(error?.message).to.eq(`'${partPath}' is not a part of the container package of 'report.docx/${partPath}'`);
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import { createStubInstance, SinonStub, SinonStubbedInstance, stub } from 'sinon';
+import { OOXMLPackage } from '../../../src/ooxml-package/ooxml-package';
+import { OOXMLPackageEmbeddedPackages } from '../../../src/ooxml-package/ooxml-package-embedded-packages';
+import { OOXMLPackageFacade } from '../../../src/ooxml-package/ooxml-package-facade';
+import { FileNode } from '../../../src/tree-view/ooxml-tree-view-provider';
+
+suite('OOXMLPackageEmbeddedPackages', function () {
+  let containerPackage: SinonStubbedInstance<OOXMLPackage>;
+  let createEmbeddedPackageStub: SinonStub;
+  let embeddedPackages: OOXMLPackageEmbeddedPackages;
+  let partNode: FileNode;
+
+  setup(function () {
+    containerPackage = createStubInstance(OOXMLPackage);
+    createEmbeddedPackageStub = stub().callsFake((ooxmlPackagePath: string) => {
+      const embeddedPackage = createStubInstance(OOXMLPackageFacade);
+      embeddedPackage.ooxmlFilePath = ooxmlPackagePath;
+      embeddedPackage.findPackage.callsFake(p => (p === ooxmlPackagePath ? embeddedPackage : undefined));
+      return embeddedPackage;
+    });
+    partNode = new FileNode();
+    partNode.nodePath = 'word/embeddings/Microsoft_Excel_Worksheet.xlsx';
+
+    embeddedPackages = new OOXMLPackageEmbeddedPackages('report.docx', createEmbeddedPackageStub);
+  });
+
+  test('isEmbeddedPackage should check the extension and the zip signature of the part', function () {
+    const zip = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+
+    expect(OOXMLPackageEmbeddedPackages.isEmbeddedPackage('word/embeddings/Microsoft_Excel_Worksheet.xlsx', zip)).to.be.true;
+    expect(OOXMLPackageEmbeddedPackages.isEmbeddedPackage('ppt/embeddings/Microsoft_Word_Document.DOCX', zip)).to.be.true;
+    expect(OOXMLPackageEmbeddedPackages.isEmbeddedPackage('word/embeddings/oleObject1.bin', zip)).to.be.false;
+    expect(OOXMLPackageEmbeddedPackages.isEmbeddedPackage('word/embeddings/Microsoft_Excel_Worksheet.xlsx', new Uint8Array([1, 2]))).to.be
+      .false;
+  });
+
+  test('update should open the embedded packages of new parts under their file nodes', async function () {
+    await embeddedPackages.update(containerPackage, [partNode]);
+
+    expect(createEmbeddedPackageStub.args[0]).to.deep.eq([
+      'report.docx/word/embeddings/Microsoft_Excel_Worksheet.xlsx',
+      containerPackage,
+      'word/embeddings/Microsoft_Excel_Worksheet.xlsx',
+      partNode,
+    ]);
+    const [embeddedPackage] = embeddedPackages.getPackages() as SinonStubbedInstance<OOXMLPackageFacade>[];
+    expect(embeddedPackage.openOOXMLPackage.callCount).to.eq(1);
+  });
+
+  test('update should reload the open embedded packages and dispose the ones whose parts were removed', async function () {
+    await embeddedPackages.update(containerPackage, [partNode]);
+    const [embeddedPackage] = embeddedPackages.getPackages() as SinonStubbedInstance<OOXMLPackageFacade>[];
+
+    await embeddedPackages.update(containerPackage, [partNode]);
+
+    expect(createEmbeddedPackageStub.callCount).to.eq(1);
+    expect(embeddedPackage.openOOXMLPackage.callCount).to.eq(2);
+
+    await embeddedPackages.update(containerPackage, []);
+
+    expect(embeddedPackage.dispose.callCount).to.eq(1);
+    expect(embeddedPackages.getPackages()).to.be.empty;
+  });
+
+  test('find should find the open embedded packages', async function () {
+    await embeddedPackages.update(containerPackage, [partNode]);
+
+    expect(embeddedPackages.find('report.docx/word/embeddings/Microsoft_Excel_Worksheet.xlsx')).to.eq(embeddedPackages.getPackages()[0]);
+    expect(embeddedPackages.find('report.docx/word/embeddings/Other.xlsx')).to.be.undefined;
+  });
+
+  test('dispose should dispose the embedded packages', async function () {
+    await embeddedPackages.update(containerPackage, [partNode]);
+    const [embeddedPackage] = embeddedPackages.getPackages() as SinonStubbedInstance<OOXMLPackageFacade>[];
+
+    await embeddedPackages.dispose();
+
+    expect(embeddedPackage.dispose.callCount).to.eq(1);
+    expect(embeddedPackages.getPackages()).to.be.empty;
+  });
+});
@@ -0,0 +1,83 @@
+import { expect } from 'chai';
+import { readFileSync } from 'fs';
+import JSZip from 'jszip';
+import { join } from 'path';
+import { OOXMLPackageEncryption } from '../../../src/ooxml-package/ooxml-package-encryption';
+import { CompoundFile } from '../../../src/utilities/compound-file';
+
+suite('OOXMLPackageEncryption', function () {
+  this.timeout(10000);
+
+  const testDataPath = join(__dirname, '..', '..', '..', '..', 'test', 'test-data');
+  const agileData = new Uint8Array(readFileSync(join(testDataPath, 'encrypted-agile.docx')));
+  const standardData = new Uint8Array(readFileSync(join(testDataPath, 'encrypted-standard.docx')));
+
+  async function getDocumentXml(packageData: Uint8Array): Promise<string | undefined> {
+    return await (await new JSZip().loadAsync(packageData)).file('word/document.xml')?.async('string');
+  }
+
+  test('isEncryptedPackage should check for the EncryptionInfo and EncryptedPackage streams', function () {
+    expect(OOXMLPackageEncryption.isEncryptedPackage(agileData)).to.be.true;
+    expect(OOXMLPackageEncryption.isEncryptedPackage(standardData)).to.be.true;
+    expect(OOXMLPackageEncryption.isEncryptedPackage(new Uint8Array(readFileSync(join(testDataPath, 'vbaProject.bin'))))).to.be.false;
+    expect(OOXMLPackageEncryption.isEncryptedPackage(new Uint8Array(readFileSync(join(testDataPath, 'Test.pptx'))))).to.be.false;
+  });
+
+  test('decrypt should decrypt a package with agile encryption', async function () {
+    const decryptedPackage = OOXMLPackageEncryption.decrypt(agileData, 'Password1');
+
+    expect(await getDocumentXml(decryptedPackage?.data ?? new Uint8Array())).to.contain('<w:t>Secret</w:t>');
+  });
+
+  test('decrypt should decrypt a package with standard encryption', async function () {
+    const decryptedPackage = OOXMLPackageEncryption.decrypt(standardData, 'Password1');
+
+    expect(await getDocumentXml(decryptedPackage?.data ?? new Uint8Array())).to.contain('<w:t>Secret</w:t>');
+  });
+
+  test('decrypt should return undefined if the password is incorrect', function () {
+    expect(OOXMLPackageEncryption.decrypt(agileData, 'password1')).to.be.undefined;
+    expect(OOXMLPackageEncryption.decrypt(standardData, 'password1')).to.be.undefined;
+  });
+
+  test('decrypt should throw if the encryption version is not supported', function () {
+    const encryptionInfo = new Uint8Array([1, 0, 1, 0, 0, 0, 0, 0]);
+    const data = CompoundFile.create([
+      { path: 'EncryptionInfo', data: encryptionInfo },
+      { path: 'EncryptedPackage', data: new Uint8Array(8) },
+    ]);
+
+    expect(() => OOXMLPackageEncryption.decrypt(data, 'Password1')).to.throw('The encryption version 1.1 is not supported');
+  });
+
+  test('decrypt should throw if the agile encryption info is not well-formed', function () {
+    const encryptionInfo = new Uint8Array([4, 0, 4, 0, 64, 0, 0, 0, ...new TextEncoder().encode('<encryption>')]);
+    const data = CompoundFile.create([
+      { path: 'EncryptionInfo', data: encryptionInfo },
+      { path: 'EncryptedPackage', data: new Uint8Array(8) },
+    ]);
+
+    expect(() => OOXMLPackageEncryption.decrypt(data, 'Password1')).to.throw("'EncryptionInfo' is not well-formed");
+  });
+
+  for (const [encryptionName, data] of [
+    ['agile', agileData],
+    ['standard', standardData],
+  ] as const) {
+    test(`encrypt should encrypt a package with ${encryptionName} encryption and keep the other streams`, async function () {
+      const decryptedPackage = OOXMLPackageEncryption.decrypt(data, 'Password1');
+      const zip = await new JSZip().loadAsync(decryptedPackage?.data ?? new Uint8Array());
+      zip.file('word/document.xml', '<w:document/>');
+
+      const encryptedPackage = decryptedPackage?.encryption.encrypt(await zip.generateAsync({ type: 'uint8array' })) ?? new Uint8Array();
+
+      expect(OOXMLPackageEncryption.decrypt(encryptedPackage, 'password1')).to.be.undefined;
+      expect(await getDocumentXml(OOXMLPackageEncryption.decrypt(encryptedPackage, 'Password1')?.data ?? new Uint8Array())).to.eq(
+        '<w:document/>',
+      );
+      expect(new CompoundFile(encryptedPackage).getStream('\x06DataSpaces/Version')).to.deep.eq(
+        new CompoundFile(data).getStream('\x06DataSpaces/Version'),
+      );
+    });
+  }
+});
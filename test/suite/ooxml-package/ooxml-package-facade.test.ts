@@ -1,9 +1,16 @@
 import { expect } from 'chai';
 import { createStubInstance, SinonStubbedInstance } from 'sinon';
+import { Uri } from 'vscode';
 import { OOXMLPackage } from '../../../src/ooxml-package/ooxml-package';
+import { OOXMLPackageCompletionProvider } from '../../../src/ooxml-package/ooxml-package-completion-provider';
+import { OOXMLPackageDiagnostics } from '../../../src/ooxml-package/ooxml-package-diagnostics';
+import { OOXMLPackageEmbeddedPackages } from '../../../src/ooxml-package/ooxml-package-embedded-packages';
 import { OOXMLPackageFacade } from '../../../src/ooxml-package/ooxml-package-facade';
-import { OOXMLPackageFileCache } from '../../../src/ooxml-package/ooxml-package-file-cache';
+import { OOXMLPackageFileSystem } from '../../../src/ooxml-package/ooxml-package-file-system';
 import { OOXMLPackageFileWatcher } from '../../../src/ooxml-package/ooxml-package-file-watcher';
+import { OOXMLPackageHoverProvider } from '../../../src/ooxml-package/ooxml-package-hover-provider';
+import { OOXMLPackageRelationshipProvider } from '../../../src/ooxml-package/ooxml-package-relationship-provider';
+import { Relationship } from '../../../src/ooxml-package/ooxml-package-relationships';
 import { OOXMLPackageTreeView } from '../../../src/ooxml-package/ooxml-package-tree-view';
 
 suite('OOXMLPackageFacade', function () {
@@ -11,22 +18,86 @@ suite('OOXMLPackageFacade', function () {
   let ooxmlPackage: SinonStubbedInstance<OOXMLPackage>;
   let treeView: SinonStubbedInstance<OOXMLPackageTreeView>;
   let fileWatchers: SinonStubbedInstance<OOXMLPackageFileWatcher>;
-  let fileCache: SinonStubbedInstance<OOXMLPackageFileCache>;
+  let fileSystem: SinonStubbedInstance<OOXMLPackageFileSystem>;
+  let relationshipProvider: SinonStubbedInstance<OOXMLPackageRelationshipProvider>;
+  let diagnostics: SinonStubbedInstance<OOXMLPackageDiagnostics>;
+  let completionProvider: SinonStubbedInstance<OOXMLPackageCompletionProvider>;
+  let hoverProvider: SinonStubbedInstance<OOXMLPackageHoverProvider>;
+  let embeddedPackages: SinonStubbedInstance<OOXMLPackageEmbeddedPackages>;
 
   setup(function () {
     ooxmlPackage = createStubInstance(OOXMLPackage);
     treeView = createStubInstance(OOXMLPackageTreeView);
     fileWatchers = createStubInstance(OOXMLPackageFileWatcher);
-    fileCache = createStubInstance(OOXMLPackageFileCache);
+    fileSystem = createStubInstance(OOXMLPackageFileSystem);
+    relationshipProvider = createStubInstance(OOXMLPackageRelationshipProvider);
+    diagnostics = createStubInstance(OOXMLPackageDiagnostics);
+    completionProvider = createStubInstance(OOXMLPackageCompletionProvider);
+    hoverProvider = createStubInstance(OOXMLPackageHoverProvider);
+    embeddedPackages = createStubInstance(OOXMLPackageEmbeddedPackages);
+    embeddedPackages.getPackages.returns([]);
 
-    packageFacade = new (<any>OOXMLPackageFacade)('path', ooxmlPackage, treeView, fileWatchers, fileCache);
+    packageFacade = new (<any>OOXMLPackageFacade)(
+      'path',
+      ooxmlPackage,
+      treeView,
+      fileWatchers,
+      fileSystem,
+      relationshipProvider,
+      diagnostics,
+      completionProvider,
+      hoverProvider,
+      embeddedPackages,
+    );
   });
 
-  test('should reset file watchers, package root node, and file cache on dispose', async function () {
+  test('should reset file watchers, relationship, completion and hover providers, diagnostics, package root node, and file system on dispose', async function () {
     await packageFacade.dispose();
 
+    expect(relationshipProvider.dispose.callCount).to.equal(1);
+    expect(completionProvider.dispose.callCount).to.equal(1);
+    expect(hoverProvider.dispose.callCount).to.equal(1);
+    expect(diagnostics.dispose.callCount).to.equal(1);
     expect(fileWatchers.dispose.callCount).to.equal(1);
-    expect(fileCache.reset.callCount).to.equal(1);
+    expect(fileSystem.dispose.callCount).to.equal(1);
     expect(treeView.reset.callCount).to.equal(1);
+    expect(embeddedPackages.dispose.callCount).to.equal(1);
+  });
+
+  test('findPackage should find the package or one of its embedded packages', function () {
+    const embeddedPackage = <OOXMLPackageFacade>{};
+    embeddedPackages.find.withArgs('path/word/embeddings/Microsoft_Excel_Worksheet.xlsx').returns(embeddedPackage);
+
+    expect(packageFacade.findPackage('path')).to.eq(packageFacade);
+    expect(packageFacade.findPackage('path/word/embeddings/Microsoft_Excel_Worksheet.xlsx')).to.eq(embeddedPackage);
+    expect(packageFacade.findPackage('other')).to.be.undefined;
+  });
+
+  test('getPartReferences should get the part and references of a part file', async function () {
+    const references = [{ sourcePartPath: 'ppt/slides/slide1.xml', relationship: <Relationship>{ id: 'rId2' } }];
+    const partUri = Uri.parse('ooxml:/path/ppt/media/image1.png');
+    fileSystem.getPartFilePath.withArgs(partUri).returns('ppt/media/image1.png');
+    ooxmlPackage.getPartReferences.withArgs('ppt/media/image1.png').returns(Promise.resolve(references));
+
+    expect(await packageFacade.getPartReferences(partUri)).to.deep.eq({
+      ooxmlPackagePath: 'path',
+      filePath: 'ppt/media/image1.png',
+      references: references,
+    });
+    expect(await packageFacade.getPartReferences(Uri.parse('ooxml:/path/ppt/media/image1.png?compare'))).to.be.undefined;
+  });
+
+  test('getPartReferences should get the part and references from the embedded package the part file belongs to', async function () {
+    const partReferences = {
+      ooxmlPackagePath: 'path/word/embeddings/Microsoft_Excel_Worksheet.xlsx',
+      filePath: 'xl/media/image1.png',
+      references: [],
+    };
+    const embeddedPackage = createStubInstance(OOXMLPackageFacade);
+    const partUri = Uri.parse('ooxml:/path/word/embeddings/Microsoft_Excel_Worksheet.xlsx/xl/media/image1.png');
+    embeddedPackage.getPartReferences.withArgs(partUri).returns(Promise.resolve(partReferences));
+    embeddedPackages.getPackages.returns([embeddedPackage]);
+
+    expect(await packageFacade.getPartReferences(partUri)).to.eq(partReferences);
   });
 });
@@ -1,9 +1,16 @@
 import { expect } from 'chai';
+import JSZip from 'jszip';
 import { join } from 'path';
+import { createStubInstance, stub } from 'sinon';
+import { OOXMLPackageBackup } from '../../../src/ooxml-package/ooxml-package-backup';
+import { OOXMLPackageEncryption } from '../../../src/ooxml-package/ooxml-package-encryption';
 import { OOXMLPackageFileAccessor } from '../../../src/ooxml-package/ooxml-package-file-accessor';
+import { ExtensionUtilities } from '../../../src/utilities/extension-utilities';
+import { FileSystemUtilities } from '../../../src/utilities/file-system-utilities';
 
 suite('OOXMLPackageFileAccessor Integration', function () {
   const testFilePath = join(__dirname, '..', '..', '..', '..', 'test', 'test-data', 'Test.pptx');
+  const encryptedFilePath = join(__dirname, '..', '..', '..', '..', 'test', 'test-data', 'encrypted-agile.docx');
 
   test('should return empty array if package is accessed before loaded', async function () {
     const fileAccessor = new OOXMLPackageFileAccessor(testFilePath);
@@ -41,4 +48,215 @@ suite('OOXMLPackageFileAccessor Integration', function () {
 
     expect(contents).to.have.lengthOf(40);
   });
+
+  test('should return whether or not the package has a part', async function () {
+    const fileAccessor = new OOXMLPackageFileAccessor(testFilePath);
+    await fileAccessor.load();
+
+    expect(fileAccessor.hasPart('[Content_Types].xml')).to.be.true;
+    expect(fileAccessor.hasPart('does/not/exist.xml')).to.be.false;
+  });
+
+  test('should return the part paths without folders', async function () {
+    const fileAccessor = new OOXMLPackageFileAccessor(testFilePath);
+    await fileAccessor.load();
+
+    const partPaths = fileAccessor.getPartPaths();
+
+    expect(partPaths).to.include('[Content_Types].xml');
+    expect(partPaths.every(p => !p.endsWith('/'))).to.be.true;
+  });
+
+  test('should return the contents of a part', async function () {
+    const fileAccessor = new OOXMLPackageFileAccessor(testFilePath);
+    await fileAccessor.load();
+
+    const contentTypes = await fileAccessor.getPart('[Content_Types].xml');
+    const missingPart = await fileAccessor.getPart('does/not/exist.xml');
+
+    expect(new TextDecoder().decode(contentTypes)).to.contain('<Types');
+    expect(missingPart).to.be.undefined;
+  });
+
+  test('should create a package with the parts in the order they are provided', async function () {
+    const writeFileStub = stub(FileSystemUtilities, 'writeFileAtomically').returns(Promise.resolve(true));
+
+    try {
+      const response = await OOXMLPackageFileAccessor.createPackage('Test.docx', [
+        { filePath: '[Content_Types].xml', data: new TextEncoder().encode('<Types/>') },
+        { filePath: '_rels/.rels', data: new TextEncoder().encode('<Relationships/>') },
+      ]);
+
+      expect(response).to.be.true;
+      expect(writeFileStub.args[0][0]).to.eq('Test.docx');
+      const zip = await new JSZip().loadAsync(writeFileStub.args[0][1]);
+      expect(Object.keys(zip.files)).to.deep.eq(['[Content_Types].xml', '_rels/.rels']);
+    } finally {
+      writeFileStub.restore();
+    }
+  });
+
+  test('should write the mimetype file of odf packages first and uncompressed', async function () {
+    const writeFileStub = stub(FileSystemUtilities, 'writeFileAtomically').returns(Promise.resolve(true));
+    const zip = new JSZip();
+    zip.file('content.xml', '<office:document-content/>');
+    zip.file('META-INF/manifest.xml', '<manifest:manifest/>');
+    zip.file('mimetype', 'application/vnd.oasis.opendocument.text');
+    const fileAccessor = new OOXMLPackageFileAccessor('Test.odt');
+    await fileAccessor.load(await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' }));
+
+    try {
+      const response = await fileAccessor.updatePackage(
+        'content.xml',
+        new TextEncoder().encode('<office:document-content></office:document-content>'),
+      );
+
+      expect(response).to.be.true;
+      const file: Uint8Array = writeFileStub.args[0][1];
+      const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+      // the compression method and the file name of the first local file header
+      expect(view.getUint16(8, true)).to.eq(0);
+      expect(new TextDecoder().decode(file.subarray(30, 38))).to.eq('mimetype');
+      expect(new TextDecoder().decode(file.subarray(38, 77))).to.eq('application/vnd.oasis.opendocument.text');
+      const writtenZip = await new JSZip().loadAsync(file);
+      expect(Object.keys(writtenZip.files)).to.deep.eq(['mimetype', 'content.xml', 'META-INF/', 'META-INF/manifest.xml']);
+    } finally {
+      writeFileStub.restore();
+    }
+  });
+
+  test('should decrypt an encrypted package with the password the user enters', async function () {
+    const showInputStub = stub(ExtensionUtilities, 'showInput').returns(Promise.resolve('Password1'));
+    const fileAccessor = new OOXMLPackageFileAccessor(encryptedFilePath);
+
+    try {
+      await fileAccessor.load();
+
+      expect(showInputStub.callCount).to.eq(1);
+      expect(showInputStub.args[0][3]).to.be.true;
+      expect(new TextDecoder().decode(await fileAccessor.getPart('word/document.xml'))).to.contain('<w:t>Secret</w:t>');
+    } finally {
+      showInputStub.restore();
+    }
+  });
+
+  test('should ask for the password again if it is incorrect', async function () {
+    const showInputStub = stub(ExtensionUtilities, 'showInput');
+    showInputStub.onFirstCall().returns(Promise.resolve('wrong'));
+    showInputStub.onSecondCall().returns(Promise.resolve('Password1'));
+    const fileAccessor = new OOXMLPackageFileAccessor(encryptedFilePath);
+
+    try {
+      await fileAccessor.load();
+
+      expect(showInputStub.callCount).to.eq(2);
+      expect(showInputStub.args[1][1]).to.eq("The password is incorrect. Enter the password to open 'encrypted-agile.docx'.");
+      expect(fileAccessor.hasPart('word/document.xml')).to.be.true;
+    } finally {
+      showInputStub.restore();
+    }
+  });
+
+  test('should throw if the user cancels the password prompt of an encrypted package', async function () {
+    const showInputStub = stub(ExtensionUtilities, 'showInput').returns(Promise.resolve(undefined));
+    const fileAccessor = new OOXMLPackageFileAccessor(encryptedFilePath);
+
+    try {
+      let error: Error | undefined;
+      await fileAccessor.load().catch(err => (error = err));
+
+      expect(error?.message).to.eq("'encrypted-agile.docx' is encrypted and can't be opened without its password");
+      expect(fileAccessor.hasPart('word/document.xml')).to.be.false;
+    } finally {
+      showInputStub.restore();
+    }
+  });
+
+  test('should encrypt an encrypted package with the same password when it is written and reloaded', async function () {
+    const showInputStub = stub(ExtensionUtilities, 'showInput').returns(Promise.resolve('Password1'));
+    const writeFileStub = stub(FileSystemUtilities, 'writeFileAtomically').returns(Promise.resolve(true));
+    const fileAccessor = new OOXMLPackageFileAccessor(encryptedFilePath);
+    await fileAccessor.load();
+
+    try {
+      const response = await fileAccessor.updatePackage('word/document.xml', new TextEncoder().encode('<w:document/>'));
+
+      expect(response).to.be.true;
+      const file: Uint8Array = writeFileStub.args[0][1];
+      expect(OOXMLPackageEncryption.isEncryptedPackage(file)).to.be.true;
+      const decryptedPackage = OOXMLPackageEncryption.decrypt(file, 'Password1');
+      const zip = await new JSZip().loadAsync(decryptedPackage?.data ?? new Uint8Array());
+      expect(await zip.file('word/document.xml')?.async('string')).to.eq('<w:document/>');
+
+      await fileAccessor.load(file);
+
+      expect(showInputStub.callCount).to.eq(1);
+      expect(new TextDecoder().decode(await fileAccessor.getPart('word/document.xml'))).to.eq('<w:document/>');
+    } finally {
+      showInputStub.restore();
+      writeFileStub.restore();
+    }
+  });
+
+  test('should roll back the loaded package if the package could not be written', async function () {
+    const writeFileStub = stub(FileSystemUtilities, 'writeFileAtomically').returns(Promise.resolve(false));
+    const fileAccessor = new OOXMLPackageFileAccessor(testFilePath);
+    await fileAccessor.load();
+    const contentTypes = await fileAccessor.getPart('[Content_Types].xml');
+
+    try {
+      const response = await fileAccessor.updatePackageParts(
+        [
+          { filePath: '[Content_Types].xml', data: new TextEncoder().encode('<Types/>') },
+          { filePath: 'new/part.xml', data: new TextEncoder().encode('<Part/>') },
+        ],
+        ['_rels/.rels'],
+      );
+
+      expect(response).to.be.false;
+      expect(await fileAccessor.getPart('[Content_Types].xml')).to.deep.eq(contentTypes);
+      expect(fileAccessor.hasPart('new/part.xml')).to.be.false;
+      expect(fileAccessor.hasPart('_rels/.rels')).to.be.true;
+    } finally {
+      writeFileStub.restore();
+    }
+  });
+
+  test('should only back up the package before it is first written', async function () {
+    const writeFileStub = stub(FileSystemUtilities, 'writeFileAtomically').returns(Promise.resolve(true));
+    const backup = createStubInstance(OOXMLPackageBackup);
+    const fileAccessor = new OOXMLPackageFileAccessor(testFilePath, backup);
+    await fileAccessor.load();
+
+    try {
+      await fileAccessor.updatePackage('new/part.xml', new TextEncoder().encode('<Part/>'));
+      await fileAccessor.load();
+      await fileAccessor.updatePackage('new/part.xml', new TextEncoder().encode('<ChangedPart/>'));
+
+      expect(backup.createBackup.callCount).to.eq(1);
+      expect(backup.createBackup.calledBefore(writeFileStub)).to.be.true;
+      expect(writeFileStub.callCount).to.eq(2);
+    } finally {
+      writeFileStub.restore();
+    }
+  });
+
+  test('should back up the package before restoring a backup', async function () {
+    const readFileStub = stub(FileSystemUtilities, 'readFile').returns(Promise.resolve(new Uint8Array([1, 2, 3])));
+    const writeFileStub = stub(FileSystemUtilities, 'writeFileAtomically').returns(Promise.resolve(true));
+    const backup = createStubInstance(OOXMLPackageBackup);
+    const fileAccessor = new OOXMLPackageFileAccessor(testFilePath, backup);
+
+    try {
+      const response = await fileAccessor.restoreBackup('Test.pptx.bak');
+
+      expect(response).to.be.true;
+      expect(readFileStub.args[0][0]).to.eq('Test.pptx.bak');
+      expect(backup.createBackup.calledAfter(readFileStub)).to.be.true;
+      expect(writeFileStub.args[0]).to.deep.eq([testFilePath, new Uint8Array([1, 2, 3])]);
+    } finally {
+      readFileStub.restore();
+      writeFileStub.restore();
+    }
+  });
 });
@@ -0,0 +1,238 @@
+import { expect } from 'chai';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SinonStub, stub } from 'sinon';
+import { FileChangeEvent, FileChangeType, FilePermission, FileSystemError, Uri } from 'vscode';
+import { OOXMLFileSystemProvider } from '../../../src/file-system/ooxml-file-system-provider';
+import { OOXMLExtensionSettings } from '../../../src/ooxml-extension-settings';
+import { OOXMLPackageFileSystem } from '../../../src/ooxml-package/ooxml-package-file-system';
+import { VbaProjectReader } from '../../../src/utilities/vba-project-reader';
+
+suite('OOXMLPackageFileSystem', function () {
+  const documentXml = '<?xml version="1.0"?><document><body/></document>';
+  let fileSystemProvider: OOXMLFileSystemProvider;
+  let parts: Map<string, Uint8Array>;
+  let updatePartStub: SinonStub;
+  let fileSystem: OOXMLPackageFileSystem;
+
+  function decode(data: Uint8Array): string {
+    return new TextDecoder().decode(data);
+  }
+
+  async function getError(promise: Promise<unknown>): Promise<FileSystemError | undefined> {
+    try {
+      await promise;
+    } catch (err) {
+      return err as FileSystemError;
+    }
+
+    return undefined;
+  }
+
+  setup(function () {
+    fileSystemProvider = new OOXMLFileSystemProvider();
+    parts = new Map([['word/document.xml', new TextEncoder().encode(documentXml)]]);
+    updatePartStub = stub().returns(Promise.resolve());
+    fileSystem = new OOXMLPackageFileSystem(
+      '/files/report.docx',
+      fileSystemProvider,
+      <OOXMLExtensionSettings>{ maximumXmlPartsFileSizeBytes: 1000000 },
+      filePath => Promise.resolve(parts.get(filePath)),
+      updatePartStub,
+    );
+  });
+
+  teardown(function () {
+    fileSystem.dispose();
+  });
+
+  test('should read the formatted parts through the ooxml file system provider', async function () {
+    const data = await fileSystemProvider.readFile(fileSystem.getPartUri('word/document.xml'));
+
+    expect(fileSystem.getPartUri('word/document.xml').toString()).to.eq('ooxml:/files/report.docx/word/document.xml');
+    expect(decode(data)).to.eq('<?xml version="1.0"?>\r\n<document>\r\n  <body/>\r\n</document>');
+  });
+
+  test('should not format parts that exceed the maximum size to format', async function () {
+    fileSystem.dispose();
+    fileSystem = new OOXMLPackageFileSystem(
+      '/files/report.docx',
+      fileSystemProvider,
+      <OOXMLExtensionSettings>{ maximumXmlPartsFileSizeBytes: 10 },
+      filePath => Promise.resolve(parts.get(filePath)),
+    );
+
+    const data = await fileSystem.readPart('word/document.xml');
+
+    expect(decode(data ?? new Uint8Array())).to.eq(documentXml);
+  });
+
+  test('should read the compare files and the history of the parts', async function () {
+    fileSystem.setCompareFile('word/document.xml', new TextEncoder().encode('<?xml version="1.0"?><document/>'));
+    const snapshot = fileSystem.createSnapshot('word/document.xml', new TextEncoder().encode('<?xml version="1.0"?><old/>'), 'Opened');
+
+    const compareData = await fileSystem.readFile(fileSystem.getCompareUri('word/document.xml'));
+    const snapshotData = await fileSystem.readFile(fileSystem.getSnapshotUri(snapshot!));
+
+    expect(decode(compareData)).to.eq('<?xml version="1.0"?>\r\n<document/>');
+    expect(decode(snapshotData)).to.eq('<?xml version="1.0"?>\r\n<old/>');
+  });
+
+  test('should read the streams and the vba modules of parts', async function () {
+    const vbaProjectData = new Uint8Array(readFileSync(join(__dirname, '..', '..', '..', '..', 'test', 'test-data', 'vbaProject.bin')));
+    parts.set('word/vbaProject.bin', vbaProjectData);
+    const vbaModule = VbaProjectReader.read(vbaProjectData)[0];
+
+    const streamData = await fileSystem.readFile(fileSystem.getStreamUri('word/vbaProject.bin', 'VBA/dir'));
+    const vbaModuleData = await fileSystem.readFile(fileSystem.getVbaModuleUri('word/vbaProject.bin', vbaModule));
+
+    expect(streamData.byteLength).to.be.greaterThan(0);
+    expect(decode(vbaModuleData)).to.eq(vbaModule.source);
+  });
+
+  test('should only let the part files be written to', async function () {
+    const partStat = await fileSystem.stat(fileSystem.getPartUri('word/document.xml'));
+    fileSystem.setCompareFile('word/document.xml', new Uint8Array());
+    const compareStat = await fileSystem.stat(fileSystem.getCompareUri('word/document.xml'));
+
+    expect(partStat.permissions).to.be.undefined;
+    expect(compareStat.permissions).to.eq(FilePermission.Readonly);
+  });
+
+  test('should report the size of the formatted part without reading the part again', async function () {
+    const getPartStub = stub().callsFake((filePath: string) => Promise.resolve(parts.get(filePath)));
+    fileSystem.dispose();
+    fileSystem = new OOXMLPackageFileSystem(
+      '/files/report.docx',
+      fileSystemProvider,
+      <OOXMLExtensionSettings>{ maximumXmlPartsFileSizeBytes: 1000000 },
+      getPartStub,
+    );
+
+    const { size } = await fileSystem.stat(fileSystem.getPartUri('word/document.xml'));
+    const data = await fileSystem.readFile(fileSystem.getPartUri('word/document.xml'));
+
+    expect(size).to.eq(data.byteLength);
+    expect(getPartStub.callCount).to.eq(1);
+  });
+
+  test('should read changed parts again', async function () {
+    await fileSystem.readFile(fileSystem.getPartUri('word/document.xml'));
+    parts.set('word/document.xml', new TextEncoder().encode('<?xml version="1.0"?><changed/>'));
+
+    fileSystem.notifyChanged(['word/document.xml']);
+
+    expect(decode(await fileSystem.readFile(fileSystem.getPartUri('word/document.xml')))).to.eq('<?xml version="1.0"?>\r\n<changed/>');
+  });
+
+  test('should write saved part files to the package', async function () {
+    const data = new TextEncoder().encode('<?xml version="1.0"?><document/>');
+
+    await fileSystemProvider.writeFile(fileSystem.getPartUri('word/document.xml'), data);
+
+    expect(updatePartStub.args).to.deep.eq([['word/document.xml', data]]);
+  });
+
+  test('should not write the compare files', async function () {
+    const error = await getError(fileSystem.writeFile(fileSystem.getCompareUri('word/document.xml'), new Uint8Array()));
+
+    expect(error?.code).to.eq('NoPermissions');
+    expect(updatePartStub.callCount).to.eq(0);
+  });
+
+  test('should not find parts that are not in the package', async function () {
+    const error = await getError(fileSystem.readFile(fileSystem.getPartUri('word/styles.xml')));
+
+    expect(error?.code).to.eq('FileNotFound');
+  });
+
+  test('should get the paths of the parts from the part files only', function () {
+    const embeddedFileSystem = new OOXMLPackageFileSystem(
+      '/files/report.docx/word/embeddings/Book.xlsx',
+      fileSystemProvider,
+      <OOXMLExtensionSettings>{},
+      () => Promise.resolve(undefined),
+    );
+
+    expect(fileSystem.getPartFilePath(Uri.parse('ooxml:/files/report.docx/word/document.xml'))).to.eq('word/document.xml');
+    expect(fileSystem.getPartFilePath(Uri.parse('ooxml:/files/report.docx/word/document.xml?compare'))).to.be.undefined;
+    expect(fileSystem.getPartFilePath(Uri.parse('file:/files/report.docx/word/document.xml'))).to.be.undefined;
+    expect(fileSystem.getPartFilePath(Uri.parse('ooxml:/files/report.docx/word/embeddings/Book.xlsx/xl/workbook.xml'))).to.be.undefined;
+    expect(embeddedFileSystem.getPartFilePath(Uri.parse('ooxml:/files/report.docx/word/embeddings/Book.xlsx/xl/workbook.xml'))).to.eq(
+      'xl/workbook.xml',
+    );
+    embeddedFileSystem.dispose();
+  });
+
+  test('should tell the editors that the part and compare files of changed and deleted parts changed', async function () {
+    const firedEvents: FileChangeEvent[] = [];
+    fileSystemProvider.onDidChangeFile(events => firedEvents.push(...events));
+    const { mtime } = await fileSystem.stat(fileSystem.getPartUri('word/document.xml'));
+
+    fileSystem.notifyChanged(['word/document.xml'], ['word/styles.xml']);
+
+    expect(firedEvents.map(e => [e.type, e.uri.toString()])).to.deep.eq([
+      [FileChangeType.Changed, 'ooxml:/files/report.docx/word/document.xml'],
+      [FileChangeType.Deleted, 'ooxml:/files/report.docx/word/styles.xml'],
+      [FileChangeType.Changed, 'ooxml:/files/report.docx/word/document.xml?compare'],
+      [FileChangeType.Changed, 'ooxml:/files/report.docx/word/styles.xml?compare'],
+    ]);
+    expect((await fileSystem.stat(fileSystem.getPartUri('word/document.xml'))).mtime).to.be.greaterThan(mtime);
+  });
+
+  test('should move the compare file and the history of renamed parts', async function () {
+    fileSystem.setCompareFile('word/media/image1.png', new Uint8Array([1, 2, 3]));
+    fileSystem.createSnapshot('word/media/image1.png', new Uint8Array([1, 2, 3]), 'Opened');
+
+    fileSystem.renameFiles('word/media/image1.png', 'media/logo.png');
+
+    expect(await fileSystem.readFile(fileSystem.getCompareUri('media/logo.png'))).to.deep.eq(new Uint8Array([1, 2, 3]));
+    expect(fileSystem.getSnapshots('media/logo.png').map(s => s.description)).to.deep.eq(['Opened']);
+    expect(fileSystem.getSnapshots('word/media/image1.png')).to.be.empty;
+  });
+
+  test('should only take a snapshot if the part changed since the latest snapshot', function () {
+    const firstSnapshot = fileSystem.createSnapshot('word/document.xml', new TextEncoder().encode(documentXml), 'Opened');
+    const unchangedSnapshot = fileSystem.createSnapshot(
+      'word/document.xml',
+      new TextEncoder().encode('<?xml version="1.0"?>\r\n<document>\r\n  <body/>\r\n</document>'),
+      'Saved',
+    );
+    const changedSnapshot = fileSystem.createSnapshot(
+      'word/document.xml',
+      new TextEncoder().encode('<?xml version="1.0"?><document/>'),
+      'Saved',
+    );
+
+    expect(unchangedSnapshot).to.be.undefined;
+    expect(fileSystem.getSnapshots('word/document.xml')).to.deep.eq([changedSnapshot, firstSnapshot]);
+  });
+
+  test('should only keep the first and the newest snapshots of each part and keep their uris when others are dropped', async function () {
+    const otherSnapshot = fileSystem.createSnapshot(
+      'word/styles.xml',
+      new TextEncoder().encode('<?xml version="1.0"?><styles/>'),
+      'Opened',
+    );
+    const createDocumentSnapshot = (i: number) =>
+      fileSystem.createSnapshot('word/document.xml', new TextEncoder().encode(`<?xml version="1.0"?><document>${i}</document>`), 'Saved');
+    const firstSnapshot = createDocumentSnapshot(0);
+    const secondSnapshot = createDocumentSnapshot(1);
+    const thirdSnapshot = createDocumentSnapshot(2);
+    const thirdSnapshotUri = fileSystem.getSnapshotUri(thirdSnapshot!);
+
+    for (let i = 3; i <= 20; i++) {
+      createDocumentSnapshot(i);
+    }
+
+    const snapshots = fileSystem.getSnapshots('word/document.xml');
+    expect(snapshots).to.have.lengthOf(20);
+    expect(snapshots).to.not.include(secondSnapshot);
+    expect(snapshots[19]).to.eq(firstSnapshot);
+    expect(snapshots[18]).to.eq(thirdSnapshot);
+    expect(fileSystem.getSnapshots('word/styles.xml')).to.deep.eq([otherSnapshot]);
+    expect(fileSystem.getSnapshotUri(thirdSnapshot!).toString()).to.eq(thirdSnapshotUri.toString());
+    expect(decode(await fileSystem.readFile(thirdSnapshotUri))).to.eq('<?xml version="1.0"?>\r\n<document>2</document>');
+    expect((await getError(fileSystem.readFile(fileSystem.getSnapshotUri(secondSnapshot!))))?.code).to.eq('FileNotFound');
+  });
+});
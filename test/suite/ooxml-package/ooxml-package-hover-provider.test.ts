@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import { join } from 'path';
+import { createStubInstance, SinonStub, SinonStubbedInstance, stub } from 'sinon';
+import { Hover, MarkdownString, Position, TextDocument, Uri } from 'vscode';
+import { OOXMLPackageFileSystem } from '../../../src/ooxml-package/ooxml-package-file-system';
+import { OOXMLPackageHoverProvider } from '../../../src/ooxml-package/ooxml-package-hover-provider';
+import { OOXMLPackageSchemaValidator } from '../../../src/ooxml-package/ooxml-package-schema-validator';
+import { XmlSchemaSet } from '../../../src/utilities/xml-schema-validator';
+
+suite('OOXMLPackageHoverProvider', function () {
+  const schemaFolderPath = join(__dirname, '..', '..', '..', '..', 'test', 'test-data', 'schemas');
+  const text =
+    '<?xml version="1.0"?><m:document xmlns:m="urn:test:main"><m:p><!-- <m:p> --><m:pPr><m:spacing m:after="240"/></m:pPr></m:p></m:document>';
+  let fileSystem: SinonStubbedInstance<OOXMLPackageFileSystem>;
+  let getPartSchemaSetStub: SinonStub;
+  let provider: OOXMLPackageHoverProvider;
+
+  // the document is a single line, so the character of a position is its offset
+  async function provideHover(search: string, offsetInSearch = 0, documentText = text): Promise<Hover | undefined> {
+    const document = <TextDocument>(<unknown>{
+      uri: Uri.parse('ooxml:/report.docx/word/document.xml'),
+      getText: () => documentText,
+      offsetAt: (position: Position) => position.character,
+      positionAt: (offset: number) => new Position(0, offset),
+    });
+
+    return await provider.provideHover(document, new Position(0, documentText.indexOf(search) + offsetInSearch));
+  }
+
+  setup(async function () {
+    fileSystem = createStubInstance(OOXMLPackageFileSystem);
+    fileSystem.getPartFilePath.callsFake(uri => uri.path.replace('/report.docx/', ''));
+    const schemaSet = await XmlSchemaSet.load(schemaFolderPath, ['test-main.xsd']);
+    getPartSchemaSetStub = stub(OOXMLPackageSchemaValidator, 'getPartSchemaSet').returns(Promise.resolve(schemaSet));
+
+    provider = new OOXMLPackageHoverProvider(fileSystem);
+  });
+
+  teardown(function () {
+    getPartSchemaSetStub.restore();
+    provider.dispose();
+  });
+
+  test('should show the type and documentation of the element at the position', async function () {
+    const hover = await provideHover('<m:p>', 2);
+
+    expect((<MarkdownString>hover?.contents[0]).value).to.eq('**m:p** element `CT_Para`\n\nParagraph');
+    expect(hover?.range).to.deep.eq({ start: new Position(0, 58), end: new Position(0, 61) });
+    expect(getPartSchemaSetStub.calledWith(fileSystem, 'word/document.xml')).to.be.true;
+  });
+
+  test('should show the type, documentation and value in human units of the attribute at the position', async function () {
+    const hover = await provideHover('m:after', 3);
+
+    expect((<MarkdownString>hover?.contents[0]).value).to.eq(
+      '**m:after** attribute of **m:spacing** `ST_TwipsMeasure`\n\nSpacing Below Paragraph\n\n240 twips = 12 pt = 0.42 cm = 0.17 in',
+    );
+    expect(hover?.range).to.deep.eq({ start: new Position(0, 94), end: new Position(0, 107) });
+  });
+
+  test('should show the type and value in human units of attributes in the shipped WordprocessingML schema', async function () {
+    const wordSchemaSet = await XmlSchemaSet.load(join(__dirname, '..', '..', '..', '..', 'resources', 'schemas'), ['wml.xsd']);
+    getPartSchemaSetStub.returns(Promise.resolve(wordSchemaSet));
+    const wordText =
+      '<?xml version="1.0"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+      '<w:body><w:p><w:pPr><w:spacing w:after="240"/></w:pPr></w:p></w:body></w:document>';
+
+    const elementHover = await provideHover('<w:pPr>', 2, wordText);
+    const attributeHover = await provideHover('w:after', 3, wordText);
+
+    expect((<MarkdownString>elementHover?.contents[0]).value).to.eq('**w:pPr** element `CT_PPr`');
+    expect((<MarkdownString>attributeHover?.contents[0]).value).to.eq(
+      '**w:after** attribute of **w:spacing** `ST_TwipsMeasure`\n\n240 twips = 12 pt = 0.42 cm = 0.17 in',
+    );
+  });
+
+  test('should not show anything outside of start tags', async function () {
+    expect(await provideHover('</m:pPr>', 3)).to.be.undefined;
+    expect(await provideHover('<m:p> -->', 2)).to.be.undefined;
+  });
+
+  test('should not show anything in parts without a schema', async function () {
+    getPartSchemaSetStub.returns(Promise.resolve(undefined));
+
+    expect(await provideHover('<m:p>', 2)).to.be.undefined;
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import { OOXMLPackageManifest } from '../../../src/ooxml-package/ooxml-package-manifest';
+
+suite('OOXMLPackageManifest', function () {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const manifestXml =
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.3">' +
+    '<manifest:file-entry manifest:full-path="/" manifest:media-type="application/vnd.oasis.opendocument.text"/>' +
+    '<manifest:file-entry manifest:full-path="Configurations2/" manifest:media-type="application/vnd.sun.xml.ui.configuration"/>' +
+    '<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>' +
+    '<manifest:file-entry manifest:full-path="Pictures/image1.png" manifest:media-type="image/png"/>' +
+    '</manifest:manifest>';
+
+  let manifest: OOXMLPackageManifest;
+
+  setup(function () {
+    manifest = new OOXMLPackageManifest(encoder.encode(manifestXml));
+  });
+
+  test('constructor should throw if the manifest is not well-formed', function () {
+    expect(() => new OOXMLPackageManifest(encoder.encode('<manifest:manifest>'))).to.throw("'META-INF/manifest.xml' is not well-formed");
+  });
+
+  test('isOdfPackage should return whether or not a package has a mimetype file or a manifest', function () {
+    expect(OOXMLPackageManifest.isOdfPackage(['content.xml', 'mimetype'])).to.be.true;
+    expect(OOXMLPackageManifest.isOdfPackage(['META-INF/manifest.xml', 'content.xml'])).to.be.true;
+    expect(OOXMLPackageManifest.isOdfPackage(['[Content_Types].xml', 'word/document.xml'])).to.be.false;
+  });
+
+  test('isListedFile should return false for the mimetype file and the files in the META-INF folder', function () {
+    expect(OOXMLPackageManifest.isListedFile('content.xml')).to.be.true;
+    expect(OOXMLPackageManifest.isListedFile('mimetype')).to.be.false;
+    expect(OOXMLPackageManifest.isListedFile('META-INF/manifest.xml')).to.be.false;
+    expect(OOXMLPackageManifest.isListedFile('META-INF/documentsignatures.xml')).to.be.false;
+  });
+
+  test('getMediaType should return the media type of a file', function () {
+    expect(manifest.getMediaType('Pictures/image1.png')).to.eq('image/png');
+    expect(manifest.getMediaType('styles.xml')).to.be.undefined;
+  });
+
+  test('getFilePaths should return the listed files without the package and folder entries', function () {
+    expect(manifest.getFilePaths()).to.deep.eq(['content.xml', 'Pictures/image1.png']);
+  });
+
+  test('registerPart should add a file entry for a new file', function () {
+    const changed = manifest.registerPart('styles.xml', 'text/xml');
+
+    expect(changed).to.be.true;
+    expect(decoder.decode(manifest.toData())).to.contain(
+      '<manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/></manifest:manifest>',
+    );
+  });
+
+  test('registerPart should not change the manifest if the file is listed with the media type', function () {
+    expect(manifest.registerPart('content.xml', 'text/xml')).to.be.false;
+    expect(decoder.decode(manifest.toData())).to.eq(manifestXml);
+  });
+
+  test('registerPart should replace the media type of a listed file', function () {
+    expect(manifest.registerPart('content.xml', 'application/xml')).to.be.true;
+    expect(manifest.getMediaType('content.xml')).to.eq('application/xml');
+    expect(manifest.getFilePaths()).to.deep.eq(['content.xml', 'Pictures/image1.png']);
+  });
+
+  test('removePart should remove the file entry of a file', function () {
+    expect(manifest.removePart('Pictures/image1.png')).to.be.true;
+    expect(manifest.getFilePaths()).to.deep.eq(['content.xml']);
+  });
+
+  test('removePart should return false if the file is not listed', function () {
+    expect(manifest.removePart('styles.xml')).to.be.false;
+  });
+
+  test('renamePart should move the file entry to the new path', function () {
+    expect(manifest.renamePart('Pictures/image1.png', 'Pictures/image2.png')).to.be.true;
+    expect(manifest.getFilePaths()).to.deep.eq(['content.xml', 'Pictures/image2.png']);
+    expect(manifest.getMediaType('Pictures/image2.png')).to.eq('image/png');
+  });
+});
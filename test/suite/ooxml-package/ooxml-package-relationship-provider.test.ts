@@ -0,0 +1,107 @@
+import { expect } from 'chai';
+import { createStubInstance, SinonStubbedInstance } from 'sinon';
+import { Position, ReferenceContext, TextDocument, Uri } from 'vscode';
+import { OOXMLPackageFileSystem } from '../../../src/ooxml-package/ooxml-package-file-system';
+import { OOXMLPackageRelationshipProvider } from '../../../src/ooxml-package/ooxml-package-relationship-provider';
+
+suite('OOXMLPackageRelationshipProvider', function () {
+  const documentXml = [
+    '<?xml version="1.0"?>',
+    '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+    '  xmlns:rel="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+    '  <a:blip rel:embed="rId7"/>',
+    '  <w:hyperlink rel:id="rId8"/>',
+    '  <a:blip rel:link="rId7" id="rId7"/>',
+    '</w:document>',
+  ].join('\n');
+  const relationshipsXml = [
+    '<?xml version="1.0"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    '  <Relationship Id="rId7" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image1.png"/>',
+    '  <Relationship Id="rId8" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://example.com" TargetMode="External"/>',
+    '</Relationships>',
+  ].join('\n');
+  let fileSystem: SinonStubbedInstance<OOXMLPackageFileSystem>;
+  let provider: OOXMLPackageRelationshipProvider;
+
+  function createDocument(filePath: string, text: string): TextDocument {
+    return <TextDocument>(<unknown>{
+      uri: Uri.parse(`ooxml:/report.docx/${filePath}`),
+      getText: () => text,
+      offsetAt: (position: Position) =>
+        text
+          .split('\n')
+          .slice(0, position.line)
+          .reduce((offset, line) => offset + line.length + 1, position.character),
+    });
+  }
+
+  setup(function () {
+    fileSystem = createStubInstance(OOXMLPackageFileSystem);
+    fileSystem.getPartFilePath.callsFake(uri => uri.path.replace('/report.docx/', ''));
+    fileSystem.getPartUri.callsFake(filePath => Uri.parse(`ooxml:/report.docx/${filePath}`));
+    fileSystem.readPart.callsFake(filePath =>
+      Promise.resolve(
+        ['word/document.xml', 'word/_rels/document.xml.rels'].includes(filePath)
+          ? new TextEncoder().encode(filePath.endsWith('.rels') ? relationshipsXml : documentXml)
+          : undefined,
+      ),
+    );
+
+    provider = new OOXMLPackageRelationshipProvider(fileSystem);
+  });
+
+  teardown(function () {
+    provider.dispose();
+  });
+
+  test('provideDefinition should go from a relationship id to the relationship element and target part', async function () {
+    const definitions = await provider.provideDefinition(createDocument('word/document.xml', documentXml), new Position(3, 23));
+
+    expect(definitions?.map(d => d.uri.path)).to.deep.eq([
+      '/report.docx/word/_rels/document.xml.rels',
+      '/report.docx/word/media/image1.png',
+    ]);
+    expect(definitions?.[0].range.start).to.deep.eq(new Position(2, 2));
+    expect(definitions?.[1].range).to.deep.eq(new Position(0, 0));
+  });
+
+  test('provideDefinition should only go to the relationship element of an external relationship', async function () {
+    const definitions = await provider.provideDefinition(createDocument('word/document.xml', documentXml), new Position(4, 25));
+
+    expect(definitions?.map(d => d.uri.path)).to.deep.eq(['/report.docx/word/_rels/document.xml.rels']);
+    expect(definitions?.[0].range.start).to.deep.eq(new Position(3, 2));
+  });
+
+  test('provideDefinition should not provide definitions for attributes outside the relationships namespace', async function () {
+    const definitions = await provider.provideDefinition(createDocument('word/document.xml', documentXml), new Position(5, 30));
+
+    expect(definitions).to.be.undefined;
+  });
+
+  test('provideDefinition should go from a relationship target to the target part', async function () {
+    const definitions = await provider.provideDefinition(
+      createDocument('word/_rels/document.xml.rels', relationshipsXml),
+      new Position(2, 120),
+    );
+
+    expect(definitions?.map(d => d.uri.path)).to.deep.eq(['/report.docx/word/media/image1.png']);
+  });
+
+  test('provideReferences should list the usages of a relationship id in the source part', async function () {
+    const references = await provider.provideReferences(
+      createDocument('word/_rels/document.xml.rels', relationshipsXml),
+      new Position(2, 21),
+      <ReferenceContext>{ includeDeclaration: true },
+    );
+
+    expect(references?.map(r => r.uri.path)).to.deep.eq([
+      '/report.docx/word/_rels/document.xml.rels',
+      '/report.docx/word/document.xml',
+      '/report.docx/word/document.xml',
+    ]);
+    expect(references?.[1].range.start).to.deep.eq(new Position(3, 21));
+    expect(references?.[1].range.end).to.deep.eq(new Position(3, 25));
+    expect(references?.[2].range.start).to.deep.eq(new Position(5, 20));
+  });
+});
@@ -0,0 +1,134 @@
+import { expect } from 'chai';
+import { OOXMLPackageRelationships } from '../../../src/ooxml-package/ooxml-package-relationships';
+
+suite('OOXMLPackageRelationships', function () {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const relationshipsXml =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image1.png"/>' +
+    '<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://example.com" TargetMode="External"/>' +
+    '<Relationship Id="rId4" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="/word/media/image1.png"/>' +
+    '</Relationships>';
+
+  let relationships: OOXMLPackageRelationships;
+
+  setup(function () {
+    relationships = new OOXMLPackageRelationships('word/_rels/document.xml.rels', encoder.encode(relationshipsXml));
+  });
+
+  test('should resolve the source part path of the relationships part', function () {
+    expect(relationships.sourcePartPath).to.eq('word/document.xml');
+  });
+
+  test('constructor should throw if the relationships part is not well-formed', function () {
+    expect(() => new OOXMLPackageRelationships('word/_rels/document.xml.rels', encoder.encode('<Relationships>'))).to.throw(
+      "'word/_rels/document.xml.rels' is not well-formed",
+    );
+  });
+
+  test('getRelationships should resolve relative and absolute targets and skip external targets', function () {
+    const targetPaths = relationships.getRelationships().map(r => r.targetPath);
+
+    expect(targetPaths).to.deep.eq(['word/styles.xml', 'word/media/image1.png', undefined, 'word/media/image1.png']);
+  });
+
+  test('removeRelationshipsTargeting should remove every relationship that targets the part', function () {
+    const removedRelationships = relationships.removeRelationshipsTargeting('word/media/image1.png');
+
+    expect(removedRelationships.map(r => r.id)).to.deep.eq(['rId2', 'rId4']);
+    expect(relationships.getRelationships().map(r => r.id)).to.deep.eq(['rId1', 'rId3']);
+    expect(decoder.decode(relationships.toData())).to.not.contain('image1.png');
+  });
+
+  test('retargetRelationships should point relative and absolute targets at the new path', function () {
+    const retargetedRelationships = relationships.retargetRelationships('word/media/image1.png', 'media/picture.png');
+
+    expect(retargetedRelationships.map(r => r.id)).to.deep.eq(['rId2', 'rId4']);
+    expect(relationships.getRelationships().map(r => r.target)).to.deep.eq([
+      'styles.xml',
+      '../media/picture.png',
+      'https://example.com',
+      '/media/picture.png',
+    ]);
+  });
+
+  test('moveSourcePart should rewrite relative targets from the new source part folder', function () {
+    relationships.moveSourcePart('word/glossary/document.xml');
+
+    expect(relationships.relationshipsPartPath).to.eq('word/glossary/_rels/document.xml.rels');
+    expect(relationships.getRelationships().map(r => r.target)).to.deep.eq([
+      '../styles.xml',
+      '../media/image1.png',
+      'https://example.com',
+      '/word/media/image1.png',
+    ]);
+    expect(relationships.getRelationships().map(r => r.targetPath)).to.deep.eq([
+      'word/styles.xml',
+      'word/media/image1.png',
+      undefined,
+      'word/media/image1.png',
+    ]);
+  });
+
+  test('addRelationship should add a relationship with the next id', function () {
+    const id = relationships.addRelationship(
+      'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+      'word/media/image2.png',
+    );
+
+    expect(id).to.eq('rId5');
+    expect(decoder.decode(relationships.toData())).to.contain(
+      '<Relationship Id="rId5" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image2.png"/></Relationships>',
+    );
+  });
+
+  test('create should create empty relationships for a source part', function () {
+    const newRelationships = OOXMLPackageRelationships.create('ppt/slides/slide1.xml');
+
+    const id = newRelationships.addRelationship(
+      'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+      'ppt/media/image1.png',
+    );
+
+    expect(id).to.eq('rId1');
+    expect(newRelationships.relationshipsPartPath).to.eq('ppt/slides/_rels/slide1.xml.rels');
+    expect(newRelationships.getRelationships().map(r => r.target)).to.deep.eq(['../media/image1.png']);
+  });
+
+  test('getImportedPartRelationshipTypeName should suggest a relationship type based on the extension', function () {
+    expect(OOXMLPackageRelationships.getImportedPartRelationshipTypeName('C:/pictures/logo.PNG')).to.eq('image');
+    expect(OOXMLPackageRelationships.getImportedPartRelationshipTypeName('embeddings/oleObject1.bin')).to.eq('oleObject');
+    expect(OOXMLPackageRelationships.getImportedPartRelationshipTypeName('Book1.xlsx')).to.eq('package');
+    expect(OOXMLPackageRelationships.getImportedPartRelationshipTypeName('notes.txt')).to.be.undefined;
+  });
+
+  const relationshipsPartPathTests = [
+    { sourcePartPath: 'word/document.xml', relationshipsPartPath: 'word/_rels/document.xml.rels' },
+    { sourcePartPath: 'ppt/slides/slide1.xml', relationshipsPartPath: 'ppt/slides/_rels/slide1.xml.rels' },
+    { sourcePartPath: '', relationshipsPartPath: '_rels/.rels' },
+  ];
+
+  relationshipsPartPathTests.forEach(function (args) {
+    test(`getRelationshipsPartPath of '${args.sourcePartPath}' returns '${args.relationshipsPartPath}'`, function () {
+      expect(OOXMLPackageRelationships.getRelationshipsPartPath(args.sourcePartPath)).to.eq(args.relationshipsPartPath);
+    });
+
+    test(`getSourcePartPath of '${args.relationshipsPartPath}' returns '${args.sourcePartPath}'`, function () {
+      expect(OOXMLPackageRelationships.getSourcePartPath(args.relationshipsPartPath)).to.eq(args.sourcePartPath);
+    });
+  });
+
+  test('isRelationshipsPart should only match parts in a _rels folder', function () {
+    expect(OOXMLPackageRelationships.isRelationshipsPart('_rels/.rels')).to.be.true;
+    expect(OOXMLPackageRelationships.isRelationshipsPart('word/_rels/document.xml.rels')).to.be.true;
+    expect(OOXMLPackageRelationships.isRelationshipsPart('word/document.xml')).to.be.false;
+    expect(OOXMLPackageRelationships.isRelationshipsPart('word/custom.rels')).to.be.false;
+  });
+
+  test('resolveTarget should resolve parent folders and decode the target', function () {
+    expect(OOXMLPackageRelationships.resolveTarget('ppt/slides/slide1.xml', '../media/my%20image.png')).to.eq('ppt/media/my image.png');
+  });
+});
@@ -0,0 +1,99 @@
+import { expect } from 'chai';
+import { join } from 'path';
+import { stub } from 'sinon';
+import { OOXMLPackageSchemaValidator } from '../../../src/ooxml-package/ooxml-package-schema-validator';
+import { XmlSchemaSet } from '../../../src/utilities/xml-schema-validator';
+
+suite('OOXMLPackageSchemaValidator', function () {
+  const schemaFolderPath = join(__dirname, '..', '..', '..', '..', 'resources', 'schemas');
+  const textEncoder = new TextEncoder();
+
+  const getSchemaFileNameTests = [
+    {
+      filePath: 'word/document.xml',
+      contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml',
+      schemaFileName: 'wml.xsd',
+    },
+    {
+      filePath: 'xl/worksheets/sheet1.xml',
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml',
+      schemaFileName: 'sml.xsd',
+    },
+    {
+      filePath: 'ppt/theme/theme1.xml',
+      contentType: 'application/vnd.openxmlformats-officedocument.theme+xml',
+      schemaFileName: 'dml-main.xsd',
+    },
+    {
+      filePath: '_rels/.rels',
+      contentType: 'application/vnd.openxmlformats-package.relationships+xml',
+      schemaFileName: 'opc-relationships.xsd',
+    },
+    { filePath: '[Content_Types].xml', contentType: undefined, schemaFileName: 'opc-contentTypes.xsd' },
+    { filePath: 'customXml/item1.xml', contentType: 'application/xml', schemaFileName: undefined },
+  ];
+
+  getSchemaFileNameTests.forEach(function (args) {
+    test(`getSchemaFileName where part is '${args.filePath}' returns ${args.schemaFileName}`, function () {
+      expect(OOXMLPackageSchemaValidator.getSchemaFileName(args.filePath, args.contentType)).to.eq(args.schemaFileName);
+    });
+  });
+
+  test('validate should not find errors in parts without a schema', async function () {
+    const errors = await OOXMLPackageSchemaValidator.validate(
+      'customXml/item1.xml',
+      'application/xml',
+      new TextEncoder().encode('<?xml?><a/>'),
+    );
+
+    expect(errors).to.be.empty;
+  });
+
+  test('validate should not validate parts whose schema cannot be loaded', async function () {
+    const loadStub = stub(XmlSchemaSet, 'load').returns(Promise.reject(new Error('not found')));
+
+    try {
+      const errors = await OOXMLPackageSchemaValidator.validate(
+        'ppt/diagrams/data1.xml',
+        'application/vnd.openxmlformats-officedocument.drawingml.diagramData+xml',
+        textEncoder.encode('<?xml version="1.0"?><a/>'),
+      );
+
+      expect(errors).to.be.undefined;
+      expect(loadStub.args[0][1]).to.deep.eq(['dml-diagram.xsd']);
+    } finally {
+      loadStub.restore();
+    }
+  });
+
+  test('the shipped schemas should validate WordprocessingML parts', async function () {
+    const schemaSet = await XmlSchemaSet.load(schemaFolderPath, ['wml.xsd']);
+    const document = (body: string) =>
+      textEncoder.encode(
+        '<?xml version="1.0"?>\n' +
+          '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+          `<w:body>${body}</w:body>` +
+          '</w:document>',
+      );
+
+    const validErrors = schemaSet.validate(document('<w:p><w:pPr><w:pStyle w:val="Title"/><w:jc w:val="center"/></w:pPr></w:p>'));
+    const invalidErrors = schemaSet.validate(document('<w:p><w:pPr><w:jc w:val="center"/><w:pStyle w:val="Title"/></w:pPr></w:p>'));
+
+    expect(validErrors).to.be.empty;
+    expect(invalidErrors).to.not.be.empty;
+  });
+
+  test('the shipped schemas should validate the core properties without the Dublin Core schemas', async function () {
+    const schemaSet = await XmlSchemaSet.load(schemaFolderPath, ['opc-coreProperties.xsd']);
+
+    const errors = schemaSet.validate(
+      textEncoder.encode(
+        '<?xml version="1.0"?>\n' +
+          '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+          'xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Report</dc:title><cp:revision>2</cp:revision></cp:coreProperties>',
+      ),
+    );
+
+    expect(errors).to.be.empty;
+  });
+});
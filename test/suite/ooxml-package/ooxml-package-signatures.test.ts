@@ -0,0 +1,101 @@
+import { expect } from 'chai';
+import { readFileSync } from 'fs';
+import JSZip from 'jszip';
+import { join } from 'path';
+import { stub } from 'sinon';
+import { PackageFile } from '../../../src/ooxml-package/ooxml-package-file-accessor';
+import { OOXMLPackageSignatures, PackageSignature } from '../../../src/ooxml-package/ooxml-package-signatures';
+import logger from '../../../src/utilities/logger';
+
+suite('OOXMLPackageSignatures', function () {
+  const signedFilePath = join(__dirname, '..', '..', '..', '..', 'test', 'test-data', 'signed.docx');
+  const textEncoder = new TextEncoder();
+  const textDecoder = new TextDecoder();
+  let fileContents: PackageFile[];
+
+  setup(async function () {
+    const zip = await new JSZip().loadAsync(readFileSync(signedFilePath));
+    fileContents = await Promise.all(
+      Object.values(zip.files).map(async file => ({ filePath: file.name, isDirectory: file.dir, data: await file.async('uint8array') })),
+    );
+  });
+
+  function replacePart(filePath: string, replace: (xml: string) => string): void {
+    const part = fileContents.find(p => p.filePath === filePath);
+    if (part) {
+      part.data = textEncoder.encode(replace(textDecoder.decode(part.data)));
+    }
+  }
+
+  test('should read the signatures targeted by the signature origin and check the digests of the signed parts', function () {
+    const signatures = OOXMLPackageSignatures.read(fileContents);
+
+    expect(signatures).to.deep.eq([
+      {
+        filePath: '_xmlsignatures/sig1.xml',
+        signedParts: [
+          { filePath: '_rels/.rels', isValid: true },
+          { filePath: 'word/_rels/document.xml.rels', isValid: true },
+          { filePath: 'word/document.xml', isValid: true },
+          { filePath: 'word/styles.xml', isValid: true },
+        ],
+        isValid: true,
+      },
+    ]);
+  });
+
+  test('should invalidate the signature if a signed part is changed or deleted', function () {
+    replacePart('word/document.xml', xml => xml.replace('Signed', 'Changed'));
+    fileContents = fileContents.filter(p => p.filePath !== 'word/styles.xml');
+
+    const signatures = OOXMLPackageSignatures.read(fileContents);
+
+    expect(signatures[0].isValid).to.be.false;
+    expect(signatures[0].signedParts.filter(p => !p.isValid).map(p => p.filePath)).to.deep.eq(['word/document.xml', 'word/styles.xml']);
+  });
+
+  test('should only digest the signed relationships of relationships parts', function () {
+    replacePart('_rels/.rels', xml =>
+      xml.replace('</Relationships>', '<Relationship Id="rId3" Type="custom" Target="custom.xml"/></Relationships>'),
+    );
+
+    expect(OOXMLPackageSignatures.read(fileContents)[0].isValid).to.be.true;
+
+    replacePart('word/_rels/document.xml.rels', xml => xml.replace('Target="styles.xml"', 'Target="other.xml"'));
+
+    expect(OOXMLPackageSignatures.read(fileContents)[0].signedParts[1]).to.deep.eq({
+      filePath: 'word/_rels/document.xml.rels',
+      isValid: false,
+    });
+  });
+
+  test('should not find signatures in a package without a signature origin', function () {
+    replacePart('_rels/.rels', xml => xml.replace('digital-signature/origin', 'custom'));
+
+    expect(OOXMLPackageSignatures.read(fileContents)).to.be.empty;
+  });
+
+  test('should skip signature parts that are not well-formed', function () {
+    replacePart('_xmlsignatures/sig1.xml', () => '<Signature');
+    const warnStub = stub(logger, 'warn');
+
+    try {
+      expect(OOXMLPackageSignatures.read(fileContents)).to.be.empty;
+      expect(warnStub.firstCall.args[0]).to.contain("'_xmlsignatures/sig1.xml' is not well-formed");
+    } finally {
+      warnStub.restore();
+    }
+  });
+
+  test('should find the valid signatures that sign any of the changed parts', function () {
+    const signatures: PackageSignature[] = [
+      { filePath: '_xmlsignatures/sig1.xml', signedParts: [{ filePath: 'word/document.xml', isValid: true }], isValid: true },
+      { filePath: '_xmlsignatures/sig2.xml', signedParts: [{ filePath: 'word/styles.xml', isValid: true }], isValid: true },
+      { filePath: '_xmlsignatures/sig3.xml', signedParts: [{ filePath: 'word/document.xml', isValid: false }], isValid: false },
+    ];
+
+    const invalidatedSignatures = OOXMLPackageSignatures.findInvalidatedSignatures(signatures, ['Word/Document.xml', 'word/settings.xml']);
+
+    expect(invalidatedSignatures.map(s => s.filePath)).to.deep.eq(['_xmlsignatures/sig1.xml']);
+  });
+});
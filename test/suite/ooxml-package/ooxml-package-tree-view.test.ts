@@ -1,19 +1,25 @@
 import { expect } from 'chai';
 import { createStubInstance, SinonStubbedInstance } from 'sinon';
+import { OOXMLPackageRelationships } from '../../../src/ooxml-package/ooxml-package-relationships';
 import { OOXMLPackageTreeView } from '../../../src/ooxml-package/ooxml-package-tree-view';
+import { OOXMLRelationshipTreeDataProvider } from '../../../src/tree-view/ooxml-relationship-tree-view-provider';
 import { FileNode, OOXMLTreeDataProvider } from '../../../src/tree-view/ooxml-tree-view-provider';
 
 suite('OOXMLPackageTreeView', function () {
   let treeViewDataProvider: SinonStubbedInstance<OOXMLTreeDataProvider>;
   let treeView: OOXMLPackageTreeView;
   let treeViewRoot: FileNode;
+  let relationshipTreeDataProvider: SinonStubbedInstance<OOXMLRelationshipTreeDataProvider>;
 
   setup(function () {
     treeViewRoot = new FileNode();
     treeViewDataProvider = createStubInstance(OOXMLTreeDataProvider);
     treeViewDataProvider.rootFileNode = treeViewRoot;
 
-    treeView = new OOXMLPackageTreeView(treeViewDataProvider, 'path/to/package.docx');
+    relationshipTreeDataProvider = createStubInstance(OOXMLRelationshipTreeDataProvider);
+    relationshipTreeDataProvider.packageNodes = [];
+
+    treeView = new OOXMLPackageTreeView(treeViewDataProvider, 'path/to/package.docx', relationshipTreeDataProvider);
   });
 
   test('getRootNode should return the root tree node', function () {
@@ -24,6 +30,21 @@ suite('OOXMLPackageTreeView', function () {
     expect(rootNode.parent).to.be.eq(treeViewRoot);
   });
 
+  test('should show an embedded package under the file node of its part', function () {
+    const partNode = FileNode.create('word/embeddings/Microsoft_Excel_Worksheet.xlsx', treeView.getRootFileNode(), 'path/to/package.docx');
+    const embeddedPackagePath = 'path/to/package.docx/word/embeddings/Microsoft_Excel_Worksheet.xlsx';
+
+    const embeddedTreeView = new OOXMLPackageTreeView(treeViewDataProvider, embeddedPackagePath, relationshipTreeDataProvider, partNode);
+
+    expect(embeddedTreeView.getRootFileNode().parent).to.eq(partNode);
+    expect(partNode.children).to.deep.eq([embeddedTreeView.getRootFileNode()]);
+
+    embeddedTreeView.reset();
+
+    expect(partNode.children).to.be.empty;
+    expect(treeViewRoot.children).to.deep.eq([treeView.getRootFileNode()]);
+  });
+
   test('refresh should call tree view refresh', function () {
     const originalCallCount = treeViewDataProvider.refresh.callCount;
     treeView.refresh();
@@ -36,4 +57,80 @@ suite('OOXMLPackageTreeView', function () {
 
     expect(treeViewRoot.children.length).to.be.eq(0);
   });
+
+  test('setRelationships should replace the package node in the relationship tree view', function () {
+    const relationships = OOXMLPackageRelationships.create('');
+    relationships.addRelationship(
+      'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+      'word/document.xml',
+    );
+
+    treeView.setRelationships([]);
+    treeView.setRelationships([relationships]);
+
+    expect(relationshipTreeDataProvider.packageNodes.length).to.be.eq(1);
+    expect(relationshipTreeDataProvider.packageNodes[0].getChildren()[0].nodePath).to.be.eq('word/document.xml');
+    expect(relationshipTreeDataProvider.refresh.callCount).to.be.eq(2);
+  });
+
+  test('setProblems should replace the problems of the file nodes', function () {
+    const rootNode = treeView.getRootFileNode();
+    const folderNode = FileNode.create('word', rootNode, rootNode.nodePath);
+    const partNode = FileNode.create('word/document.xml', folderNode, rootNode.nodePath);
+    folderNode.problems = ['old problem'];
+
+    treeView.setProblems([{ filePath: 'word/document.xml', message: 'new problem' }]);
+
+    expect(folderNode.problems).to.be.empty;
+    expect(partNode.problems).to.deep.eq(['new problem']);
+  });
+
+  test('setProblems should not replace the problems of the file nodes of embedded packages', function () {
+    const rootNode = treeView.getRootFileNode();
+    const partNode = FileNode.create('word/embeddings/Microsoft_Excel_Worksheet.xlsx', rootNode, rootNode.nodePath);
+    const embeddedRootNode = FileNode.create('path/to/package.docx/word/embeddings/Microsoft_Excel_Worksheet.xlsx', partNode, '');
+    embeddedRootNode.isOOXMLPackage = true;
+    const embeddedPartNode = FileNode.create('[Content_Types].xml', embeddedRootNode, embeddedRootNode.nodePath);
+    embeddedPartNode.problems = ['embedded problem'];
+
+    treeView.setProblems([{ filePath: '[Content_Types].xml', message: 'new problem' }]);
+
+    expect(embeddedPartNode.problems).to.deep.eq(['embedded problem']);
+  });
+
+  test('setSignatures should describe the signatures on the package node', function () {
+    treeView.setSignatures([
+      {
+        filePath: '_xmlsignatures/sig1.xml',
+        signedParts: [
+          { filePath: 'word/document.xml', isValid: true },
+          { filePath: 'word/styles.xml', isValid: true },
+        ],
+        isValid: true,
+      },
+      {
+        filePath: '_xmlsignatures/sig2.xml',
+        signedParts: [
+          { filePath: 'word/document.xml', isValid: false },
+          { filePath: 'word/styles.xml', isValid: true },
+        ],
+        isValid: false,
+      },
+    ]);
+
+    const rootNode = treeView.getRootFileNode();
+    expect(rootNode.signatures).to.deep.eq([
+      "'_xmlsignatures/sig1.xml' signs 2 parts",
+      "'_xmlsignatures/sig2.xml' is invalid, 'word/document.xml' changed after signing",
+    ]);
+    expect(rootNode.hasInvalidSignature).to.be.true;
+  });
+
+  test('reset should remove package node from the relationship tree view', function () {
+    treeView.setRelationships([]);
+
+    treeView.reset();
+
+    expect(relationshipTreeDataProvider.packageNodes.length).to.be.eq(0);
+  });
 });
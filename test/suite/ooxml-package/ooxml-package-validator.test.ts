@@ -0,0 +1,135 @@
+import { expect } from 'chai';
+import { PackageFile } from '../../../src/ooxml-package/ooxml-package-file-accessor';
+import { OOXMLPackageValidator } from '../../../src/ooxml-package/ooxml-package-validator';
+
+suite('OOXMLPackageValidator', function () {
+  const textEncoder = new TextEncoder();
+  const contentTypesXml =
+    '<?xml version="1.0"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '</Types>';
+
+  function createPart(filePath: string, xml: string): PackageFile {
+    return { filePath: filePath, isDirectory: false, data: textEncoder.encode(xml) };
+  }
+
+  function createRelationshipsPart(filePath: string, relationships: string): PackageFile {
+    return createPart(
+      filePath,
+      `<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${relationships}</Relationships>`,
+    );
+  }
+
+  function createDocumentPart(filePath: string, body: string): PackageFile {
+    return createPart(
+      filePath,
+      '<?xml version="1.0"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+        'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+        `xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">${body}</w:document>`,
+    );
+  }
+
+  test('should not find problems in a package with defined relationship ids, existing targets and content types', function () {
+    const problems = OOXMLPackageValidator.validate(
+      [
+        createPart('[Content_Types].xml', contentTypesXml),
+        { filePath: 'word', isDirectory: true, data: new Uint8Array() },
+        createRelationshipsPart('_rels/.rels', '<Relationship Id="rId1" Type="officeDocument" Target="word/document.xml"/>'),
+        createRelationshipsPart(
+          'word/_rels/document.xml.rels',
+          '<Relationship Id="rId1" Type="hyperlink" Target="https://example.com" TargetMode="External"/>',
+        ),
+        createDocumentPart('word/document.xml', '<w:hyperlink r:id="rId1"/>'),
+      ],
+      1000000,
+    );
+
+    expect(problems).to.be.empty;
+  });
+
+  test('should find relationship targets that do not exist', function () {
+    const problems = OOXMLPackageValidator.validate(
+      [createRelationshipsPart('_rels/.rels', '<Relationship Id="rId1" Type="officeDocument" Target="/word/document.xml"/>')],
+      1000000,
+    );
+
+    expect(problems).to.deep.eq([
+      {
+        filePath: '_rels/.rels',
+        message: "Relationship 'rId1' targets 'word/document.xml', which doesn't exist in the package",
+        value: '/word/document.xml',
+      },
+    ]);
+  });
+
+  test('should find relationship ids that are not defined', function () {
+    const problems = OOXMLPackageValidator.validate(
+      [
+        createRelationshipsPart('word/_rels/document.xml.rels', '<Relationship Id="rId1" Type="image" Target="media/image1.png"/>'),
+        createPart('word/media/image1.png', ''),
+        createDocumentPart('word/document.xml', '<a:blip r:embed="rId1"/><a:blip r:embed="rId2"/><a:blip r:link="rId2"/>'),
+        createDocumentPart('word/header1.xml', '<w:hyperlink r:id="rId1"/>'),
+      ],
+      1000000,
+    );
+
+    expect(problems).to.deep.eq([
+      {
+        filePath: 'word/document.xml',
+        message: "'r:embed' references relationship 'rId2', which isn't defined in 'word/_rels/document.xml.rels'",
+        value: 'rId2',
+      },
+      {
+        filePath: 'word/header1.xml',
+        message: "'r:id' references relationship 'rId1', but 'word/_rels/header1.xml.rels' doesn't exist",
+        value: 'rId1',
+      },
+    ]);
+  });
+
+  test('should not search parts that are too large for relationship ids', function () {
+    const problems = OOXMLPackageValidator.validate([createDocumentPart('word/document.xml', '<w:hyperlink r:id="rId1"/>')], 10);
+
+    expect(problems).to.be.empty;
+  });
+
+  test('should find parts without a content type', function () {
+    const problems = OOXMLPackageValidator.validate(
+      [createPart('[Content_Types].xml', contentTypesXml), createPart('word/media/image1.png', ''), createPart('word/document.xml', '')],
+      1000000,
+    );
+
+    expect(problems).to.deep.eq([
+      { filePath: 'word/media/image1.png', message: "'word/media/image1.png' has no content type in '[Content_Types].xml'" },
+    ]);
+  });
+
+  test('should find the files missing from the manifest of odf packages and the listed files that do not exist', function () {
+    const problems = OOXMLPackageValidator.validate(
+      [
+        createPart('mimetype', 'application/vnd.oasis.opendocument.text'),
+        createPart(
+          'META-INF/manifest.xml',
+          '<?xml version="1.0"?><manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0">' +
+            '<manifest:file-entry manifest:full-path="/" manifest:media-type="application/vnd.oasis.opendocument.text"/>' +
+            '<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>' +
+            '<manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>' +
+            '</manifest:manifest>',
+        ),
+        createPart('content.xml', '<?xml version="1.0"?><office:document-content/>'),
+        createPart('Pictures/image1.png', ''),
+      ],
+      1000000,
+    );
+
+    expect(problems).to.deep.eq([
+      {
+        filePath: 'META-INF/manifest.xml',
+        message: "'META-INF/manifest.xml' lists 'styles.xml', which doesn't exist in the package",
+        value: 'styles.xml',
+      },
+      { filePath: 'Pictures/image1.png', message: "'Pictures/image1.png' is not listed in 'META-INF/manifest.xml'" },
+    ]);
+  });
+});
@@ -1,11 +1,16 @@
 import { expect } from 'chai';
+import { readFileSync } from 'fs';
 import { join } from 'path';
 import { createStubInstance, SinonStub, SinonStubbedInstance, stub } from 'sinon';
-import { ThemeIcon, TreeItemCollapsibleState, Uri } from 'vscode';
+import { Range, ThemeIcon, TreeItemCollapsibleState, Uri } from 'vscode';
 import { OOXMLExtensionSettings } from '../../../src/ooxml-extension-settings';
 import { OOXMLPackage } from '../../../src/ooxml-package/ooxml-package';
+import { OOXMLPackageDiagnostics } from '../../../src/ooxml-package/ooxml-package-diagnostics';
+import { OOXMLPackageEmbeddedPackages } from '../../../src/ooxml-package/ooxml-package-embedded-packages';
 import { OOXMLPackageFileAccessor, PackageFile } from '../../../src/ooxml-package/ooxml-package-file-accessor';
-import { OOXMLPackageFileCache } from '../../../src/ooxml-package/ooxml-package-file-cache';
+import { OOXMLPackageFileSystem } from '../../../src/ooxml-package/ooxml-package-file-system';
+import { OOXMLPackageSchemaValidator } from '../../../src/ooxml-package/ooxml-package-schema-validator';
+import { OOXMLPackageSignatures, PackageSignature } from '../../../src/ooxml-package/ooxml-package-signatures';
 import { OOXMLPackageTreeView } from '../../../src/ooxml-package/ooxml-package-tree-view';
 import { FileNode } from '../../../src/tree-view/ooxml-tree-view-provider';
 import { ExtensionUtilities } from '../../../src/utilities/extension-utilities';
@@ -21,22 +26,38 @@ suite('OOXMLPackage', async function () {
   let ooxmlFilePath = join(__dirname, '..', '..', '..', 'test', 'test-data', 'Test.pptx');
   let ooxmlFileAccessor: SinonStubbedInstance<OOXMLPackageFileAccessor>;
   let ooxmlPackageTreeView: SinonStubbedInstance<OOXMLPackageTreeView>;
-  let cache: SinonStubbedInstance<OOXMLPackageFileCache>;
+  let fileSystem: SinonStubbedInstance<OOXMLPackageFileSystem>;
+  let diagnostics: SinonStubbedInstance<OOXMLPackageDiagnostics>;
   let extensionSettings: OOXMLExtensionSettings;
 
   const stubs: SinonStub[] = [];
+  const manifestXml =
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0">' +
+    '<manifest:file-entry manifest:full-path="/" manifest:media-type="application/vnd.oasis.opendocument.text"/>' +
+    '<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>' +
+    '<manifest:file-entry manifest:full-path="Pictures/image1.png" manifest:media-type="image/png"/>' +
+    '</manifest:manifest>';
+
+  function getPartUri(filePath: string): Uri {
+    return Uri.parse(`ooxml:/package.json/${filePath}`);
+  }
 
   setup(function () {
     ooxmlFilePath = 'package.json';
     ooxmlFileAccessor = createStubInstance(OOXMLPackageFileAccessor);
+    ooxmlFileAccessor.getPackageContents.returns(Promise.resolve([]));
     ooxmlPackageTreeView = createStubInstance(OOXMLPackageTreeView);
-    cache = createStubInstance(OOXMLPackageFileCache);
+    fileSystem = createStubInstance(OOXMLPackageFileSystem);
+    fileSystem.getPartUri.callsFake(getPartUri);
+    fileSystem.getSnapshots.returns([]);
+    diagnostics = createStubInstance(OOXMLPackageDiagnostics);
     extensionSettings = <OOXMLExtensionSettings>{
       maximumNumberOfOOXMLParts: 1000,
       maximumXmlPartsFileSizeBytes: 1000000,
     };
 
-    ooxmlPackage = new OOXMLPackage(ooxmlFilePath, ooxmlFileAccessor, ooxmlPackageTreeView, cache, extensionSettings);
+    ooxmlPackage = new OOXMLPackage(ooxmlFilePath, ooxmlFileAccessor, ooxmlPackageTreeView, fileSystem, extensionSettings, diagnostics);
   });
 
   teardown(function () {
@@ -45,51 +66,93 @@ suite('OOXMLPackage', async function () {
   });
 
   suite('viewFile', async function () {
-    test('should open a file using the cached file path', async function () {
+    test('should open the part file', async function () {
       const commandsStub = stub(ExtensionUtilities, 'openFile');
       stubs.push(commandsStub);
-      cache.getNormalFileCachePath.withArgs('file-path').returns('cached-file-path');
-      cache.getCachedNormalFile.withArgs('file-path').returns(Promise.resolve(new Uint8Array()));
+      ooxmlFileAccessor.getPart.withArgs('file-path').returns(Promise.resolve(new Uint8Array()));
 
       await ooxmlPackage.viewFile('file-path');
 
       expect(commandsStub.callCount).to.be.equal(1);
-      expect(commandsStub.args[0][0]).to.be.equal('cached-file-path');
+      expect(commandsStub.args[0][0]).to.deep.equal(getPartUri('file-path'));
     });
 
-    test('should format the cached file on open', async function () {
-      const commandsStub = stub(ExtensionUtilities, 'openFile');
-      stubs.push(commandsStub);
-      const decoder = new TextDecoder();
-      const encoder = new TextEncoder();
-      cache.getCachedNormalFile.withArgs('file-path').returns(Promise.resolve(encoder.encode('<?xml ?><!-- comment --><Types></Types>')));
+    test('should open image parts in the image preview', async function () {
+      const openFileStub = stub(ExtensionUtilities, 'openFile');
+      const openWithStub = stub(ExtensionUtilities, 'openWith');
+      stubs.push(openFileStub, openWithStub);
+      ooxmlFileAccessor.getPart.withArgs('ppt/media/image1.emf').returns(Promise.resolve(new Uint8Array([1, 0, 0, 0])));
 
-      await ooxmlPackage.viewFile('file-path');
+      await ooxmlPackage.viewFile('ppt/media/image1.emf');
 
-      expect(cache.updateCachedFilesNoCompare.callCount).to.be.equal(1);
-      expect(cache.updateCachedFilesNoCompare.args[0][0]).to.be.equal('file-path');
-      expect(decoder.decode(cache.updateCachedFilesNoCompare.args[0][1])).to.be.equals('<?xml?>\r\n<!-- comment -->\r\n<Types></Types>');
+      expect(openWithStub.args).to.deep.eq([[getPartUri('ppt/media/image1.emf'), 'ooxmlViewer.imagePreview']]);
+      expect(openFileStub.callCount).to.eq(0);
     });
 
-    test('should not format the cached file on open if minified file is too large', async function () {
+    test('should open binary parts in the hex view', async function () {
+      const openFileStub = stub(ExtensionUtilities, 'openFile');
+      const openWithStub = stub(ExtensionUtilities, 'openWith');
+      stubs.push(openFileStub, openWithStub);
+      ooxmlFileAccessor.getPart.withArgs('xl/printerSettings/printerSettings1.bin').returns(Promise.resolve(new Uint8Array([0, 1, 2])));
+
+      await ooxmlPackage.viewFile('xl/printerSettings/printerSettings1.bin');
+
+      expect(openWithStub.args).to.deep.eq([[getPartUri('xl/printerSettings/printerSettings1.bin'), 'ooxmlViewer.hexView']]);
+      expect(openFileStub.callCount).to.eq(0);
+    });
+
+    test('should warn that the file is not formatted if the minified file is too large', async function () {
       const commandsStub = stub(ExtensionUtilities, 'openFile');
+      const showWarningStub = stub(ExtensionUtilities, 'showWarning');
       const minifyStub = stub(XmlFormatter, 'minify').returns(
         new TextEncoder().encode(' '.repeat(extensionSettings.maximumXmlPartsFileSizeBytes + 1)),
       );
-      stubs.push(commandsStub, minifyStub);
+      stubs.push(commandsStub, showWarningStub, minifyStub);
       const encoder = new TextEncoder();
-      cache.getCachedNormalFile.withArgs('file-path').returns(Promise.resolve(encoder.encode('<?xml ?><!-- comment --><Types></Types>')));
+      ooxmlFileAccessor.getPart.withArgs('file-path').returns(Promise.resolve(encoder.encode('<?xml ?><!-- comment --><Types></Types>')));
 
       await ooxmlPackage.viewFile('file-path');
 
-      expect(cache.updateCachedFilesNoCompare.callCount).to.be.equal(0);
+      expect(showWarningStub.args[0][0]).to.contain('exceeds maximum');
+      expect(commandsStub.callCount).to.be.equal(1);
+    });
+
+    test('should show the schema errors of the formatted file as diagnostics', async function () {
+      const commandsStub = stub(ExtensionUtilities, 'openFile');
+      const schemaErrors = [{ message: "'p:bad' is not allowed in 'p:sld'", lineNumber: 2, columnNumber: 3 }];
+      const validateStub = stub(OOXMLPackageSchemaValidator, 'validate').returns(Promise.resolve(schemaErrors));
+      stubs.push(commandsStub, validateStub);
+      const formattedXml = XmlFormatter.format(new TextEncoder().encode('<?xml ?><Types></Types>'));
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(undefined));
+      fileSystem.readPart.withArgs('file-path').returns(Promise.resolve(formattedXml));
+
+      await ooxmlPackage.viewFile('file-path');
+
+      expect(validateStub.args[0][0]).to.eq('file-path');
+      expect(validateStub.args[0][2]).to.eq(formattedXml);
+      expect(diagnostics.setSchemaErrors.args[0]).to.deep.eq(['file-path', schemaErrors]);
+    });
+
+    test('should warn once that parts were not validated if their schema cannot be loaded', async function () {
+      const commandsStub = stub(ExtensionUtilities, 'openFile');
+      const showWarningStub = stub(ExtensionUtilities, 'showWarning');
+      const validateStub = stub(OOXMLPackageSchemaValidator, 'validate').returns(Promise.resolve(undefined));
+      stubs.push(commandsStub, showWarningStub, validateStub);
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(undefined));
+      fileSystem.readPart.returns(Promise.resolve(XmlFormatter.format(new TextEncoder().encode('<?xml ?><Types></Types>'))));
+
+      await ooxmlPackage.viewFile('file-path');
+      await ooxmlPackage.viewFile('other-file-path');
+
+      expect(showWarningStub.args).to.deep.eq([["'file-path' wasn't validated because its schema couldn't be loaded"]]);
+      expect(diagnostics.setSchemaErrors.args[0]).to.deep.eq(['file-path', []]);
     });
 
     test('should display error if an error is thrown', async function () {
       const showErrorStub = stub(ExtensionUtilities, 'showError');
 
       stubs.push(showErrorStub);
-      cache.getNormalFileCachePath.throws(new Error());
+      ooxmlFileAccessor.getPart.throws(new Error());
 
       await ooxmlPackage.viewFile('file-path');
 
@@ -97,122 +160,144 @@ suite('OOXMLPackage', async function () {
     });
   });
 
-  suite('getDiff', async function () {
-    test('should use vscode.diff to get the difference between two files', async function () {
-      const encoder = new TextEncoder();
-      const decoder = new TextDecoder();
-      const xml =
-        '<?xml version="1.0" encoding="UTF-8"?><note><to>Tove</to><from>Jani</from>' +
-        "<heading>Reminder</heading><body>Don't forget me this weekend!</body></note>";
-      const vscodeDiffStub = stub(ExtensionUtilities, 'openDiff').callsFake((leftPath, rightPath, title) => {
-        expect(title).to.eq('racecar.xml ↔ compare.racecar.xml');
-        expect(leftPath).to.eq('compare/racecar.xml');
-        expect(rightPath).to.eq('normal/racecar.xml');
-        return Promise.resolve();
-      });
-      cache.getCachedNormalFile.returns(Promise.resolve(encoder.encode(xml)));
-      cache.getCachedCompareFile.returns(Promise.resolve(encoder.encode(xml)));
-      cache.getNormalFileCachePath.returns('normal/racecar.xml');
-      cache.getCompareFileCachePath.returns('compare/racecar.xml');
-
-      stubs.push(vscodeDiffStub);
+  suite('viewStream', async function () {
+    const oleObject = new Uint8Array(readFileSync(join(__dirname, '..', '..', '..', '..', 'test', 'test-data', 'ole-object.bin')));
 
-      const fullPath = 'tacocat/racecar.xml';
+    test('should open the stream file in the hex view', async function () {
+      const openWithStub = stub(ExtensionUtilities, 'openWith');
+      stubs.push(openWithStub);
+      const streamUri = Uri.parse('ooxml:/package.json/word/embeddings/oleObject1.bin/Storage1/Stream1?stream=Storage1%2FStream1');
+      ooxmlFileAccessor.getPart.withArgs('word/embeddings/oleObject1.bin').returns(Promise.resolve(oleObject));
+      fileSystem.getStreamUri.withArgs('word/embeddings/oleObject1.bin', 'Storage1/Stream1').returns(streamUri);
 
-      await ooxmlPackage.getDiff(fullPath);
+      await ooxmlPackage.viewStream('word/embeddings/oleObject1.bin', 'Storage1/Stream1');
 
-      expect(cache.updateCachedFilesNoCompare.callCount).to.equal(1);
-      expect(cache.updateCachedFilesNoCompare.args[0][1]).to.deep.equal(XmlFormatter.format(encoder.encode(xml)));
-      expect(cache.updateCompareFile.callCount).to.equal(1);
-      expect(cache.updateCompareFile.args[0][1]).to.deep.equal(XmlFormatter.format(encoder.encode(xml)));
+      expect(openWithStub.args).to.deep.eq([[streamUri, 'ooxmlViewer.hexView']]);
     });
 
-    test('should call display an error message when an error is thrown', async function () {
-      const err = new Error('Pants on backwards');
-      cache.getCachedNormalFile.throws(err);
+    test('should display error if the part does not have the stream', async function () {
       const showErrorStub = stub(ExtensionUtilities, 'showError');
+      const openWithStub = stub(ExtensionUtilities, 'openWith');
+      stubs.push(showErrorStub, openWithStub);
+      ooxmlFileAccessor.getPart.withArgs('word/embeddings/oleObject1.bin').returns(Promise.resolve(oleObject));
 
-      stubs.push(showErrorStub);
+      await ooxmlPackage.viewStream('word/embeddings/oleObject1.bin', 'Storage1/Missing');
 
-      await ooxmlPackage.getDiff('path');
-
-      expect((showErrorStub.args[0][0] as Error).message).to.eq(err.message);
+      expect((showErrorStub.args[0][0] as Error).message).to.eq(
+        "'word/embeddings/oleObject1.bin' does not have a 'Storage1/Missing' stream",
+      );
+      expect(openWithStub.callCount).to.eq(0);
     });
   });
 
-  suite('tryFormatDocument', async function () {
-    test('should format document if it belongs to the normal cache path', async () => {
-      cache.cachePathIsNormal.returns(true);
-      cache.getCachedNormalFile.returns(Promise.resolve(new TextEncoder().encode('<?xml ?><html></html>')));
-      const filePath = 'file/path/document.xml';
+  suite('viewVbaModule', async function () {
+    const vbaProject = new Uint8Array(readFileSync(join(__dirname, '..', '..', '..', '..', 'test', 'test-data', 'vbaProject.bin')));
+
+    test('should open the module file', async function () {
+      const openFileStub = stub(ExtensionUtilities, 'openFile');
+      stubs.push(openFileStub);
+      const moduleUri = Uri.parse('ooxml:/package.json/word/vbaProject.bin/Module1.bas?vbaModule=Module1');
+      ooxmlFileAccessor.getPart.withArgs('word/vbaProject.bin').returns(Promise.resolve(vbaProject));
+      fileSystem.getVbaModuleUri.returns(moduleUri);
 
-      await ooxmlPackage.tryFormatDocument(filePath);
+      await ooxmlPackage.viewVbaModule('word/vbaProject.bin', 'Module1');
 
-      expect(cache.updateCachedFilesNoCompare.callCount).to.be.equal(1);
+      expect(fileSystem.getVbaModuleUri.args[0][0]).to.eq('word/vbaProject.bin');
+      expect(fileSystem.getVbaModuleUri.args[0][1].name).to.eq('Module1');
+      expect(openFileStub.args).to.deep.eq([[moduleUri]]);
     });
 
-    test('should not format document if it does not belongs to the normal cache path', async () => {
-      cache.cachePathIsNormal.returns(false);
-      cache.getCachedNormalFile.returns(Promise.resolve(new TextEncoder().encode('<?xml ?><html></html>')));
-      const filePath = 'file/path/document.xml';
+    test('should display error if the part does not have the module', async function () {
+      const showErrorStub = stub(ExtensionUtilities, 'showError');
+      const openFileStub = stub(ExtensionUtilities, 'openFile');
+      stubs.push(showErrorStub, openFileStub);
+      ooxmlFileAccessor.getPart.withArgs('word/vbaProject.bin').returns(Promise.resolve(vbaProject));
 
-      await ooxmlPackage.tryFormatDocument(filePath);
+      await ooxmlPackage.viewVbaModule('word/vbaProject.bin', 'Module2');
 
-      expect(cache.updateCachedFilesNoCompare.callCount).to.be.equal(0);
+      expect((showErrorStub.args[0][0] as Error).message).to.eq("'word/vbaProject.bin' does not have a 'Module2' module");
+      expect(openFileStub.callCount).to.eq(0);
     });
+  });
 
-    test('should show error if error is thrown', async () => {
-      cache.cachePathIsNormal.returns(true);
-      const err = new Error('format error');
-      cache.getCachedNormalFile.throws(err);
+  suite('getDiff', async function () {
+    test('should use vscode.diff to get the difference between the compare file and the part file', async function () {
+      const compareUri = Uri.parse('ooxml:/package.json/tacocat/racecar.xml?compare');
+      const vscodeDiffStub = stub(ExtensionUtilities, 'openDiff').returns(Promise.resolve());
+      stubs.push(vscodeDiffStub);
+      fileSystem.getCompareUri.withArgs('tacocat/racecar.xml').returns(compareUri);
+
+      await ooxmlPackage.getDiff('tacocat/racecar.xml');
+
+      expect(vscodeDiffStub.args).to.deep.eq([[compareUri, getPartUri('tacocat/racecar.xml'), 'racecar.xml ↔ compare.racecar.xml']]);
+    });
+
+    test('should call display an error message when an error is thrown', async function () {
+      const err = new Error('Pants on backwards');
+      fileSystem.getCompareUri.throws(err);
       const showErrorStub = stub(ExtensionUtilities, 'showError');
-      stubs.push(showErrorStub);
 
-      const filePath = 'file/path/document.xml';
+      stubs.push(showErrorStub);
 
-      await ooxmlPackage.tryFormatDocument(filePath);
+      await ooxmlPackage.getDiff('path');
 
-      expect(showErrorStub.callCount).to.eq(1);
       expect((showErrorStub.args[0][0] as Error).message).to.eq(err.message);
-      expect(cache.updateCachedFilesNoCompare.callCount).to.be.equal(0);
     });
   });
 
   suite('searchOOXMLParts', async function () {
+    const encoder = new TextEncoder();
+
+    setup(function () {
+      ooxmlFileAccessor.getPartPaths.returns(['ppt/slides/slide1.xml', 'ppt/media/image1.png', 'ppt/slides/slide2.xml']);
+      fileSystem.readPart
+        .withArgs('ppt/slides/slide1.xml')
+        .returns(Promise.resolve(encoder.encode('<p:sld>\r\n  <a:t>Meatballs</a:t>\r\n</p:sld>')));
+      fileSystem.readPart.withArgs('ppt/media/image1.png').returns(Promise.resolve(new Uint8Array([0x89, 0, 0, 0])));
+      fileSystem.readPart
+        .withArgs('ppt/slides/slide2.xml')
+        .returns(Promise.resolve(encoder.encode('<p:sld>\r\n  <a:t>Spaghetti</a:t>\r\n</p:sld>')));
+    });
+
     test('should return and not perform a search if no search term is entered', async function () {
-      const normalSubfolderPathStub = stub(cache, 'normalSubfolderPath').get(() => 'normal/path');
-      const fileExistsStub = stub(FileSystemUtilities, 'fileExists').returns(Promise.resolve(true));
       const showInputStub = stub(ExtensionUtilities, 'showInput').returns(Promise.resolve(''));
-      const findInFilesStub = stub(ExtensionUtilities, 'findInFiles').returns(Promise.resolve());
-      stubs.push(normalSubfolderPathStub, showInputStub, fileExistsStub, findInFilesStub);
+      stubs.push(showInputStub);
 
       await ooxmlPackage.searchOOXMLParts();
 
-      expect(findInFilesStub.callCount).to.eq(0);
+      expect(fileSystem.readPart.callCount).to.eq(0);
     });
 
-    test('should show an input box and use the input to perform a search of the OOXML parts', async function () {
-      const searchTerm = 'meatballs';
-      const normalSubfolderPathStub = stub(cache, 'normalSubfolderPath').get(() => 'normal/path');
-      const fileExistsStub = stub(FileSystemUtilities, 'fileExists').returns(Promise.resolve(true));
-      const showInputStub = stub(ExtensionUtilities, 'showInput').returns(Promise.resolve(searchTerm));
-      const findInFilesStub = stub(ExtensionUtilities, 'findInFiles').returns(Promise.resolve());
-      stubs.push(normalSubfolderPathStub, showInputStub, fileExistsStub, findInFilesStub);
+    test('should search the formatted parts ignoring case and open the selected result at the match', async function () {
+      const showInputStub = stub(ExtensionUtilities, 'showInput').returns(Promise.resolve('meatballs'));
+      const showQuickPickStub = stub(ExtensionUtilities, 'showQuickPick').callsFake(items => Promise.resolve(items[0]));
+      const openFileStub = stub(ExtensionUtilities, 'openFile').returns(Promise.resolve());
+      stubs.push(showInputStub, showQuickPickStub, openFileStub);
 
       await ooxmlPackage.searchOOXMLParts();
 
-      expect(findInFilesStub.callCount).to.eq(1);
-      expect(findInFilesStub.args[0][0]).to.deep.eq(searchTerm, 'normal/path');
+      expect(showQuickPickStub.args[0][0]).to.deep.eq(['ppt/slides/slide1.xml:2 <a:t>Meatballs</a:t>']);
+      expect(openFileStub.args[0][0]).to.deep.eq(getPartUri('ppt/slides/slide1.xml'));
+      expect(openFileStub.args[0][1]).to.deep.eq(new Range(1, 7, 1, 16));
+    });
+
+    test('should let the user know if the search term is not found', async function () {
+      const showInputStub = stub(ExtensionUtilities, 'showInput').returns(Promise.resolve('lasagna'));
+      const showInformationStub = stub(ExtensionUtilities, 'showInformation').returns(Promise.resolve());
+      const showQuickPickStub = stub(ExtensionUtilities, 'showQuickPick');
+      stubs.push(showInputStub, showInformationStub, showQuickPickStub);
+
+      await ooxmlPackage.searchOOXMLParts();
+
+      expect(showInformationStub.args[0][0]).to.eq("'lasagna' was not found in 'package.json'");
+      expect(showQuickPickStub.callCount).to.eq(0);
     });
 
     test('should show error message if an error is thrown', function (done) {
       const err = new Error('out of tacos');
-      const normalSubfolderPathStub = stub(cache, 'normalSubfolderPath').get(() => 'normal/path');
-      const fileExistsStub = stub(FileSystemUtilities, 'fileExists').returns(Promise.resolve(true));
       const showInputStub = stub(ExtensionUtilities, 'showInput').throws(err);
-      const findInFilesStub = stub(ExtensionUtilities, 'findInFiles').returns(Promise.resolve());
       const showErrorMessageStub = stub(ExtensionUtilities, 'showError').returns(Promise.resolve());
-      stubs.push(normalSubfolderPathStub, showInputStub, fileExistsStub, findInFilesStub, showErrorMessageStub);
+      stubs.push(showInputStub, showErrorMessageStub);
 
       ooxmlPackage
         .searchOOXMLParts()
@@ -258,6 +343,157 @@ suite('OOXMLPackage', async function () {
       expect(fileNode.children[0].children[0].collapsibleState).to.eq(TreeItemCollapsibleState.None);
     });
 
+    test('should open the parts that are ooxml packages as embedded packages', async function () {
+      const packageContents = [
+        {
+          filePath: 'word/embeddings/Microsoft_Excel_Worksheet.xlsx',
+          isDirectory: false,
+          data: new Uint8Array([0x50, 0x4b, 0x03, 0x04]),
+        },
+        {
+          filePath: 'word/embeddings/oleObject1.xlsx',
+          isDirectory: false,
+          data: new Uint8Array([1, 2, 3, 4]),
+        },
+      ];
+      const fileNode = new FileNode();
+      ooxmlFileAccessor.getPackageContents.returns(Promise.resolve(packageContents));
+      ooxmlPackageTreeView.getRootFileNode.returns(fileNode);
+      const embeddedPackages = createStubInstance(OOXMLPackageEmbeddedPackages);
+      ooxmlPackage = new OOXMLPackage(
+        ooxmlFilePath,
+        ooxmlFileAccessor,
+        ooxmlPackageTreeView,
+        fileSystem,
+        extensionSettings,
+        diagnostics,
+        embeddedPackages,
+      );
+
+      await ooxmlPackage.openOOXMLPackage();
+
+      expect(embeddedPackages.update.callCount).to.eq(1);
+      expect(embeddedPackages.update.args[0][0]).to.eq(ooxmlPackage);
+      expect(embeddedPackages.update.args[0][1].map(n => n.nodePath)).to.deep.eq(['word/embeddings/Microsoft_Excel_Worksheet.xlsx']);
+    });
+
+    test('should show the digital signatures of the package on its node', async function () {
+      const signatures: PackageSignature[] = [
+        { filePath: '_xmlsignatures/sig1.xml', signedParts: [{ filePath: 'word/document.xml', isValid: true }], isValid: true },
+      ];
+      const readSignaturesStub = stub(OOXMLPackageSignatures, 'read').returns(signatures);
+      stubs.push(readSignaturesStub);
+      ooxmlPackageTreeView.getRootFileNode.returns(new FileNode());
+
+      await ooxmlPackage.openOOXMLPackage();
+
+      expect(readSignaturesStub.callCount).to.eq(1);
+      expect(ooxmlPackageTreeView.setSignatures.args[0][0]).to.eq(signatures);
+    });
+
+    test('should add the storages and streams of parts that are compound files to the side bar', async function () {
+      const packageContents = [
+        {
+          filePath: 'word/embeddings/oleObject1.bin',
+          isDirectory: false,
+          data: new Uint8Array(readFileSync(join(__dirname, '..', '..', '..', '..', 'test', 'test-data', 'ole-object.bin'))),
+        },
+      ];
+      const fileNode = new FileNode();
+      ooxmlFileAccessor.getPackageContents.returns(Promise.resolve(packageContents));
+      ooxmlPackageTreeView.getRootFileNode.returns(fileNode);
+
+      await ooxmlPackage.openOOXMLPackage();
+
+      const partNode = fileNode.children[0].children[0].children[0];
+      expect(partNode.nodePath).to.eq('word/embeddings/oleObject1.bin');
+      expect(partNode.contextValue).to.eq('file');
+      expect(partNode.collapsibleState).to.eq(TreeItemCollapsibleState.Collapsed);
+      expect(partNode.children.map(c => [c.streamPath, c.contextValue])).to.deep.eq([
+        ['\x01Ole', 'stream'],
+        ['Contents', 'stream'],
+        ['Storage1', 'storage'],
+      ]);
+      expect(partNode.children[2].children.map(c => c.streamPath)).to.deep.eq(['Storage1/Stream1']);
+      expect(partNode.isDeleted()).to.be.false;
+    });
+
+    test('should add the modules of VBA project parts to the side bar before their storages and streams', async function () {
+      const packageContents = [
+        {
+          filePath: 'word/vbaProject.bin',
+          isDirectory: false,
+          data: new Uint8Array(readFileSync(join(__dirname, '..', '..', '..', '..', 'test', 'test-data', 'vbaProject.bin'))),
+        },
+      ];
+      const fileNode = new FileNode();
+      ooxmlFileAccessor.getPackageContents.returns(Promise.resolve(packageContents));
+      ooxmlPackageTreeView.getRootFileNode.returns(fileNode);
+
+      await ooxmlPackage.openOOXMLPackage();
+
+      const partNode = fileNode.children[0].children[0];
+      expect(partNode.contextValue).to.eq('file');
+      expect(partNode.children.map(c => [c.nodePath, c.contextValue])).to.deep.eq([
+        ['word/vbaProject.bin/ThisDocument.cls', 'vbaModule'],
+        ['word/vbaProject.bin/Module1.bas', 'vbaModule'],
+        ['word/vbaProject.bin/VBA', 'storage'],
+        ['word/vbaProject.bin/PROJECT', 'stream'],
+        ['word/vbaProject.bin/PROJECTwm', 'stream'],
+      ]);
+      expect(partNode.children[1].vbaModuleName).to.eq('Module1');
+    });
+
+    test('should show the relationships parts that are well-formed in the relationship tree view', async function () {
+      const packageContents: PackageFile[] = [
+        {
+          filePath: '_rels/.rels',
+          isDirectory: false,
+          data: new TextEncoder().encode(
+            '<?xml version="1.0"?><Relationships><Relationship Id="rId1" Type="officeDocument" Target="word/document.xml"/></Relationships>',
+          ),
+        },
+        {
+          filePath: 'word/_rels/document.xml.rels',
+          isDirectory: false,
+          data: new TextEncoder().encode('<?xml version="1.0"?><Relationships>'),
+        },
+        {
+          filePath: 'word/document.xml',
+          isDirectory: false,
+          data: new TextEncoder().encode('<?xml version="1.0"?><document/>'),
+        },
+      ];
+      ooxmlFileAccessor.getPackageContents.returns(Promise.resolve(packageContents));
+      ooxmlPackageTreeView.getRootFileNode.returns(new FileNode());
+
+      await ooxmlPackage.openOOXMLPackage();
+
+      const relationshipsParts = ooxmlPackageTreeView.setRelationships.args[0][0];
+      expect(relationshipsParts.map(r => r.relationshipsPartPath)).to.deep.eq(['_rels/.rels']);
+      expect(relationshipsParts[0].getRelationships()[0].targetPath).to.eq('word/document.xml');
+    });
+
+    test('should show the integrity problems of the package on the file nodes and as diagnostics', async function () {
+      const packageContents: PackageFile[] = [
+        {
+          filePath: '_rels/.rels',
+          isDirectory: false,
+          data: new TextEncoder().encode(
+            '<?xml version="1.0"?><Relationships><Relationship Id="rId1" Type="officeDocument" Target="word/missing.xml"/></Relationships>',
+          ),
+        },
+      ];
+      ooxmlFileAccessor.getPackageContents.returns(Promise.resolve(packageContents));
+      ooxmlPackageTreeView.getRootFileNode.returns(new FileNode());
+
+      await ooxmlPackage.openOOXMLPackage();
+
+      const problems = ooxmlPackageTreeView.setProblems.args[0][0];
+      expect(problems.map(p => p.filePath)).to.deep.eq(['_rels/.rels']);
+      expect(diagnostics.setProblems.args[0][0]).to.deep.eq(problems);
+    });
+
     test('should close if has too many parts', async function () {
       const dispatchStub = stub(ExtensionUtilities, 'dispatch');
       stubs.push(dispatchStub);
@@ -311,7 +547,7 @@ suite('OOXMLPackage', async function () {
       expect((fileNode.children[0].iconPath as Uri).fsPath).to.contain('green');
     });
 
-    test('should have a yellow icon if file is new on second open', async function () {
+    test('should have a yellow icon if file is changed on second open', async function () {
       const packageContents = [
         {
           filePath: 'document.xml',
@@ -322,7 +558,8 @@ suite('OOXMLPackage', async function () {
       const fileNode = new FileNode();
       ooxmlFileAccessor.getPackageContents.onCall(0).returns(Promise.resolve(packageContents));
       ooxmlFileAccessor.getPackageContents.onCall(1).returns(Promise.resolve(packageContents));
-      cache.getCachedPrevFile.returns(Promise.resolve(new TextEncoder().encode('<?xml?><Root/>')));
+      const prevData = new TextEncoder().encode('<?xml?><Root/>');
+      fileSystem.getSnapshots.returns([{ id: 1, filePath: 'document.xml', description: 'Opened', timestamp: 0, data: prevData }]);
       ooxmlPackageTreeView.getRootFileNode.returns(fileNode);
 
       await ooxmlPackage.openOOXMLPackage();
@@ -330,6 +567,34 @@ suite('OOXMLPackage', async function () {
 
       expect(fileNode.children.length).to.eq(1);
       expect((fileNode.children[0].iconPath as Uri).fsPath).to.contain('yellow');
+      expect(fileSystem.setCompareFile.lastCall.args).to.deep.eq(['document.xml', prevData]);
+    });
+
+    test('should reload the tabs of the changed parts and close the tabs of the deleted parts', async function () {
+      const encoder = new TextEncoder();
+      const closeTextDocumentStub = stub(ExtensionUtilities, 'closeTextDocument').returns(Promise.resolve());
+      const getOpenTextDocumentUrisStub = stub(ExtensionUtilities, 'getOpenTextDocumentUris').returns([
+        getPartUri('document.xml'),
+        getPartUri('styles.xml'),
+      ]);
+      stubs.push(closeTextDocumentStub, getOpenTextDocumentUrisStub);
+      const fileNode = new FileNode();
+      ooxmlFileAccessor.getPackageContents.onCall(0).returns(
+        Promise.resolve([
+          { filePath: 'document.xml', isDirectory: false, data: encoder.encode('<?xml?><Root/>') },
+          { filePath: 'styles.xml', isDirectory: false, data: encoder.encode('<?xml?><Styles/>') },
+        ]),
+      );
+      ooxmlFileAccessor.getPackageContents
+        .onCall(1)
+        .returns(Promise.resolve([{ filePath: 'document.xml', isDirectory: false, data: encoder.encode('<?xml?><NewRoot/>') }]));
+      ooxmlPackageTreeView.getRootFileNode.returns(fileNode);
+
+      await ooxmlPackage.openOOXMLPackage();
+      await ooxmlPackage.openOOXMLPackage();
+
+      expect(fileSystem.notifyChanged.lastCall.args).to.deep.eq([['document.xml'], ['styles.xml']]);
+      expect(closeTextDocumentStub.args).to.deep.eq([[getPartUri('styles.xml')]]);
     });
 
     test('should have a red icon if file is deleted on second open', async function () {
@@ -409,64 +674,958 @@ suite('OOXMLPackage', async function () {
   });
 
   suite('updateOOXMLPackage', () => {
-    test('should update ooxml if there is a difference between the normal and the prev files', async function () {
-      cache.cachePathIsNormal.returns(true);
-      cache.getCachedNormalFile.returns(Promise.resolve(new TextEncoder().encode('<?xml?><ModifiedRoot/>')));
-      cache.getCachedPrevFile.returns(Promise.resolve(new TextEncoder().encode('<?xml?><Root/>')));
-      ooxmlFileAccessor.updatePackage.returns(Promise.resolve(true));
+    async function getError(promise: Promise<unknown>): Promise<Error | undefined> {
+      try {
+        await promise;
+      } catch (err) {
+        return err as Error;
+      }
 
-      await ooxmlPackage.updateOOXMLFile('file/path');
+      return undefined;
+    }
 
-      expect(ooxmlFileAccessor.updatePackage.callCount).to.eq(1);
+    test('should update ooxml if there is a difference between the saved and the packaged part', async function () {
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(new TextEncoder().encode('<?xml version="1.0"?><Root/>')));
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(true));
+
+      await ooxmlPackage.updateOOXMLFile('word/document.xml', new TextEncoder().encode('<?xml version="1.0"?><ModifiedRoot/>'));
+
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(1);
     });
 
-    test('should not update ooxml if the cache path does not belong to the ', async function () {
-      cache.cachePathIsNormal.returns(false);
-      cache.getCachedNormalFile.returns(Promise.resolve(new TextEncoder().encode('<?xml?><ModifiedRoot/>')));
-      cache.getCachedPrevFile.returns(Promise.resolve(new TextEncoder().encode('<?xml?><Root/>')));
-      ooxmlFileAccessor.updatePackage.returns(Promise.resolve(true));
+    test('should write parts saved together in a single transaction', async function () {
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(new TextEncoder().encode('<?xml version="1.0"?><Root/>')));
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(true));
+      const getFileContents = (filePath: string) => new TextEncoder().encode(`<?xml version="1.0"?>\n<Modified>${filePath}</Modified>`);
 
-      await ooxmlPackage.updateOOXMLFile('file/path');
+      await Promise.all(
+        ['word/document.xml', 'word/styles.xml', 'word/settings.xml'].map(filePath =>
+          ooxmlPackage.updateOOXMLFile(filePath, getFileContents(filePath)),
+        ),
+      );
 
-      expect(ooxmlFileAccessor.updatePackage.callCount).to.eq(0);
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(1);
+      const updatedParts = ooxmlFileAccessor.updatePackageParts.args[0][0];
+      expect(updatedParts.map(p => p.filePath)).to.deep.eq(['word/document.xml', 'word/styles.xml', 'word/settings.xml']);
+      expect(new TextDecoder().decode(updatedParts[0].data)).to.eq('<?xml version="1.0"?><Modified>word/document.xml</Modified>');
+      expect(fileSystem.setCompareFile.callCount).to.eq(3);
+      expect(new TextDecoder().decode(fileSystem.setCompareFile.args[0][1])).to.eq(
+        '<?xml version="1.0"?><Modified>word/document.xml</Modified>',
+      );
+      expect(fileSystem.createSnapshot.args.map(a => a[2])).to.deep.eq(['Saved', 'Saved', 'Saved']);
+      expect(ooxmlPackageTreeView.refresh.callCount).to.eq(1);
+      expect(diagnostics.setProblems.callCount).to.eq(1);
     });
 
-    test('should not update ooxml if there is no difference between the normal and the prev files', async function () {
-      cache.cachePathIsNormal.returns(true);
-      cache.getCachedNormalFile.returns(Promise.resolve(new TextEncoder().encode('<?xml?><Root/>')));
-      cache.getCachedPrevFile.returns(Promise.resolve(new TextEncoder().encode('<?xml?><Root/>')));
-      ooxmlFileAccessor.updatePackage.returns(Promise.resolve(true));
+    test('should wait for the commit in progress before writing parts saved while it writes', async function () {
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(new TextEncoder().encode('<?xml version="1.0"?><Root/>')));
+      let startWriting: () => void = () => undefined;
+      let finishWriting: (success: boolean) => void = () => undefined;
+      const writeStarted = new Promise<void>(resolve => (startWriting = resolve));
+      ooxmlFileAccessor.updatePackageParts.onFirstCall().callsFake(() => {
+        startWriting();
+        return new Promise<boolean>(resolve => (finishWriting = resolve));
+      });
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(true));
+
+      const firstSave = ooxmlPackage.updateOOXMLFile('word/document.xml', new TextEncoder().encode('<?xml version="1.0"?><Modified/>'));
+      await writeStarted;
+      const secondSave = ooxmlPackage.updateOOXMLFile('word/styles.xml', new TextEncoder().encode('<?xml version="1.0"?><Modified/>'));
+      await new Promise(resolve => setTimeout(resolve, 200));
 
-      await ooxmlPackage.updateOOXMLFile('file/path');
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(1);
 
-      expect(ooxmlFileAccessor.updatePackage.callCount).to.eq(0);
+      finishWriting(true);
+      await Promise.all([firstSave, secondSave]);
+
+      expect(ooxmlFileAccessor.updatePackageParts.args.map(args => args[0].map(p => p.filePath))).to.deep.eq([
+        ['word/document.xml'],
+        ['word/styles.xml'],
+      ]);
     });
 
-    test('should make editor dirty and displays warning if update package call fails', async function () {
-      cache.cachePathIsNormal.returns(true);
-      cache.getCachedNormalFile.returns(Promise.resolve(new TextEncoder().encode('<?xml?><ModifiedRoot/>')));
-      cache.getCachedPrevFile.returns(Promise.resolve(new TextEncoder().encode('<?xml?><Root/>')));
-      ooxmlFileAccessor.updatePackage.returns(Promise.resolve(false));
-      const makeDirtyStub = stub(ExtensionUtilities, 'makeActiveTextEditorDirty').returns(Promise.resolve());
+    test('should not write a part that is reverted to its packaged contents before it is committed', async function () {
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(new TextEncoder().encode('<?xml version="1.0"?><Root/>')));
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(true));
+
+      await Promise.all([
+        ooxmlPackage.updateOOXMLFile('word/document.xml', new TextEncoder().encode('<?xml version="1.0"?><ModifiedRoot/>')),
+        ooxmlPackage.updateOOXMLFile('word/document.xml', new TextEncoder().encode('<?xml version="1.0"?>\r\n<Root/>')),
+      ]);
+
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(0);
+    });
+
+    test('should not write the package for other changes while a commit is in progress', async function () {
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(new TextEncoder().encode('<?xml version="1.0"?><Root/>')));
+      let startWriting: () => void = () => undefined;
+      let finishWriting: (success: boolean) => void = () => undefined;
+      const writeStarted = new Promise<void>(resolve => (startWriting = resolve));
+      ooxmlFileAccessor.updatePackageParts.callsFake(() => {
+        startWriting();
+        return new Promise<boolean>(resolve => (finishWriting = resolve));
+      });
+      ooxmlFileAccessor.getBackups.returns(Promise.resolve([{ filePath: 'Test.docx.bak', modifiedTime: 0 }]));
+      ooxmlFileAccessor.restoreBackup.returns(Promise.resolve(true));
+      stubs.push(
+        stub(ExtensionUtilities, 'showQuickPick').callsFake(items => Promise.resolve(items[0])),
+        stub(ExtensionUtilities, 'showConfirmation').returns(Promise.resolve(true)),
+      );
+
+      const save = ooxmlPackage.updateOOXMLFile('word/document.xml', new TextEncoder().encode('<?xml version="1.0"?><Modified/>'));
+      await writeStarted;
+      const restore = ooxmlPackage.restorePreviousVersion();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(ooxmlFileAccessor.restoreBackup.callCount).to.eq(0);
+
+      finishWriting(true);
+      await Promise.all([save, restore]);
+
+      expect(ooxmlFileAccessor.restoreBackup.calledAfter(ooxmlFileAccessor.updatePackageParts)).to.be.true;
+    });
+
+    test('should not write any part if one of the parts is not well-formed', async function () {
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(new TextEncoder().encode('<?xml version="1.0"?><Root/>')));
+
+      const errors = await Promise.all([
+        getError(ooxmlPackage.updateOOXMLFile('word/document.xml', new TextEncoder().encode('<?xml version="1.0"?><Modified/>'))),
+        getError(ooxmlPackage.updateOOXMLFile('word/styles.xml', new TextEncoder().encode('<?xml version="1.0"?>\n<a>\n<b></a>'))),
+      ]);
+
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(0);
+      expect(fileSystem.setCompareFile.callCount).to.eq(0);
+      expect(errors[0]?.message).to.contain("'word/styles.xml' is not well-formed at line 3");
+      expect(errors[1]?.message).to.eq(errors[0]?.message);
+    });
+
+    test('should show a diagnostic at the syntax error of a part that is not well-formed', async function () {
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(new TextEncoder().encode('<?xml version="1.0"?><Root/>')));
+
+      await Promise.all([
+        getError(ooxmlPackage.updateOOXMLFile('word/document.xml', new TextEncoder().encode('<?xml version="1.0"?><Modified/>'))),
+        getError(ooxmlPackage.updateOOXMLFile('word/styles.xml', new TextEncoder().encode('<?xml version="1.0"?>\n<a>\n<b></a>'))),
+      ]);
+
+      expect(diagnostics.setSyntaxError.withArgs('word/document.xml', undefined).callCount).to.eq(1);
+      const syntaxError = diagnostics.setSyntaxError.withArgs('word/styles.xml').args[0][1];
+      expect(syntaxError?.lineNumber).to.eq(3);
+      expect(syntaxError?.columnNumber).to.be.greaterThan(0);
+    });
+
+    test('should ask before writing parts that would invalidate a digital signature', async function () {
+      stubs.push(
+        stub(OOXMLPackageSignatures, 'read').returns([
+          { filePath: '_xmlsignatures/sig1.xml', signedParts: [{ filePath: 'word/document.xml', isValid: true }], isValid: true },
+        ]),
+      );
+      ooxmlPackageTreeView.getRootFileNode.returns(new FileNode());
+      await ooxmlPackage.openOOXMLPackage();
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(new TextEncoder().encode('<?xml version="1.0"?><Root/>')));
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(true));
+      const confirmationStub = stub(ExtensionUtilities, 'showConfirmation').returns(Promise.resolve(true));
+      stubs.push(confirmationStub);
+
+      await ooxmlPackage.updateOOXMLFile('word/document.xml', new TextEncoder().encode('<?xml version="1.0"?><ModifiedRoot/>'));
+
+      expect(confirmationStub.callCount).to.eq(1);
+      expect(confirmationStub.args[0][1]).to.eq("'_xmlsignatures/sig1.xml' signs 'word/document.xml'");
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(1);
+    });
+
+    test('should not write parts that would invalidate a digital signature if the user cancels', async function () {
+      stubs.push(
+        stub(OOXMLPackageSignatures, 'read').returns([
+          { filePath: '_xmlsignatures/sig1.xml', signedParts: [{ filePath: 'word/document.xml', isValid: true }], isValid: true },
+        ]),
+      );
+      ooxmlPackageTreeView.getRootFileNode.returns(new FileNode());
+      await ooxmlPackage.openOOXMLPackage();
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(new TextEncoder().encode('<?xml version="1.0"?><Root/>')));
+      stubs.push(stub(ExtensionUtilities, 'showConfirmation').returns(Promise.resolve(false)));
+
+      const error = await getError(
+        ooxmlPackage.updateOOXMLFile('word/document.xml', new TextEncoder().encode('<?xml version="1.0"?><ModifiedRoot/>')),
+      );
+
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(0);
+      expect(error?.message).to.contain('digital signature stays valid');
+    });
+
+    test('should not update ooxml if there is no difference between the saved and the packaged part', async function () {
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(new TextEncoder().encode('<?xml version="1.0"?><Root/>')));
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(true));
+
+      await ooxmlPackage.updateOOXMLFile('word/document.xml', new TextEncoder().encode('<?xml version="1.0"?>\r\n<Root/>'));
+
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(0);
+      expect(diagnostics.setSyntaxError.args).to.deep.eq([['word/document.xml', undefined]]);
+    });
+
+    test('should not accept a part that is not well-formed even if it minifies to the packaged part', async function () {
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(new TextEncoder().encode('<?xml version="1.0"?><a><b></b></a>')));
+
+      const error = await getError(
+        ooxmlPackage.updateOOXMLFile('word/document.xml', new TextEncoder().encode('<?xml version="1.0"?>\n<a>\n<b></a>')),
+      );
+
+      expect(error?.message).to.contain("'word/document.xml' is not well-formed at line 3");
+      expect(diagnostics.setSyntaxError.args[0][1]?.lineNumber).to.eq(3);
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(0);
+    });
+
+    test('should throw if the package is open in another program', async function () {
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(new TextEncoder().encode('<?xml version="1.0"?><Root/>')));
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(false));
+
+      const error = await getError(
+        ooxmlPackage.updateOOXMLFile('word/document.xml', new TextEncoder().encode('<?xml version="1.0"?><ModifiedRoot/>')),
+      );
+
+      expect(error?.message).to.contain('is open in another program');
+      expect(fileSystem.setCompareFile.callCount).to.eq(0);
+    });
+
+    test('should throw if the packaged part cannot be read', async function () {
+      const err = new Error('Error getting contents');
+      ooxmlFileAccessor.getPart.throws(err);
+
+      const error = await getError(ooxmlPackage.updateOOXMLFile('word/document.xml', new Uint8Array()));
+
+      expect(error?.message).to.eq(err.message);
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(0);
+    });
+  });
+
+  suite('showPartHistory', () => {
+    const snapshots = [
+      {
+        id: 2,
+        filePath: 'word/document.xml',
+        description: 'Saved',
+        timestamp: 2,
+        data: new TextEncoder().encode('<?xml version="1.0"?><document/>'),
+      },
+      {
+        id: 1,
+        filePath: 'word/document.xml',
+        description: 'Opened',
+        timestamp: 1,
+        data: new TextEncoder().encode('<?xml version="1.0"?><document><body/></document>'),
+      },
+    ];
+
+    setup(function () {
+      fileSystem.getSnapshots.withArgs('word/document.xml').returns(snapshots);
+      fileSystem.getSnapshotUri.callsFake(snapshot => Uri.parse(`ooxml:/package.json/${snapshot.filePath}?history=${snapshot.timestamp}`));
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(new TextEncoder().encode('<?xml version="1.0"?><document/>')));
+    });
+
+    test('should compare the part with the selected snapshot', async function () {
+      const showQuickPickStub = stub(ExtensionUtilities, 'showQuickPick');
+      showQuickPickStub.onCall(0).callsFake(items => Promise.resolve(items[1]));
+      showQuickPickStub.onCall(1).returns(Promise.resolve('Compare with Current'));
+      const openDiffStub = stub(ExtensionUtilities, 'openDiff').returns(Promise.resolve());
+      stubs.push(showQuickPickStub, openDiffStub);
+
+      await ooxmlPackage.showPartHistory('word/document.xml');
+
+      expect(showQuickPickStub.args[0][0][1]).to.match(/^1\. Opened /);
+      expect(fileSystem.getSnapshotUri.args[0][0]).to.eq(snapshots[1]);
+      expect(openDiffStub.args[0][0].toString()).to.eq('ooxml:/package.json/word/document.xml?history=1');
+      expect(openDiffStub.args[0][1]).to.deep.eq(getPartUri('word/document.xml'));
+    });
+
+    test('should write the selected snapshot to the package when it is restored', async function () {
+      const showQuickPickStub = stub(ExtensionUtilities, 'showQuickPick');
+      showQuickPickStub.onCall(0).callsFake(items => Promise.resolve(items[1]));
+      showQuickPickStub.onCall(1).returns(Promise.resolve('Restore'));
+      stubs.push(showQuickPickStub);
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(true));
+
+      await ooxmlPackage.showPartHistory('word/document.xml');
+
+      const updatedParts = ooxmlFileAccessor.updatePackageParts.args[0][0];
+      expect(updatedParts.map(p => p.filePath)).to.deep.eq(['word/document.xml']);
+      expect(new TextDecoder().decode(updatedParts[0].data)).to.eq('<?xml version="1.0"?><document><body/></document>');
+      expect(fileSystem.createSnapshot.args[0][2]).to.eq('Saved');
+      expect(fileSystem.notifyChanged.args).to.deep.eq([[['word/document.xml']]]);
+    });
+
+    test('should let the user know if the part has no history', async function () {
+      const showInformationStub = stub(ExtensionUtilities, 'showInformation').returns(Promise.resolve());
+      stubs.push(showInformationStub);
+
+      await ooxmlPackage.showPartHistory('word/styles.xml');
+
+      expect(showInformationStub.callCount).to.eq(1);
+    });
+  });
+
+  suite('createPart', () => {
+    const contentTypesXml =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="xml" ContentType="application/xml"/></Types>';
+
+    test('should write the part and its content type override to the package', async function () {
+      const showInputStub = stub(ExtensionUtilities, 'showInput');
+      showInputStub.onCall(0).returns(Promise.resolve('word/header1.xml'));
+      showInputStub.onCall(1).returns(Promise.resolve('application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml'));
+      const openFileStub = stub(ExtensionUtilities, 'openFile').returns(Promise.resolve());
+      stubs.push(showInputStub, openFileStub);
+      ooxmlFileAccessor.hasPart.returns(false);
+      ooxmlFileAccessor.getPart.withArgs('[Content_Types].xml').returns(Promise.resolve(new TextEncoder().encode(contentTypesXml)));
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(true));
+
+      await ooxmlPackage.createPart('word');
+
+      expect(showInputStub.args[0][2]).to.eq('word/');
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(1);
+      const parts = ooxmlFileAccessor.updatePackageParts.args[0][0];
+      expect(parts.map(p => p.filePath)).to.deep.eq(['word/header1.xml', '[Content_Types].xml']);
+      expect(new TextDecoder().decode(parts[1].data)).to.contain(
+        '<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>',
+      );
+      expect(fileSystem.setCompareFile.args[0][0]).to.eq('word/header1.xml');
+      expect(openFileStub.args[0][0]).to.deep.eq(getPartUri('word/header1.xml'));
+    });
+
+    test('should write the file and its manifest file entry to odf packages', async function () {
+      const showInputStub = stub(ExtensionUtilities, 'showInput');
+      showInputStub.onCall(0).returns(Promise.resolve('styles.xml'));
+      showInputStub.onCall(1).returns(Promise.resolve('text/xml'));
+      const openFileStub = stub(ExtensionUtilities, 'openFile').returns(Promise.resolve());
+      stubs.push(showInputStub, openFileStub);
+      ooxmlFileAccessor.hasPart.returns(false);
+      ooxmlFileAccessor.getPart.withArgs('META-INF/manifest.xml').returns(Promise.resolve(new TextEncoder().encode(manifestXml)));
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(true));
+
+      await ooxmlPackage.createPart('');
+
+      expect(showInputStub.args[1][0]).to.eq("'styles.xml' Media Type");
+      const parts = ooxmlFileAccessor.updatePackageParts.args[0][0];
+      expect(parts.map(p => p.filePath)).to.deep.eq(['styles.xml', 'META-INF/manifest.xml']);
+      expect(new TextDecoder().decode(parts[1].data)).to.contain(
+        '<manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>',
+      );
+    });
+
+    test('should not write the part if it already exists', async function () {
+      const showInputStub = stub(ExtensionUtilities, 'showInput').returns(Promise.resolve('word/document.xml'));
+      const showWarningStub = stub(ExtensionUtilities, 'showWarning').returns(Promise.resolve());
+      stubs.push(showInputStub, showWarningStub);
+      ooxmlFileAccessor.hasPart.returns(true);
+
+      await ooxmlPackage.createPart('word');
+
+      expect(showWarningStub.callCount).to.eq(1);
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(0);
+    });
+
+    test('should not write the part if no path is entered', async function () {
+      const showInputStub = stub(ExtensionUtilities, 'showInput').returns(Promise.resolve(undefined));
+      stubs.push(showInputStub);
+
+      await ooxmlPackage.createPart('');
+
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(0);
+    });
+
+    test('should display a warning if the package is busy', async function () {
+      const showInputStub = stub(ExtensionUtilities, 'showInput').returns(Promise.resolve('part.bin'));
       const showWarningStub = stub(ExtensionUtilities, 'showWarning').returns(Promise.resolve());
-      stubs.push(makeDirtyStub, showWarningStub);
-      await ooxmlPackage.updateOOXMLFile('file/path');
+      stubs.push(showInputStub, showWarningStub);
+      ooxmlFileAccessor.hasPart.returns(false);
+      ooxmlFileAccessor.getPart.returns(Promise.resolve(undefined));
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(false));
+
+      await ooxmlPackage.createPart('');
 
-      expect(makeDirtyStub.callCount).to.eq(1);
       expect(showWarningStub.callCount).to.eq(1);
+      expect(fileSystem.setCompareFile.callCount).to.eq(0);
+    });
+  });
+
+  suite('deletePart', () => {
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    const contentTypesXml =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>' +
+      '</Types>';
+    const documentRelationshipsXml =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '</Relationships>';
+
+    setup(function () {
+      ooxmlFileAccessor.getPartPaths.returns([
+        '[Content_Types].xml',
+        'word/_rels/document.xml.rels',
+        'word/_rels/header1.xml.rels',
+        'word/document.xml',
+        'word/header1.xml',
+      ]);
+      ooxmlFileAccessor.hasPart.withArgs('word/_rels/header1.xml.rels').returns(true);
+      ooxmlFileAccessor.getPart.withArgs('[Content_Types].xml').returns(Promise.resolve(encoder.encode(contentTypesXml)));
+      ooxmlFileAccessor.getPart.withArgs('word/_rels/document.xml.rels').returns(Promise.resolve(encoder.encode(documentRelationshipsXml)));
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(true));
+    });
+
+    test('should delete the part, its relationships part, relationships to it and its content type override', async function () {
+      const showConfirmationStub = stub(ExtensionUtilities, 'showConfirmation').returns(Promise.resolve(true));
+      stubs.push(showConfirmationStub);
+
+      await ooxmlPackage.deletePart('word/header1.xml');
+
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(1);
+      const [updatedParts, deletedFilePaths] = ooxmlFileAccessor.updatePackageParts.args[0];
+      expect(deletedFilePaths).to.deep.eq(['word/header1.xml', 'word/_rels/header1.xml.rels']);
+      expect(updatedParts.map(p => p.filePath)).to.deep.eq(['word/_rels/document.xml.rels', '[Content_Types].xml']);
+      expect(decoder.decode(updatedParts[0].data)).to.not.contain('rId1');
+      expect(decoder.decode(updatedParts[0].data)).to.contain('rId2');
+      expect(decoder.decode(updatedParts[1].data)).to.not.contain('header1.xml');
+    });
+
+    test('should delete the file and its manifest file entry from odf packages', async function () {
+      const showConfirmationStub = stub(ExtensionUtilities, 'showConfirmation').returns(Promise.resolve(true));
+      stubs.push(showConfirmationStub);
+      ooxmlFileAccessor.getPartPaths.returns(['META-INF/manifest.xml', 'Pictures/image1.png', 'content.xml', 'mimetype']);
+      ooxmlFileAccessor.hasPart.returns(false);
+      ooxmlFileAccessor.getPart.withArgs('[Content_Types].xml').returns(Promise.resolve(undefined));
+      ooxmlFileAccessor.getPart.withArgs('META-INF/manifest.xml').returns(Promise.resolve(encoder.encode(manifestXml)));
+
+      await ooxmlPackage.deletePart('Pictures/image1.png');
+
+      const [updatedParts, deletedFilePaths] = ooxmlFileAccessor.updatePackageParts.args[0];
+      expect(deletedFilePaths).to.deep.eq(['Pictures/image1.png']);
+      expect(updatedParts.map(p => p.filePath)).to.deep.eq(['META-INF/manifest.xml']);
+      expect(decoder.decode(updatedParts[0].data)).to.not.contain('Pictures/image1.png');
+      expect(showConfirmationStub.args[0][1].split('\n')).to.deep.eq([
+        "Delete 'Pictures/image1.png'",
+        "Remove the file entry from 'META-INF/manifest.xml'",
+      ]);
+    });
+
+    test('should list every change in the confirmation', async function () {
+      const showConfirmationStub = stub(ExtensionUtilities, 'showConfirmation').returns(Promise.resolve(true));
+      stubs.push(showConfirmationStub);
+
+      await ooxmlPackage.deletePart('word/header1.xml');
+
+      expect(showConfirmationStub.args[0][1].split('\n')).to.deep.eq([
+        "Delete 'word/header1.xml'",
+        "Delete 'word/_rels/header1.xml.rels'",
+        "Remove relationship 'rId1' from 'word/_rels/document.xml.rels'",
+        "Remove the content type override from '[Content_Types].xml'",
+      ]);
+    });
+
+    test('should not delete the part if the user cancels', async function () {
+      const showConfirmationStub = stub(ExtensionUtilities, 'showConfirmation').returns(Promise.resolve(false));
+      stubs.push(showConfirmationStub);
+
+      await ooxmlPackage.deletePart('word/header1.xml');
+
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(0);
+    });
+
+    test('should display a warning if the package is busy', async function () {
+      const showConfirmationStub = stub(ExtensionUtilities, 'showConfirmation').returns(Promise.resolve(true));
+      const showWarningStub = stub(ExtensionUtilities, 'showWarning').returns(Promise.resolve());
+      stubs.push(showConfirmationStub, showWarningStub);
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(false));
+
+      await ooxmlPackage.deletePart('word/header1.xml');
+
+      expect(showWarningStub.callCount).to.eq(1);
+    });
+  });
+
+  suite('renamePart', () => {
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    const contentTypesXml =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="png" ContentType="image/png"/>' +
+      '</Types>';
+    const documentRelationshipsXml =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image1.png"/>' +
+      '</Relationships>';
+
+    setup(function () {
+      ooxmlFileAccessor.getPartPaths.returns([
+        '[Content_Types].xml',
+        'word/_rels/document.xml.rels',
+        'word/document.xml',
+        'word/media/image1.png',
+      ]);
+      ooxmlFileAccessor.hasPart.returns(false);
+      ooxmlFileAccessor.getPart.withArgs('word/media/image1.png').returns(Promise.resolve(new Uint8Array([1, 2, 3])));
+      ooxmlFileAccessor.getPart.withArgs('[Content_Types].xml').returns(Promise.resolve(encoder.encode(contentTypesXml)));
+      ooxmlFileAccessor.getPart.withArgs('word/_rels/document.xml.rels').returns(Promise.resolve(encoder.encode(documentRelationshipsXml)));
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(true));
+    });
+
+    test('should move the part and rewrite the relationships that target it', async function () {
+      const showInputStub = stub(ExtensionUtilities, 'showInput').returns(Promise.resolve('media/logo.png'));
+      const getOpenTextDocumentUrisStub = stub(ExtensionUtilities, 'getOpenTextDocumentUris').returns([]);
+      stubs.push(showInputStub, getOpenTextDocumentUrisStub);
+      const fileNode = new FileNode();
+      ooxmlPackageTreeView.getRootFileNode.returns(fileNode);
+
+      await ooxmlPackage.renamePart('word/media/image1.png');
+
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(1);
+      const [updatedParts, deletedFilePaths] = ooxmlFileAccessor.updatePackageParts.args[0];
+      expect(deletedFilePaths).to.deep.eq(['word/media/image1.png']);
+      expect(updatedParts.map(p => p.filePath)).to.deep.eq(['media/logo.png', 'word/_rels/document.xml.rels']);
+      expect(updatedParts[0].data).to.deep.eq(new Uint8Array([1, 2, 3]));
+      expect(decoder.decode(updatedParts[1].data)).to.contain('Target="../media/logo.png"');
+      expect(fileSystem.renameFiles.args[0]).to.deep.eq(['word/media/image1.png', 'media/logo.png']);
+    });
+
+    test('should move the manifest file entry of files of odf packages', async function () {
+      const showInputStub = stub(ExtensionUtilities, 'showInput').returns(Promise.resolve('Pictures/logo.png'));
+      const getOpenTextDocumentUrisStub = stub(ExtensionUtilities, 'getOpenTextDocumentUris').returns([]);
+      stubs.push(showInputStub, getOpenTextDocumentUrisStub);
+      ooxmlPackageTreeView.getRootFileNode.returns(new FileNode());
+      ooxmlFileAccessor.getPartPaths.returns(['META-INF/manifest.xml', 'Pictures/image1.png', 'content.xml', 'mimetype']);
+      ooxmlFileAccessor.getPart.withArgs('Pictures/image1.png').returns(Promise.resolve(new Uint8Array([1, 2, 3])));
+      ooxmlFileAccessor.getPart.withArgs('[Content_Types].xml').returns(Promise.resolve(undefined));
+      ooxmlFileAccessor.getPart.withArgs('META-INF/manifest.xml').returns(Promise.resolve(encoder.encode(manifestXml)));
+
+      await ooxmlPackage.renamePart('Pictures/image1.png');
+
+      const updatedParts = ooxmlFileAccessor.updatePackageParts.args[0][0];
+      expect(updatedParts.map(p => p.filePath)).to.deep.eq(['Pictures/logo.png', 'META-INF/manifest.xml']);
+      expect(decoder.decode(updatedParts[1].data)).to.contain(
+        '<manifest:file-entry manifest:full-path="Pictures/logo.png" manifest:media-type="image/png"/>',
+      );
+    });
+
+    test('should move the file node and remove empty folders', async function () {
+      const showInputStub = stub(ExtensionUtilities, 'showInput').returns(Promise.resolve('word/logo.png'));
+      const getOpenTextDocumentUrisStub = stub(ExtensionUtilities, 'getOpenTextDocumentUris').returns([]);
+      stubs.push(showInputStub, getOpenTextDocumentUrisStub);
+      const rootFileNode = new FileNode();
+      rootFileNode.isOOXMLPackage = true;
+      const wordFileNode = FileNode.create('word', rootFileNode, ooxmlFilePath);
+      const mediaFileNode = FileNode.create('word/media', wordFileNode, ooxmlFilePath);
+      FileNode.create('word/media/image1.png', mediaFileNode, ooxmlFilePath);
+      ooxmlPackageTreeView.getRootFileNode.returns(rootFileNode);
+
+      await ooxmlPackage.renamePart('word/media/image1.png');
+
+      expect(wordFileNode.children.map(c => c.nodePath)).to.deep.eq(['word/logo.png']);
+    });
+
+    test('should reopen the tab of the moved part', async function () {
+      const showInputStub = stub(ExtensionUtilities, 'showInput').returns(Promise.resolve('media/logo.png'));
+      const getOpenTextDocumentUrisStub = stub(ExtensionUtilities, 'getOpenTextDocumentUris').returns([
+        getPartUri('word/media/image1.png'),
+      ]);
+      const closeTextDocumentStub = stub(ExtensionUtilities, 'closeTextDocument').returns(Promise.resolve());
+      const openFileStub = stub(ExtensionUtilities, 'openFile').returns(Promise.resolve());
+      stubs.push(showInputStub, getOpenTextDocumentUrisStub, closeTextDocumentStub, openFileStub);
+      ooxmlPackageTreeView.getRootFileNode.returns(new FileNode());
+
+      await ooxmlPackage.renamePart('word/media/image1.png');
+
+      expect(closeTextDocumentStub.args[0][0]).to.deep.eq(getPartUri('word/media/image1.png'));
+      expect(openFileStub.args[0][0]).to.deep.eq(getPartUri('media/logo.png'));
+    });
+
+    test('should not move the part if the new path already exists', async function () {
+      const showInputStub = stub(ExtensionUtilities, 'showInput').returns(Promise.resolve('word/document.xml'));
+      const showWarningStub = stub(ExtensionUtilities, 'showWarning').returns(Promise.resolve());
+      stubs.push(showInputStub, showWarningStub);
+      ooxmlFileAccessor.hasPart.withArgs('word/document.xml').returns(true);
+
+      await ooxmlPackage.renamePart('word/media/image1.png');
+
+      expect(showWarningStub.callCount).to.eq(1);
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(0);
+    });
+  });
+
+  suite('importFiles', () => {
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    const contentTypesXml =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '</Types>';
+    const documentRelationshipsXml =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '</Relationships>';
+
+    setup(function () {
+      ooxmlFileAccessor.getPartPaths.returns([
+        '[Content_Types].xml',
+        'word/_rels/document.xml.rels',
+        'word/document.xml',
+        'word/styles.xml',
+      ]);
+      ooxmlFileAccessor.hasPart.returns(false);
+      ooxmlFileAccessor.getPart.withArgs('[Content_Types].xml').returns(Promise.resolve(encoder.encode(contentTypesXml)));
+      ooxmlFileAccessor.getPart.withArgs('word/_rels/document.xml.rels').returns(Promise.resolve(encoder.encode(documentRelationshipsXml)));
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(true));
+    });
+
+    test('should import the file and register a default content type for its extension', async function () {
+      const readFileStub = stub(FileSystemUtilities, 'readFile').returns(Promise.resolve(new Uint8Array([1, 2, 3])));
+      const showQuickPickStub = stub(ExtensionUtilities, 'showQuickPick').returns(Promise.resolve('(No relationship)'));
+      stubs.push(readFileStub, showQuickPickStub);
+
+      await ooxmlPackage.importFiles('word/media', ['/pictures/logo.png']);
+
+      const updatedParts = ooxmlFileAccessor.updatePackageParts.args[0][0];
+      expect(updatedParts.map(p => p.filePath)).to.deep.eq(['word/media/logo.png', '[Content_Types].xml']);
+      expect(updatedParts[0].data).to.deep.eq(new Uint8Array([1, 2, 3]));
+      expect(decoder.decode(updatedParts[1].data)).to.contain('<Default Extension="png" ContentType="image/png"/>');
+      expect(fileSystem.setCompareFile.args[0][0]).to.eq('word/media/logo.png');
+    });
+
+    test('should create a relationship from the selected part and copy its id to the clipboard', async function () {
+      const readFileStub = stub(FileSystemUtilities, 'readFile').returns(Promise.resolve(new Uint8Array([1, 2, 3])));
+      const showQuickPickStub = stub(ExtensionUtilities, 'showQuickPick');
+      showQuickPickStub.onCall(0).returns(Promise.resolve('word/document.xml'));
+      showQuickPickStub.onCall(1).returns(Promise.resolve('image'));
+      const writeToClipboardStub = stub(ExtensionUtilities, 'writeToClipboard').returns(Promise.resolve());
+      const showInformationStub = stub(ExtensionUtilities, 'showInformation').returns(Promise.resolve());
+      stubs.push(readFileStub, showQuickPickStub, writeToClipboardStub, showInformationStub);
+
+      await ooxmlPackage.importFiles('word/media', ['/pictures/logo.png']);
+
+      const updatedParts = ooxmlFileAccessor.updatePackageParts.args[0][0];
+      expect(updatedParts.map(p => p.filePath)).to.deep.eq(['word/media/logo.png', 'word/_rels/document.xml.rels', '[Content_Types].xml']);
+      expect(decoder.decode(updatedParts[1].data)).to.contain(
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/logo.png"/>',
+      );
+      expect(showQuickPickStub.args[1][0][0]).to.eq('image');
+      expect(writeToClipboardStub.args[0][0]).to.eq('rId2');
+    });
+
+    test('should list the imported files of odf packages in the manifest without asking for relationships', async function () {
+      const readFileStub = stub(FileSystemUtilities, 'readFile').returns(Promise.resolve(new Uint8Array([1, 2, 3])));
+      const showQuickPickStub = stub(ExtensionUtilities, 'showQuickPick');
+      stubs.push(readFileStub, showQuickPickStub);
+      ooxmlFileAccessor.getPart.withArgs('[Content_Types].xml').returns(Promise.resolve(undefined));
+      ooxmlFileAccessor.getPart.withArgs('META-INF/manifest.xml').returns(Promise.resolve(encoder.encode(manifestXml)));
+
+      await ooxmlPackage.importFiles('Pictures', ['/pictures/logo.png']);
+
+      expect(showQuickPickStub.callCount).to.eq(0);
+      const updatedParts = ooxmlFileAccessor.updatePackageParts.args[0][0];
+      expect(updatedParts.map(p => p.filePath)).to.deep.eq(['Pictures/logo.png', 'META-INF/manifest.xml']);
+      expect(decoder.decode(updatedParts[1].data)).to.contain(
+        '<manifest:file-entry manifest:full-path="Pictures/logo.png" manifest:media-type="image/png"/>',
+      );
+    });
+
+    test('should not import files if the relationship source is not selected', async function () {
+      const readFileStub = stub(FileSystemUtilities, 'readFile').returns(Promise.resolve(new Uint8Array([1, 2, 3])));
+      const showQuickPickStub = stub(ExtensionUtilities, 'showQuickPick').returns(Promise.resolve(undefined));
+      stubs.push(readFileStub, showQuickPickStub);
+
+      await ooxmlPackage.importFiles('word/media', ['/pictures/logo.png']);
+
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(0);
+    });
+
+    test('should skip files that already exist in the package', async function () {
+      const showWarningStub = stub(ExtensionUtilities, 'showWarning').returns(Promise.resolve());
+      stubs.push(showWarningStub);
+      ooxmlFileAccessor.hasPart.withArgs('word/styles.xml').returns(true);
+
+      await ooxmlPackage.importFiles('word', ['/styles.xml']);
+
+      expect(showWarningStub.callCount).to.eq(1);
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(0);
+    });
+
+    test('should ask for files to import if none are provided', async function () {
+      const showOpenDialogStub = stub(ExtensionUtilities, 'showOpenDialog').returns(Promise.resolve(undefined));
+      stubs.push(showOpenDialogStub);
+
+      await ooxmlPackage.importFiles('word');
+
+      expect(showOpenDialogStub.callCount).to.eq(1);
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(0);
+    });
+  });
+
+  suite('extractPackage', () => {
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    const packageFiles: PackageFile[] = [
+      { filePath: 'word/', isDirectory: true, data: new Uint8Array() },
+      { filePath: 'word/document.xml', isDirectory: false, data: encoder.encode('<?xml ?><document><body/></document>') },
+      { filePath: 'word/media/image1.png', isDirectory: false, data: new Uint8Array([1, 2, 3]) },
+      { filePath: '../outside.xml', isDirectory: false, data: encoder.encode('<?xml ?><outside/>') },
+    ];
+
+    setup(function () {
+      ooxmlFileAccessor.getPackageContents.returns(Promise.resolve(packageFiles));
+    });
+
+    test('should write the formatted parts to the selected folder', async function () {
+      const showFolderDialogStub = stub(ExtensionUtilities, 'showFolderDialog').returns(Promise.resolve(join('extract', 'folder')));
+      const showQuickPickStub = stub(ExtensionUtilities, 'showQuickPick').returns(Promise.resolve('Format XML parts'));
+      const writeFileStub = stub(FileSystemUtilities, 'writeFile').returns(Promise.resolve(true));
+      const showWarningStub = stub(ExtensionUtilities, 'showWarning').returns(Promise.resolve());
+      const showInformationStub = stub(ExtensionUtilities, 'showInformation').returns(Promise.resolve());
+      stubs.push(showFolderDialogStub, showQuickPickStub, writeFileStub, showWarningStub, showInformationStub);
+
+      await ooxmlPackage.extractPackage();
+
+      expect(writeFileStub.callCount).to.eq(2);
+      expect(writeFileStub.args[0][0]).to.eq(join('extract', 'folder', 'word', 'document.xml'));
+      expect(decoder.decode(writeFileStub.args[0][1])).to.eq('<?xml?>\r\n<document>\r\n  <body/>\r\n</document>');
+      expect(writeFileStub.args[1][0]).to.eq(join('extract', 'folder', 'word', 'media', 'image1.png'));
+      expect(writeFileStub.args[1][1]).to.deep.eq(new Uint8Array([1, 2, 3]));
+      expect(showWarningStub.callCount).to.eq(1);
+      expect(showInformationStub.callCount).to.eq(1);
+    });
+
+    test('should write the parts unchanged if formatting is not selected', async function () {
+      const showFolderDialogStub = stub(ExtensionUtilities, 'showFolderDialog').returns(Promise.resolve('folder'));
+      const showQuickPickStub = stub(ExtensionUtilities, 'showQuickPick').returns(Promise.resolve('Keep XML parts as they are'));
+      const writeFileStub = stub(FileSystemUtilities, 'writeFile').returns(Promise.resolve(true));
+      const showWarningStub = stub(ExtensionUtilities, 'showWarning').returns(Promise.resolve());
+      const showInformationStub = stub(ExtensionUtilities, 'showInformation').returns(Promise.resolve());
+      stubs.push(showFolderDialogStub, showQuickPickStub, writeFileStub, showWarningStub, showInformationStub);
+
+      await ooxmlPackage.extractPackage();
+
+      expect(decoder.decode(writeFileStub.args[0][1])).to.eq('<?xml ?><document><body/></document>');
+    });
+
+    test('should not extract the package if no folder is selected', async function () {
+      const showFolderDialogStub = stub(ExtensionUtilities, 'showFolderDialog').returns(Promise.resolve(undefined));
+      const writeFileStub = stub(FileSystemUtilities, 'writeFile').returns(Promise.resolve(true));
+      stubs.push(showFolderDialogStub, writeFileStub);
+
+      await ooxmlPackage.extractPackage();
+
+      expect(writeFileStub.callCount).to.eq(0);
+    });
+  });
+
+  suite('restorePreviousVersion', () => {
+    const backups = [
+      { filePath: 'Test.pptx.bak', modifiedTime: new Date(2026, 0, 2).getTime() },
+      { filePath: 'Test.pptx.bak.1', modifiedTime: new Date(2026, 0, 1).getTime() },
+    ];
+
+    test('should restore the selected backup', async function () {
+      ooxmlFileAccessor.getBackups.returns(Promise.resolve(backups));
+      ooxmlFileAccessor.restoreBackup.returns(Promise.resolve(true));
+      const showQuickPickStub = stub(ExtensionUtilities, 'showQuickPick').callsFake(items => Promise.resolve(items[1]));
+      const showConfirmationStub = stub(ExtensionUtilities, 'showConfirmation').returns(Promise.resolve(true));
+      stubs.push(showQuickPickStub, showConfirmationStub);
+
+      await ooxmlPackage.restorePreviousVersion();
+
+      expect(showQuickPickStub.args[0][0][1]).to.contain('Test.pptx.bak.1');
+      expect(ooxmlFileAccessor.restoreBackup.args[0][0]).to.eq('Test.pptx.bak.1');
+    });
+
+    test('should not restore a backup if the user cancels', async function () {
+      ooxmlFileAccessor.getBackups.returns(Promise.resolve(backups));
+      const showQuickPickStub = stub(ExtensionUtilities, 'showQuickPick').callsFake(items => Promise.resolve(items[0]));
+      const showConfirmationStub = stub(ExtensionUtilities, 'showConfirmation').returns(Promise.resolve(false));
+      stubs.push(showQuickPickStub, showConfirmationStub);
+
+      await ooxmlPackage.restorePreviousVersion();
+
+      expect(ooxmlFileAccessor.restoreBackup.callCount).to.eq(0);
+    });
+
+    test('should let the user know if there are no backups', async function () {
+      ooxmlFileAccessor.getBackups.returns(Promise.resolve([]));
+      const showInformationStub = stub(ExtensionUtilities, 'showInformation').returns(Promise.resolve());
+      stubs.push(showInformationStub);
+
+      await ooxmlPackage.restorePreviousVersion();
+
+      expect(showInformationStub.callCount).to.eq(1);
+      expect(ooxmlFileAccessor.restoreBackup.callCount).to.eq(0);
+    });
+
+    test('should display a warning if the package is busy', async function () {
+      ooxmlFileAccessor.getBackups.returns(Promise.resolve(backups));
+      ooxmlFileAccessor.restoreBackup.returns(Promise.resolve(false));
+      const showQuickPickStub = stub(ExtensionUtilities, 'showQuickPick').callsFake(items => Promise.resolve(items[0]));
+      const showConfirmationStub = stub(ExtensionUtilities, 'showConfirmation').returns(Promise.resolve(true));
+      const showWarningStub = stub(ExtensionUtilities, 'showWarning').returns(Promise.resolve());
+      stubs.push(showQuickPickStub, showConfirmationStub, showWarningStub);
+
+      await ooxmlPackage.restorePreviousVersion();
+
+      expect(showWarningStub.callCount).to.eq(1);
+    });
+  });
+
+  suite('validatePackage', () => {
+    const contentTypesXml =
+      '<?xml version="1.0"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Override PartName="/ppt/slides/slide1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>' +
+      '</Types>';
+
+    setup(function () {
+      ooxmlFileAccessor.getPart.withArgs('[Content_Types].xml').returns(Promise.resolve(new TextEncoder().encode(contentTypesXml)));
+      ooxmlFileAccessor.getPartPaths.returns(['[Content_Types].xml', 'ppt/media/image1.png', 'ppt/slides/slide1.xml']);
+      fileSystem.readPart.returns(Promise.resolve(new TextEncoder().encode('<?xml version="1.0"?><p:sld/>')));
+      fileSystem.readPart.withArgs('ppt/media/image1.png').returns(Promise.resolve(new Uint8Array([0x89, 0x50])));
+    });
+
+    test('should validate the xml parts against the schemas of their content types and show the problems view', async function () {
+      const schemaErrors = [{ message: "'p:sld' is missing the required element 'p:cSld'", lineNumber: 1, columnNumber: 22 }];
+      const validateStub = stub(OOXMLPackageSchemaValidator, 'validate').callsFake(filePath =>
+        Promise.resolve(filePath === 'ppt/slides/slide1.xml' ? schemaErrors : []),
+      );
+      const showInformationStub = stub(ExtensionUtilities, 'showInformation').returns(Promise.resolve());
+      const showProblemsStub = stub(ExtensionUtilities, 'showProblems').returns(Promise.resolve());
+      stubs.push(validateStub, showInformationStub, showProblemsStub);
+
+      await ooxmlPackage.validatePackage();
+
+      expect(validateStub.args.map(args => [args[0], args[1]])).to.deep.eq([
+        ['[Content_Types].xml', undefined],
+        ['ppt/slides/slide1.xml', 'application/vnd.openxmlformats-officedocument.presentationml.slide+xml'],
+      ]);
+      expect(diagnostics.setSchemaErrors.calledWith('ppt/slides/slide1.xml', schemaErrors)).to.be.true;
+      expect(diagnostics.setSchemaErrors.calledWith('ppt/media/image1.png', [])).to.be.true;
+      expect(showInformationStub.args[0][0]).to.eq("'package.json' has 1 schema error in 1 part");
+      expect(showProblemsStub.callCount).to.eq(1);
+    });
+
+    test('should let the user know if there are no schema errors', async function () {
+      const validateStub = stub(OOXMLPackageSchemaValidator, 'validate').returns(Promise.resolve([]));
+      const showInformationStub = stub(ExtensionUtilities, 'showInformation').returns(Promise.resolve());
+      const showProblemsStub = stub(ExtensionUtilities, 'showProblems').returns(Promise.resolve());
+      stubs.push(validateStub, showInformationStub, showProblemsStub);
+
+      await ooxmlPackage.validatePackage();
+
+      expect(showInformationStub.args[0][0]).to.eq("'package.json' has no schema errors");
+      expect(showProblemsStub.callCount).to.eq(0);
+    });
+
+    test('should let the user know if parts were not validated because their schemas cannot be loaded', async function () {
+      const validateStub = stub(OOXMLPackageSchemaValidator, 'validate').callsFake(filePath =>
+        Promise.resolve(filePath === 'ppt/slides/slide1.xml' ? undefined : []),
+      );
+      const showWarningStub = stub(ExtensionUtilities, 'showWarning').returns(Promise.resolve());
+      const showInformationStub = stub(ExtensionUtilities, 'showInformation').returns(Promise.resolve());
+      stubs.push(validateStub, showWarningStub, showInformationStub);
+
+      await ooxmlPackage.validatePackage();
+
+      expect(showWarningStub.args[0][0]).to.eq("Skipped validating 1 part of 'package.json' because the schemas couldn't be loaded");
+      expect(showInformationStub.callCount).to.eq(0);
     });
 
     test('should showError if exception is thrown', async function () {
-      cache.cachePathIsNormal.returns(true);
-      const err = new Error('Error getting contents');
-      cache.getFilePathFromCacheFilePath.throws(err);
-      const errorStub = stub(ExtensionUtilities, 'showError').returns(Promise.resolve());
-      stubs.push(errorStub);
+      const withProgressStub = stub(ExtensionUtilities, 'withProgress').throws(new Error());
+      const showErrorStub = stub(ExtensionUtilities, 'showError');
+      stubs.push(withProgressStub, showErrorStub);
 
-      await ooxmlPackage.updateOOXMLFile('file/path');
+      await ooxmlPackage.validatePackage();
 
-      expect(errorStub.callCount).to.eq(1);
-      expect((errorStub.args[0][0] as Error).message).to.eq(err.message);
+      expect(showErrorStub.callCount).to.eq(1);
+    });
+  });
+
+  suite('getPartReferences', () => {
+    test('should get the relationships that target the part', async function () {
+      const relationshipsXml = (target: string) =>
+        '<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="${target}"/>` +
+        '</Relationships>';
+      ooxmlFileAccessor.getPartPaths.returns([
+        'ppt/slides/_rels/slide1.xml.rels',
+        'ppt/slides/_rels/slide2.xml.rels',
+        'ppt/slides/_rels/slide3.xml.rels',
+        'ppt/slides/slide1.xml',
+      ]);
+      const encoder = new TextEncoder();
+      ooxmlFileAccessor.getPart
+        .withArgs('ppt/slides/_rels/slide1.xml.rels')
+        .returns(Promise.resolve(encoder.encode(relationshipsXml('../media/image1.png'))));
+      ooxmlFileAccessor.getPart
+        .withArgs('ppt/slides/_rels/slide2.xml.rels')
+        .returns(Promise.resolve(encoder.encode(relationshipsXml('../media/image2.png'))));
+      ooxmlFileAccessor.getPart.withArgs('ppt/slides/_rels/slide3.xml.rels').returns(Promise.resolve(encoder.encode('<Relationships')));
+
+      const references = await ooxmlPackage.getPartReferences('ppt/media/image1.png');
+
+      expect(references.map(r => [r.sourcePartPath, r.relationship.id])).to.deep.eq([['ppt/slides/slide1.xml', 'rId2']]);
+    });
+  });
+
+  suite('updateEmbeddedPackage', () => {
+    const embeddedPackagePath = 'word/embeddings/Microsoft_Excel_Worksheet.xlsx';
+
+    async function getError(promise: Promise<unknown>): Promise<Error | undefined> {
+      try {
+        await promise;
+      } catch (err) {
+        return err as Error;
+      }
+
+      return undefined;
+    }
+
+    test('should write the embedded package and update its compare file and history', async function () {
+      const data = new Uint8Array([0x50, 0x4b, 0x03, 0x04]);
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(true));
+
+      await ooxmlPackage.updateEmbeddedPackage(embeddedPackagePath, data);
+
+      expect(ooxmlFileAccessor.updatePackageParts.args).to.deep.eq([[[{ filePath: embeddedPackagePath, data: data }]]]);
+      expect(fileSystem.setCompareFile.args).to.deep.eq([[embeddedPackagePath, data]]);
+      expect(fileSystem.createSnapshot.args).to.deep.eq([[embeddedPackagePath, data, 'Saved']]);
+    });
+
+    test('should throw and not update the compare file if the package could not be written', async function () {
+      ooxmlFileAccessor.updatePackageParts.returns(Promise.resolve(false));
+
+      const error = await getError(ooxmlPackage.updateEmbeddedPackage(embeddedPackagePath, new Uint8Array()));
+
+      expect(error?.message).to.contain('is open in another program');
+      expect(fileSystem.setCompareFile.callCount).to.eq(0);
+    });
+
+    test('should ask before writing an embedded package that would invalidate a digital signature', async function () {
+      stubs.push(
+        stub(OOXMLPackageSignatures, 'read').returns([
+          { filePath: '_xmlsignatures/sig1.xml', signedParts: [{ filePath: embeddedPackagePath, isValid: true }], isValid: true },
+        ]),
+      );
+      ooxmlPackageTreeView.getRootFileNode.returns(new FileNode());
+      await ooxmlPackage.openOOXMLPackage();
+      const confirmationStub = stub(ExtensionUtilities, 'showConfirmation').returns(Promise.resolve(false));
+      stubs.push(confirmationStub);
+
+      const error = await getError(ooxmlPackage.updateEmbeddedPackage(embeddedPackagePath, new Uint8Array([0x50, 0x4b])));
+
+      expect(confirmationStub.callCount).to.eq(1);
+      expect(error?.message).to.contain('digital signature stays valid');
+      expect(ooxmlFileAccessor.updatePackageParts.callCount).to.eq(0);
     });
   });
 
@@ -2,13 +2,18 @@ import { expect } from 'chai';
 import { tmpdir } from 'os';
 import { join } from 'path';
 import { createStubInstance, SinonStub, stub } from 'sinon';
-import { ExtensionContext } from 'vscode';
+import { ExtensionContext, Uri } from 'vscode';
+import { OOXMLFileSystemProvider } from '../../src/file-system/ooxml-file-system-provider';
 import { OOXMLExtensionSettings } from '../../src/ooxml-extension-settings';
+import { OOXMLPackageComparison } from '../../src/ooxml-package/ooxml-package-comparison';
 import { OOXMLPackageFacade } from '../../src/ooxml-package/ooxml-package-facade';
+import { OOXMLPackageFileAccessor } from '../../src/ooxml-package/ooxml-package-file-accessor';
 import { OOXMLViewer } from '../../src/ooxml-viewer';
+import { OOXMLRelationshipTreeDataProvider } from '../../src/tree-view/ooxml-relationship-tree-view-provider';
 import { FileNode, OOXMLTreeDataProvider } from '../../src/tree-view/ooxml-tree-view-provider';
 import { ExtensionUtilities } from '../../src/utilities/extension-utilities';
 import { FileSystemUtilities } from '../../src/utilities/file-system-utilities';
+import { GitUtilities } from '../../src/utilities/git-utilities';
 
 suite('OOXMLViewer', async function () {
   this.timeout(10000);
@@ -28,7 +33,13 @@ suite('OOXMLViewer', async function () {
     } as unknown as ExtensionContext;
     const treeViewDataProvider = createStubInstance(OOXMLTreeDataProvider);
     treeViewDataProvider.rootFileNode = new FileNode();
-    ooxmlViewer = new OOXMLViewer(treeViewDataProvider, settings, context);
+    ooxmlViewer = new OOXMLViewer(
+      treeViewDataProvider,
+      settings,
+      context,
+      new OOXMLRelationshipTreeDataProvider(),
+      new OOXMLFileSystemProvider(),
+    );
   });
 
   teardown(function () {
@@ -99,7 +110,24 @@ suite('OOXMLViewer', async function () {
     expect(ooxmlPackage.dispose.callCount).to.be.eq(1);
   });
 
-  test('reset should reset all packages and clear cache', async function () {
+  test('getPartReferences should get the references from the package the part file belongs to', async function () {
+    const partUri = Uri.parse(`ooxml:${testFilePath}/ppt/media/image1.png`);
+    const otherPackage = createStubInstance(OOXMLPackageFacade);
+    otherPackage.ooxmlFilePath = 'other.pptx';
+    otherPackage.getPartReferences.returns(Promise.resolve(undefined));
+    const ooxmlPackage = createStubInstance(OOXMLPackageFacade);
+    ooxmlPackage.ooxmlFilePath = testFilePath;
+    const partReferences = { ooxmlPackagePath: testFilePath, filePath: 'ppt/media/image1.png', references: [] };
+    ooxmlPackage.getPartReferences.withArgs(partUri).returns(Promise.resolve(partReferences));
+    const createPackageStub = stub(OOXMLPackageFacade, 'create').onFirstCall().returns(otherPackage).onSecondCall().returns(ooxmlPackage);
+    stubs.push(createPackageStub);
+    await ooxmlViewer.openOOXMLPackage('other.pptx');
+    await ooxmlViewer.openOOXMLPackage(testFilePath);
+
+    expect(await ooxmlViewer.getPartReferences(partUri)).to.eq(partReferences);
+  });
+
+  test('reset should reset all packages and clear the cache of earlier versions', async function () {
     const ooxmlPackage = createStubInstance(OOXMLPackageFacade);
     const deleteFileStub = stub(FileSystemUtilities, 'deleteFile').returns(Promise.resolve());
     const createPackageStub = stub(OOXMLPackageFacade, 'create').returns(ooxmlPackage);
@@ -132,7 +160,13 @@ suite('OOXMLViewer', async function () {
     } as unknown as ExtensionContext;
     const treeViewDataProvider = createStubInstance(OOXMLTreeDataProvider);
     treeViewDataProvider.rootFileNode = new FileNode();
-    const ooxmlViewer = new OOXMLViewer(treeViewDataProvider, settings, context);
+    const ooxmlViewer = new OOXMLViewer(
+      treeViewDataProvider,
+      settings,
+      context,
+      new OOXMLRelationshipTreeDataProvider(),
+      new OOXMLFileSystemProvider(),
+    );
     const deleteFileStub = stub(FileSystemUtilities, 'deleteFile').returns(Promise.resolve());
     stubs.push(deleteFileStub);
 
@@ -140,4 +174,126 @@ suite('OOXMLViewer', async function () {
 
     expect(deleteFileStub.callCount).to.be.eq(0);
   });
+
+  test('packFolder should pack the folder with the content types first and minified xml parts', async function () {
+    const encoder = new TextEncoder();
+    const getFilePathsStub = stub(FileSystemUtilities, 'getFilePaths').returns(
+      Promise.resolve(['[Content_Types].xml', '_rels/.rels', 'word/document.xml'].sort()),
+    );
+    const readFileStub = stub(FileSystemUtilities, 'readFile').callsFake(filePath =>
+      Promise.resolve(encoder.encode(`<?xml ?>\n<!-- ${filePath} -->\n<root>\n  <child/>\n</root>`)),
+    );
+    const showSaveDialogStub = stub(ExtensionUtilities, 'showSaveDialog').returns(Promise.resolve('Test.docx'));
+    const createPackageStub = stub(OOXMLPackageFileAccessor, 'createPackage').returns(Promise.resolve(true));
+    const showInformationStub = stub(ExtensionUtilities, 'showInformation').returns(Promise.resolve());
+    stubs.push(getFilePathsStub, readFileStub, showSaveDialogStub, createPackageStub, showInformationStub);
+    settings.preserveComments = false;
+
+    await ooxmlViewer.packFolder('folder');
+
+    expect(createPackageStub.args[0][0]).to.eq('Test.docx');
+    const parts = createPackageStub.args[0][1];
+    expect(parts.map(p => p.filePath)).to.deep.eq(['[Content_Types].xml', '_rels/.rels', 'word/document.xml']);
+    expect(new TextDecoder().decode(parts[2].data)).to.eq('<?xml?><root><child/></root>');
+    expect(readFileStub.args[0][0]).to.eq(join('folder', '[Content_Types].xml'));
+  });
+
+  test('packFolder should pack the mimetype file of odf folders first', async function () {
+    const getFilePathsStub = stub(FileSystemUtilities, 'getFilePaths').returns(
+      Promise.resolve(['META-INF/manifest.xml', 'content.xml', 'mimetype'].sort()),
+    );
+    const readFileStub = stub(FileSystemUtilities, 'readFile').returns(Promise.resolve(new TextEncoder().encode('<?xml ?><root/>')));
+    const showSaveDialogStub = stub(ExtensionUtilities, 'showSaveDialog').returns(Promise.resolve('Test.odt'));
+    const createPackageStub = stub(OOXMLPackageFileAccessor, 'createPackage').returns(Promise.resolve(true));
+    const showInformationStub = stub(ExtensionUtilities, 'showInformation').returns(Promise.resolve());
+    stubs.push(getFilePathsStub, readFileStub, showSaveDialogStub, createPackageStub, showInformationStub);
+
+    await ooxmlViewer.packFolder('folder');
+
+    expect(createPackageStub.args[0][1].map(p => p.filePath)).to.deep.eq(['mimetype', 'META-INF/manifest.xml', 'content.xml']);
+  });
+
+  test('packFolder should not pack a folder without content types', async function () {
+    const getFilePathsStub = stub(FileSystemUtilities, 'getFilePaths').returns(Promise.resolve(['word/document.xml']));
+    const showWarningStub = stub(ExtensionUtilities, 'showWarning').returns(Promise.resolve());
+    const createPackageStub = stub(OOXMLPackageFileAccessor, 'createPackage').returns(Promise.resolve(true));
+    stubs.push(getFilePathsStub, showWarningStub, createPackageStub);
+
+    await ooxmlViewer.packFolder('folder');
+
+    expect(showWarningStub.callCount).to.eq(1);
+    expect(createPackageStub.callCount).to.eq(0);
+  });
+
+  test('comparePackages should compare the package with the selected package', async function () {
+    const showOpenDialogStub = stub(ExtensionUtilities, 'showOpenDialog').returns(Promise.resolve(['before.docx']));
+    const getFileSizeStub = stub(FileSystemUtilities, 'getFileSize').returns(Promise.resolve(100));
+    const compareStub = stub(OOXMLPackageComparison.prototype, 'compare').returns(Promise.resolve());
+    const getDiffStub = stub(OOXMLPackageComparison.prototype, 'getDiff').returns(Promise.resolve());
+    stubs.push(showOpenDialogStub, getFileSizeStub, compareStub, getDiffStub);
+
+    await ooxmlViewer.comparePackages(undefined, 'after.docx');
+    await ooxmlViewer.getComparisonDiff('before.docx', 'after.docx', 'word/document.xml');
+
+    expect(compareStub.callCount).to.eq(1);
+    expect(compareStub.thisValues[0].originalPackagePath).to.eq('before.docx');
+    expect(compareStub.thisValues[0].modifiedPackagePath).to.eq('after.docx');
+    expect(getDiffStub.args[0][0]).to.eq('word/document.xml');
+  });
+
+  test('comparePackages should remove the comparison if the packages could not be compared', async function () {
+    const getFileSizeStub = stub(FileSystemUtilities, 'getFileSize').returns(Promise.resolve(100));
+    const compareStub = stub(OOXMLPackageComparison.prototype, 'compare').throws(new Error('Corrupt package'));
+    const disposeStub = stub(OOXMLPackageComparison.prototype, 'dispose').returns(Promise.resolve());
+    const showErrorStub = stub(ExtensionUtilities, 'showError').returns(Promise.resolve());
+    stubs.push(getFileSizeStub, compareStub, disposeStub, showErrorStub);
+
+    await ooxmlViewer.comparePackages('before.docx', 'after.docx');
+    await ooxmlViewer.removeComparison('before.docx', 'after.docx');
+
+    expect(disposeStub.callCount).to.eq(1);
+    expect(showErrorStub.callCount).to.eq(1);
+  });
+
+  test('compareWithHead should compare the package with its committed version', async function () {
+    const getCommittedFileSizeStub = stub(GitUtilities, 'getCommittedFileSize').returns(Promise.resolve(2));
+    const getCommittedFileStub = stub(GitUtilities, 'getCommittedFile').returns(Promise.resolve(new Uint8Array([80, 75])));
+    const loadStub = stub(OOXMLPackageFileAccessor.prototype, 'load').returns(Promise.resolve());
+    const compareStub = stub(OOXMLPackageComparison.prototype, 'compare').callThrough();
+    const getPackageContentsStub = stub(OOXMLPackageFileAccessor.prototype, 'getPackageContents').returns(Promise.resolve([]));
+    stubs.push(getCommittedFileSizeStub, getCommittedFileStub, loadStub, compareStub, getPackageContentsStub);
+
+    await ooxmlViewer.compareWithHead(testFilePath);
+
+    expect(getCommittedFileStub.args[0]).to.deep.eq([testFilePath, 'HEAD', settings.maximumOOXMLFileSizeBytes]);
+    expect(compareStub.thisValues[0].originalPackagePath).to.eq(`${testFilePath} (HEAD)`);
+    expect(loadStub.args[0][0]).to.deep.eq(new Uint8Array([80, 75]));
+    expect(loadStub.args[1][0]).to.be.undefined;
+  });
+
+  test('compareWithHead should warn if the package is not committed', async function () {
+    const getCommittedFileSizeStub = stub(GitUtilities, 'getCommittedFileSize').returns(Promise.resolve(undefined));
+    const showWarningStub = stub(ExtensionUtilities, 'showWarning').returns(Promise.resolve());
+    const compareStub = stub(OOXMLPackageComparison.prototype, 'compare').returns(Promise.resolve());
+    stubs.push(getCommittedFileSizeStub, showWarningStub, compareStub);
+
+    await ooxmlViewer.compareWithHead(testFilePath);
+
+    expect(showWarningStub.args[0][0]).to.contain('is not committed');
+    expect(compareStub.callCount).to.eq(0);
+  });
+
+  test('compareWithHead should not read the committed package if it exceeds the max file size', async function () {
+    const getCommittedFileSizeStub = stub(GitUtilities, 'getCommittedFileSize').returns(
+      Promise.resolve(settings.maximumOOXMLFileSizeBytes + 1),
+    );
+    const getCommittedFileStub = stub(GitUtilities, 'getCommittedFile');
+    const showWarningStub = stub(ExtensionUtilities, 'showWarning').returns(Promise.resolve());
+    stubs.push(getCommittedFileSizeStub, getCommittedFileStub, showWarningStub);
+
+    await ooxmlViewer.compareWithHead(testFilePath);
+
+    expect(showWarningStub.args[0][0]).to.contain('exceeds the max file size');
+    expect(getCommittedFileStub.callCount).to.eq(0);
+  });
 });
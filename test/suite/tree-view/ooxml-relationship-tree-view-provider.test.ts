@@ -0,0 +1,79 @@
+import { expect } from 'chai';
+import { ThemeIcon, TreeItemCollapsibleState } from 'vscode';
+import { Relationship } from '../../../src/ooxml-package/ooxml-package-relationships';
+import { OOXMLRelationshipTreeDataProvider, RelationshipNode } from '../../../src/tree-view/ooxml-relationship-tree-view-provider';
+
+suite('OOXMLViewer Relationship Tree View Provider', function () {
+  const officeDocumentRelationshipsNamespace = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+  let treeDataProvider: OOXMLRelationshipTreeDataProvider;
+  let packageNode: RelationshipNode;
+
+  function createRelationship(id: string, type: string, target: string, targetPath?: string): Relationship {
+    return {
+      id: id,
+      type: `${officeDocumentRelationshipsNamespace}/${type}`,
+      target: target,
+      targetMode: targetPath === undefined ? 'External' : undefined,
+      targetPath: targetPath,
+    };
+  }
+
+  setup(function () {
+    const relationshipsBySourcePart = new Map<string, Relationship[]>([
+      ['', [createRelationship('rId1', 'officeDocument', 'word/document.xml', 'word/document.xml')]],
+      [
+        'word/document.xml',
+        [
+          createRelationship('rId1', 'styles', 'styles.xml', 'word/styles.xml'),
+          createRelationship('rId2', 'hyperlink', 'https://example.com'),
+          createRelationship('rId3', 'subDocument', 'document.xml', 'word/document.xml'),
+        ],
+      ],
+    ]);
+    treeDataProvider = new OOXMLRelationshipTreeDataProvider();
+    packageNode = RelationshipNode.createPackageNode('path/to/package.docx', relationshipsBySourcePart);
+    treeDataProvider.packageNodes.push(packageNode);
+  });
+
+  test('should return the package nodes if no node is passed in when getChildren is called', function () {
+    expect(treeDataProvider.getChildren()).to.deep.eq([packageNode]);
+  });
+
+  test('should have the package name and package icon for a package node', function () {
+    expect(packageNode.label).to.eq('package.docx');
+    expect((packageNode.iconPath as ThemeIcon).id).to.eq('package');
+    expect(packageNode.contextValue).to.eq('relationshipPackage');
+    expect(packageNode.command).to.be.undefined;
+  });
+
+  test('should show the outgoing relationships of the target part as children', function () {
+    const documentNode = (treeDataProvider.getChildren(packageNode) as RelationshipNode[])[0];
+    const [stylesNode, hyperlinkNode, subDocumentNode] = treeDataProvider.getChildren(documentNode) as RelationshipNode[];
+
+    expect(documentNode.label).to.eq('officeDocument');
+    expect(documentNode.description).to.eq('rId1 → word/document.xml');
+    expect(documentNode.collapsibleState).to.eq(TreeItemCollapsibleState.Collapsed);
+    expect(stylesNode.label).to.eq('styles');
+    expect(stylesNode.collapsibleState).to.eq(TreeItemCollapsibleState.None);
+    expect(hyperlinkNode.description).to.eq('rId2 → https://example.com (External)');
+    expect(subDocumentNode.getChildren().length).to.eq(3);
+  });
+
+  test('should leave external targets as leaves without a command', function () {
+    const documentNode = packageNode.getChildren()[0];
+    const hyperlinkNode = documentNode.getChildren()[1];
+
+    expect(hyperlinkNode.contextValue).to.eq('externalRelationship');
+    expect(hyperlinkNode.collapsibleState).to.eq(TreeItemCollapsibleState.None);
+    expect(hyperlinkNode.command).to.be.undefined;
+  });
+
+  test('should return viewFile command with the target part for internal relationships', function () {
+    const stylesNode = packageNode.getChildren()[0].getChildren()[0];
+
+    expect(stylesNode.command?.command).to.eq('ooxmlViewer.viewFile');
+    expect(stylesNode.command?.arguments).to.have.members([stylesNode]);
+    expect(stylesNode.ooxmlPackagePath).to.eq('path/to/package.docx');
+    expect(stylesNode.nodePath).to.eq('word/styles.xml');
+  });
+});
@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import { SinonStub, stub } from 'sinon';
+import { CancellationToken, DataTransfer, DataTransferItem, Uri } from 'vscode';
+import { OOXMLTreeDragAndDropController } from '../../../src/tree-view/ooxml-tree-drag-and-drop-controller';
+import { FileNode } from '../../../src/tree-view/ooxml-tree-view-provider';
+import { ExtensionUtilities } from '../../../src/utilities/extension-utilities';
+import { ImportFilesCommand } from '../../../src/utilities/ooxml-commands';
+
+suite('OOXMLViewer Tree Drag and Drop Controller', function () {
+  const stubs: SinonStub[] = [];
+  const token = { isCancellationRequested: false } as CancellationToken;
+  let controller: OOXMLTreeDragAndDropController;
+  let dispatchStub: SinonStub;
+  let folderNode: FileNode;
+
+  setup(function () {
+    controller = new OOXMLTreeDragAndDropController();
+    dispatchStub = stub(ExtensionUtilities, 'dispatch').returns(Promise.resolve());
+    stubs.push(dispatchStub);
+    folderNode = FileNode.create('word', new FileNode(), 'package.docx');
+    FileNode.create('word/document.xml', folderNode, 'package.docx');
+  });
+
+  teardown(function () {
+    stubs.forEach(s => s.restore());
+    stubs.length = 0;
+  });
+
+  function createDataTransfer(filePaths: string[]): DataTransfer {
+    const dataTransfer = new DataTransfer();
+    dataTransfer.set('text/uri-list', new DataTransferItem(filePaths.map(p => Uri.file(p).toString()).join('\r\n')));
+    return dataTransfer;
+  }
+
+  test('should import dropped files into the folder they are dropped on', async function () {
+    await controller.handleDrop(folderNode, createDataTransfer(['/pictures/logo.png']), token);
+
+    expect(dispatchStub.callCount).to.eq(1);
+    const command = dispatchStub.args[0][0] as ImportFilesCommand;
+    expect(command).to.be.instanceOf(ImportFilesCommand);
+    expect(command.fileNode).to.eq(folderNode);
+    expect(command.args).to.deep.eq([[Uri.file('/pictures/logo.png').fsPath]]);
+  });
+
+  test("should import files dropped on a part into the part's folder", async function () {
+    await controller.handleDrop(folderNode.children[0], createDataTransfer(['/pictures/logo.png']), token);
+
+    expect((dispatchStub.args[0][0] as ImportFilesCommand).fileNode).to.eq(folderNode);
+  });
+
+  test('should not import files dropped on a package comparison', async function () {
+    folderNode.comparedPackagePath = 'original.docx';
+
+    await controller.handleDrop(folderNode, createDataTransfer(['/pictures/logo.png']), token);
+
+    expect(dispatchStub.callCount).to.eq(0);
+  });
+
+  test('should not import files dropped outside of a package', async function () {
+    await controller.handleDrop(undefined, createDataTransfer(['/pictures/logo.png']), token);
+
+    expect(dispatchStub.callCount).to.eq(0);
+  });
+});
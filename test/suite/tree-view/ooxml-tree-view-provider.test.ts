@@ -157,4 +157,93 @@ suite('OOXMLViewer File Node', function () {
   test('should have a tooltip as the full path', function () {
     expect(fileNode.tooltip).to.be.equal(fileNode.nodePath);
   });
+
+  test('should have a warning badge and list the problems in the tooltip if fileNode has problems', function () {
+    fileNode.problems = ['first problem', 'second problem'];
+
+    expect(fileNode.description).to.be.equal('⚠ 2');
+    expect(fileNode.tooltip).to.be.equal('tmp/file.docx\n⚠ first problem\n⚠ second problem');
+  });
+
+  test('should have a signed badge and list the signatures in the tooltip if the package is signed', function () {
+    fileNode.isOOXMLPackage = true;
+    fileNode.signatures = ["'_xmlsignatures/sig1.xml' signs 4 parts"];
+
+    expect(fileNode.description).to.be.equal('🔏 Signed');
+    expect(fileNode.tooltip).to.be.equal("tmp/file.docx\n🔏 '_xmlsignatures/sig1.xml' signs 4 parts");
+
+    fileNode.hasInvalidSignature = true;
+
+    expect(fileNode.description).to.be.equal('🔏 Signature invalid');
+  });
+
+  test('should have comparison context values if fileNode is part of a package comparison', function () {
+    fileNode.comparedPackagePath = 'tmp/original.docx';
+    const folderNode = FileNode.create('word', fileNode, fileNode.nodePath);
+    folderNode.comparedPackagePath = fileNode.comparedPackagePath;
+    const partNode = FileNode.create('word/document.xml', folderNode, fileNode.nodePath);
+    partNode.comparedPackagePath = fileNode.comparedPackagePath;
+    fileNode.isOOXMLPackage = true;
+
+    expect(fileNode.contextValue).to.be.equal('comparison');
+    expect(fileNode.description).to.be.equal('↔ original.docx');
+    expect(folderNode.contextValue).to.be.equal('comparisonFolder');
+    expect(partNode.contextValue).to.be.equal('comparisonFile');
+    expect(partNode.collapsibleState).to.be.equal(TreeItemCollapsibleState.None);
+  });
+
+  test('should return showComparisonDiff command if fileNode is a part of a package comparison', function () {
+    fileNode.comparedPackagePath = 'tmp/original.docx';
+
+    expect(fileNode.command?.command).to.be.equal('ooxmlViewer.showComparisonDiff');
+    expect(fileNode.command?.arguments).to.have.members([fileNode]);
+  });
+
+  test('should have storage and stream nodes under a part that is a compound file', function () {
+    const partNode = FileNode.create('word/embeddings/oleObject1.bin', fileNode, fileNode.nodePath);
+    const storageNode = FileNode.createStreamNode('Storage1', true, partNode);
+    const streamNode = FileNode.createStreamNode('Storage1/\x01Ole', false, storageNode);
+
+    expect(partNode.contextValue).to.be.equal('file');
+    expect(partNode.collapsibleState).to.be.equal(TreeItemCollapsibleState.Collapsed);
+    expect(partNode.command?.command).to.be.equal('ooxmlViewer.viewFile');
+    expect(storageNode.contextValue).to.be.equal('storage');
+    expect(storageNode.collapsibleState).to.be.equal(TreeItemCollapsibleState.Collapsed);
+    expect(storageNode.command).to.be.undefined;
+    expect(streamNode.contextValue).to.be.equal('stream');
+    expect(streamNode.label).to.be.equal('[1]Ole');
+    expect(streamNode.nodePath).to.be.equal('word/embeddings/oleObject1.bin/Storage1/\x01Ole');
+    expect(streamNode.partPath).to.be.equal('word/embeddings/oleObject1.bin');
+    expect(streamNode.ooxmlPackagePath).to.be.equal('tmp/file.docx');
+  });
+
+  test('should return viewStream command if fileNode is a stream', function () {
+    const streamNode = FileNode.createStreamNode('Contents', false, fileNode);
+
+    expect(streamNode.command?.command).to.be.equal('ooxmlViewer.viewStream');
+    expect(streamNode.command?.arguments).to.have.members([streamNode]);
+  });
+
+  test('should return viewVbaModule command if fileNode is a VBA module', function () {
+    const partNode = FileNode.create('word/vbaProject.bin', fileNode, fileNode.nodePath);
+    const moduleNode = FileNode.createVbaModuleNode('Module1', 'Module1.bas', partNode);
+
+    expect(partNode.contextValue).to.be.equal('file');
+    expect(partNode.collapsibleState).to.be.equal(TreeItemCollapsibleState.Collapsed);
+    expect(moduleNode.contextValue).to.be.equal('vbaModule');
+    expect(moduleNode.iconPath).to.be.equal(ThemeIcon.File);
+    expect(moduleNode.partPath).to.be.equal('word/vbaProject.bin');
+    expect(moduleNode.command?.command).to.be.equal('ooxmlViewer.viewVbaModule');
+    expect(moduleNode.command?.arguments).to.have.members([moduleNode]);
+  });
+
+  test('should be a collapsed file if fileNode is a part with an embedded package', function () {
+    const partNode = FileNode.create('word/embeddings/Microsoft_Excel_Worksheet.xlsx', fileNode, fileNode.nodePath);
+    const embeddedRootNode = FileNode.create('tmp/file.docx/word/embeddings/Microsoft_Excel_Worksheet.xlsx', partNode, '');
+    embeddedRootNode.isOOXMLPackage = true;
+
+    expect(partNode.contextValue).to.be.equal('file');
+    expect(partNode.collapsibleState).to.be.equal(TreeItemCollapsibleState.Collapsed);
+    expect(partNode.command?.command).to.be.equal('ooxmlViewer.viewFile');
+  });
 });
@@ -0,0 +1,95 @@
+import { expect } from 'chai';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { CompoundFile } from '../../../src/utilities/compound-file';
+
+suite('CompoundFile', function () {
+  const data = new Uint8Array(readFileSync(join(__dirname, '..', '..', '..', '..', 'test', 'test-data', 'ole-object.bin')));
+
+  test('isCompoundFile should check the signature', function () {
+    expect(CompoundFile.isCompoundFile(data)).to.be.true;
+    expect(CompoundFile.isCompoundFile(new TextEncoder().encode('<?xml version="1.0"?>'))).to.be.false;
+  });
+
+  test('should read the storages and streams in the directory', function () {
+    const compoundFile = new CompoundFile(data);
+
+    expect(compoundFile.root.path).to.eq('');
+    expect(compoundFile.root.children.map(c => [c.path, c.isStorage, c.size])).to.deep.eq([
+      ['\x01Ole', false, 20],
+      ['Contents', false, 5000],
+      ['Storage1', true, 0],
+    ]);
+    expect(compoundFile.root.children[2].children.map(c => [c.path, c.isStorage, c.size])).to.deep.eq([['Storage1/Stream1', false, 117]]);
+  });
+
+  test('getStream should read streams from the mini stream and from regular sectors', function () {
+    const compoundFile = new CompoundFile(data);
+
+    const stream1 = compoundFile.getStream('Storage1/Stream1');
+    const contents = compoundFile.getStream('Contents');
+
+    expect(new TextDecoder().decode(stream1)).to.eq('Hello from a mini stream sector chain! '.repeat(3));
+    expect(contents?.length).to.eq(5000);
+    expect(contents?.every((b, i) => b === (i * 7) % 256)).to.be.true;
+  });
+
+  test('findEntry and getStream should ignore the case of names and not return storages as streams', function () {
+    const compoundFile = new CompoundFile(data);
+
+    expect(compoundFile.findEntry('storage1/STREAM1')?.path).to.eq('Storage1/Stream1');
+    expect(compoundFile.findEntry('Storage2')).to.be.undefined;
+    expect(compoundFile.getStream('Storage1')).to.be.undefined;
+  });
+
+  test('should throw if the data is not a compound file', function () {
+    expect(() => new CompoundFile(new Uint8Array(1024))).to.throw('The file is not a compound file');
+  });
+
+  test('getPrintableName should replace control characters with their number', function () {
+    expect(CompoundFile.getPrintableName('\x05SummaryInformation')).to.eq('[5]SummaryInformation');
+    expect(CompoundFile.getPrintableName('Storage1/\x01Ole')).to.eq('Storage1/[1]Ole');
+  });
+
+  test('getStreams should get the streams of every storage with their data', function () {
+    const compoundFile = new CompoundFile(data);
+
+    expect(compoundFile.getStreams().map(s => [s.path, s.data.length])).to.deep.eq([
+      ['\x01Ole', 20],
+      ['Contents', 5000],
+      ['Storage1/Stream1', 117],
+    ]);
+  });
+
+  test('create should create a compound file with the streams and their storages', function () {
+    const streams = [
+      { path: 'Contents', data: new Uint8Array(5000).map((_, i) => i % 251) },
+      { path: '\x06DataSpaces/Version', data: new Uint8Array([1, 2, 3]) },
+      { path: '\x06DataSpaces/DataSpaceInfo/StrongEncryptionDataSpace', data: new Uint8Array(100).fill(7) },
+      { path: 'Empty', data: new Uint8Array() },
+      ...Array.from({ length: 5 }, (_, i) => ({ path: `Stream${i}`, data: new Uint8Array(64 * i + 1).fill(i) })),
+    ];
+
+    const compoundFile = new CompoundFile(CompoundFile.create(streams));
+
+    expect(compoundFile.root.children.map(c => c.name)).to.deep.eq([
+      'Empty',
+      'Stream0',
+      'Stream1',
+      'Stream2',
+      'Stream3',
+      'Stream4',
+      'Contents',
+      '\x06DataSpaces',
+    ]);
+    for (const stream of streams) {
+      expect(compoundFile.getStream(stream.path), stream.path).to.deep.eq(stream.data);
+    }
+  });
+
+  test('create should throw if a name is longer than 31 characters', function () {
+    expect(() => CompoundFile.create([{ path: 'S'.repeat(32), data: new Uint8Array() }])).to.throw(
+      `The compound file entry name '${'S'.repeat(32)}' is longer than 31 characters`,
+    );
+  });
+});
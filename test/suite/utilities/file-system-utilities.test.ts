@@ -0,0 +1,59 @@
+import { expect } from 'chai';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { stub } from 'sinon';
+import { FileSystemError, workspace } from 'vscode';
+import { FileSystemUtilities } from '../../../src/utilities/file-system-utilities';
+
+suite('OOXMLViewer File System Utilities', function () {
+  const testFolderPath = join(tmpdir(), 'ooxml-viewer-file-system-test');
+
+  teardown(async function () {
+    await FileSystemUtilities.deleteFile(testFolderPath);
+  });
+
+  test('writeFileAtomically replaces the file without leaving a temporary file', async function () {
+    const filePath = join(testFolderPath, 'Test.docx');
+    await FileSystemUtilities.writeFile(filePath, new TextEncoder().encode('original'));
+
+    const success = await FileSystemUtilities.writeFileAtomically(filePath, new TextEncoder().encode('updated'));
+
+    expect(success).to.be.true;
+    expect(new TextDecoder().decode(await FileSystemUtilities.readFile(filePath))).to.eq('updated');
+    expect(await FileSystemUtilities.getFilePaths(testFolderPath)).to.deep.eq(['Test.docx']);
+  });
+
+  test('writeFileAtomically returns false if the file cannot be replaced because another program has it open', async function () {
+    const filePath = join(testFolderPath, 'Test.docx');
+    await FileSystemUtilities.writeFile(filePath, new TextEncoder().encode('original'));
+    const renameErrors = [
+      FileSystemError.NoPermissions(filePath),
+      Object.assign(new Error("EPERM: operation not permitted, rename 'Test.docx'"), { code: 'EPERM' }),
+      Object.assign(new Error("Error: EACCES: permission denied, rename 'Test.docx'"), { code: 'Unknown' }),
+    ];
+
+    for (const renameError of renameErrors) {
+      const renameStub = stub(workspace.fs, 'rename').returns(Promise.reject(renameError));
+      try {
+        const success = await FileSystemUtilities.writeFileAtomically(filePath, new TextEncoder().encode('updated'));
+
+        expect(success).to.be.false;
+      } finally {
+        renameStub.restore();
+      }
+    }
+
+    expect(new TextDecoder().decode(await FileSystemUtilities.readFile(filePath))).to.eq('original');
+    expect(await FileSystemUtilities.getFilePaths(testFolderPath)).to.deep.eq(['Test.docx']);
+  });
+
+  test('getFilePaths returns the sorted paths of the files in all subfolders', async function () {
+    await FileSystemUtilities.writeFile(join(testFolderPath, 'word', 'document.xml'), new Uint8Array());
+    await FileSystemUtilities.writeFile(join(testFolderPath, '_rels', '.rels'), new Uint8Array());
+    await FileSystemUtilities.writeFile(join(testFolderPath, '[Content_Types].xml'), new Uint8Array());
+
+    const filePaths = await FileSystemUtilities.getFilePaths(testFolderPath);
+
+    expect(filePaths).to.deep.eq(['[Content_Types].xml', '_rels/.rels', 'word/document.xml']);
+  });
+});
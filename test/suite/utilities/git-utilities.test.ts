@@ -0,0 +1,66 @@
+import { expect } from 'chai';
+import { execFileSync } from 'child_process';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileSystemUtilities } from '../../../src/utilities/file-system-utilities';
+import { GitUtilities } from '../../../src/utilities/git-utilities';
+
+suite('OOXMLViewer Git Utilities', function () {
+  this.timeout(10000);
+  const testFolderPath = join(tmpdir(), 'ooxml-viewer-git-test');
+
+  function git(...args: string[]): void {
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: testFolderPath });
+  }
+
+  setup(async function () {
+    await FileSystemUtilities.createDirectory(join(testFolderPath, 'docs'));
+    git('init', '--quiet');
+  });
+
+  teardown(async function () {
+    await FileSystemUtilities.deleteFile(testFolderPath);
+  });
+
+  test('getCommittedFile returns the contents of the file at HEAD', async function () {
+    const filePath = join(testFolderPath, 'docs', 'Test.docx');
+    await FileSystemUtilities.writeFile(filePath, new Uint8Array([80, 75, 3, 4, 0, 255]));
+    git('add', '-A');
+    git('commit', '--quiet', '-m', 'Add Test.docx');
+    await FileSystemUtilities.writeFile(filePath, new Uint8Array([1]));
+
+    const contents = await GitUtilities.getCommittedFile(filePath);
+
+    expect(contents).to.deep.eq(new Uint8Array([80, 75, 3, 4, 0, 255]));
+  });
+
+  test('getCommittedFile returns undefined if the file is not committed', async function () {
+    const filePath = join(testFolderPath, 'docs', 'Test.docx');
+    await FileSystemUtilities.writeFile(filePath, new Uint8Array([1]));
+
+    const contents = await GitUtilities.getCommittedFile(filePath);
+
+    expect(contents).to.be.undefined;
+  });
+
+  test('getCommittedFileSize returns the size of the file at HEAD', async function () {
+    const filePath = join(testFolderPath, 'docs', 'Test.docx');
+    await FileSystemUtilities.writeFile(filePath, new Uint8Array([80, 75, 3, 4, 0, 255]));
+    git('add', '-A');
+    git('commit', '--quiet', '-m', 'Add Test.docx');
+
+    expect(await GitUtilities.getCommittedFileSize(filePath)).to.eq(6);
+    expect(await GitUtilities.getCommittedFileSize(join(testFolderPath, 'docs', 'Other.docx'))).to.be.undefined;
+  });
+
+  test('getCommittedFile returns undefined if the file exceeds the maximum size', async function () {
+    const filePath = join(testFolderPath, 'docs', 'Test.docx');
+    await FileSystemUtilities.writeFile(filePath, new Uint8Array(1000));
+    git('add', '-A');
+    git('commit', '--quiet', '-m', 'Add Test.docx');
+
+    const contents = await GitUtilities.getCommittedFile(filePath, 'HEAD', 100);
+
+    expect(contents).to.be.undefined;
+  });
+});
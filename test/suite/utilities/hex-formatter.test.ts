@@ -0,0 +1,25 @@
+import { expect } from 'chai';
+import { HexFormatter } from '../../../src/utilities/hex-formatter';
+
+suite('HexFormatter', function () {
+  test('isBinary should return true if the data has a null byte', function () {
+    expect(HexFormatter.isBinary(new Uint8Array([0x50, 0x4b, 0x00, 0x01]))).to.be.true;
+    expect(HexFormatter.isBinary(new TextEncoder().encode('<v:shape id="_x0000_s1025"/>'))).to.be.false;
+  });
+
+  test('format should format rows of 16 bytes with their offset and printable characters', function () {
+    const data = new Uint8Array(20).map((_, i) => 0x3c + i);
+    data[1] = 0x0a;
+
+    const rows = HexFormatter.format(data);
+
+    expect(rows).to.deep.eq([
+      { offset: '00000000', hex: '3c 0a 3e 3f 40 41 42 43 44 45 46 47 48 49 4a 4b', ascii: '<.>?@ABCDEFGHIJK' },
+      { offset: '00000010', hex: '4c 4d 4e 4f', ascii: 'LMNO' },
+    ]);
+  });
+
+  test('format should return no rows for empty data', function () {
+    expect(HexFormatter.format(new Uint8Array())).to.be.empty;
+  });
+});
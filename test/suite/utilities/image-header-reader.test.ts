@@ -0,0 +1,153 @@
+import { expect } from 'chai';
+import { ImageHeaderReader } from '../../../src/utilities/image-header-reader';
+
+suite('ImageHeaderReader', function () {
+  // writes the values at their offsets, as little endian unless the size is negative
+  function createImage(length: number, values: [offset: number, size: number, value: number | string][]): Uint8Array {
+    const data = new Uint8Array(length);
+    const view = new DataView(data.buffer);
+    for (const [offset, size, value] of values) {
+      if (typeof value === 'string') {
+        data.set(
+          [...value].map(c => c.charCodeAt(0)),
+          offset,
+        );
+      } else if (Math.abs(size) === 1) {
+        view.setUint8(offset, value);
+      } else if (Math.abs(size) === 2) {
+        view.setInt16(offset, value, size > 0);
+      } else {
+        view.setInt32(offset, value, size > 0);
+      }
+    }
+
+    return data;
+  }
+
+  test('read should read the size and resolution of a png', function () {
+    const png = createImage(70, [
+      [0, 0, '\x89PNG\r\n\x1a\n'],
+      [8, -4, 13],
+      [12, 0, 'IHDR'],
+      [16, -4, 200],
+      [20, -4, 100],
+      [33, -4, 9],
+      [37, 0, 'pHYs'],
+      [41, -4, 3780],
+      [45, -4, 3780],
+      [49, 1, 1],
+      [54, -4, 0],
+      [58, 0, 'IEND'],
+    ]);
+
+    const header = ImageHeaderReader.read(png);
+
+    expect(header).to.include({ format: 'PNG', width: 200, height: 100 });
+    expect(header?.horizontalDpi).to.be.closeTo(96, 0.1);
+    expect(header?.verticalDpi).to.be.closeTo(96, 0.1);
+  });
+
+  test('read should read the size of a jpeg from its frame and the resolution from its jfif segment', function () {
+    const jpeg = createImage(40, [
+      [0, -2, 0xffd8],
+      [2, -2, 0xffe0],
+      [4, -2, 16],
+      [6, 0, 'JFIF\0'],
+      [13, 1, 1],
+      [14, -2, 300],
+      [16, -2, 300],
+      [20, -2, 0xffc0],
+      [22, -2, 17],
+      [25, -2, 50],
+      [27, -2, 80],
+    ]);
+
+    expect(ImageHeaderReader.read(jpeg)).to.deep.eq({ format: 'JPEG', width: 80, height: 50, horizontalDpi: 300, verticalDpi: 300 });
+  });
+
+  test('read should read the size of a gif', function () {
+    const gif = createImage(13, [
+      [0, 0, 'GIF89a'],
+      [6, 2, 10],
+      [8, 2, 20],
+    ]);
+
+    expect(ImageHeaderReader.read(gif)).to.deep.eq({ format: 'GIF', width: 10, height: 20 });
+  });
+
+  test('read should read the size and resolution of a top-down bmp', function () {
+    const bmp = createImage(54, [
+      [0, 0, 'BM'],
+      [14, 4, 40],
+      [18, 4, 64],
+      [22, 4, -32],
+      [38, 4, 2835],
+      [42, 4, 2835],
+    ]);
+
+    const header = ImageHeaderReader.read(bmp);
+
+    expect(header).to.include({ format: 'BMP', width: 64, height: 32 });
+    expect(header?.horizontalDpi).to.be.closeTo(72, 0.1);
+  });
+
+  test('read should read the size and resolution of a tiff', function () {
+    const tiff = createImage(70, [
+      [0, 0, 'II*\0'],
+      [4, 4, 8],
+      [8, 2, 4],
+      [10, 2, 256],
+      [12, 2, 3],
+      [18, 2, 640],
+      [22, 2, 257],
+      [24, 2, 4],
+      [30, 4, 480],
+      [34, 2, 282],
+      [36, 2, 5],
+      [42, 4, 60],
+      [46, 2, 296],
+      [48, 2, 3],
+      [54, 2, 3],
+      [60, 4, 100],
+      [64, 4, 1],
+    ]);
+
+    const header = ImageHeaderReader.read(tiff);
+
+    expect(header).to.include({ format: 'TIFF', width: 640, height: 480, horizontalDpi: 254 });
+    expect(header?.verticalDpi).to.be.undefined;
+  });
+
+  test('read should read the bounds and the resolution of the reference device of an emf', function () {
+    const emf = createImage(108, [
+      [0, 4, 1],
+      [4, 4, 108],
+      [16, 4, 99],
+      [20, 4, 49],
+      [40, 4, 0x464d4520],
+      [72, 4, 960],
+      [76, 4, 960],
+      [80, 4, 254],
+      [84, 4, 254],
+    ]);
+
+    expect(ImageHeaderReader.read(emf)).to.deep.eq({ format: 'EMF', width: 100, height: 50, horizontalDpi: 96, verticalDpi: 96 });
+  });
+
+  test('read should read the bounding box of a placeable wmf', function () {
+    const wmf = createImage(22, [
+      [0, 4, 0x9ac6cdd7 | 0],
+      [10, 2, 2880],
+      [12, 2, 1440],
+      [14, 2, 1440],
+    ]);
+
+    expect(ImageHeaderReader.read(wmf)).to.deep.eq({ format: 'WMF', width: 2880, height: 1440, horizontalDpi: 1440, verticalDpi: 1440 });
+  });
+
+  test('read should not read unknown formats and truncated headers', function () {
+    expect(ImageHeaderReader.read(new TextEncoder().encode('<svg xmlns="http://www.w3.org/2000/svg"/>'))).to.be.undefined;
+    expect(ImageHeaderReader.read(createImage(10, [[0, 0, '\x89PNG\r\n\x1a\n']]))).to.be.undefined;
+    expect(ImageHeaderReader.read(new Uint8Array())).to.be.undefined;
+  });
+});
@@ -0,0 +1,22 @@
+import { expect } from 'chai';
+import { OOXMLUnits } from '../../../src/utilities/ooxml-units';
+
+suite('OOXMLUnits', function () {
+  const describeTests = [
+    { typeName: 'ST_TwipsMeasure', value: '240', description: '240 twips = 12 pt = 0.42 cm = 0.17 in' },
+    { typeName: 'ST_SignedTwipsMeasure', value: '-1440', description: '-1440 twips = -72 pt = -2.54 cm = -1 in' },
+    { typeName: 'ST_HpsMeasure', value: '24', description: '24 half-points = 12 pt = 0.42 cm = 0.17 in' },
+    { typeName: 'ST_PositiveCoordinate', value: '914400', description: '914400 EMUs = 72 pt = 2.54 cm = 1 in' },
+    { typeName: 'ST_TextFontSize', value: '1800', description: '1800 hundredths of a point = 18 pt = 0.64 cm = 0.25 in' },
+    { typeName: 'ST_Angle', value: '5400000', description: '5400000 = 90°' },
+    { typeName: 'ST_PositiveFixedPercentage', value: '50000', description: '50000 = 50%' },
+    { typeName: 'ST_TwipsMeasure', value: '12pt', description: undefined },
+    { typeName: 'ST_String', value: '240', description: undefined },
+  ];
+
+  describeTests.forEach(function (args) {
+    test(`describe where value is '${args.value}' of type ${args.typeName} returns ${args.description}`, function () {
+      expect(OOXMLUnits.describe(args.typeName, args.value)).to.eq(args.description);
+    });
+  });
+});
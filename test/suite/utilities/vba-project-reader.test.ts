@@ -0,0 +1,62 @@
+import { expect } from 'chai';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { VbaProjectReader } from '../../../src/utilities/vba-project-reader';
+
+suite('VbaProjectReader', function () {
+  const vbaProject = new Uint8Array(readFileSync(join(__dirname, '..', '..', '..', '..', 'test', 'test-data', 'vbaProject.bin')));
+  const oleObject = new Uint8Array(readFileSync(join(__dirname, '..', '..', '..', '..', 'test', 'test-data', 'ole-object.bin')));
+
+  test('read should read the modules and their source in the code page of the project', function () {
+    const modules = VbaProjectReader.read(vbaProject);
+
+    expect(modules.map(m => [m.name, m.streamName, m.type])).to.deep.eq([
+      ['ThisDocument', 'ThisDocument', 'class'],
+      ['Module1', 'Module1', 'standard'],
+    ]);
+    expect(modules[0].source).to.contain('Private Sub Document_Open()\r\n    Module1.Greet\r\nEnd Sub\r\n');
+    expect(modules[1].source).to.eq('Attribute VB_Name = "Module1"\r\nSub Greet()\r\n    MsgBox "Bonjour, café!"\r\nEnd Sub\r\n');
+  });
+
+  test('read should throw if the compound file is not a VBA project', function () {
+    expect(() => VbaProjectReader.read(oleObject)).to.throw('The file is not a VBA project');
+  });
+
+  test('isVbaProject should return whether or not the data is a compound file with a VBA storage', function () {
+    expect(VbaProjectReader.isVbaProject(vbaProject)).to.be.true;
+    expect(VbaProjectReader.isVbaProject(oleObject)).to.be.false;
+    expect(VbaProjectReader.isVbaProject(new Uint8Array([1, 2, 3]))).to.be.false;
+  });
+
+  test('getFileName should add the extension VBA exports the module with', function () {
+    expect(VbaProjectReader.getFileName({ name: 'Module1', streamName: 'Module1', type: 'standard', source: '' })).to.eq('Module1.bas');
+    expect(VbaProjectReader.getFileName({ name: 'ThisWorkbook', streamName: 'ThisWorkbook', type: 'class', source: '' })).to.eq(
+      'ThisWorkbook.cls',
+    );
+  });
+
+  // the literal and copy token examples of [MS-OVBA] 3.2
+  test('decompress should decompress literals', function () {
+    const compressed = [0x01, 0x19, 0xb0, 0x00, 0x61, 0x62, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x00, 0x69, 0x6a, 0x6b, 0x6c];
+    compressed.push(0x6d, 0x6e, 0x6f, 0x70, 0x00, 0x71, 0x72, 0x73, 0x74, 0x75, 0x76, 0x2e);
+
+    expect(new TextDecoder().decode(VbaProjectReader.decompress(new Uint8Array(compressed)))).to.eq('abcdefghijklmnopqrstuv.');
+  });
+
+  test('decompress should decompress copy tokens', function () {
+    const compressed = [0x01, 0x2f, 0xb0, 0x00, 0x23, 0x61, 0x61, 0x61, 0x62, 0x63, 0x64, 0x65, 0x82, 0x66, 0x00, 0x70, 0x61, 0x67];
+    compressed.push(0x68, 0x69, 0x6a, 0x01, 0x38, 0x08, 0x61, 0x6b, 0x6c, 0x00, 0x30, 0x6d, 0x6e, 0x6f, 0x70, 0x06, 0x71, 0x02);
+    compressed.push(0x70, 0x04, 0x10, 0x72, 0x73, 0x74, 0x75, 0x76, 0x10, 0x77, 0x78, 0x79, 0x7a, 0x00, 0x3c);
+
+    expect(new TextDecoder().decode(VbaProjectReader.decompress(new Uint8Array(compressed)))).to.eq(
+      '#aaabcdefaaaaghijaaaaaklaaamnopqaaaaaaaaaaaarstuvwxyzaaa',
+    );
+    expect(new TextDecoder().decode(VbaProjectReader.decompress(new Uint8Array([0x01, 0x03, 0xb0, 0x02, 0x61, 0x0b, 0x00])))).to.eq(
+      'aaaaaaaaaaaaaaa',
+    );
+  });
+
+  test('decompress should throw if the data is not a compressed container', function () {
+    expect(() => VbaProjectReader.decompress(new Uint8Array([0x02, 0x00]))).to.throw('The data is not a compressed container');
+  });
+});
@@ -172,4 +172,35 @@ suite('OOXMLViewer Xml Formatter', function () {
 
     expect(decoder.decode(formatted)).to.equal('not-xml<>\r\n<>');
   });
+
+  test(`findSyntaxError where xml is well-formed returns undefined`, function () {
+    const data = new TextEncoder().encode('<?xml version="1.0"?>\r\n<Types>\r\n  <Default/>\r\n</Types>');
+
+    expect(XmlFormatter.findSyntaxError(data)).to.be.undefined;
+  });
+
+  test(`findSyntaxError where xml is not well-formed returns the line of the error`, function () {
+    const data = new TextEncoder().encode('<?xml version="1.0"?>\r\n<Types>\r\n  <Default>\r\n</Types>');
+
+    const syntaxError = XmlFormatter.findSyntaxError(data);
+
+    expect(syntaxError?.lineNumber).to.equal(3);
+    expect(syntaxError?.message).to.contain('Default');
+  });
+
+  test(`findSyntaxError where not xml returns undefined`, function () {
+    expect(XmlFormatter.findSyntaxError(new TextEncoder().encode('not-xml<>\r\n<>'))).to.be.undefined;
+  });
+
+  test(`parse where xml is well-formed returns the document`, function () {
+    const data = new TextEncoder().encode('<?xml version="1.0"?>\r\n<Types>\r\n  <Default/>\r\n</Types>');
+
+    expect(XmlFormatter.parse(data, 'part.xml').documentElement?.tagName).to.equal('Types');
+  });
+
+  test(`parse where xml is not well-formed throws an error with the line of the error`, function () {
+    const data = new TextEncoder().encode('<?xml version="1.0"?>\r\n<Types>\r\n  <Default>\r\n</Types>');
+
+    expect(() => XmlFormatter.parse(data, 'part.xml')).to.throw(/^'part\.xml' is not well-formed at line 3/);
+  });
 });
@@ -0,0 +1,152 @@
+import { expect } from 'chai';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileSystemUtilities } from '../../../src/utilities/file-system-utilities';
+import { XmlSchemaSet } from '../../../src/utilities/xml-schema-validator';
+
+suite('XmlSchemaSet', function () {
+  const schemaFolderPath = join(__dirname, '..', '..', '..', '..', 'test', 'test-data', 'schemas');
+  const textEncoder = new TextEncoder();
+  let schemaSet: XmlSchemaSet;
+
+  function createDocument(body: string): Uint8Array {
+    return textEncoder.encode(
+      '<?xml version="1.0"?>\n' +
+        '<m:document xmlns:m="urn:test:main" xmlns:s="urn:test:shared" xmlns:x="urn:test:extension" x:foo="1">\n' +
+        `${body}\n` +
+        '</m:document>',
+    );
+  }
+
+  setup(async function () {
+    schemaSet = await XmlSchemaSet.load(schemaFolderPath, ['test-main.xsd']);
+  });
+
+  test('load should throw if a schema is not well-formed', async function () {
+    const malformedSchemaFolderPath = join(tmpdir(), 'ooxml-viewer-schema-test');
+    await FileSystemUtilities.writeFile(join(malformedSchemaFolderPath, 'malformed.xsd'), textEncoder.encode('<xsd:schema>'));
+
+    try {
+      const err = await XmlSchemaSet.load(malformedSchemaFolderPath, ['malformed.xsd']).then(
+        () => undefined,
+        (e: Error) => e,
+      );
+
+      expect(err?.message).to.contain("'malformed.xsd' is not well-formed");
+    } finally {
+      await FileSystemUtilities.deleteFile(malformedSchemaFolderPath);
+    }
+  });
+
+  test('validate should not find errors in a valid document', function () {
+    const errors = schemaSet.validate(
+      createDocument('<m:p s:id="1"><m:pPr><m:style m:val="a"/><m:keepNext/></m:pPr><m:r><m:t>x</m:t><m:br/><x:ext/></m:r></m:p>'),
+    );
+
+    expect(errors).to.be.empty;
+  });
+
+  test('validate should find unknown attributes and children, children out of order and missing required attributes', function () {
+    const errors = schemaSet.validate(createDocument('<m:p m:bad="1"><m:pPr><m:keepNext/><m:style/></m:pPr><m:r><m:u/></m:r></m:p>'));
+
+    expect(errors).to.deep.eq([
+      { message: "Attribute 'm:bad' is not allowed on 'm:p'", lineNumber: 3, columnNumber: 1 },
+      {
+        message: "The child elements of 'm:pPr' are not in the order or number the schema requires: style, keepNext, jc, spacing",
+        lineNumber: 3,
+        columnNumber: 16,
+      },
+      { message: "'m:style' is missing the required attribute 'val'", lineNumber: 3, columnNumber: 36 },
+      { message: "'m:u' is not allowed in 'm:r'", lineNumber: 3, columnNumber: 59 },
+    ]);
+  });
+
+  test('validate should find missing required children', function () {
+    const errors = schemaSet.validate(createDocument(''));
+
+    expect(errors.map(e => e.message)).to.deep.eq([
+      "The child elements of 'm:document' are not in the order or number the schema requires: p",
+    ]);
+  });
+
+  test('validate should find root elements the schema does not declare', function () {
+    const errors = schemaSet.validate(textEncoder.encode('<?xml version="1.0"?><other/>'));
+
+    expect(errors.map(e => e.message)).to.deep.eq(["'other' is not a root element of the schema"]);
+  });
+
+  test('validate should not validate documents that are not well-formed', function () {
+    const errors = schemaSet.validate(textEncoder.encode('<?xml version="1.0"?><m:document xmlns:m="urn:test:main">'));
+
+    expect(errors).to.be.empty;
+  });
+
+  test('getChildElements should get the root elements for an empty path', function () {
+    expect(schemaSet.getChildElements([])).to.deep.eq([{ namespace: 'urn:test:main', localName: 'document' }]);
+  });
+
+  test('getChildElements should get the elements allowed in a local element', function () {
+    const childElements = schemaSet.getChildElements(['{urn:test:main}document', '{urn:test:main}p', '{urn:test:main}pPr']);
+
+    expect(childElements.map(e => e.localName)).to.deep.eq(['style', 'keepNext', 'jc', 'spacing']);
+  });
+
+  test('getChildElements should get the elements of a group', function () {
+    const childElements = schemaSet.getChildElements(['{urn:test:main}document', '{urn:test:main}p', '{urn:test:main}r']);
+
+    expect(childElements.map(e => e.localName)).to.deep.eq(['t', 'br']);
+  });
+
+  test('getAttributes should get the attributes allowed on an element', function () {
+    expect(schemaSet.getAttributes(['{urn:test:main}document', '{urn:test:main}p'])).to.deep.eq([
+      { namespace: 'urn:test:shared', localName: 'id', isRequired: false },
+    ]);
+  });
+
+  test('getAttributeValues should get the values of an enumeration', function () {
+    const attributeValues = schemaSet.getAttributeValues(
+      ['{urn:test:main}document', '{urn:test:main}p', '{urn:test:main}pPr', '{urn:test:main}jc'],
+      '{urn:test:main}val',
+    );
+
+    expect(attributeValues).to.deep.eq(['left', 'center', 'right']);
+  });
+
+  test('getAttributeValues should get the values of the member types of a union', function () {
+    const attributeValues = schemaSet.getAttributeValues(
+      ['{urn:test:main}document', '{urn:test:main}p', '{urn:test:main}pPr', '{urn:test:main}keepNext'],
+      '{urn:test:main}val',
+    );
+
+    expect(attributeValues).to.deep.eq(['true', 'false', 'on', 'off']);
+  });
+
+  test('getAttributeValues should not get values for attributes that are not enumerations', function () {
+    const attributeValues = schemaSet.getAttributeValues(
+      ['{urn:test:main}document', '{urn:test:main}p', '{urn:test:main}pPr', '{urn:test:main}style'],
+      '{urn:test:main}val',
+    );
+
+    expect(attributeValues).to.be.empty;
+  });
+
+  test('getElementDefinition should get the type and the documentation of the type of an element', function () {
+    expect(schemaSet.getElementDefinition(['{urn:test:main}document', '{urn:test:main}p'])).to.deep.eq({
+      typeName: 'CT_Para',
+      documentation: 'Paragraph',
+    });
+  });
+
+  test('getAttributeDefinition should get the type and the documentation of an attribute', function () {
+    const definition = schemaSet.getAttributeDefinition(
+      ['{urn:test:main}document', '{urn:test:main}p', '{urn:test:main}pPr', '{urn:test:main}spacing'],
+      '{urn:test:main}after',
+    );
+
+    expect(definition).to.deep.eq({ typeName: 'ST_TwipsMeasure', documentation: 'Spacing Below Paragraph' });
+  });
+
+  test('getAttributeDefinition should not get the definition of attributes that are not declared on the element', function () {
+    expect(schemaSet.getAttributeDefinition(['{urn:test:main}document', '{urn:test:main}p'], '{urn:test:main}after')).to.be.undefined;
+  });
+});
@@ -0,0 +1,42 @@
+import { expect } from 'chai';
+import { XmlTagScanner } from '../../../src/utilities/xml-tag-scanner';
+
+suite('XmlTagScanner', function () {
+  const header = '<?xml version="1.0"?><w:document xmlns:w="urn:w"><w:body>';
+
+  test('findUnfinishedTag should find the tag the text ends in and the elements it is in', function () {
+    const tag = XmlTagScanner.findUnfinishedTag(`${header}<w:p><w:r/></w:p><!-- <w:tbl> --><w:p xmlns:x="urn:x" w:rsidR="00`);
+
+    expect(tag?.ancestorPath).to.deep.eq(['{urn:w}document', '{urn:w}body']);
+    expect(tag?.qualifiedName).to.eq('w:p');
+    expect(tag?.attributesText).to.eq(' xmlns:x="urn:x" w:rsidR="00');
+    expect([...(tag?.namespaces ?? [])]).to.deep.eq([
+      ['w', 'urn:w'],
+      ['x', 'urn:x'],
+    ]);
+  });
+
+  test('findUnfinishedTag should find a tag that only has a <', function () {
+    const tag = XmlTagScanner.findUnfinishedTag(`${header}<`);
+
+    expect(tag?.ancestorPath).to.deep.eq(['{urn:w}document', '{urn:w}body']);
+    expect(tag?.qualifiedName).to.eq('');
+  });
+
+  test('findUnfinishedTag should not find a tag in text content, comments and end tags', function () {
+    expect(XmlTagScanner.findUnfinishedTag(`${header}text`)).to.be.undefined;
+    expect(XmlTagScanner.findUnfinishedTag(`${header}<!-- <w:p `)).to.be.undefined;
+    expect(XmlTagScanner.findUnfinishedTag(`${header}</w:bo`)).to.be.undefined;
+  });
+
+  test('resolveName should put unprefixed elements in the default namespace and unprefixed attributes in no namespace', function () {
+    const namespaces = new Map([
+      ['', 'urn:default'],
+      ['w', 'urn:w'],
+    ]);
+
+    expect(XmlTagScanner.resolveName('p', namespaces, true)).to.eq('{urn:default}p');
+    expect(XmlTagScanner.resolveName('w:p', namespaces, true)).to.eq('{urn:w}p');
+    expect(XmlTagScanner.resolveName('id', namespaces, false)).to.eq('{}id');
+  });
+});